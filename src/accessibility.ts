@@ -0,0 +1,172 @@
+/**
+ * Accessibility rule set for form schemas.
+ *
+ * Flags components that keep a rendered form from meeting WCAG 2.1 level
+ * A: fields and buttons without an accessible name, images without a text
+ * alternative, untitled iframes, single-option radio groups / checklists
+ * and text blocks that skip heading levels. Every finding names the rule
+ * and the WCAG success criterion it relates to.
+ *
+ * The rule set is separate from `validateFormSchema` — an inaccessible
+ * form is still a valid form. It backs the `accessibility` facet of
+ * `inspect_form` and, when enabled with `setAccessibilityHints` (CLI:
+ * `--accessibility-hints`), the `_hints` of mutation responses.
+ */
+
+import { type FormComponent, type FormSchema } from './types';
+import { KEYED_FIELD_TYPES } from './constants';
+import { type ValidationIssue } from './validator';
+
+export type AccessibilityRule =
+  | 'field-label'
+  | 'image-alt'
+  | 'button-label'
+  | 'single-option'
+  | 'iframe-title'
+  | 'heading-order';
+
+export interface AccessibilityIssue extends ValidationIssue {
+  rule: AccessibilityRule;
+  /** WCAG 2.1 success criterion, e.g. `1.1.1 Non-text Content (A)`. */
+  wcag: string;
+}
+
+const WCAG = {
+  nonTextContent: '1.1.1 Non-text Content (A)',
+  infoAndRelationships: '1.3.1 Info and Relationships (A)',
+  labelsOrInstructions: '3.3.2 Labels or Instructions (A)',
+  nameRoleValue: '4.1.2 Name, Role, Value (A)',
+} as const;
+
+let accessibilityHints = false;
+
+/** Include accessibility findings in the `_hints` of mutation responses. */
+export function setAccessibilityHints(enabled: boolean): void {
+  accessibilityHints = enabled;
+}
+
+/** Whether accessibility findings are included in mutation hints. */
+export function getAccessibilityHints(): boolean {
+  return accessibilityHints;
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== 'string' || value.trim() === '';
+}
+
+function nameOf(comp: FormComponent): string {
+  return comp.id ?? comp.key ?? comp.type;
+}
+
+/** Keyed fields users interact with (expression fields are not rendered). */
+function isLabelledField(type: string): boolean {
+  return type !== 'expression' && (KEYED_FIELD_TYPES as readonly string[]).includes(type);
+}
+
+function checkComponent(comp: FormComponent): AccessibilityIssue | undefined {
+  const base = { severity: 'error' as const, componentId: comp.id };
+  if (isLabelledField(comp.type) && isBlank(comp.label)) {
+    return {
+      ...base,
+      rule: 'field-label',
+      wcag: WCAG.labelsOrInstructions,
+      property: 'label',
+      message: `${comp.type} ${nameOf(comp)} has no label`,
+      suggestion: 'Add a label that tells users what to enter',
+    };
+  }
+  if (comp.type === 'image' && comp.alt === undefined) {
+    return {
+      ...base,
+      rule: 'image-alt',
+      wcag: WCAG.nonTextContent,
+      property: 'alt',
+      message: `Image ${nameOf(comp)} has no alternative text`,
+      suggestion: 'Set alt to describe the image (use an empty alt only for decorative images)',
+    };
+  }
+  if (comp.type === 'button' && isBlank(comp.label)) {
+    return {
+      ...base,
+      rule: 'button-label',
+      wcag: WCAG.nameRoleValue,
+      property: 'label',
+      message: `Button ${nameOf(comp)} has no label`,
+      suggestion: 'Add a label that names the action (e.g. "Submit")',
+    };
+  }
+  if (comp.type === 'iframe' && isBlank(comp.title)) {
+    return {
+      ...base,
+      rule: 'iframe-title',
+      wcag: WCAG.nameRoleValue,
+      property: 'title',
+      message: `iFrame ${nameOf(comp)} has no title`,
+      suggestion: 'Set title to describe the embedded content',
+    };
+  }
+  if ((comp.type === 'radio' || comp.type === 'checklist') && comp.values?.length === 1) {
+    return {
+      ...base,
+      severity: 'warning',
+      rule: 'single-option',
+      wcag: WCAG.nameRoleValue,
+      property: 'values',
+      message: `${comp.type} ${nameOf(comp)} offers a single option`,
+      suggestion: 'Use a checkbox for a single yes/no choice, or add the other options',
+    };
+  }
+  return undefined;
+}
+
+// ── Heading order ──────────────────────────────────────────────────────────
+
+/** Heading levels of a text (Markdown `#` headings) or html (`<hN>`) block. */
+export function headingLevels(comp: FormComponent): number[] {
+  const source = comp.type === 'text' ? comp.text : comp.type === 'html' ? comp.content : undefined;
+  if (typeof source !== 'string' || source.startsWith('=')) return [];
+  const pattern = comp.type === 'text' ? /^ {0,3}(#{1,6})\s/gm : /<h([1-6])[\s>]/gi;
+  return [...source.matchAll(pattern)].map((match) =>
+    comp.type === 'text' ? match[1].length : Number(match[1])
+  );
+}
+
+function checkHeadingOrder(components: FormComponent[]): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  let previous: number | undefined;
+  const walk = (list: FormComponent[]) => {
+    for (const comp of list) {
+      for (const level of headingLevels(comp)) {
+        if (previous !== undefined && level > previous + 1) {
+          issues.push({
+            severity: 'warning',
+            componentId: comp.id,
+            rule: 'heading-order',
+            wcag: WCAG.infoAndRelationships,
+            property: comp.type === 'text' ? 'text' : 'content',
+            message: `${nameOf(comp)} skips from heading level ${previous} to ${level}`,
+            suggestion: `Use heading level ${previous + 1} or lower`,
+          });
+        }
+        previous = level;
+      }
+      if (comp.components) walk(comp.components);
+    }
+  };
+  walk(components);
+  return issues;
+}
+
+/** Run the accessibility rule set: per-component findings, then heading order. */
+export function checkAccessibility(schema: FormSchema): AccessibilityIssue[] {
+  const issues: AccessibilityIssue[] = [];
+  const walk = (list: FormComponent[]) => {
+    for (const comp of list) {
+      const issue = checkComponent(comp);
+      if (issue) issues.push(issue);
+      if (comp.components) walk(comp.components);
+    }
+  };
+  walk(schema.components ?? []);
+  return [...issues, ...checkHeadingOrder(schema.components ?? [])];
+}
@@ -0,0 +1,250 @@
+/**
+ * Auto-layout strategies for `modify_form_component` (action `auto-layout`).
+ *
+ * Assigns `layout.columns` / `layout.row` to the components of a container
+ * (and everything nested in it):
+ * - `single-column`: every component spans the full grid
+ * - `two-column`: regular fields are paired side by side
+ * - `compact`: fields flow into rows at a width derived from their type
+ *   (configurable per type) and the length of their label
+ *
+ * Adjacent fields that belong together — first and last name, postal code
+ * and city, amount and currency — share a row of their own in the
+ * `two-column` and `compact` strategies. With `preserveExisting`, only
+ * components without a layout are laid out; hand-tuned layouts and their
+ * row IDs stay as they are.
+ */
+
+import { type FormComponent } from './types';
+import { generateRowId, fitWidths } from './grid-layout';
+
+export type LayoutStrategy = 'single-column' | 'two-column' | 'compact';
+
+export const LAYOUT_STRATEGIES: readonly LayoutStrategy[] = [
+  'single-column',
+  'two-column',
+  'compact',
+];
+
+export interface AutoLayoutOptions {
+  strategy: LayoutStrategy;
+  gridWidth: number;
+  /** Only lay out components that have no layout yet. */
+  preserveExisting?: boolean;
+  /** Per-type widths for the `compact` strategy, overriding the defaults. */
+  widths?: Record<string, number>;
+}
+
+/** Types that always span the full row. */
+const FULL_WIDTH_TYPES = new Set([
+  'text',
+  'html',
+  'separator',
+  'spacer',
+  'table',
+  'documentPreview',
+  'image',
+  'group',
+  'dynamiclist',
+  'iframe',
+  'button',
+]);
+
+/** Approximate label characters per grid column (compact strategy). */
+const LABEL_CHARS_PER_COLUMN = 5;
+
+/**
+ * Fields that belong on one row when adjacent, matched against the last
+ * words of a field's key (`billingPostalCode` matches `postal code`).
+ */
+const AFFINITY_GROUPS: readonly (readonly string[][])[] = [
+  ['first name', 'given name', 'middle name', 'last name', 'family name', 'surname'],
+  ['street', 'house number', 'street number'],
+  ['postal code', 'post code', 'zip', 'zip code', 'city', 'town'],
+  ['amount', 'price', 'total', 'currency'],
+  ['quantity', 'unit'],
+  ['start date', 'end date'],
+  ['valid from', 'valid to', 'valid until'],
+  ['latitude', 'longitude'],
+  ['iban', 'bic'],
+].map((group) => group.map((name) => name.split(' ')));
+
+function setLayout(comp: FormComponent, columns: number, row?: string): void {
+  if (!comp.layout) comp.layout = {};
+  comp.layout.columns = columns;
+  if (row) comp.layout.row = row;
+  else delete comp.layout.row;
+}
+
+/** Lay out components side by side on a new row (alone: full width, no row). */
+function placeRow(members: FormComponent[], widths: number[]): void {
+  const row = members.length > 1 ? generateRowId() : undefined;
+  members.forEach((comp, i) => setLayout(comp, widths[i], row));
+}
+
+function hasLayout(comp: FormComponent): boolean {
+  return comp.layout?.columns !== undefined || comp.layout?.row !== undefined;
+}
+
+// ── Semantic affinity ──────────────────────────────────────────────────────
+
+function keyWords(key: string): string[] {
+  const last = key.split('.').pop() ?? key;
+  return last
+    .split(/[^A-Za-z0-9]+|(?<=[a-z0-9])(?=[A-Z])/)
+    .filter(Boolean)
+    .map((word) => word.toLowerCase());
+}
+
+/** Index of the affinity group and member a field's key matches, if any. */
+function affinityOf(comp: FormComponent): { group: number; member: string } | undefined {
+  if (!comp.key || FULL_WIDTH_TYPES.has(comp.type)) return undefined;
+  const words = keyWords(comp.key);
+  for (const [group, members] of AFFINITY_GROUPS.entries()) {
+    for (const member of members) {
+      const tail = words.slice(-member.length);
+      if (tail.length === member.length && tail.every((word, i) => word === member[i])) {
+        return { group, member: member.join(' ') };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Split components into layout units: runs of adjacent fields of the same
+ * affinity group (each member at most once), and single components.
+ */
+function affinityUnits(components: FormComponent[]): FormComponent[][] {
+  const units: FormComponent[][] = [];
+  let run: { group: number; members: Set<string>; unit: FormComponent[] } | undefined;
+  for (const comp of components) {
+    const affinity = affinityOf(comp);
+    if (run && affinity?.group === run.group && !run.members.has(affinity.member)) {
+      run.members.add(affinity.member);
+      run.unit.push(comp);
+      continue;
+    }
+    const unit = [comp];
+    units.push(unit);
+    run = affinity
+      ? { group: affinity.group, members: new Set([affinity.member]), unit }
+      : undefined;
+  }
+  return units;
+}
+
+// ── Strategies ─────────────────────────────────────────────────────────────
+
+function layoutSingleColumn(components: FormComponent[], gridWidth: number): void {
+  for (const comp of components) setLayout(comp, gridWidth);
+}
+
+function layoutTwoColumn(components: FormComponent[], gridWidth: number): void {
+  const halfWidth = Math.floor(gridWidth / 2);
+  let pending: FormComponent | undefined;
+  const flush = () => {
+    if (pending) setLayout(pending, gridWidth);
+    pending = undefined;
+  };
+
+  for (const unit of affinityUnits(components)) {
+    const [comp] = unit;
+    if (unit.length > 1) {
+      flush();
+      placeRow(unit, fitWidths(Array(unit.length).fill(1), gridWidth));
+    } else if (FULL_WIDTH_TYPES.has(comp.type)) {
+      flush();
+      setLayout(comp, gridWidth);
+    } else if (pending) {
+      placeRow([pending, comp], [halfWidth, gridWidth - halfWidth]);
+      pending = undefined;
+    } else {
+      pending = comp;
+    }
+  }
+  flush();
+}
+
+function typeWidth(type: string, gridWidth: number): number {
+  if (type === 'checkbox') return Math.max(4, Math.floor(gridWidth / 4));
+  if (type === 'number' || type === 'datetime') return Math.max(4, Math.floor(gridWidth / 3));
+  // textfield, textarea, select, radio, etc.
+  return Math.floor(gridWidth / 2);
+}
+
+/** Width of a field in the compact strategy: its type's width, widened for long labels. */
+function naturalWidth(comp: FormComponent, options: AutoLayoutOptions): number {
+  const { gridWidth } = options;
+  const rule = options.widths?.[comp.type] ?? typeWidth(comp.type, gridWidth);
+  const label = comp.label && !comp.label.startsWith('=') ? comp.label : '';
+  const labelWidth = Math.ceil(label.length / LABEL_CHARS_PER_COLUMN);
+  return Math.max(1, Math.min(Math.max(rule, labelWidth), gridWidth));
+}
+
+function layoutCompact(components: FormComponent[], options: AutoLayoutOptions): void {
+  const { gridWidth } = options;
+  let row: { id: string; remaining: number } | undefined;
+
+  for (const unit of affinityUnits(components)) {
+    const [comp] = unit;
+    if (FULL_WIDTH_TYPES.has(comp.type)) {
+      row = undefined;
+      setLayout(comp, gridWidth);
+      continue;
+    }
+    if (unit.length > 1) {
+      row = undefined;
+      const widths = unit.map((member) => naturalWidth(member, options));
+      const total = widths.reduce((sum, width) => sum + width, 0);
+      placeRow(unit, total > gridWidth ? fitWidths(widths, gridWidth) : widths);
+      continue;
+    }
+
+    const width = naturalWidth(comp, options);
+    if (!row || width > row.remaining) row = { id: generateRowId(), remaining: gridWidth };
+    setLayout(comp, width, row.id);
+    row.remaining -= width;
+    if (row.remaining <= 0) row = undefined;
+  }
+}
+
+function layoutSegment(components: FormComponent[], options: AutoLayoutOptions): void {
+  switch (options.strategy) {
+    case 'single-column':
+      layoutSingleColumn(components, options.gridWidth);
+      break;
+    case 'two-column':
+      layoutTwoColumn(components, options.gridWidth);
+      break;
+    case 'compact':
+      layoutCompact(components, options);
+      break;
+  }
+}
+
+/**
+ * Lay out a component list and everything nested in it. Returns the
+ * number of components that were laid out.
+ */
+export function autoLayout(components: FormComponent[], options: AutoLayoutOptions): number {
+  let count = 0;
+  // With preserveExisting, each run of components without a layout is laid
+  // out on its own, so rows never merge across a preserved component.
+  let segment: FormComponent[] = [];
+  const flush = () => {
+    if (segment.length > 0) layoutSegment(segment, options);
+    count += segment.length;
+    segment = [];
+  };
+  for (const comp of components) {
+    if (options.preserveExisting && hasLayout(comp)) flush();
+    else segment.push(comp);
+  }
+  flush();
+
+  for (const comp of components) {
+    if (comp.components) count += autoLayout(comp.components, options);
+  }
+  return count;
+}
@@ -0,0 +1,373 @@
+/**
+ * Conditional logic analysis.
+ *
+ * Finds `conditional.hide` and `expression` logic that cannot work as
+ * intended: expression fields that depend on each other in a cycle, fields
+ * whose `hide` condition reads their own value (directly, through fields
+ * nested inside them or through expression fields), fields whose condition
+ * contradicts an enclosing group's so that they are never visible, and
+ * constant conditions such as `=true`. Dependencies come from the variable
+ * dependency graph (see `dependency-graph.ts`).
+ *
+ * Contradictions are found by evaluating both conditions for every
+ * combination of the values they compare their variables with (plus the
+ * values around them, and `null` for an unset variable); a pair is
+ * reported only when each combination hides the field for certain, so
+ * conditions the evaluator cannot decide are left alone.
+ */
+
+import { type FormComponent, type FormSchema } from './types';
+import { type FeelNode, childNodes, evaluateFeel, parseFeel, walkFeel } from './feel';
+import { type DependencyGraph, buildDependencyGraph, componentNames } from './dependency-graph';
+import { type NameReference, ReferenceResolver, forEachPropertyValue } from './feel-references';
+import { type ValidationIssue } from './validator';
+
+/** Upper bound of value combinations tried per condition pair. */
+const MAX_COMBINATIONS = 4096;
+
+/** Functions whose result changes over time; conditions calling them are not constant. */
+const TIME_FUNCTIONS = new Set(['now', 'today']);
+
+const COMPARISONS = new Set(['=', '!=', '<', '<=', '>', '>=']);
+
+const HIDE = 'conditional.hide';
+
+/** Graph names of components (see `componentNames`). */
+type Names = Map<FormComponent, string>;
+
+interface HideCondition {
+  component: FormComponent;
+  name: string;
+  source: string;
+  node: FeelNode;
+  references: NameReference[];
+}
+
+function variablePath(reference: NameReference): string {
+  return reference.path.join('.').replace(/\[\]$/, '');
+}
+
+/** Enclosing components of every component, outermost first. */
+function ancestorsOf(components: FormComponent[]): Map<FormComponent, FormComponent[]> {
+  const ancestors = new Map<FormComponent, FormComponent[]>();
+  const walk = (list: FormComponent[], stack: FormComponent[]) => {
+    for (const comp of list) {
+      ancestors.set(comp, stack);
+      if (comp.components) walk(comp.components, [...stack, comp]);
+    }
+  };
+  walk(components, []);
+  return ancestors;
+}
+
+function collectHideConditions(schema: FormSchema, names: Names): HideCondition[] {
+  const resolver = new ReferenceResolver(schema.components);
+  const conditions: HideCondition[] = [];
+  forEachPropertyValue(schema.components, (entry) => {
+    if (entry.property !== HIDE || !entry.value.startsWith('=')) return;
+    try {
+      const node = parseFeel(entry.value.slice(1));
+      const references = resolver.referencesIn(entry);
+      const { component } = entry;
+      conditions.push({
+        component,
+        name: names.get(component)!,
+        source: entry.value,
+        node,
+        references,
+      });
+    } catch {
+      // Syntax errors are reported by the FEEL checks
+    }
+  });
+  return conditions;
+}
+
+/** Variables a component reads in one property. */
+function readsOf(graph: DependencyGraph, component: string, property: string): string[] {
+  return graph.edges
+    .filter((e) => e.kind === 'reads' && e.component === component && e.property === property)
+    .map((e) => e.variable);
+}
+
+// ── Expression cycles ──────────────────────────────────────────────────────
+
+function checkExpressionCycles(
+  schema: FormSchema,
+  graph: DependencyGraph,
+  names: Names
+): ValidationIssue[] {
+  const expressions = new Set<string>();
+  forEachPropertyValue(schema.components, ({ component, property }) => {
+    if (component.type === 'expression' && property === 'expression') {
+      expressions.add(names.get(component)!);
+    }
+  });
+  const producers = new Map(graph.variables.map((v) => [v.path, v.producedBy]));
+  const dependencies = (name: string) => [
+    ...new Set(
+      readsOf(graph, name, 'expression').flatMap((variable) =>
+        (producers.get(variable) ?? []).filter((p) => expressions.has(p))
+      )
+    ),
+  ];
+
+  const issues: ValidationIssue[] = [];
+  const reported = new Set<string>();
+  const done = new Set<string>();
+  const visit = (name: string, stack: string[]) => {
+    if (done.has(name)) return;
+    const open = stack.indexOf(name);
+    if (open >= 0) {
+      const cycle = stack.slice(open);
+      const id = [...cycle].sort().join('\n');
+      if (reported.has(id)) return;
+      reported.add(id);
+      issues.push({
+        severity: 'error',
+        componentId: cycle[0],
+        property: 'expression',
+        message:
+          cycle.length === 1
+            ? `Expression field ${name} reads its own value`
+            : `Expression fields depend on each other in a cycle: ${[...cycle, name].join(' → ')}`,
+        suggestion: 'Break the cycle so no expression field reads a value computed from itself',
+      });
+      return;
+    }
+    for (const next of dependencies(name)) visit(next, [...stack, name]);
+    done.add(name);
+  };
+  for (const name of expressions) visit(name, []);
+  return issues;
+}
+
+// ── Self-dependent conditions ──────────────────────────────────────────────
+
+/**
+ * The first variable a condition reads that the component itself or a
+ * field inside it produces, following expression fields in between.
+ */
+function findSelfDependency(
+  condition: HideCondition,
+  graph: DependencyGraph,
+  inside: Set<string>
+): { variable: string; owner: string; via: string[] } | undefined {
+  const producers = new Map(graph.variables.map((v) => [v.path, v.producedBy]));
+  const queue = readsOf(graph, condition.name, HIDE).map((variable) => ({
+    variable,
+    via: [] as string[],
+  }));
+  const seen = new Set<string>();
+  for (const { variable, via } of queue) {
+    const owners = producers.get(variable) ?? [];
+    const owner = owners.find((p) => p === condition.name || inside.has(p));
+    if (owner) return { variable, owner, via };
+    for (const expression of owners.filter((p) => !seen.has(p))) {
+      seen.add(expression);
+      for (const next of readsOf(graph, expression, 'expression')) {
+        queue.push({ variable: next, via: [...via, expression] });
+      }
+    }
+  }
+  return undefined;
+}
+
+function checkSelfDependentHide(
+  conditions: HideCondition[],
+  graph: DependencyGraph,
+  ancestors: Map<FormComponent, FormComponent[]>,
+  names: Names
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const condition of conditions) {
+    const { component, name } = condition;
+    const inside = new Set(
+      [...ancestors].filter(([, stack]) => stack.includes(component)).map(([c]) => names.get(c)!)
+    );
+    const found = findSelfDependency(condition, graph, inside);
+    if (!found) continue;
+    const whose = found.owner === name ? 'its own value' : `the value of ${found.owner} inside it`;
+    const through = found.via.length > 0 ? ` (through ${found.via.join(' → ')})` : '';
+    issues.push({
+      severity: 'warning',
+      componentId: component.id,
+      property: HIDE,
+      message: `conditional.hide of ${name} depends on ${whose}, "${found.variable}"${through}`,
+      suggestion:
+        'Base the condition on other fields — once hidden, the field cannot be changed ' +
+        'to show it again',
+    });
+  }
+  return issues;
+}
+
+// ── Constant conditions ────────────────────────────────────────────────────
+
+function callsTimeFunction(node: FeelNode): boolean {
+  let found = false;
+  walkFeel(node, (n) => {
+    if (n.kind === 'Call' && n.callee.kind === 'Name' && TIME_FUNCTIONS.has(n.callee.name)) {
+      found = true;
+    }
+  });
+  return found;
+}
+
+function evaluate(node: FeelNode, context: Record<string, unknown>): unknown {
+  try {
+    return evaluateFeel(node, context);
+  } catch {
+    return undefined;
+  }
+}
+
+function isConstant(condition: HideCondition): boolean {
+  return condition.references.length === 0 && !callsTimeFunction(condition.node);
+}
+
+function checkConstantHide(conditions: HideCondition[]): ValidationIssue[] {
+  return conditions
+    .filter((condition) => isConstant(condition) && evaluate(condition.node, {}) === true)
+    .map(({ component, name, source }) => ({
+      severity: 'warning',
+      componentId: component.id,
+      property: HIDE,
+      message: `conditional.hide of ${name} is always true ("${source}"), so ${name} is never visible`,
+      suggestion: 'Remove the condition, or base it on a form or process variable',
+    }));
+}
+
+// ── Contradicting group conditions ─────────────────────────────────────────
+
+/** Literal values of a node (`-5` included). */
+function literalValues(node: FeelNode): unknown[] {
+  if (node.kind === 'Literal') return node.value === null ? [] : [node.value];
+  if (node.kind === 'Unary' && node.operand.kind === 'Literal') {
+    return typeof node.operand.value === 'number' ? [-node.operand.value] : [];
+  }
+  return childNodes(node).flatMap(literalValues);
+}
+
+/** Values each variable is compared with, by data path. */
+function comparedValues(condition: HideCondition, into: Map<string, unknown[]>): void {
+  const byStart = new Map(condition.references.map((r) => [r.chain[0].start - 1, r]));
+  walkFeel(condition.node, (node) => {
+    let operands: FeelNode[] = [];
+    if (node.kind === 'Binary' && COMPARISONS.has(node.op)) operands = [node.left, node.right];
+    if (node.kind === 'Between') operands = [node.value, node.low, node.high];
+    if (node.kind === 'In') operands = [node.value, ...node.tests];
+    for (const operand of operands) {
+      const reference = byStart.get(operand.start);
+      if (!reference || reference.chain.at(-1)!.end - 1 !== operand.end) continue;
+      const others = operands.filter((o) => o !== operand).flatMap(literalValues);
+      const path = variablePath(reference);
+      into.set(path, [...(into.get(path) ?? []), ...others]);
+    }
+  });
+}
+
+/**
+ * Candidate values: the compared values, their neighbours, one unmatched
+ * string and `null` for a variable that is not set.
+ */
+function candidates(values: unknown[]): unknown[] {
+  if (values.length === 0) return [true, false, null];
+  const numbers = [...new Set(values.filter((v) => typeof v === 'number'))].sort((a, b) => a - b);
+  const strings = [...new Set(values.filter((v) => typeof v === 'string'))];
+  const result = new Set<unknown>(values.filter((v) => typeof v === 'boolean'));
+  numbers.forEach((n, i) => {
+    for (const value of [n - 1, n, n + 1]) result.add(value);
+    if (i > 0) result.add((numbers[i - 1] + n) / 2);
+  });
+  for (const value of strings) result.add(value);
+  if (strings.length > 0) result.add(`${strings.join('')}_`);
+  result.add(null);
+  return [...result];
+}
+
+function contextFor(condition: HideCondition, values: Map<string, unknown>) {
+  const context: Record<string, any> = {};
+  for (const reference of condition.references) {
+    const names = reference.chain.map((s) => s.name);
+    let target = context;
+    for (const name of names.slice(0, -1)) {
+      if (typeof target[name] !== 'object' || target[name] === null) target[name] = {};
+      target = target[name];
+    }
+    target[names.at(-1)!] = values.get(variablePath(reference));
+  }
+  return context;
+}
+
+/**
+ * Whether the field can never show inside its group: for every combination
+ * of candidate values one of the conditions is `true`, while each of them
+ * is `false` for some combination.
+ */
+function contradicts(outer: HideCondition, inner: HideCondition): boolean {
+  const outerPaths = new Set(outer.references.map(variablePath));
+  if (!inner.references.some((r) => outerPaths.has(variablePath(r)))) return false;
+  const compared = new Map<string, unknown[]>();
+  for (const condition of [outer, inner]) {
+    for (const reference of condition.references) compared.set(variablePath(reference), []);
+    comparedValues(condition, compared);
+  }
+  const domains = [...compared].map(([path, values]) => ({ path, values: candidates(values) }));
+  if (domains.reduce((n, d) => n * d.values.length, 1) > MAX_COMBINATIONS) return false;
+
+  let outerShows = false;
+  let innerShows = false;
+  const check = (index: number, values: Map<string, unknown>): boolean => {
+    if (index === domains.length) {
+      const outerHides = evaluate(outer.node, contextFor(outer, values));
+      const innerHides = evaluate(inner.node, contextFor(inner, values));
+      outerShows ||= outerHides === false;
+      innerShows ||= innerHides === false;
+      return outerHides === true || innerHides === true;
+    }
+    const { path, values: options } = domains[index];
+    return options.every((value) => check(index + 1, new Map(values).set(path, value)));
+  };
+  return check(0, new Map()) && outerShows && innerShows;
+}
+
+function checkContradictions(
+  conditions: HideCondition[],
+  ancestors: Map<FormComponent, FormComponent[]>
+): ValidationIssue[] {
+  const byComponent = new Map(conditions.map((c) => [c.component, c]));
+  const issues: ValidationIssue[] = [];
+  for (const inner of conditions) {
+    if (isConstant(inner)) continue;
+    for (const ancestor of ancestors.get(inner.component) ?? []) {
+      const outer = byComponent.get(ancestor);
+      if (!outer || isConstant(outer) || !contradicts(outer, inner)) continue;
+      issues.push({
+        severity: 'warning',
+        componentId: inner.component.id,
+        property: HIDE,
+        message:
+          `${inner.name} is never visible: whenever its condition "${inner.source}" shows it, ` +
+          `${outer.name} is hidden by "${outer.source}"`,
+        suggestion: `Align the conditions of ${inner.name} and ${outer.name}, or move ${inner.name} out of ${outer.name}`,
+      });
+      break;
+    }
+  }
+  return issues;
+}
+
+/** Circular, self-dependent, contradicting and constant conditional logic. */
+export function checkConditionalLogic(schema: FormSchema): ValidationIssue[] {
+  const graph = buildDependencyGraph(schema);
+  const names = componentNames(schema.components);
+  const ancestors = ancestorsOf(schema.components);
+  const conditions = collectHideConditions(schema, names);
+  return [
+    ...checkExpressionCycles(schema, graph, names),
+    ...checkSelfDependentHide(conditions, graph, ancestors, names),
+    ...checkContradictions(conditions, ancestors),
+    ...checkConstantHide(conditions),
+  ];
+}
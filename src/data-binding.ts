@@ -0,0 +1,103 @@
+/**
+ * Data binding resolution.
+ *
+ * form-js binds a keyed field to its `key` inside the data scope of its
+ * containers: a group or dynamic list with a `path` opens a nested scope
+ * (paths and keys may both be dot-separated), and the children of a dynamic
+ * list are bound per list item. This module computes the full variable
+ * path of every binding — `address.street`, `items[].sku` — so keys are
+ * compared where form-js compares them: within the same scope.
+ */
+
+import { type FormComponent } from './types';
+
+export interface DataBinding {
+  componentId?: string;
+  type: string;
+  /** `key` for a field bound to a value, `path` for a container scope. */
+  kind: 'key' | 'path';
+  /** The `key` or `path` as written on the component. */
+  name: string;
+  /** Full variable path (`billing.street`; list items as `items[].sku`). */
+  path: string;
+  /** Path of the enclosing scope ('' at the root). */
+  scope: string;
+}
+
+/** Join a scope and a key or path. */
+export function joinPath(scope: string, name: string): string {
+  return scope ? `${scope}.${name}` : name;
+}
+
+/** Scope a component opens for its children (its own scope when it has no `path`). */
+export function childScope(comp: FormComponent, scope: string): string {
+  if (!comp.path) return scope;
+  const path = joinPath(scope, comp.path);
+  return comp.type === 'dynamiclist' ? `${path}[]` : path;
+}
+
+/** All key and path bindings of a component tree, in document order. */
+export function resolveBindings(components: FormComponent[], scope = ''): DataBinding[] {
+  const bindings: DataBinding[] = [];
+  for (const comp of components) {
+    const base = { componentId: comp.id, type: comp.type, scope };
+    if (comp.key) {
+      bindings.push({ ...base, kind: 'key', name: comp.key, path: joinPath(scope, comp.key) });
+    }
+    if (comp.path) {
+      bindings.push({ ...base, kind: 'path', name: comp.path, path: joinPath(scope, comp.path) });
+    }
+    if (comp.components) {
+      bindings.push(...resolveBindings(comp.components, childScope(comp, scope)));
+    }
+  }
+  return bindings;
+}
+
+/** Full variable paths of all keyed components. */
+export function boundKeyPaths(components: FormComponent[]): string[] {
+  return resolveBindings(components)
+    .filter((binding) => binding.kind === 'key')
+    .map((binding) => binding.path);
+}
+
+function findScope(
+  components: FormComponent[],
+  componentId: string,
+  scope: string,
+  ofChildren: boolean
+): string | undefined {
+  for (const comp of components) {
+    if (comp.id === componentId) return ofChildren ? childScope(comp, scope) : scope;
+    if (comp.components) {
+      const found = findScope(comp.components, componentId, childScope(comp, scope), ofChildren);
+      if (found !== undefined) return found;
+    }
+  }
+  return undefined;
+}
+
+/** Scope a component is bound in ('' for the root, or when it is not found). */
+export function scopeOfComponent(components: FormComponent[], componentId: string): string {
+  return findScope(components, componentId, '', false) ?? '';
+}
+
+/** Scope children of `parentId` are bound in (the root scope without a parent). */
+export function scopeOfChildren(components: FormComponent[], parentId?: string): string {
+  return parentId ? (findScope(components, parentId, '', true) ?? '') : '';
+}
+
+/**
+ * The paths that enclose `path`, outermost first: `a.b[].c` gives `a`,
+ * `a.b` and `a.b[]`.
+ */
+export function enclosingPaths(path: string): string[] {
+  const segments = path.split('.');
+  const paths: string[] = [];
+  for (let i = 1; i < segments.length; i++) {
+    const prefix = segments.slice(0, i).join('.');
+    if (prefix.endsWith('[]')) paths.push(prefix.slice(0, -2));
+    paths.push(prefix);
+  }
+  return paths;
+}
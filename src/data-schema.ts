@@ -0,0 +1,249 @@
+/**
+ * Submission data schema derivation.
+ *
+ * Derives a JSON Schema (draft 2020-12) describing the data a form submits:
+ * one property per keyed field, nested objects for groups with a `path`
+ * (and dotted keys), and arrays of objects for dynamic lists. `validate`
+ * rules become schema constraints. `toTypeScript` renders the same schema
+ * as a TypeScript interface.
+ *
+ * Fields that are conditionally hidden (directly or through a container)
+ * are never required: form-js does not validate or submit hidden fields.
+ */
+
+import { type FormSchema, type FormComponent, type FormValidation } from './types';
+import { KEYED_FIELD_TYPES, PHONE_PATTERN } from './constants';
+
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: string;
+  format?: string;
+  enum?: string[];
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  readOnly?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// form-js submits times as `HH:mm`, followed by `Z` or a UTC offset
+// depending on `timeSerializingFormat`, which the RFC 3339 `time` and
+// `date-time` formats reject, so those subtypes get a pattern instead.
+const TIME = '\\d{2}:\\d{2}(Z|[+-]\\d{2}:\\d{2})?';
+
+const DATETIME_SCHEMAS: Record<string, JsonSchema> = {
+  date: { type: 'string', format: 'date' },
+  time: { type: 'string', pattern: `^${TIME}$` },
+  datetime: { type: 'string', pattern: `^\\d{4}-\\d{2}-\\d{2}T${TIME}$` },
+};
+
+type LimitName = 'minLength' | 'maxLength' | 'min' | 'max';
+
+const LIMIT_KEYWORDS = {
+  minLength: 'minLength',
+  maxLength: 'maxLength',
+  min: 'minimum',
+  max: 'maximum',
+} as const;
+
+// ── Field types ────────────────────────────────────────────────────────────
+
+function staticEnum(comp: FormComponent): string[] | undefined {
+  return Array.isArray(comp.values) && comp.values.length > 0
+    ? comp.values.map((v) => v.value)
+    : undefined;
+}
+
+/**
+ * Copy numeric limits to their schema keywords. Limits given as FEEL
+ * expressions are only known at runtime; they are named in the description.
+ */
+function limitConstraints(v: FormValidation, names: LimitName[], schema: JsonSchema): void {
+  const dynamic: string[] = [];
+  for (const name of names) {
+    const limit = v[name];
+    const keyword = LIMIT_KEYWORDS[name];
+    if (typeof limit === 'number' && Number.isFinite(limit)) schema[keyword] = limit;
+    else if (typeof limit === 'string' && limit.trim()) dynamic.push(`${keyword} ${limit}`);
+  }
+  if (dynamic.length > 0) schema.description = `Limits set by FEEL: ${dynamic.join(', ')}`;
+}
+
+function stringConstraints(comp: FormComponent, schema: JsonSchema): void {
+  const v = comp.validate;
+  if (!v) return;
+  limitConstraints(v, ['minLength', 'maxLength'], schema);
+  if (v.pattern) schema.pattern = v.pattern;
+  if (v.validationType === 'email') schema.format = 'email';
+  if (v.validationType === 'phone' && !v.pattern) schema.pattern = PHONE_PATTERN.source;
+}
+
+function numberConstraints(comp: FormComponent, schema: JsonSchema): void {
+  if (comp.validate) limitConstraints(comp.validate, ['min', 'max'], schema);
+}
+
+/** Value schema for a keyed field, without the field's title and description. */
+function fieldValueSchema(comp: FormComponent): JsonSchema {
+  const values = staticEnum(comp);
+  switch (comp.type) {
+    case 'number': {
+      // `serializeToString` submits numbers as strings to keep precision
+      if (comp.serializeToString) return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' };
+      const schema: JsonSchema = { type: 'number' };
+      numberConstraints(comp, schema);
+      return schema;
+    }
+    case 'checkbox':
+      return { type: 'boolean' };
+    case 'checklist':
+    case 'taglist':
+      return {
+        type: 'array',
+        items: values ? { type: 'string', enum: values } : { type: 'string' },
+      };
+    case 'radio':
+    case 'select':
+      return values ? { type: 'string', enum: values } : { type: 'string' };
+    case 'datetime':
+      return { ...(DATETIME_SCHEMAS[comp.subtype ?? 'date'] ?? DATETIME_SCHEMAS.date) };
+    case 'filepicker':
+      return { type: 'string', description: 'Uploaded file reference' };
+    case 'expression':
+      return { readOnly: true };
+    default: {
+      const schema: JsonSchema = { type: 'string' };
+      stringConstraints(comp, schema);
+      return schema;
+    }
+  }
+}
+
+function describe(comp: FormComponent, schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  if (comp.label) result.title = comp.label;
+  const description = [comp.description, schema.description].filter(Boolean).join('. ');
+  return description ? { ...result, ...schema, description } : { ...result, ...schema };
+}
+
+// ── Object building ────────────────────────────────────────────────────────
+
+function emptyObject(): JsonSchema {
+  return { type: 'object', properties: {} };
+}
+
+/** Walk (and create) nested objects along a dotted path; returns the innermost object. */
+function descend(target: JsonSchema, segments: string[]): JsonSchema {
+  let current = target;
+  for (const segment of segments) {
+    const props = (current.properties ??= {});
+    const existing = props[segment];
+    current = existing?.type === 'object' ? existing : (props[segment] = emptyObject());
+  }
+  return current;
+}
+
+function addProperty(
+  target: JsonSchema,
+  path: string,
+  schema: JsonSchema,
+  required: boolean
+): void {
+  const segments = path.split('.');
+  const name = segments.pop()!;
+  const parent = descend(target, segments);
+  (parent.properties ??= {})[name] = schema;
+  if (required) {
+    parent.required = [...new Set([...(parent.required ?? []), name])];
+  }
+}
+
+function isHidden(comp: FormComponent): boolean {
+  return typeof comp.conditional?.hide === 'string' && comp.conditional.hide.trim() !== '';
+}
+
+function addComponents(target: JsonSchema, components: FormComponent[], hidden: boolean): void {
+  for (const comp of components) {
+    const compHidden = hidden || isHidden(comp);
+
+    if (comp.type === 'dynamiclist' && comp.path) {
+      const item = emptyObject();
+      addComponents(item, comp.components ?? [], false);
+      addProperty(target, comp.path, describe(comp, { type: 'array', items: item }), false);
+    } else if (comp.components) {
+      const nested = comp.path ? descend(target, comp.path.split('.')) : target;
+      if (comp.path && comp.label && !nested.title) nested.title = comp.label;
+      addComponents(nested, comp.components, compHidden);
+    } else if (comp.key && (KEYED_FIELD_TYPES as readonly string[]).includes(comp.type)) {
+      const required = comp.validate?.required === true && !compHidden;
+      addProperty(target, comp.key, describe(comp, fieldValueSchema(comp)), required);
+    }
+  }
+}
+
+/**
+ * Derive a JSON Schema for the data `schema` submits. Only keyed fields
+ * contribute properties; presentation components and buttons are skipped.
+ */
+export function buildDataSchema(schema: FormSchema, title?: string): JsonSchema {
+  const root: JsonSchema = { $schema: JSON_SCHEMA_DIALECT, ...emptyObject() };
+  if (title) root.title = title;
+  addComponents(root, schema.components, false);
+  return root;
+}
+
+// ── TypeScript rendering ───────────────────────────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+function renderType(schema: JsonSchema, indent: string): string {
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(' | ');
+  switch (schema.type) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return schema.type;
+    case 'array': {
+      const item = renderType(schema.items ?? {}, indent);
+      return item.includes(' | ') ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      return renderObject(schema, indent);
+    default:
+      return 'unknown';
+  }
+}
+
+function renderObject(schema: JsonSchema, indent: string): string {
+  const inner = `${indent}  `;
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).flatMap(([name, prop]) => {
+    const doc = prop.title ?? prop.description;
+    const optional = required.has(name) ? '' : '?';
+    return [
+      ...(doc ? [`${inner}/** ${doc.replaceAll('*/', '*\\/')} */`] : []),
+      `${inner}${prop.readOnly ? 'readonly ' : ''}${propertyName(name)}${optional}: ${renderType(prop, inner)};`,
+    ];
+  });
+  return lines.length ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+/** Render a data schema from `buildDataSchema` as an exported TypeScript interface. */
+export function toTypeScript(schema: JsonSchema, interfaceName: string): string {
+  const body = renderObject(schema, '');
+  const header = schema.title ? `/** ${schema.title} */\n` : '';
+  return body.startsWith('{')
+    ? `${header}export interface ${interfaceName} ${body}\n`
+    : `${header}export type ${interfaceName} = ${body};\n`;
+}
@@ -0,0 +1,239 @@
+/**
+ * Variable dependency graph of a form.
+ *
+ * Links components to the variables they produce — keyed fields
+ * (expression fields included) and the `path` of groups and dynamic lists
+ * — and to the variables they read in FEEL expressions, template
+ * placeholders and `valuesKey` (resolved per data scope, see
+ * `feel-references.ts`). A variable that is read but produced by no
+ * component has to come from the process. Expressions that do not parse
+ * are left out; the validator reports them. Components without an ID are
+ * named by their position (`components[2].components[0]`).
+ *
+ * The graph renders as a Mermaid flowchart or a Graphviz DOT digraph for
+ * pasting into reviews.
+ */
+
+import { type FormComponent, type FormSchema } from './types';
+import { childScope, joinPath } from './data-binding';
+import { ReferenceResolver, forEachPropertyValue } from './feel-references';
+
+export type GraphFormat = 'json' | 'mermaid' | 'dot';
+
+export const GRAPH_FORMATS: readonly GraphFormat[] = ['json', 'mermaid', 'dot'];
+
+export interface DependencyEdge {
+  kind: 'produces' | 'reads';
+  /** Component ID (position for components without an ID). */
+  component: string;
+  /** Full data path of the variable (`items[].sku`). */
+  variable: string;
+  /** Property that reads the variable (`conditional.hide`, `valuesKey`, …). */
+  property?: string;
+}
+
+export interface VariableNode {
+  path: string;
+  /** `process` when no component produces the variable. */
+  source: 'form' | 'process';
+  producedBy: string[];
+  readBy: string[];
+}
+
+export interface ComponentNode {
+  id: string;
+  type: string;
+}
+
+export interface DependencyGraph {
+  components: ComponentNode[];
+  variables: VariableNode[];
+  edges: DependencyEdge[];
+  /** Variables the form reads that must be provided by the process. */
+  processVariables: string[];
+}
+
+/**
+ * Graph name of every component: its ID, or its position
+ * (`components[2].components[0]`) when it has none.
+ */
+export function componentNames(components: FormComponent[]): Map<FormComponent, string> {
+  const names = new Map<FormComponent, string>();
+  const walk = (list: FormComponent[], at: string) => {
+    list.forEach((comp, index) => {
+      const position = `${at}[${index}]`;
+      names.set(comp, comp.id ?? position);
+      if (comp.components) walk(comp.components, `${position}.components`);
+    });
+  };
+  walk(components, 'components');
+  return names;
+}
+
+/** A key or path binding with the graph name of its component. */
+interface Binding {
+  owner: string;
+  type: string;
+  kind: 'key' | 'path';
+  path: string;
+}
+
+function bindingsOf(
+  components: FormComponent[],
+  names: Map<FormComponent, string>,
+  scope = ''
+): Binding[] {
+  return components.flatMap((comp) => {
+    const base = { owner: names.get(comp)!, type: comp.type };
+    return [
+      ...(comp.key ? [{ ...base, kind: 'key' as const, path: joinPath(scope, comp.key) }] : []),
+      ...(comp.path ? [{ ...base, kind: 'path' as const, path: joinPath(scope, comp.path) }] : []),
+      ...(comp.components ? bindingsOf(comp.components, names, childScope(comp, scope)) : []),
+    ];
+  });
+}
+
+/** Data path of a reference; reading a list item (`this`) reads the list. */
+function variablePath(segments: string[]): string {
+  return segments.join('.').replace(/\[\]$/, '');
+}
+
+/**
+ * Bindings that produce a variable: the ones bound to its path, else a
+ * field holding an object the variable is part of, else the fields
+ * nested under it.
+ */
+function producersOf(path: string, bindings: Binding[]): Binding[] {
+  const exact = bindings.filter((b) => b.path === path);
+  if (exact.length > 0) return exact;
+  const enclosing = bindings.filter((b) => b.kind === 'key' && path.startsWith(`${b.path}.`));
+  if (enclosing.length > 0) return enclosing;
+  return bindings.filter((b) => b.path.startsWith(`${path}.`) || b.path.startsWith(`${path}[].`));
+}
+
+export function buildDependencyGraph(schema: FormSchema): DependencyGraph {
+  const names = componentNames(schema.components);
+  const bindings = bindingsOf(schema.components, names);
+  const resolver = new ReferenceResolver(schema.components);
+  const components = new Map<string, ComponentNode>();
+  const addComponent = (id: string, type: string) => {
+    if (!components.has(id)) components.set(id, { id, type });
+  };
+
+  const reads: DependencyEdge[] = [];
+  const seen = new Set<string>();
+  forEachPropertyValue(schema.components, (entry) => {
+    let references;
+    try {
+      references = resolver.referencesIn(entry);
+    } catch {
+      return;
+    }
+    const component = names.get(entry.component)!;
+    for (const reference of references) {
+      const variable = variablePath(reference.path);
+      const id = `${component}\n${entry.property}\n${variable}`;
+      if (!variable || seen.has(id)) continue;
+      seen.add(id);
+      addComponent(component, entry.component.type);
+      reads.push({ kind: 'reads', component, variable, property: entry.property });
+    }
+  });
+
+  const paths = new Set([
+    ...bindings.filter((b) => b.kind === 'key').map((b) => b.path),
+    ...reads.map((edge) => edge.variable),
+  ]);
+  const produces: DependencyEdge[] = [];
+  const variables = [...paths].map((path): VariableNode => {
+    const producedBy = producersOf(path, bindings).map(({ owner, type }) => {
+      addComponent(owner, type);
+      produces.push({ kind: 'produces', component: owner, variable: path });
+      return owner;
+    });
+    const readBy = [...new Set(reads.filter((e) => e.variable === path).map((e) => e.component))];
+    return { path, source: producedBy.length > 0 ? 'form' : 'process', producedBy, readBy };
+  });
+
+  return {
+    components: [...components.values()],
+    variables,
+    edges: [...produces, ...reads],
+    processVariables: variables.filter((v) => v.source === 'process').map((v) => v.path),
+  };
+}
+
+// ── Rendering ──────────────────────────────────────────────────────────────
+
+/** Stable node IDs for diagram output: `c0`, `c1`, … and `v0`, `v1`, … */
+function nodeIds(graph: DependencyGraph) {
+  const componentIds = new Map(graph.components.map((c, i) => [c.id, `c${i}`]));
+  const variableIds = new Map(graph.variables.map((v, i) => [v.path, `v${i}`]));
+  return { componentIds, variableIds };
+}
+
+function mermaidText(text: string): string {
+  return text.replaceAll('"', '#quot;');
+}
+
+/** Mermaid flowchart: fields produce variables (solid), components read them (dashed). */
+export function toMermaid(graph: DependencyGraph): string {
+  const { componentIds, variableIds } = nodeIds(graph);
+  const lines = ['flowchart LR'];
+  for (const comp of graph.components) {
+    lines.push(`  ${componentIds.get(comp.id)}["${mermaidText(`${comp.id} (${comp.type})`)}"]`);
+  }
+  for (const variable of graph.variables) {
+    lines.push(`  ${variableIds.get(variable.path)}(["${mermaidText(variable.path)}"])`);
+  }
+  for (const edge of graph.edges) {
+    const component = componentIds.get(edge.component);
+    const variable = variableIds.get(edge.variable);
+    lines.push(
+      edge.kind === 'produces'
+        ? `  ${component} --> ${variable}`
+        : `  ${variable} -.->|"${mermaidText(edge.property ?? '')}"| ${component}`
+    );
+  }
+  const external = graph.variables.filter((v) => v.source === 'process');
+  if (external.length > 0) {
+    lines.push('  classDef process fill:#fff4e5,stroke:#f0a020,stroke-dasharray:4 2');
+    lines.push(`  class ${external.map((v) => variableIds.get(v.path)).join(',')} process`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function dotString(text: string): string {
+  return `"${text.replaceAll('\\', '\\\\').replaceAll('"', '\\"')}"`;
+}
+
+/** Graphviz DOT digraph; process variables are drawn dashed. */
+export function toDot(graph: DependencyGraph, name = 'form'): string {
+  const { componentIds, variableIds } = nodeIds(graph);
+  const lines = [
+    `digraph ${dotString(name)} {`,
+    '  rankdir=LR;',
+    '  node [fontname="Helvetica", fontsize=10];',
+  ];
+  for (const comp of graph.components) {
+    const label = dotString(`${comp.id}\n(${comp.type})`).replaceAll('\n', '\\n');
+    lines.push(`  ${componentIds.get(comp.id)} [label=${label}, shape=box];`);
+  }
+  for (const variable of graph.variables) {
+    const style = variable.source === 'process' ? ', style=dashed' : '';
+    lines.push(
+      `  ${variableIds.get(variable.path)} [label=${dotString(variable.path)}, shape=ellipse${style}];`
+    );
+  }
+  for (const edge of graph.edges) {
+    const component = componentIds.get(edge.component);
+    const variable = variableIds.get(edge.variable);
+    lines.push(
+      edge.kind === 'produces'
+        ? `  ${component} -> ${variable};`
+        : `  ${variable} -> ${component} [label=${dotString(edge.property ?? '')}, style=dashed];`
+    );
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
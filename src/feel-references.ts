@@ -0,0 +1,210 @@
+/**
+ * Variable references of a form.
+ *
+ * Finds the data a form reads — names in `=`-prefixed FEEL properties,
+ * `{{ … }}` placeholders of text / html templates and `valuesKey` — and
+ * resolves each to the full data path it reads, the way form-js evaluates
+ * it (see `simulator.ts`): inside a dynamic list, a name bound by the list
+ * item (or `this.name`) refers to the item and `parent.name` to the data
+ * around the list; everywhere else names refer to the root data. Template
+ * `{{#loop}}` blocks open an item scope the same way. Names bound by the
+ * expression itself — `for` / `some` / `every` iterators, function
+ * parameters, context entries and the `item` of filters — are not
+ * references.
+ *
+ * Used by the key rename refactoring and the variable dependency graph.
+ */
+
+import { type FormComponent } from './types';
+import { type FeelNode, parseFeel, walkFeel } from './feel';
+import { childScope, resolveBindings } from './data-binding';
+
+/** Where the names of an expression resolve to. */
+export interface NameContext {
+  /** Path of the current list item (`items[]`), inside dynamic lists and loops. */
+  item?: string;
+  /** Path of the data around the list (`parent`). */
+  parent?: string;
+}
+
+export interface NameSegment {
+  name: string;
+  /** Offsets into the property value. */
+  start: number;
+  end: number;
+}
+
+export interface NameReference {
+  /** The names as written (`this`, `sku`). */
+  chain: NameSegment[];
+  /** Data path segments the chain resolves to (`items[]`, `sku`). */
+  path: string[];
+  /** A plain data path (`valuesKey`) rather than FEEL names. */
+  plain?: boolean;
+}
+
+/** A string property value of a component, wherever it is nested. */
+export interface PropertyValue {
+  component: FormComponent;
+  /** Property path, e.g. `conditional.hide` or `values[0].label`. */
+  property: string;
+  value: string;
+  context: NameContext;
+  set: (value: string) => void;
+}
+
+function segmentsOf(path: string | undefined): string[] {
+  return path ? path.split('.') : [];
+}
+
+/**
+ * Chains of names in a FEEL expression (`order.total` → `order`, `total`),
+ * skipping function names and names bound inside the expression.
+ */
+function nameChains(source: string): NameSegment[][] {
+  const chains: NameSegment[][] = [];
+  const consumed = new Set<FeelNode>();
+  walkFeel(parseFeel(source), (node, bound) => {
+    if (node.kind === 'Call') consumed.add(node.callee);
+    if (consumed.has(node) || (node.kind !== 'Name' && node.kind !== 'Path')) return;
+    const chain: NameSegment[] = [];
+    let current: FeelNode = node;
+    while (current.kind === 'Path') {
+      consumed.add(current.target);
+      const backticked = source[current.end - 1] === '`';
+      const start = current.end - current.name.length - (backticked ? 2 : 0);
+      chain.unshift({ name: current.name, start, end: current.end });
+      current = current.target;
+    }
+    if (current.kind !== 'Name' || bound.has(current.name)) return;
+    chains.push([{ name: current.name, start: current.start, end: current.end }, ...chain]);
+  });
+  return chains;
+}
+
+function isTemplate(comp: FormComponent, property: string): boolean {
+  return (
+    (comp.type === 'text' && property === 'text') ||
+    (comp.type === 'html' && property === 'content')
+  );
+}
+
+export class ReferenceResolver {
+  /** First segments of the names each list item binds, by item path. */
+  private readonly itemNames = new Map<string, Set<string>>();
+
+  constructor(components: FormComponent[]) {
+    for (const binding of resolveBindings(components)) {
+      const item = binding.scope.slice(0, binding.scope.lastIndexOf('[]') + 2);
+      if (!item) continue;
+      const first = segmentsOf(binding.path.slice(item.length + 1))[0];
+      if (!this.itemNames.has(item)) this.itemNames.set(item, new Set());
+      this.itemNames.get(item)!.add(first);
+    }
+  }
+
+  /** Data path of a chain of names (`this.sku` in `items[]` → `items[]`, `sku`). */
+  resolve(names: string[], context: NameContext): string[] {
+    if (context.item) {
+      if (names[0] === 'this') return [...segmentsOf(context.item), ...names.slice(1)];
+      if (names[0] === 'parent') return [...segmentsOf(context.parent), ...names.slice(1)];
+      if (this.itemNames.get(context.item)?.has(names[0])) {
+        return [...segmentsOf(context.item), ...names];
+      }
+    }
+    return names;
+  }
+
+  /**
+   * References in a property value. Throws a `FeelSyntaxError` when an
+   * expression cannot be parsed.
+   */
+  referencesIn(entry: PropertyValue): NameReference[] {
+    const { component, property, value, context } = entry;
+    if (value.startsWith('=')) return this.feelReferences(value.slice(1), 1, context);
+    if (isTemplate(component, property)) return this.templateReferences(value, context);
+    if (property !== 'valuesKey') return [];
+    // A plain data path, read from the root data
+    let start = 0;
+    const chain = segmentsOf(value).map((name) => {
+      const segment = { name, start, end: start + name.length };
+      start = segment.end + 1;
+      return segment;
+    });
+    return [{ chain, path: segmentsOf(value), plain: true }];
+  }
+
+  /** References in a FEEL expression; `base` is its offset in the property value. */
+  private feelReferences(source: string, base: number, context: NameContext): NameReference[] {
+    return nameChains(source).map((chain) => ({
+      chain: chain.map((s) => ({ name: s.name, start: s.start + base, end: s.end + base })),
+      path: this.resolve(
+        chain.map((s) => s.name),
+        context
+      ),
+    }));
+  }
+
+  private templateReferences(template: string, context: NameContext): NameReference[] {
+    const references: NameReference[] = [];
+    const contexts = [context];
+    for (const match of template.matchAll(/\{\{([\s\S]*?)\}\}/g)) {
+      const tag = /^(\s*)(?:#(if|loop)\s)?/.exec(match[1])!;
+      if (match[1].trimStart().startsWith('/')) {
+        if (match[1].trim() === '/loop' && contexts.length > 1) contexts.pop();
+        continue;
+      }
+      const expression = match[1].slice(tag[0].length);
+      const base = match.index + 2 + tag[0].length;
+      const found = this.feelReferences(expression, base, contexts.at(-1)!);
+      references.push(...found);
+      if (tag[2] === 'loop') {
+        // Items of the loop source; names inside resolve against them first
+        const parent = contexts.at(-1)!.item ?? '';
+        contexts.push(found[0] ? { item: `${found[0].path.join('.')}[]`, parent } : { parent });
+      }
+    }
+    return references;
+  }
+}
+
+/** Visit every string property value of a component tree (except nested `components`). */
+export function forEachPropertyValue(
+  components: FormComponent[],
+  visit: (entry: PropertyValue) => void,
+  scope = '',
+  context: NameContext = {}
+): void {
+  const visitValue = (
+    component: FormComponent,
+    holder: Record<string, any>,
+    field: string,
+    property: string
+  ) => {
+    const value = holder[field];
+    if (typeof value === 'string') {
+      visit({ component, property, value, context, set: (next) => (holder[field] = next) });
+    } else if (value !== null && typeof value === 'object') {
+      for (const child of Object.keys(value)) {
+        const path = Array.isArray(value) ? `${property}[${child}]` : `${property}.${child}`;
+        visitValue(component, value, child, path);
+      }
+    }
+  };
+
+  for (const comp of components) {
+    for (const property of Object.keys(comp)) {
+      if (property === 'components') continue;
+      visitValue(comp, comp as Record<string, any>, property, property);
+    }
+    if (!comp.components) continue;
+    const inner = childScope(comp, scope);
+    const isListItem = comp.type === 'dynamiclist' && comp.path;
+    forEachPropertyValue(
+      comp.components,
+      visit,
+      inner,
+      isListItem ? { item: inner, parent: scope } : context
+    );
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * FEEL abstract syntax tree.
+ *
+ * Every node carries `start` / `end` offsets into the parsed expression
+ * so diagnostics and refactorings can point at the exact source range.
+ */
+
+interface NodeBase {
+  start: number;
+  end: number;
+}
+
+export interface LiteralNode extends NodeBase {
+  kind: 'Literal';
+  value: string | number | boolean | null;
+}
+
+/** Temporal literal, e.g. `@"2024-01-01"`. */
+export interface TemporalNode extends NodeBase {
+  kind: 'Temporal';
+  value: string;
+}
+
+/** Variable or function name (may contain spaces, e.g. `string length`). */
+export interface NameNode extends NodeBase {
+  kind: 'Name';
+  name: string;
+}
+
+export interface PathNode extends NodeBase {
+  kind: 'Path';
+  target: FeelNode;
+  name: string;
+}
+
+/** `list[condition]` — filter or index access. */
+export interface FilterNode extends NodeBase {
+  kind: 'Filter';
+  target: FeelNode;
+  filter: FeelNode;
+}
+
+export interface CallArgument {
+  /** Parameter name for named arguments. */
+  name?: string;
+  value: FeelNode;
+}
+
+export interface CallNode extends NodeBase {
+  kind: 'Call';
+  callee: FeelNode;
+  args: CallArgument[];
+}
+
+export interface UnaryNode extends NodeBase {
+  kind: 'Unary';
+  op: '-';
+  operand: FeelNode;
+}
+
+export type BinaryOperator =
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '**'
+  | '='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | 'and'
+  | 'or';
+
+export interface BinaryNode extends NodeBase {
+  kind: 'Binary';
+  op: BinaryOperator;
+  left: FeelNode;
+  right: FeelNode;
+}
+
+export interface BetweenNode extends NodeBase {
+  kind: 'Between';
+  value: FeelNode;
+  low: FeelNode;
+  high: FeelNode;
+}
+
+/** Unary test inside `in`, e.g. the `< 5` in `x in (< 5, 10)`. */
+export interface UnaryTestNode extends NodeBase {
+  kind: 'UnaryTest';
+  op: '=' | '!=' | '<' | '<=' | '>' | '>=';
+  operand: FeelNode;
+}
+
+export interface InNode extends NodeBase {
+  kind: 'In';
+  value: FeelNode;
+  tests: FeelNode[];
+}
+
+export interface InstanceOfNode extends NodeBase {
+  kind: 'InstanceOf';
+  value: FeelNode;
+  typeName: string;
+}
+
+export interface IfNode extends NodeBase {
+  kind: 'If';
+  condition: FeelNode;
+  then: FeelNode;
+  else: FeelNode;
+}
+
+export interface Iterator {
+  name: string;
+  source: FeelNode;
+}
+
+export interface ForNode extends NodeBase {
+  kind: 'For';
+  iterators: Iterator[];
+  body: FeelNode;
+}
+
+export interface QuantifiedNode extends NodeBase {
+  kind: 'Quantified';
+  quantifier: 'some' | 'every';
+  iterators: Iterator[];
+  condition: FeelNode;
+}
+
+export interface ListNode extends NodeBase {
+  kind: 'List';
+  items: FeelNode[];
+}
+
+export interface ContextEntry {
+  key: string;
+  value: FeelNode;
+}
+
+export interface ContextNode extends NodeBase {
+  kind: 'Context';
+  entries: ContextEntry[];
+}
+
+export interface RangeNode extends NodeBase {
+  kind: 'Range';
+  low: FeelNode;
+  high: FeelNode;
+  lowIncluded: boolean;
+  highIncluded: boolean;
+}
+
+export interface FunctionNode extends NodeBase {
+  kind: 'Function';
+  params: string[];
+  body: FeelNode;
+}
+
+export type FeelNode =
+  | LiteralNode
+  | TemporalNode
+  | NameNode
+  | PathNode
+  | FilterNode
+  | CallNode
+  | UnaryNode
+  | BinaryNode
+  | BetweenNode
+  | UnaryTestNode
+  | InNode
+  | InstanceOfNode
+  | IfNode
+  | ForNode
+  | QuantifiedNode
+  | ListNode
+  | ContextNode
+  | RangeNode
+  | FunctionNode;
@@ -0,0 +1,155 @@
+/**
+ * Built-in FEEL function names (DMN 1.4 standard library plus the
+ * Camunda FEEL extensions available in Camunda 8 forms).
+ */
+
+export const BUILTIN_FUNCTIONS: readonly string[] = [
+  // Conversion
+  'date',
+  'time',
+  'date and time',
+  'duration',
+  'years and months duration',
+  'number',
+  'string',
+  'context',
+  // Boolean
+  'not',
+  'is defined',
+  'get or else',
+  'assert',
+  // String
+  'substring',
+  'string length',
+  'upper case',
+  'lower case',
+  'substring before',
+  'substring after',
+  'replace',
+  'contains',
+  'starts with',
+  'ends with',
+  'matches',
+  'split',
+  'string join',
+  'extract',
+  'trim',
+  'uuid',
+  'to base64',
+  'is blank',
+  // List
+  'list contains',
+  'count',
+  'min',
+  'max',
+  'sum',
+  'product',
+  'mean',
+  'median',
+  'stddev',
+  'mode',
+  'and',
+  'all',
+  'or',
+  'any',
+  'sublist',
+  'append',
+  'concatenate',
+  'insert before',
+  'remove',
+  'reverse',
+  'index of',
+  'union',
+  'distinct values',
+  'duplicate values',
+  'flatten',
+  'sort',
+  'is empty',
+  'partition',
+  // Numeric
+  'decimal',
+  'floor',
+  'ceiling',
+  'round up',
+  'round down',
+  'round half up',
+  'round half down',
+  'abs',
+  'modulo',
+  'sqrt',
+  'log',
+  'exp',
+  'odd',
+  'even',
+  'random number',
+  // Context
+  'get value',
+  'get entries',
+  'context put',
+  'context merge',
+  // Temporal
+  'now',
+  'today',
+  'day of week',
+  'day of year',
+  'week of year',
+  'month of year',
+  'last day of month',
+  'is',
+  // Range
+  'before',
+  'after',
+  'meets',
+  'met by',
+  'overlaps',
+  'overlaps before',
+  'overlaps after',
+  'finishes',
+  'finished by',
+  'includes',
+  'during',
+  'starts',
+  'started by',
+  'coincides',
+];
+
+const BUILTIN_SET = new Set(BUILTIN_FUNCTIONS);
+
+/** Built-in names made of several words, longest first for greedy matching. */
+export const MULTI_WORD_FUNCTIONS: readonly string[] = [...BUILTIN_SET]
+  .filter((f) => f.includes(' '))
+  .sort((a, b) => b.split(' ').length - a.split(' ').length);
+
+/** Check whether `name` is a built-in FEEL function. */
+export function isBuiltinFunction(name: string): boolean {
+  return BUILTIN_SET.has(name);
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+/** Suggest the closest built-in function name, if one is reasonably close. */
+export function suggestBuiltin(name: string): string | undefined {
+  const lower = name.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of BUILTIN_SET) {
+    const d = editDistance(lower, candidate);
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return bestDistance <= Math.max(1, Math.floor(name.length / 3)) ? best : undefined;
+}
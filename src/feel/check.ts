@@ -0,0 +1,123 @@
+/**
+ * Static checks for FEEL expressions: syntax errors, unbalanced brackets
+ * and calls to unknown functions.
+ */
+
+import { type FeelNode } from './ast';
+import { tokenize, type FeelToken } from './tokenizer';
+import { parseFeel } from './parser';
+import { isBuiltinFunction, suggestBuiltin } from './builtins';
+import { FeelSyntaxError } from './errors';
+import { walkFeel } from './walk';
+
+export interface FeelDiagnostic {
+  severity: 'error' | 'warning';
+  message: string;
+  /** Offset into the checked expression. */
+  offset: number;
+  suggestion?: string;
+}
+
+const CLOSING: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+
+/**
+ * Report the first bracket that is never closed or closed by the wrong
+ * bracket. Interval notation (`[1..10)`, `]0..1]`) legitimately mixes
+ * brackets, so expressions containing `..` are left to the parser.
+ */
+function checkBrackets(tokens: FeelToken[]): FeelDiagnostic | undefined {
+  if (tokens.some((t) => t.type === 'op' && t.value === '..')) return undefined;
+
+  const stack: FeelToken[] = [];
+  for (const token of tokens) {
+    if (token.type !== 'op') continue;
+    if (CLOSING[token.value]) {
+      stack.push(token);
+    } else if ([')', ']', '}'].includes(token.value)) {
+      const open = stack.pop();
+      if (!open) {
+        return {
+          severity: 'error',
+          message: `Unbalanced brackets: unexpected "${token.value}" at offset ${token.start}`,
+          offset: token.start,
+          suggestion: 'Remove the extra closing bracket or add the matching opening bracket',
+        };
+      }
+      if (CLOSING[open.value] !== token.value) {
+        return {
+          severity: 'error',
+          message:
+            `Unbalanced brackets: "${open.value}" at offset ${open.start} ` +
+            `is closed by "${token.value}" at offset ${token.start}`,
+          offset: token.start,
+          suggestion: `Close "${open.value}" with "${CLOSING[open.value]}"`,
+        };
+      }
+    }
+  }
+  const unclosed = stack.pop();
+  if (unclosed) {
+    return {
+      severity: 'error',
+      message: `Unbalanced brackets: "${unclosed.value}" at offset ${unclosed.start} is never closed`,
+      offset: unclosed.start,
+      suggestion: `Add a closing "${CLOSING[unclosed.value]}"`,
+    };
+  }
+  return undefined;
+}
+
+function checkFunctionCalls(ast: FeelNode): FeelDiagnostic[] {
+  const diagnostics: FeelDiagnostic[] = [];
+  walkFeel(ast, (node, scope) => {
+    if (node.kind !== 'Call' || node.callee.kind !== 'Name') return;
+    const name = node.callee.name;
+    if (isBuiltinFunction(name) || scope.has(name)) return;
+    const closest = suggestBuiltin(name);
+    diagnostics.push({
+      severity: 'warning',
+      message: `Unknown function "${name}" at offset ${node.callee.start}`,
+      offset: node.callee.start,
+      suggestion: closest
+        ? `Did you mean "${closest}"?`
+        : 'Use a built-in FEEL function or define it in the surrounding context',
+    });
+  });
+  return diagnostics;
+}
+
+function syntaxDiagnostic(error: FeelSyntaxError): FeelDiagnostic {
+  return {
+    severity: 'error',
+    message: `${error.message} at offset ${error.offset}`,
+    offset: error.offset,
+  };
+}
+
+/**
+ * Statically check a FEEL expression (without the leading `=`).
+ * Returns an empty array when the expression is well-formed.
+ */
+export function checkFeelExpression(source: string): FeelDiagnostic[] {
+  if (source.trim() === '') {
+    return [{ severity: 'error', message: 'Empty FEEL expression', offset: 0 }];
+  }
+
+  let tokens: FeelToken[];
+  try {
+    tokens = tokenize(source);
+  } catch (error) {
+    if (error instanceof FeelSyntaxError) return [syntaxDiagnostic(error)];
+    throw error;
+  }
+
+  const bracketIssue = checkBrackets(tokens);
+  if (bracketIssue) return [bracketIssue];
+
+  try {
+    return checkFunctionCalls(parseFeel(source));
+  } catch (error) {
+    if (error instanceof FeelSyntaxError) return [syntaxDiagnostic(error)];
+    throw error;
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Error types raised by the FEEL tokenizer, parser and evaluator.
+ */
+
+export class FeelSyntaxError extends Error {
+  /** Offset into the expression where the problem was detected. */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'FeelSyntaxError';
+    this.offset = offset;
+  }
+}
+
+/** Raised when the evaluator cannot run an expression at all. */
+export class FeelEvaluationError extends Error {
+  /** Offset of the node that could not be evaluated. */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(message);
+    this.name = 'FeelEvaluationError';
+    this.offset = offset;
+  }
+}
@@ -0,0 +1,316 @@
+/**
+ * FEEL interpreter over the AST produced by `parseFeel`.
+ *
+ * Follows FEEL's null semantics: type mismatches, missing values and
+ * invalid operations yield `null` rather than throwing. Only constructs
+ * the evaluator cannot run at all (e.g. an unsupported function) raise
+ * a `FeelEvaluationError`.
+ */
+
+import { type FeelNode, type CallNode, type Iterator, type RangeNode } from './ast';
+import { FEEL_FUNCTIONS } from './functions';
+import { FeelEvaluationError } from './errors';
+
+/** Variables visible to an expression. Missing names evaluate to `undefined`. */
+export type FeelContext = Record<string, unknown>;
+
+interface FeelRange {
+  __range: true;
+  low: unknown;
+  high: unknown;
+  lowIncluded: boolean;
+  highIncluded: boolean;
+}
+
+interface FeelClosure {
+  __closure: true;
+  params: string[];
+  body: FeelNode;
+  scope: FeelContext;
+}
+
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !Number.isNaN(v);
+const isNil = (v: unknown): v is null | undefined => v === null || v === undefined;
+
+function isRange(v: unknown): v is FeelRange {
+  return typeof v === 'object' && v !== null && (v as FeelRange).__range === true;
+}
+
+function isClosure(v: unknown): v is FeelClosure {
+  return typeof v === 'object' && v !== null && (v as FeelClosure).__closure === true;
+}
+
+/** Deep equality used by `=` / `!=` and list membership. */
+export function feelEquals(a: unknown, b: unknown): boolean | null {
+  if (isNil(a) || isNil(b)) return isNil(a) && isNil(b);
+  if (typeof a !== typeof b) return null;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function comparable(a: unknown, b: unknown): boolean {
+  return (isNumber(a) && isNumber(b)) || (typeof a === 'string' && typeof b === 'string');
+}
+
+/** Evaluate `<`, `<=`, `>`, `>=`, `=`, `!=` with FEEL null semantics. */
+export function feelCompare(op: string, a: unknown, b: unknown): boolean | null {
+  if (op === '=') return feelEquals(a, b);
+  if (op === '!=') {
+    const eq = feelEquals(a, b);
+    return eq === null ? null : !eq;
+  }
+  if (!comparable(a, b)) return null;
+  const [x, y] = [a as number | string, b as number | string];
+  switch (op) {
+    case '<':
+      return x < y;
+    case '<=':
+      return x <= y;
+    case '>':
+      return x > y;
+    default:
+      return x >= y;
+  }
+}
+
+function inRange(value: unknown, range: FeelRange): boolean | null {
+  const low = feelCompare(range.lowIncluded ? '>=' : '>', value, range.low);
+  const high = feelCompare(range.highIncluded ? '<=' : '<', value, range.high);
+  if (low === null || high === null) return null;
+  return low && high;
+}
+
+function arithmetic(op: string, a: unknown, b: unknown): unknown {
+  if (op === '+' && typeof a === 'string' && typeof b === 'string') return a + b;
+  if (!isNumber(a) || !isNumber(b)) return null;
+  switch (op) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return b === 0 ? null : a / b;
+    default:
+      return a ** b;
+  }
+}
+
+function logical(op: 'and' | 'or', a: unknown, b: unknown): boolean | null {
+  const short = op === 'or';
+  if (a === short || b === short) return short;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return !short;
+  return null;
+}
+
+function checkInstance(value: unknown, typeName: string): boolean {
+  switch (typeName) {
+    case 'number':
+      return isNumber(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'list':
+      return Array.isArray(value);
+    case 'context':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'Null':
+      return isNil(value);
+    case 'Any':
+      return true;
+    default:
+      return typeof value === 'string';
+  }
+}
+
+function rangeToList(range: FeelRange): unknown[] | null {
+  const { low, high } = range;
+  if (!isNumber(low) || !isNumber(high)) return null;
+  const step = low <= high ? 1 : -1;
+  const list: number[] = [];
+  for (let i = low; step > 0 ? i <= high : i >= high; i += step) list.push(i);
+  return list;
+}
+
+class Evaluator {
+  evaluate(node: FeelNode, scope: FeelContext): unknown {
+    switch (node.kind) {
+      case 'Literal':
+      case 'Temporal':
+        return node.value;
+      case 'Name':
+        return Object.hasOwn(scope, node.name) ? scope[node.name] : undefined;
+      case 'Path':
+        return this.path(this.evaluate(node.target, scope), node.name);
+      case 'Filter':
+        return this.filter(node.target, node.filter, scope);
+      case 'Call':
+        return this.call(node, scope);
+      case 'Unary': {
+        const v = this.evaluate(node.operand, scope);
+        return isNumber(v) ? -v : null;
+      }
+      case 'Binary':
+        return this.binary(node.op, node.left, node.right, scope);
+      case 'Between': {
+        const v = this.evaluate(node.value, scope);
+        const low = feelCompare('>=', v, this.evaluate(node.low, scope));
+        const high = feelCompare('<=', v, this.evaluate(node.high, scope));
+        return logical('and', low, high);
+      }
+      case 'In':
+        return this.in(this.evaluate(node.value, scope), node.tests, scope);
+      case 'UnaryTest':
+        throw new FeelEvaluationError('Unary test outside of "in"', node.start);
+      case 'InstanceOf':
+        return checkInstance(this.evaluate(node.value, scope), node.typeName);
+      case 'If':
+        return this.evaluate(node.condition, scope) === true
+          ? this.evaluate(node.then, scope)
+          : this.evaluate(node.else, scope);
+      default:
+        return this.evaluateStructured(node, scope);
+    }
+  }
+
+  private evaluateStructured(node: FeelNode, scope: FeelContext): unknown {
+    switch (node.kind) {
+      case 'For':
+        return this.iterate(node.iterators, scope).map((s) => this.evaluate(node.body, s));
+      case 'Quantified': {
+        const results = this.iterate(node.iterators, scope).map((s) =>
+          this.evaluate(node.condition, s)
+        );
+        return node.quantifier === 'some'
+          ? results.some((r) => r === true)
+          : results.every((r) => r === true);
+      }
+      case 'List':
+        return node.items.map((item) => this.evaluate(item, scope));
+      case 'Context': {
+        const result: FeelContext = {};
+        for (const entry of node.entries) {
+          result[entry.key] = this.evaluate(entry.value, { ...scope, ...result });
+        }
+        return result;
+      }
+      case 'Range':
+        return this.range(node, scope);
+      case 'Function':
+        return { __closure: true, params: node.params, body: node.body, scope };
+      default:
+        throw new FeelEvaluationError(`Cannot evaluate ${node.kind}`, node.start);
+    }
+  }
+
+  private path(target: unknown, name: string): unknown {
+    if (Array.isArray(target)) return target.map((item) => this.path(item, name));
+    if (target && typeof target === 'object') return (target as FeelContext)[name] ?? null;
+    return null;
+  }
+
+  private filter(targetNode: FeelNode, filterNode: FeelNode, scope: FeelContext): unknown {
+    const target = this.evaluate(targetNode, scope);
+    if (isNil(target)) return null;
+    const list = Array.isArray(target) ? target : [target];
+
+    if (filterNode.kind === 'Literal' || filterNode.kind === 'Unary') {
+      const index = this.evaluate(filterNode, scope);
+      if (isNumber(index)) return list.at(index > 0 ? index - 1 : index) ?? null;
+    }
+    return list.filter((item) => {
+      const itemScope =
+        item && typeof item === 'object' && !Array.isArray(item)
+          ? { ...scope, ...(item as FeelContext), item }
+          : { ...scope, item };
+      return this.evaluate(filterNode, itemScope) === true;
+    });
+  }
+
+  private call(node: CallNode, scope: FeelContext): unknown {
+    const args = node.args.map((a) => this.evaluate(a.value, scope));
+    if (node.callee.kind === 'Name') {
+      const local = scope[node.callee.name];
+      if (isClosure(local)) return this.invoke(local, args);
+      const builtin = FEEL_FUNCTIONS[node.callee.name];
+      if (builtin) return builtin(...args);
+      throw new FeelEvaluationError(
+        `Function "${node.callee.name}" is not supported by the evaluator`,
+        node.start
+      );
+    }
+    const callee = this.evaluate(node.callee, scope);
+    return isClosure(callee) ? this.invoke(callee, args) : null;
+  }
+
+  private invoke(closure: FeelClosure, args: unknown[]): unknown {
+    const scope: FeelContext = { ...closure.scope };
+    closure.params.forEach((p, i) => (scope[p] = args[i] ?? null));
+    return this.evaluate(closure.body, scope);
+  }
+
+  private binary(op: string, left: FeelNode, right: FeelNode, scope: FeelContext): unknown {
+    const a = this.evaluate(left, scope);
+    if (op === 'and' || op === 'or') {
+      // Short-circuit: skip the right-hand side when the result is decided
+      if (a === (op === 'or')) return a;
+      return logical(op, a, this.evaluate(right, scope));
+    }
+    const b = this.evaluate(right, scope);
+    if (['=', '!=', '<', '<=', '>', '>='].includes(op)) return feelCompare(op, a, b);
+    return arithmetic(op, a, b);
+  }
+
+  private in(value: unknown, tests: FeelNode[], scope: FeelContext): boolean | null {
+    let sawNull = false;
+    for (const test of tests) {
+      const result = this.unaryTest(value, test, scope);
+      if (result === true) return true;
+      if (result === null) sawNull = true;
+    }
+    return sawNull ? null : false;
+  }
+
+  private unaryTest(value: unknown, test: FeelNode, scope: FeelContext): boolean | null {
+    if (test.kind === 'UnaryTest') {
+      return feelCompare(test.op, value, this.evaluate(test.operand, scope));
+    }
+    const expected = this.evaluate(test, scope);
+    if (isRange(expected)) return inRange(value, expected);
+    if (Array.isArray(expected)) return expected.some((e) => feelEquals(value, e) === true);
+    return feelEquals(value, expected);
+  }
+
+  private range(node: RangeNode, scope: FeelContext): FeelRange {
+    return {
+      __range: true,
+      low: this.evaluate(node.low, scope),
+      high: this.evaluate(node.high, scope),
+      lowIncluded: node.lowIncluded,
+      highIncluded: node.highIncluded,
+    };
+  }
+
+  /** Expand iterator clauses into one scope per combination. */
+  private iterate(iterators: Iterator[], scope: FeelContext): FeelContext[] {
+    let scopes: FeelContext[] = [scope];
+    for (const { name, source } of iterators) {
+      scopes = scopes.flatMap((s) => {
+        const value = this.evaluate(source, s);
+        const list = isRange(value) ? rangeToList(value) : value;
+        if (!Array.isArray(list)) return [];
+        return list.map((item) => ({ ...s, [name]: item }));
+      });
+    }
+    return scopes;
+  }
+}
+
+/**
+ * Evaluate a parsed FEEL expression against `context`.
+ * Returns `undefined` only for references to missing variables.
+ */
+export function evaluateFeel(node: FeelNode, context: FeelContext): unknown {
+  return new Evaluator().evaluate(node, context);
+}
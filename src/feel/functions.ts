@@ -0,0 +1,183 @@
+/**
+ * Runtime implementations of the built-in FEEL functions supported by
+ * the evaluator. Arguments arrive already evaluated; `undefined` marks a
+ * variable that does not exist in the input data.
+ *
+ * Temporal values are handled as ISO-8601 strings — enough for comparing
+ * and passing dates through, but no date arithmetic.
+ */
+
+type FeelFunction = (...args: any[]) => unknown;
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isNumber = (v: unknown): v is number => typeof v === 'number' && !Number.isNaN(v);
+
+/** Apply `fn` only when every argument is a string, else return null. */
+function strings(fn: (...args: string[]) => unknown): FeelFunction {
+  return (...args) => (args.every(isString) ? fn(...args) : null);
+}
+
+/** Apply `fn` only when every argument is a number, else return null. */
+function numbers(fn: (...args: number[]) => unknown): FeelFunction {
+  return (...args) => (args.every(isNumber) ? fn(...args) : null);
+}
+
+/** Normalise list functions that accept either a list or varargs. */
+function listArg(args: unknown[]): unknown[] | null {
+  if (args.length === 1 && Array.isArray(args[0])) return args[0];
+  return args;
+}
+
+function numericList(fn: (values: number[]) => unknown): FeelFunction {
+  return (...args) => {
+    const list = listArg(args);
+    if (!list || !list.every(isNumber)) return null;
+    return fn(list as number[]);
+  };
+}
+
+function compareValues(a: any, b: any): number {
+  if (a < b) return -1;
+  return a > b ? 1 : 0;
+}
+
+function isEmptyValue(v: unknown): boolean {
+  return v === undefined || v === null;
+}
+
+function toFeelString(v: unknown): string | null {
+  if (isEmptyValue(v)) return null;
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+}
+
+function roundHalfUp(n: number, scale: number): number {
+  const factor = 10 ** scale;
+  return Math.sign(n) * (Math.round(Math.abs(n) * factor) / factor);
+}
+
+function todayIso(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+const STRING_FUNCTIONS: Record<string, FeelFunction> = {
+  'string length': strings((s) => [...s].length),
+  'upper case': strings((s) => s.toUpperCase()),
+  'lower case': strings((s) => s.toLowerCase()),
+  contains: strings((s, m) => s.includes(m)),
+  'starts with': strings((s, m) => s.startsWith(m)),
+  'ends with': strings((s, m) => s.endsWith(m)),
+  'substring before': strings((s, m) => (s.includes(m) ? s.slice(0, s.indexOf(m)) : '')),
+  'substring after': strings((s, m) => (s.includes(m) ? s.slice(s.indexOf(m) + m.length) : '')),
+  matches: strings((s, p) => new RegExp(p).test(s)),
+  replace: strings((s, p, r) => s.replace(new RegExp(p, 'g'), r)),
+  split: strings((s, d) => s.split(new RegExp(d))),
+  trim: strings((s) => s.trim()),
+  'is blank': strings((s) => s.trim() === ''),
+  substring: (s: unknown, start: unknown, length?: unknown) => {
+    if (!isString(s) || !isNumber(start)) return null;
+    const chars = [...s];
+    const from = start > 0 ? start - 1 : chars.length + start;
+    const to = isNumber(length) ? from + length : undefined;
+    return chars.slice(from, to).join('');
+  },
+  'string join': (list: unknown, delimiter?: unknown) => {
+    if (!Array.isArray(list)) return null;
+    const parts = list.filter((v) => !isEmptyValue(v)).map(String);
+    return parts.join(isString(delimiter) ? delimiter : '');
+  },
+  string: (v: unknown) => toFeelString(v),
+};
+
+const LIST_FUNCTIONS: Record<string, FeelFunction> = {
+  count: (list: unknown) => (Array.isArray(list) ? list.length : null),
+  'list contains': (list: unknown, v: unknown) =>
+    Array.isArray(list) ? list.some((i) => JSON.stringify(i) === JSON.stringify(v)) : null,
+  sum: numericList((l) => l.reduce((a, b) => a + b, 0)),
+  product: numericList((l) => l.reduce((a, b) => a * b, 1)),
+  min: numericList((l) => (l.length ? Math.min(...l) : null)),
+  max: numericList((l) => (l.length ? Math.max(...l) : null)),
+  mean: numericList((l) => (l.length ? l.reduce((a, b) => a + b, 0) / l.length : null)),
+  all: (...args: unknown[]) => {
+    const list = listArg(args) ?? [];
+    if (list.includes(false)) return false;
+    return list.every((v) => v === true) ? true : null;
+  },
+  any: (...args: unknown[]) => {
+    const list = listArg(args) ?? [];
+    if (list.includes(true)) return true;
+    return list.every((v) => v === false) ? false : null;
+  },
+  append: (list: unknown, ...items: unknown[]) =>
+    Array.isArray(list) ? [...list, ...items] : null,
+  concatenate: (...lists: unknown[]) =>
+    lists.every(Array.isArray) ? (lists as unknown[][]).flat() : null,
+  reverse: (list: unknown) => (Array.isArray(list) ? [...list].reverse() : null),
+  flatten: (list: unknown) => (Array.isArray(list) ? list.flat(Infinity) : null),
+  'distinct values': (list: unknown) => {
+    if (!Array.isArray(list)) return null;
+    const seen = new Set<string>();
+    return list.filter((v) => {
+      const k = JSON.stringify(v);
+      return seen.has(k) ? false : (seen.add(k), true);
+    });
+  },
+  'index of': (list: unknown, v: unknown) => {
+    if (!Array.isArray(list)) return null;
+    const target = JSON.stringify(v);
+    return list.flatMap((item, i) => (JSON.stringify(item) === target ? [i + 1] : []));
+  },
+  'is empty': (list: unknown) => (Array.isArray(list) ? list.length === 0 : null),
+  sublist: (list: unknown, start: unknown, length?: unknown) => {
+    if (!Array.isArray(list) || !isNumber(start)) return null;
+    const from = start > 0 ? start - 1 : list.length + start;
+    return list.slice(from, isNumber(length) ? from + length : undefined);
+  },
+  sort: (list: unknown) => (Array.isArray(list) ? [...list].sort(compareValues) : null),
+};
+
+const NUMERIC_FUNCTIONS: Record<string, FeelFunction> = {
+  abs: numbers(Math.abs),
+  floor: numbers((n, scale = 0) => Math.floor(n * 10 ** scale) / 10 ** scale),
+  ceiling: numbers((n, scale = 0) => Math.ceil(n * 10 ** scale) / 10 ** scale),
+  decimal: numbers((n, scale) => roundHalfUp(n, scale)),
+  'round half up': numbers((n, scale) => roundHalfUp(n, scale)),
+  'round down': numbers((n, scale) => Math.trunc(n * 10 ** scale) / 10 ** scale),
+  'round up': numbers((n, scale) => {
+    const f = 10 ** scale;
+    return (Math.sign(n) * Math.ceil(Math.abs(n) * f)) / f;
+  }),
+  modulo: numbers((a, b) => (b === 0 ? null : a - b * Math.floor(a / b))),
+  sqrt: numbers((n) => (n < 0 ? null : Math.sqrt(n))),
+  odd: numbers((n) => Math.abs(n % 2) === 1),
+  even: numbers((n) => n % 2 === 0),
+  number: (v: unknown) => {
+    if (isNumber(v)) return v;
+    if (!isString(v) || v.trim() === '') return null;
+    const n = Number(v);
+    return Number.isNaN(n) ? null : n;
+  },
+};
+
+const MISC_FUNCTIONS: Record<string, FeelFunction> = {
+  not: (v: unknown) => (typeof v === 'boolean' ? !v : null),
+  'is defined': (v: unknown) => v !== undefined,
+  'get or else': (v: unknown, fallback: unknown) => (isEmptyValue(v) ? fallback : v),
+  'get value': (ctx: unknown, key: unknown) =>
+    ctx && typeof ctx === 'object' && isString(key) ? ((ctx as any)[key] ?? null) : null,
+  'context put': (ctx: unknown, key: unknown, value: unknown) =>
+    ctx && typeof ctx === 'object' && isString(key) ? { ...ctx, [key]: value } : null,
+  today: () => todayIso(),
+  now: () => new Date().toISOString(),
+  date: (v: unknown) => (isString(v) ? v.slice(0, 10) : null),
+  time: (v: unknown) => (isString(v) ? v : null),
+  'date and time': (v: unknown) => (isString(v) ? v : null),
+  duration: (v: unknown) => (isString(v) ? v : null),
+};
+
+/** Built-in functions keyed by FEEL name. */
+export const FEEL_FUNCTIONS: Readonly<Record<string, FeelFunction>> = {
+  ...STRING_FUNCTIONS,
+  ...LIST_FUNCTIONS,
+  ...NUMERIC_FUNCTIONS,
+  ...MISC_FUNCTIONS,
+};
@@ -0,0 +1,32 @@
+/**
+ * FEEL (Friendly Enough Expression Language) support — barrel.
+ *
+ * form-js treats any string property starting with `=` as a FEEL
+ * expression. This module tokenizes, parses, statically checks and
+ * evaluates such expressions without a FEEL runtime dependency.
+ */
+
+import { type FeelDiagnostic, checkFeelExpression } from './check';
+
+export { type FeelToken, tokenize } from './tokenizer';
+export { type FeelNode } from './ast';
+export { parseFeel } from './parser';
+export { FeelSyntaxError, FeelEvaluationError } from './errors';
+export { walkFeel, childNodes } from './walk';
+export { BUILTIN_FUNCTIONS, isBuiltinFunction } from './builtins';
+export { type FeelContext, evaluateFeel } from './evaluator';
+export { type FeelDiagnostic, checkFeelExpression };
+
+/** Check whether a property value is a FEEL expression (`=` prefix). */
+export function isFeelExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Check a `=`-prefixed property value. Diagnostic offsets refer to the
+ * full value (including the `=`), so they line up with what users see.
+ */
+export function checkFeelProperty(value: string): FeelDiagnostic[] {
+  // Replace the `=` with a space so token offsets match the original string
+  return checkFeelExpression(` ${value.slice(1)}`);
+}
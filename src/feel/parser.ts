@@ -0,0 +1,314 @@
+/**
+ * FEEL recursive-descent parser.
+ *
+ * Covers the expression subset used in forms: literals, names and paths,
+ * arithmetic, comparisons, `and`/`or`, `between`, `in` with unary tests,
+ * `instance of`, if/for/some/every, lists, contexts, ranges, filters,
+ * function calls (positional and named) and function definitions.
+ */
+
+import {
+  type FeelNode,
+  type CallArgument,
+  type Iterator,
+  type UnaryTestNode,
+  type BinaryOperator,
+} from './ast';
+import { tokenize, type FeelToken } from './tokenizer';
+import { FeelSyntaxError } from './errors';
+import { PrimaryParser } from './primary-parser';
+
+const COMPARISON_OPS = new Set(['=', '!=', '<', '<=', '>', '>=']);
+
+/** Type names accepted after `instance of`, longest first. */
+const TYPE_NAMES = [
+  'years and months duration',
+  'days and time duration',
+  'date and time',
+  'number',
+  'string',
+  'boolean',
+  'date',
+  'time',
+  'list',
+  'context',
+  'function',
+  'range',
+  'Any',
+  'Null',
+];
+
+class Parser extends PrimaryParser {
+  // ── Entry point ────────────────────────────────────────────────────────
+
+  parse(): FeelNode {
+    const node = this.parseExpression();
+    if (this.peek().type !== 'eof') throw this.unexpected();
+    return node;
+  }
+
+  protected parseExpression(): FeelNode {
+    if (this.isWord('if')) return this.parseIf();
+    if (this.isWord('for') && this.peek(1).type === 'name' && this.isWord('in', 2)) {
+      return this.parseFor();
+    }
+    if (
+      (this.isWord('some') || this.isWord('every')) &&
+      this.peek(1).type === 'name' &&
+      this.isWord('in', 2)
+    ) {
+      return this.parseQuantified();
+    }
+    return this.parseDisjunction();
+  }
+
+  private parseIf(): FeelNode {
+    const start = this.advance().start;
+    const condition = this.parseExpression();
+    this.expectWord('then');
+    const then = this.parseExpression();
+    this.expectWord('else');
+    const otherwise = this.parseExpression();
+    return { kind: 'If', condition, then, else: otherwise, start, end: otherwise.end };
+  }
+
+  private parseIterators(): Iterator[] {
+    const iterators: Iterator[] = [];
+    do {
+      const name = this.expectName().value;
+      this.expectWord('in');
+      let source = this.parseExpression();
+      if (this.isOp('..')) {
+        this.advance();
+        const high = this.parseAdditive();
+        source = {
+          kind: 'Range',
+          low: source,
+          high,
+          lowIncluded: true,
+          highIncluded: true,
+          start: source.start,
+          end: high.end,
+        };
+      }
+      iterators.push({ name, source });
+    } while (this.isOp(',') && this.advance());
+    return iterators;
+  }
+
+  private parseFor(): FeelNode {
+    const start = this.advance().start;
+    const iterators = this.parseIterators();
+    this.expectWord('return');
+    const body = this.parseExpression();
+    return { kind: 'For', iterators, body, start, end: body.end };
+  }
+
+  private parseQuantified(): FeelNode {
+    const keyword = this.advance();
+    const iterators = this.parseIterators();
+    this.expectWord('satisfies');
+    const condition = this.parseExpression();
+    return {
+      kind: 'Quantified',
+      quantifier: keyword.value as 'some' | 'every',
+      iterators,
+      condition,
+      start: keyword.start,
+      end: condition.end,
+    };
+  }
+
+  // ── Boolean / comparison levels ────────────────────────────────────────
+
+  private parseDisjunction(): FeelNode {
+    let left = this.parseConjunction();
+    while (this.isWord('or')) {
+      this.advance();
+      const right = this.parseConjunction();
+      left = { kind: 'Binary', op: 'or', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseConjunction(): FeelNode {
+    let left = this.parseComparison();
+    while (this.isWord('and')) {
+      this.advance();
+      const right = this.parseComparison();
+      left = { kind: 'Binary', op: 'and', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseComparison(): FeelNode {
+    const left = this.parseAdditive();
+    const token = this.peek();
+    if (token.type === 'op' && COMPARISON_OPS.has(token.value)) {
+      this.advance();
+      const right = this.parseAdditive();
+      const op = token.value as BinaryOperator;
+      return { kind: 'Binary', op, left, right, start: left.start, end: right.end };
+    }
+    if (this.isWord('between')) {
+      this.advance();
+      const low = this.parseAdditive();
+      this.expectWord('and');
+      const high = this.parseAdditive();
+      return { kind: 'Between', value: left, low, high, start: left.start, end: high.end };
+    }
+    if (this.isWord('in')) {
+      this.advance();
+      const tests = this.parsePositiveUnaryTests();
+      const end = tests.at(-1)?.end ?? left.end;
+      return { kind: 'In', value: left, tests, start: left.start, end };
+    }
+    if (this.isWord('instance') && this.isWord('of', 1)) {
+      this.advance();
+      const of = this.advance();
+      const { name, end } = this.parseTypeName(of);
+      return { kind: 'InstanceOf', value: left, typeName: name, start: left.start, end };
+    }
+    return left;
+  }
+
+  private parseTypeName(after: FeelToken): { name: string; end: number } {
+    for (const typeName of TYPE_NAMES) {
+      const words = typeName.split(' ');
+      if (words.every((w, i) => this.isWord(w, i))) {
+        const last = this.peek(words.length - 1);
+        this.pos += words.length;
+        return { name: typeName, end: last.end };
+      }
+    }
+    const token = this.peek();
+    if (token.type === 'eof') throw new FeelSyntaxError('Expected a type name', after.end);
+    throw new FeelSyntaxError(`Unknown type name "${token.value}"`, token.start);
+  }
+
+  // ── Unary tests (right-hand side of `in`) ──────────────────────────────
+
+  private parseUnaryTest(): FeelNode {
+    const token = this.peek();
+    if (token.type === 'op' && COMPARISON_OPS.has(token.value)) {
+      this.advance();
+      const operand = this.parseAdditive();
+      const op = token.value as UnaryTestNode['op'];
+      return { kind: 'UnaryTest', op, operand, start: token.start, end: operand.end };
+    }
+    return this.parseExpression();
+  }
+
+  private parsePositiveUnaryTests(): FeelNode[] {
+    if (!this.isOp('(')) return [this.parseUnaryTest()];
+
+    const open = this.advance();
+    const first = this.parseUnaryTest();
+    if (this.isOp('..')) return [this.finishRange(first, open, false)];
+
+    const tests = [first];
+    while (this.isOp(',')) {
+      this.advance();
+      tests.push(this.parseUnaryTest());
+    }
+    this.expectClosing(')', open);
+    return tests;
+  }
+
+  // ── Arithmetic levels ──────────────────────────────────────────────────
+
+  protected parseAdditive(): FeelNode {
+    let left = this.parseMultiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.advance().value as BinaryOperator;
+      const right = this.parseMultiplicative();
+      left = { kind: 'Binary', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FeelNode {
+    let left = this.parseExponent();
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = this.advance().value as BinaryOperator;
+      const right = this.parseExponent();
+      left = { kind: 'Binary', op, left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseExponent(): FeelNode {
+    let left = this.parseUnary();
+    while (this.isOp('**')) {
+      this.advance();
+      const right = this.parseUnary();
+      left = { kind: 'Binary', op: '**', left, right, start: left.start, end: right.end };
+    }
+    return left;
+  }
+
+  private parseUnary(): FeelNode {
+    if (this.isOp('-')) {
+      const start = this.advance().start;
+      const operand = this.parseUnary();
+      return { kind: 'Unary', op: '-', operand, start, end: operand.end };
+    }
+    return this.parsePostfix(this.parsePrimary());
+  }
+
+  private parsePostfix(base: FeelNode): FeelNode {
+    let node = base;
+    for (;;) {
+      if (this.isOp('.')) {
+        this.advance();
+        const name = this.expectName();
+        node = { kind: 'Path', target: node, name: name.value, start: node.start, end: name.end };
+      } else if (this.isOp('[')) {
+        const open = this.advance();
+        const filter = this.parseExpression();
+        const close = this.expectClosing(']', open);
+        node = { kind: 'Filter', target: node, filter, start: node.start, end: close.end };
+      } else if (this.isOp('(')) {
+        const open = this.advance();
+        const args = this.parseArguments(open);
+        const end = this.tokens[this.pos - 1].end;
+        node = { kind: 'Call', callee: node, args, start: node.start, end };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(open: FeelToken): CallArgument[] {
+    const args: CallArgument[] = [];
+    if (this.isOp(')')) {
+      this.advance();
+      return args;
+    }
+    do {
+      const name = this.tryNamedArgument();
+      args.push({ ...(name ? { name } : {}), value: this.parseExpression() });
+    } while (this.isOp(',') && this.advance());
+    this.expectClosing(')', open);
+    return args;
+  }
+
+  /** Consume `name words:` if the upcoming tokens form a named argument. */
+  private tryNamedArgument(): string | undefined {
+    let i = 0;
+    while (this.peek(i).type === 'name') i++;
+    if (i === 0 || !this.isOp(':', i)) return undefined;
+    const words: string[] = [];
+    for (let j = 0; j < i; j++) words.push(this.advance().value);
+    this.advance(); // ':'
+    return words.join(' ');
+  }
+}
+
+/**
+ * Parse a FEEL expression (without the leading `=`).
+ * Throws `FeelSyntaxError` with an offset on invalid input.
+ */
+export function parseFeel(source: string): FeelNode {
+  return new Parser(tokenize(source)).parse();
+}
@@ -0,0 +1,187 @@
+/**
+ * FEEL primary expressions: literals, names, function definitions,
+ * lists, ranges, contexts and temporal literals.
+ *
+ * Abstract base of the expression parser — the operator levels live in
+ * `parser.ts` and are reached through `parseExpression` / `parseAdditive`.
+ */
+
+import { type FeelNode, type ContextEntry } from './ast';
+import { type FeelToken } from './tokenizer';
+import { MULTI_WORD_FUNCTIONS } from './builtins';
+import { FeelSyntaxError } from './errors';
+import { TokenStream } from './token-stream';
+
+export abstract class PrimaryParser extends TokenStream {
+  protected abstract parseExpression(): FeelNode;
+  protected abstract parseAdditive(): FeelNode;
+
+  protected parsePrimary(): FeelNode {
+    const token = this.peek();
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { kind: 'Literal', value: Number(token.value), start: token.start, end: token.end };
+      case 'string':
+        this.advance();
+        return { kind: 'Literal', value: token.value, start: token.start, end: token.end };
+      case 'name':
+        return this.parseNamePrimary(token);
+      case 'op':
+        return this.parseBracketPrimary(token);
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private parseNamePrimary(token: FeelToken): FeelNode {
+    const { start, end } = token;
+    if (token.value === 'true' || token.value === 'false') {
+      this.advance();
+      return { kind: 'Literal', value: token.value === 'true', start, end };
+    }
+    if (token.value === 'null') {
+      this.advance();
+      return { kind: 'Literal', value: null, start, end };
+    }
+    if (token.value === 'function' && this.isOp('(', 1)) return this.parseFunction();
+
+    const multiWord = this.matchMultiWordFunction();
+    if (multiWord) return multiWord;
+
+    this.advance();
+    return { kind: 'Name', name: token.value, start, end };
+  }
+
+  /** Greedily match a multi-word built-in name followed by `(`. */
+  private matchMultiWordFunction(): FeelNode | undefined {
+    for (const fn of MULTI_WORD_FUNCTIONS) {
+      const words = fn.split(' ');
+      if (!words.every((w, i) => this.isWord(w, i)) || !this.isOp('(', words.length)) continue;
+      const start = this.peek().start;
+      const end = this.peek(words.length - 1).end;
+      this.pos += words.length;
+      return { kind: 'Name', name: fn, start, end };
+    }
+    return undefined;
+  }
+
+  private parseFunction(): FeelNode {
+    const start = this.advance().start;
+    const open = this.expectOp('(');
+    const params: string[] = [];
+    if (!this.isOp(')')) {
+      do {
+        params.push(this.expectName().value);
+      } while (this.isOp(',') && this.advance());
+    }
+    this.expectClosing(')', open);
+    const body = this.parseExpression();
+    return { kind: 'Function', params, body, start, end: body.end };
+  }
+
+  private parseBracketPrimary(token: FeelToken): FeelNode {
+    switch (token.value) {
+      case '(':
+        return this.parseParenthesized();
+      case '[':
+        return this.parseListOrRange();
+      case ']': {
+        // Open-start interval, e.g. `]1..10]`
+        this.advance();
+        return this.finishRange(this.parseAdditive(), token, false);
+      }
+      case '{':
+        return this.parseContext();
+      case '@':
+        return this.parseTemporal();
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private parseParenthesized(): FeelNode {
+    const open = this.advance();
+    const inner = this.parseExpression();
+    if (this.isOp('..')) return this.finishRange(inner, open, false);
+    const close = this.expectClosing(')', open);
+    return { ...inner, start: open.start, end: close.end };
+  }
+
+  private parseListOrRange(): FeelNode {
+    const open = this.advance();
+    const items: FeelNode[] = [];
+    if (!this.isOp(']')) {
+      const first = this.parseExpression();
+      if (this.isOp('..')) return this.finishRange(first, open, true);
+      items.push(first);
+      while (this.isOp(',')) {
+        this.advance();
+        items.push(this.parseExpression());
+      }
+    }
+    const close = this.expectClosing(']', open);
+    return { kind: 'List', items, start: open.start, end: close.end };
+  }
+
+  /** Parse `..high]` after the low bound of an interval. */
+  protected finishRange(low: FeelNode, open: FeelToken, lowIncluded: boolean): FeelNode {
+    this.expectOp('..');
+    const high = this.parseAdditive();
+    const close = this.peek();
+    if (close.type !== 'op' || ![']', ')', '['].includes(close.value)) {
+      if (close.type === 'eof') {
+        throw new FeelSyntaxError(
+          `Missing end of interval opened at offset ${open.start}`,
+          open.start
+        );
+      }
+      throw this.unexpected(close);
+    }
+    this.advance();
+    return {
+      kind: 'Range',
+      low,
+      high,
+      lowIncluded,
+      highIncluded: close.value === ']',
+      start: open.start,
+      end: close.end,
+    };
+  }
+
+  private parseContext(): FeelNode {
+    const open = this.advance();
+    const entries: ContextEntry[] = [];
+    if (!this.isOp('}')) {
+      do {
+        entries.push(this.parseContextEntry());
+      } while (this.isOp(',') && this.advance());
+    }
+    const close = this.expectClosing('}', open);
+    return { kind: 'Context', entries, start: open.start, end: close.end };
+  }
+
+  private parseContextEntry(): ContextEntry {
+    let key: string;
+    if (this.peek().type === 'string') {
+      key = this.advance().value;
+    } else {
+      const words = [this.expectName().value];
+      while (this.peek().type === 'name') words.push(this.advance().value);
+      key = words.join(' ');
+    }
+    this.expectOp(':');
+    return { key, value: this.parseExpression() };
+  }
+
+  private parseTemporal(): FeelNode {
+    const at = this.advance();
+    const token = this.peek();
+    if (token.type !== 'string') {
+      throw new FeelSyntaxError('Expected a string after "@"', token.start);
+    }
+    this.advance();
+    return { kind: 'Temporal', value: token.value, start: at.start, end: token.end };
+  }
+}
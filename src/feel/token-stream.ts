@@ -0,0 +1,70 @@
+/**
+ * Token cursor shared by the FEEL parser classes.
+ */
+
+import { type FeelToken } from './tokenizer';
+import { FeelSyntaxError } from './errors';
+
+export class TokenStream {
+  protected pos = 0;
+
+  constructor(protected readonly tokens: FeelToken[]) {}
+
+  protected peek(offset = 0): FeelToken {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  protected advance(): FeelToken {
+    const token = this.peek();
+    if (token.type !== 'eof') this.pos++;
+    return token;
+  }
+
+  protected isOp(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'op' && token.value === value;
+  }
+
+  protected isWord(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.value === value;
+  }
+
+  protected unexpected(token: FeelToken = this.peek()): FeelSyntaxError {
+    if (token.type === 'eof') {
+      return new FeelSyntaxError('Unexpected end of expression', token.start);
+    }
+    return new FeelSyntaxError(`Unexpected token "${token.value}"`, token.start);
+  }
+
+  protected expectOp(value: string): FeelToken {
+    if (!this.isOp(value)) {
+      const token = this.peek();
+      const found = token.type === 'eof' ? 'end of expression' : `"${token.value}"`;
+      throw new FeelSyntaxError(`Expected "${value}" but found ${found}`, token.start);
+    }
+    return this.advance();
+  }
+
+  protected expectWord(value: string): FeelToken {
+    if (!this.isWord(value)) throw this.unexpected();
+    return this.advance();
+  }
+
+  protected expectClosing(close: string, open: FeelToken): FeelToken {
+    if (this.isOp(close)) return this.advance();
+    if (this.peek().type === 'eof') {
+      throw new FeelSyntaxError(
+        `Missing closing "${close}" for "${open.value}" at offset ${open.start}`,
+        open.start
+      );
+    }
+    throw this.unexpected();
+  }
+
+  protected expectName(): FeelToken {
+    const token = this.peek();
+    if (token.type !== 'name') throw this.unexpected();
+    return this.advance();
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * FEEL tokenizer — splits an expression into positioned tokens.
+ *
+ * Keywords (and, or, if, then, …) are emitted as plain `name` tokens;
+ * the parser decides from context whether a word is a keyword.
+ */
+
+import { FeelSyntaxError } from './errors';
+
+export type FeelTokenType = 'number' | 'string' | 'name' | 'op' | 'eof';
+
+export interface FeelToken {
+  type: FeelTokenType;
+  value: string;
+  /** Offset of the first character (0-based). */
+  start: number;
+  /** Offset just past the last character. */
+  end: number;
+}
+
+/** Multi-character operators, longest first. */
+const OPERATORS = ['..', '**', '!=', '<=', '>=', '+', '-', '*', '/', '=', '<', '>'];
+
+/** Single-character punctuation. */
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ':', '.', '@']);
+
+function isNameStart(ch: string): boolean {
+  return /[\p{L}_?$]/u.test(ch);
+}
+
+function isNamePart(ch: string): boolean {
+  return /[\p{L}\p{N}_?$']/u.test(ch);
+}
+
+function isDigit(ch: string | undefined): boolean {
+  return ch !== undefined && ch >= '0' && ch <= '9';
+}
+
+/** Skip whitespace and comments, returning the next significant offset. */
+function skipTrivia(input: string, pos: number): number {
+  let i = pos;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++;
+    } else if (input.startsWith('//', i)) {
+      const nl = input.indexOf('\n', i);
+      i = nl === -1 ? input.length : nl + 1;
+    } else if (input.startsWith('/*', i)) {
+      const close = input.indexOf('*/', i + 2);
+      if (close === -1) throw new FeelSyntaxError('Unterminated comment', i);
+      i = close + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function readString(input: string, start: number): FeelToken {
+  let i = start + 1;
+  let value = '';
+  while (i < input.length && input[i] !== '"') {
+    if (input[i] === '\\' && i + 1 < input.length) {
+      const next = input[i + 1];
+      value += next === 'n' ? '\n' : next === 't' ? '\t' : next;
+      i += 2;
+    } else {
+      value += input[i++];
+    }
+  }
+  if (i >= input.length) throw new FeelSyntaxError('Unterminated string literal', start);
+  return { type: 'string', value, start, end: i + 1 };
+}
+
+function readBacktickName(input: string, start: number): FeelToken {
+  const close = input.indexOf('`', start + 1);
+  if (close === -1) throw new FeelSyntaxError('Unterminated backtick name', start);
+  return { type: 'name', value: input.slice(start + 1, close), start, end: close + 1 };
+}
+
+function readNumber(input: string, start: number): FeelToken {
+  let i = start;
+  while (isDigit(input[i])) i++;
+  // A single dot followed by a digit is a decimal point; ".." is a range operator.
+  if (input[i] === '.' && isDigit(input[i + 1])) {
+    i++;
+    while (isDigit(input[i])) i++;
+  }
+  return { type: 'number', value: input.slice(start, i), start, end: i };
+}
+
+function readName(input: string, start: number): FeelToken {
+  let i = start + 1;
+  while (i < input.length && isNamePart(input[i])) i++;
+  return { type: 'name', value: input.slice(start, i), start, end: i };
+}
+
+function readOperator(input: string, start: number): FeelToken | undefined {
+  const op = OPERATORS.find((o) => input.startsWith(o, start));
+  if (op) return { type: 'op', value: op, start, end: start + op.length };
+  if (PUNCTUATION.has(input[start])) {
+    return { type: 'op', value: input[start], start, end: start + 1 };
+  }
+  return undefined;
+}
+
+function readToken(input: string, pos: number): FeelToken {
+  const ch = input[pos];
+  if (ch === '"') return readString(input, pos);
+  if (ch === '`') return readBacktickName(input, pos);
+  if (isDigit(ch) || (ch === '.' && isDigit(input[pos + 1]))) return readNumber(input, pos);
+  if (isNameStart(ch)) return readName(input, pos);
+  const op = readOperator(input, pos);
+  if (op) return op;
+  throw new FeelSyntaxError(`Unexpected character "${ch}"`, pos);
+}
+
+/** Tokenize a FEEL expression (without the leading `=`). */
+export function tokenize(input: string): FeelToken[] {
+  const tokens: FeelToken[] = [];
+  let pos = skipTrivia(input, 0);
+  while (pos < input.length) {
+    const token = readToken(input, pos);
+    tokens.push(token);
+    pos = skipTrivia(input, token.end);
+  }
+  tokens.push({ type: 'eof', value: '', start: input.length, end: input.length });
+  return tokens;
+}
@@ -0,0 +1,82 @@
+/**
+ * Generic FEEL AST traversal.
+ */
+
+import { type FeelNode } from './ast';
+
+/** Return the direct child nodes of a FEEL AST node. */
+export function childNodes(node: FeelNode): FeelNode[] {
+  switch (node.kind) {
+    case 'Path':
+      return [node.target];
+    case 'Filter':
+      return [node.target, node.filter];
+    case 'Call':
+      return [node.callee, ...node.args.map((a) => a.value)];
+    case 'Unary':
+      return [node.operand];
+    case 'Binary':
+      return [node.left, node.right];
+    case 'Between':
+      return [node.value, node.low, node.high];
+    case 'UnaryTest':
+      return [node.operand];
+    case 'In':
+      return [node.value, ...node.tests];
+    case 'InstanceOf':
+      return [node.value];
+    case 'If':
+      return [node.condition, node.then, node.else];
+    case 'For':
+      return [...node.iterators.map((i) => i.source), node.body];
+    case 'Quantified':
+      return [...node.iterators.map((i) => i.source), node.condition];
+    case 'List':
+      return node.items;
+    case 'Context':
+      return node.entries.map((e) => e.value);
+    case 'Range':
+      return [node.low, node.high];
+    case 'Function':
+      return [node.body];
+    default:
+      return [];
+  }
+}
+
+/** Names introduced by a node for its own sub-expressions (iterators, params). */
+export function boundNames(node: FeelNode): string[] {
+  switch (node.kind) {
+    case 'For':
+    case 'Quantified':
+      return node.iterators.map((i) => i.name);
+    case 'Function':
+      return node.params;
+    case 'Context':
+      return node.entries.map((e) => e.key);
+    case 'Filter':
+      return ['item'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Depth-first walk. The visitor receives each node together with the set
+ * of names bound by enclosing iterators, function parameters, filters and
+ * context entries at that point.
+ */
+export function walkFeel(
+  node: FeelNode,
+  visit: (node: FeelNode, scope: ReadonlySet<string>) => void,
+  scope: ReadonlySet<string> = new Set()
+): void {
+  visit(node, scope);
+  const bound = boundNames(node);
+  const inner = bound.length > 0 ? new Set([...scope, ...bound]) : scope;
+  for (const child of childNodes(node)) {
+    // The filtered list itself is evaluated in the outer scope
+    const childScope = node.kind === 'Filter' && child === node.target ? scope : inner;
+    walkFeel(child, visit, childScope);
+  }
+}
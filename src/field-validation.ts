@@ -0,0 +1,147 @@
+/**
+ * Field value validation — checks a single value against a component's
+ * `validate` rules, producing the same messages the form-js runtime shows.
+ */
+
+import { type FormComponent } from './types';
+import { isFeelExpression } from './feel';
+import { PHONE_PATTERN } from './constants';
+
+export interface FieldValidationFailure {
+  rule: string;
+  message: string;
+}
+
+/** Evaluates a `=`-prefixed rule value (e.g. `min: "=limit"`). */
+export type RuleEvaluator = (expression: string) => unknown;
+
+/** Receives problems with the rules themselves, such as an invalid `pattern`. */
+export type RuleWarning = (property: string, message: string) => void;
+
+const EMAIL_PATTERN =
+  /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}])|(([a-zA-Z\-\d]+\.)+[a-zA-Z]{2,}))$/;
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+function resolveRule(value: unknown, evaluate: RuleEvaluator): unknown {
+  return isFeelExpression(value) ? evaluate(value) : value;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+function checkNumberRange(value: unknown, min: unknown, max: unknown): FieldValidationFailure[] {
+  const n = toNumber(value);
+  if (n === undefined) return [];
+  const failures: FieldValidationFailure[] = [];
+  if (typeof min === 'number' && n < min) {
+    failures.push({ rule: 'min', message: `Field must have minimum value of ${min}.` });
+  }
+  if (typeof max === 'number' && n > max) {
+    failures.push({ rule: 'max', message: `Field must have maximum value of ${max}.` });
+  }
+  return failures;
+}
+
+/** Compile a `pattern` rule; an invalid expression is reported and skipped. */
+function compilePattern(pattern: string, warn: RuleWarning): RegExp | undefined {
+  try {
+    return new RegExp(pattern);
+  } catch (error) {
+    warn('validate.pattern', error instanceof Error ? error.message : String(error));
+    return undefined;
+  }
+}
+
+function checkString(
+  value: string,
+  validate: NonNullable<FormComponent['validate']>,
+  evaluate: RuleEvaluator,
+  warn: RuleWarning
+): FieldValidationFailure[] {
+  const failures: FieldValidationFailure[] = [];
+  const minLength = resolveRule(validate.minLength, evaluate);
+  const maxLength = resolveRule(validate.maxLength, evaluate);
+
+  if (typeof minLength === 'number' && value.length < minLength) {
+    failures.push({
+      rule: 'minLength',
+      message: `Field must have minimum length of ${minLength}.`,
+    });
+  }
+  if (typeof maxLength === 'number' && value.length > maxLength) {
+    failures.push({
+      rule: 'maxLength',
+      message: `Field must have maximum length of ${maxLength}.`,
+    });
+  }
+  const pattern = validate.pattern ? compilePattern(validate.pattern, warn) : undefined;
+  if (pattern && !pattern.test(value)) {
+    failures.push({
+      rule: 'pattern',
+      message: validate.patternErrorMessage ?? `Field must match pattern ${validate.pattern}.`,
+    });
+  }
+  if (validate.validationType === 'email' && !EMAIL_PATTERN.test(value)) {
+    failures.push({ rule: 'validationType', message: 'Field must be a valid email.' });
+  }
+  if (validate.validationType === 'phone' && !PHONE_PATTERN.test(value)) {
+    failures.push({
+      rule: 'validationType',
+      message: 'Field must be a valid international phone number. (e.g. +4930664040900)',
+    });
+  }
+  return failures;
+}
+
+function checkValue(
+  validate: NonNullable<FormComponent['validate']>,
+  value: unknown,
+  evaluate: RuleEvaluator,
+  warn: RuleWarning
+): FieldValidationFailure[] {
+  if (isEmpty(value)) {
+    return resolveRule(validate.required, evaluate) === true
+      ? [{ rule: 'required', message: 'Field is required.' }]
+      : [];
+  }
+
+  const failures = checkNumberRange(
+    value,
+    resolveRule(validate.min, evaluate),
+    resolveRule(validate.max, evaluate)
+  );
+  if (typeof value === 'string') failures.push(...checkString(value, validate, evaluate, warn));
+  return failures;
+}
+
+/**
+ * Validate `value` against `comp.validate`. Empty values only fail the
+ * `required` rule; the remaining rules apply once a value is present.
+ * A `validationError` message replaces the built-in messages. Rules that
+ * cannot be applied, such as an invalid `pattern`, go to `warn` instead
+ * of failing the value.
+ */
+export function validateFieldValue(
+  comp: FormComponent,
+  value: unknown,
+  evaluate: RuleEvaluator,
+  warn: RuleWarning = () => {}
+): FieldValidationFailure[] {
+  if (!comp.validate) return [];
+  const failures = checkValue(comp.validate, value, evaluate, warn);
+  const custom = comp.validate.validationError;
+  return custom ? failures.map((f) => ({ ...f, message: custom })) : failures;
+}
@@ -0,0 +1,183 @@
+/**
+ * Crash-safe file writes, rotating form backups and startup recovery for
+ * the persistence layer.
+ *
+ * Files are written to a temporary sibling, fsynced and renamed over the
+ * target, so readers only ever see the old or the new content. Every
+ * persisted revision is also copied to `<dir>/.backups/<formId>/`, which
+ * keeps the newest `DEFAULT_BACKUP_COUNT` revisions. `recoverForms` runs
+ * before forms are loaded and restores missing or unreadable `.form` files
+ * from their newest valid backup.
+ */
+
+import {
+  closeSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  unlinkSync,
+  writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { type FormSchema } from './types';
+import { DEFAULT_BACKUP_COUNT } from './constants';
+
+export const BACKUP_DIR_NAME = '.backups';
+
+const TEMP_SUFFIX = '.tmp';
+
+/** A file `recoverForms` had to repair or remove. */
+export interface RecoveryAction {
+  /** File name relative to the persistence directory. */
+  file: string;
+  formId?: string;
+  action: 'restored' | 'rebuilt' | 'removed-temp' | 'unrecoverable';
+  /** Backup file the form was restored from. */
+  restoredFrom?: string;
+  reason: string;
+}
+
+// ── Atomic writes ──────────────────────────────────────────────────────────
+
+/** Write `content` to `filePath` via a fsynced temp file and an atomic rename. */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.${process.pid}${TEMP_SUFFIX}`;
+  const fd = openSync(tempPath, 'w');
+  try {
+    writeSync(fd, content, null, 'utf-8');
+    fsyncSync(fd);
+  } finally {
+    closeSync(fd);
+  }
+  try {
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    if (existsSync(tempPath)) unlinkSync(tempPath);
+    throw error;
+  }
+}
+
+/** Parse a form schema file. Returns undefined when it is missing or invalid. */
+export function tryReadFormFile(filePath: string): FormSchema | undefined {
+  try {
+    const raw = readFileSync(filePath, 'utf-8');
+    const schema = JSON.parse(raw);
+    if (!schema || typeof schema !== 'object' || !Array.isArray(schema.components)) {
+      return undefined;
+    }
+    schema.type = schema.type ?? 'default';
+    return schema as FormSchema;
+  } catch {
+    return undefined;
+  }
+}
+
+// ── Backups ────────────────────────────────────────────────────────────────
+
+function formBackupDir(dir: string, formId: string): string {
+  return join(dir, BACKUP_DIR_NAME, formId);
+}
+
+/** Backup file names of a form, newest first. */
+export function listBackups(dir: string, formId: string): string[] {
+  const backupDir = formBackupDir(dir, formId);
+  if (!existsSync(backupDir)) return [];
+  return readdirSync(backupDir)
+    .filter((f) => /^\d+\.form$/.test(f))
+    .sort((a, b) => Number.parseInt(b, 10) - Number.parseInt(a, 10));
+}
+
+/**
+ * Store `content` as the newest backup revision of `formId` and delete
+ * revisions beyond `keep`. Content identical to the newest revision is not
+ * stored again.
+ *
+ * @returns The backup file path relative to `dir`.
+ */
+export function writeBackup(
+  dir: string,
+  formId: string,
+  content: string,
+  keep: number = DEFAULT_BACKUP_COUNT
+): string {
+  const backupDir = formBackupDir(dir, formId);
+  mkdirSync(backupDir, { recursive: true });
+  const existing = listBackups(dir, formId);
+  const newest = existing[0];
+  if (newest && readFileSync(join(backupDir, newest), 'utf-8') === content) {
+    return join(BACKUP_DIR_NAME, formId, newest);
+  }
+
+  const next = newest ? Number.parseInt(newest, 10) + 1 : 1;
+  const name = `${String(next).padStart(6, '0')}.form`;
+  writeFileAtomic(join(backupDir, name), content);
+
+  for (const old of [name, ...existing].slice(keep)) {
+    rmSync(join(backupDir, old), { force: true });
+  }
+  return join(BACKUP_DIR_NAME, formId, name);
+}
+
+/** Remove all backups of a form. */
+export function deleteBackups(dir: string, formId: string): void {
+  rmSync(formBackupDir(dir, formId), { recursive: true, force: true });
+}
+
+// ── Startup recovery ───────────────────────────────────────────────────────
+
+function restoreFromBackup(dir: string, formId: string, reason: string): RecoveryAction {
+  const file = `${formId}.form`;
+  for (const backup of listBackups(dir, formId)) {
+    const backupPath = join(formBackupDir(dir, formId), backup);
+    if (!tryReadFormFile(backupPath)) continue;
+    writeFileAtomic(join(dir, file), readFileSync(backupPath, 'utf-8'));
+    const restoredFrom = join(BACKUP_DIR_NAME, formId, backup);
+    return { file, formId, action: 'restored', restoredFrom, reason };
+  }
+  return { file, formId, action: 'unrecoverable', reason: `${reason}; no valid backup` };
+}
+
+/** Form IDs known from `.form` files, backup folders and the meta manifest. */
+function knownFormIds(dir: string, metaFormIds: string[]): Set<string> {
+  const ids = new Set(metaFormIds);
+  for (const file of readdirSync(dir)) {
+    if (file.endsWith('.form')) ids.add(file.replace(/\.form$/, ''));
+  }
+  const backupRoot = join(dir, BACKUP_DIR_NAME);
+  if (existsSync(backupRoot)) {
+    for (const formId of readdirSync(backupRoot)) ids.add(formId);
+  }
+  return ids;
+}
+
+/**
+ * Repair the persistence directory before forms are loaded: delete
+ * temp files left by interrupted writes and restore missing or unreadable
+ * `.form` files from their newest valid backup. A form is expected to
+ * exist when it has a file, a backup folder or an entry in `metaFormIds`
+ * (backups are deleted together with their form).
+ */
+export function recoverForms(dir: string, metaFormIds: string[] = []): RecoveryAction[] {
+  if (!existsSync(dir)) return [];
+  const actions: RecoveryAction[] = [];
+
+  for (const file of readdirSync(dir).filter((f) => f.endsWith(TEMP_SUFFIX))) {
+    rmSync(join(dir, file), { force: true });
+    actions.push({ file, action: 'removed-temp', reason: 'Interrupted write' });
+  }
+
+  for (const formId of knownFormIds(dir, metaFormIds)) {
+    const filePath = join(dir, `${formId}.form`);
+    if (!existsSync(filePath)) {
+      actions.push(restoreFromBackup(dir, formId, 'Form file is missing'));
+    } else if (!tryReadFormFile(filePath)) {
+      actions.push(restoreFromBackup(dir, formId, 'Form file is truncated or invalid'));
+    }
+  }
+  return actions;
+}
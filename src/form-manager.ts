@@ -4,17 +4,53 @@
  */
 
 import { randomBytes } from 'node:crypto';
-import { type FormState, type FormSchema } from './types';
+import { type FormState, type FormSchema, type ExternalConflict } from './types';
 import { DEFAULT_SCHEMA_VERSION, EXPORTER } from './constants';
+import { initHistory } from './history';
+import { diffComponentIds } from './schema-diff';
 
-// ── Change listener (used by persistence) ──────────────────────────────────
+// ── Change events ──────────────────────────────────────────────────────────
 
-type FormChangeListener = (event: 'store' | 'delete', formId: string, form?: FormState) => void;
-let changeListener: FormChangeListener | undefined;
+/** Events emitted for every change to the form store. */
+export type FormChangeEvent =
+  | { type: 'created'; formId: string; form: FormState }
+  | {
+      type: 'mutated';
+      formId: string;
+      form: FormState;
+      version: number;
+      /** IDs of components added, removed or changed (empty when unknown). */
+      changedComponentIds: string[];
+    }
+  | { type: 'deleted'; formId: string }
+  | { type: 'renamed'; formId: string; form: FormState; previousName?: string }
+  | { type: 'conflict'; formId: string; form: FormState; conflict: ExternalConflict };
 
-/** Register a listener called on every store / delete / notify. */
-export function setFormChangeListener(listener: FormChangeListener | undefined): void {
-  changeListener = listener;
+export type FormChangeListener = (event: FormChangeEvent) => void;
+
+const changeListeners = new Set<FormChangeListener>();
+
+/**
+ * Subscribe to form store changes (persistence, resource notifications, …).
+ * @returns A function that removes the listener again.
+ */
+export function addFormChangeListener(listener: FormChangeListener): () => void {
+  changeListeners.add(listener);
+  return () => removeFormChangeListener(listener);
+}
+
+export function removeFormChangeListener(listener: FormChangeListener): void {
+  changeListeners.delete(listener);
+}
+
+/** Number of registered form change listeners. */
+export function formChangeListenerCount(): number {
+  return changeListeners.size;
+}
+
+function emit(event: FormChangeEvent): void {
+  // Copy so listeners may unsubscribe while being notified
+  for (const listener of [...changeListeners]) listener(event);
 }
 
 // ── Form store ─────────────────────────────────────────────────────────────
@@ -25,17 +61,44 @@ export function getForm(id: string): FormState | undefined {
   return forms.get(id);
 }
 
+/**
+ * Store a form under `id`. Emits `created` for a new ID; replacing an
+ * existing form emits `mutated` with the components that differ.
+ */
 export function storeForm(id: string, state: FormState): void {
+  initHistory(state);
+  const previous = forms.get(id);
   forms.set(id, state);
-  changeListener?.('store', id, state);
+  if (previous) {
+    emit({
+      type: 'mutated',
+      formId: id,
+      form: state,
+      version: state.version ?? 0,
+      changedComponentIds: diffComponentIds(previous.schema.components, state.schema.components),
+    });
+  } else {
+    emit({ type: 'created', formId: id, form: state });
+  }
 }
 
 export function deleteForm(id: string): boolean {
   const existed = forms.delete(id);
-  if (existed) changeListener?.('delete', id);
+  if (existed) emit({ type: 'deleted', formId: id });
   return existed;
 }
 
+/** Change a form's display name. Returns false when the form does not exist. */
+export function renameForm(id: string, name: string | undefined): boolean {
+  const form = forms.get(id);
+  if (!form) return false;
+  const previousName = form.name;
+  if (previousName === name) return true;
+  form.name = name;
+  emit({ type: 'renamed', formId: id, form, previousName });
+  return true;
+}
+
 export function getAllForms(): Map<string, FormState> {
   return forms;
 }
@@ -45,13 +108,24 @@ export function generateFormId(): string {
 }
 
 /**
- * Notify the change listener that a form was mutated in-place.
+ * Notify change listeners that a form was mutated in-place.
  * Call this after any in-place schema modification (e.g. after bumpVersion).
  */
-export function notifyFormChanged(formId: string): void {
-  if (!changeListener) return;
+export function notifyFormChanged(formId: string, changedComponentIds: string[] = []): void {
+  const form = forms.get(formId);
+  if (!form) return;
+  emit({ type: 'mutated', formId, form, version: form.version ?? 0, changedComponentIds });
+}
+
+/**
+ * Record an external edit that conflicted with in-memory changes on the
+ * form (`externalConflict`) and notify change listeners.
+ */
+export function notifyFormConflict(formId: string, conflict: ExternalConflict): void {
   const form = forms.get(formId);
-  if (form) changeListener('store', formId, form);
+  if (!form) return;
+  form.externalConflict = conflict;
+  emit({ type: 'conflict', formId, form, conflict });
 }
 
 /** Visible for testing — wipe all forms. */
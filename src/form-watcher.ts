@@ -0,0 +1,54 @@
+/**
+ * Directory watcher for persisted `.form` files.
+ *
+ * Reports the form IDs of `.form` files that were created, changed or
+ * replaced in the persistence directory, debounced per file so editors
+ * that write in several steps (or via a temp file and rename) trigger a
+ * single reload. Temp files, `meta.json` and backups are ignored.
+ */
+
+import { watch, type FSWatcher } from 'node:fs';
+
+/** Delay before a changed file is reported, in milliseconds. */
+export const WATCH_DEBOUNCE_MS = 100;
+
+export interface FormWatcher {
+  close(): void;
+}
+
+/**
+ * Watch `dir` and call `onChange(formId)` once a `<formId>.form` file has
+ * been quiet for `debounceMs`. The watcher does not keep the process alive.
+ */
+export function watchFormFiles(
+  dir: string,
+  onChange: (formId: string) => void,
+  debounceMs: number = WATCH_DEBOUNCE_MS
+): FormWatcher {
+  const pending = new Map<string, NodeJS.Timeout>();
+
+  const watcher: FSWatcher = watch(dir, { persistent: false }, (_event, filename) => {
+    if (!filename?.endsWith('.form')) return;
+    const formId = filename.slice(0, -'.form'.length);
+    clearTimeout(pending.get(formId));
+    pending.set(
+      formId,
+      setTimeout(() => {
+        pending.delete(formId);
+        onChange(formId);
+      }, debounceMs).unref()
+    );
+  });
+
+  watcher.on('error', (error) => {
+    console.error(`Stopped watching ${dir}:`, error);
+  });
+
+  return {
+    close() {
+      for (const timer of pending.values()) clearTimeout(timer);
+      pending.clear();
+      watcher.close();
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Grid layout analysis for the form-js row model.
+ *
+ * Components of one container that share a `layout.row` are rendered
+ * side by side on a DEFAULT_COLUMNS-wide grid; fields without
+ * `layout.columns` share the space the others leave. This module finds
+ * rows that cannot render as intended — wider than the grid, split by
+ * other components, reused in another container, or holding a single
+ * auto-sized field — reports them for the validator and repairs them for
+ * `modify_form_component` auto-layout (strategy `repair`).
+ */
+
+import { randomBytes } from 'node:crypto';
+import { type FormComponent } from './types';
+import { DEFAULT_COLUMNS } from './constants';
+import { type ValidationIssue } from './validator';
+
+export type GridRowProblemKind = 'overflow' | 'split' | 'cross-parent' | 'single-auto';
+
+export interface GridRowProblem {
+  kind: GridRowProblemKind;
+  /** Row ID (undefined for a component without a row that is wider than the grid). */
+  row?: string;
+  /** Container the row is in (undefined at the root). */
+  parentId?: string;
+  /** Components affected (for `split` / `cross-parent`: the misplaced ones). */
+  components: FormComponent[];
+}
+
+/** Generate a fresh row ID. */
+export function generateRowId(): string {
+  return `Row_${randomBytes(3).toString('hex')}`;
+}
+
+function componentName(comp: FormComponent): string {
+  return comp.id ?? comp.type;
+}
+
+/** Sum of explicit widths and number of auto-sized members of a row. */
+function measureRow(members: FormComponent[]): { width: number; auto: number } {
+  let width = 0;
+  let auto = 0;
+  for (const comp of members) {
+    if (comp.layout?.columns === undefined) auto++;
+    else width += comp.layout.columns;
+  }
+  return { width, auto };
+}
+
+/**
+ * Widths that fit a row into the grid, keeping the proportions of the
+ * explicit widths; auto-sized members count as an equal share.
+ */
+export function fitRowWidths(members: FormComponent[], gridWidth = DEFAULT_COLUMNS): number[] {
+  const share = gridWidth / members.length;
+  return fitWidths(
+    members.map((comp) => comp.layout?.columns ?? share),
+    gridWidth
+  );
+}
+
+/** Scale widths to fill the grid exactly, keeping their proportions (at least 1 each). */
+export function fitWidths(weights: number[], gridWidth = DEFAULT_COLUMNS): number[] {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  const widths = weights.map((weight) => Math.max(1, Math.floor((weight * gridWidth) / total)));
+  let left = gridWidth - widths.reduce((sum, width) => sum + width, 0);
+  for (let i = 0; left > 0; i = (i + 1) % widths.length, left--) widths[i]++;
+  return widths;
+}
+
+interface RowOccurrence {
+  parentId?: string;
+  /** Contiguous runs of the row within the parent. */
+  runs: FormComponent[][];
+}
+
+/** Group the rows of one sibling list into contiguous runs. */
+function collectRows(components: FormComponent[], parentId: string | undefined) {
+  const rows = new Map<string, RowOccurrence>();
+  let previous: string | undefined;
+  for (const comp of components) {
+    const row = comp.layout?.row;
+    if (!row) {
+      previous = undefined;
+      continue;
+    }
+    let occurrence = rows.get(row);
+    if (!occurrence) {
+      occurrence = { parentId, runs: [] };
+      rows.set(row, occurrence);
+    }
+    if (row === previous) occurrence.runs.at(-1)!.push(comp);
+    else occurrence.runs.push([comp]);
+    previous = row;
+  }
+  return rows;
+}
+
+function checkRow(
+  row: string,
+  occurrence: RowOccurrence,
+  gridWidth: number,
+  problems: GridRowProblem[]
+): void {
+  const members = occurrence.runs.flat();
+  const base = { row, parentId: occurrence.parentId };
+  if (occurrence.runs.length > 1) {
+    problems.push({ ...base, kind: 'split', components: occurrence.runs.slice(1).flat() });
+  }
+  const { width, auto } = measureRow(members);
+  if (width > gridWidth || (auto > 0 && width >= gridWidth)) {
+    problems.push({ ...base, kind: 'overflow', components: members });
+  } else if (members.length === 1 && auto === 1) {
+    problems.push({ ...base, kind: 'single-auto', components: members });
+  }
+}
+
+/** Find the rows of a component tree that do not render as intended. */
+export function analyzeGridLayout(
+  components: FormComponent[],
+  gridWidth = DEFAULT_COLUMNS
+): GridRowProblem[] {
+  const problems: GridRowProblem[] = [];
+  const rowParents = new Map<string, string | undefined>();
+
+  const walk = (siblings: FormComponent[], parentId: string | undefined) => {
+    for (const comp of siblings) {
+      if (!comp.layout?.row && (comp.layout?.columns ?? 0) > gridWidth) {
+        problems.push({ kind: 'overflow', parentId, components: [comp] });
+      }
+    }
+    for (const [row, occurrence] of collectRows(siblings, parentId)) {
+      if (rowParents.has(row)) {
+        problems.push({ kind: 'cross-parent', row, parentId, components: occurrence.runs.flat() });
+      } else {
+        rowParents.set(row, parentId);
+      }
+      checkRow(row, occurrence, gridWidth, problems);
+    }
+    for (const comp of siblings) {
+      if (Array.isArray(comp.components)) walk(comp.components, comp.id);
+    }
+  };
+  walk(components, undefined);
+  return problems;
+}
+
+// ── Validation ─────────────────────────────────────────────────────────────
+
+function describeProblem(problem: GridRowProblem, gridWidth: number): ValidationIssue {
+  const names = problem.components.map(componentName);
+  const first = problem.components[0];
+  const row = `Row "${problem.row}"`;
+  switch (problem.kind) {
+    case 'overflow': {
+      const { width, auto } = measureRow(problem.components);
+      const widths = fitRowWidths(problem.components, gridWidth).join(', ');
+      return {
+        severity: 'error',
+        componentId: first.id,
+        property: 'layout.columns',
+        message: problem.row
+          ? `${row} (${names.join(', ')}) is ${width} columns wide` +
+            `${auto > 0 ? ` plus ${auto} auto-sized field(s)` : ''}, but the grid has ${gridWidth}`
+          : `${names[0]} is ${width} columns wide, but the grid has ${gridWidth}`,
+        suggestion: problem.row
+          ? `Set layout.columns to ${widths} or move fields to a new row`
+          : `Set layout.columns to at most ${gridWidth}`,
+      };
+    }
+    case 'split':
+      return {
+        severity: 'warning',
+        componentId: first.id,
+        property: 'layout.row',
+        message: `${row} is split: ${names.join(', ')} not next to the rest of the row`,
+        suggestion: 'Move the components of the row next to each other or give them a new row ID',
+      };
+    case 'cross-parent':
+      return {
+        severity: 'warning',
+        componentId: first.id,
+        property: 'layout.row',
+        message: `${row} is reused by ${names.join(', ')} in ${problem.parentId ?? 'the root'}`,
+        suggestion: 'Use a separate row ID in each container',
+      };
+    case 'single-auto':
+      return {
+        severity: 'warning',
+        componentId: first.id,
+        property: 'layout.row',
+        message: `${row} holds only ${names[0]}, which has no layout.columns and spans the full width`,
+        suggestion: `Set layout.columns on ${names[0]} or remove layout.row`,
+      };
+  }
+}
+
+/** Validation issues for rows that do not render as intended. */
+export function checkGridLayout(
+  components: FormComponent[],
+  gridWidth = DEFAULT_COLUMNS
+): ValidationIssue[] {
+  return analyzeGridLayout(components, gridWidth).map((p) => describeProblem(p, gridWidth));
+}
+
+// ── Repair ─────────────────────────────────────────────────────────────────
+
+function repairProblem(problem: GridRowProblem, gridWidth: number): void {
+  switch (problem.kind) {
+    case 'overflow': {
+      const widths = fitRowWidths(problem.components, gridWidth);
+      problem.components.forEach((comp, i) => (comp.layout!.columns = widths[i]));
+      break;
+    }
+    case 'split':
+    case 'cross-parent': {
+      const row = generateRowId();
+      for (const comp of problem.components) comp.layout!.row = row;
+      break;
+    }
+    case 'single-auto':
+      delete problem.components[0].layout!.row;
+      break;
+  }
+}
+
+/**
+ * Repair the offending rows in place, leaving all other components
+ * untouched. Returns the problems that were fixed.
+ */
+export function repairGridLayout(
+  components: FormComponent[],
+  gridWidth = DEFAULT_COLUMNS
+): GridRowProblem[] {
+  const fixed: GridRowProblem[] = [];
+  // Rows are renamed first and measured again: a split-off run may fit on
+  // its own, or hold a single auto-sized field.
+  for (let pass = 0; pass < 5; pass++) {
+    const problems = analyzeGridLayout(components, gridWidth);
+    if (problems.length === 0) break;
+    const renames = problems.filter((p) => p.kind === 'split' || p.kind === 'cross-parent');
+    const batch = renames.length > 0 ? renames : problems;
+    for (const problem of batch) repairProblem(problem, gridWidth);
+    fixed.push(...batch);
+  }
+  return fixed;
+}
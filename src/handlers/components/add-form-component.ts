@@ -1,14 +1,19 @@
 /**
- * add_form_component — Add a component to a form, or duplicate an existing one.
+ * add_form_component — Add a component to a form, duplicate an existing one,
+ * or insert a fragment.
  *
  * When `sourceComponentId` is provided, deep-clones the source component
  * (with new IDs/keys) and inserts the copy after the original — replacing
  * the former `duplicate_form_component` tool.
+ *
+ * When `fragment` is provided, instantiates the named fragment (see
+ * `src/templates/`) and inserts its components, rebasing their keys so
+ * they do not collide with the form's existing bindings.
  */
 
 import { randomBytes } from 'node:crypto';
-import { type ToolResult, type FormComponent } from '../../types';
-import { CONTAINER_FIELD_TYPES } from '../../constants';
+import { type ToolResult, type FormComponent, type FormSchema, type FormState } from '../../types';
+import { supportsProperty } from '../../property-registry';
 import {
   validateArgs,
   requireForm,
@@ -22,7 +27,18 @@ import {
   findParentComponents,
   collectAllKeys,
   countComponents,
+  resolveKey,
+  EXPECTED_VERSION_PROPERTY,
 } from '../helpers';
+import { findFragment, instantiateTemplate, listFragments } from '../../templates';
+import {
+  childScope,
+  joinPath,
+  resolveBindings,
+  scopeOfChildren,
+  scopeOfComponent,
+} from '../../data-binding';
+import { renameKey, renamePath } from '../../key-rename';
 
 export const TOOL_DEFINITION = {
   name: 'add_form_component',
@@ -30,11 +46,16 @@ export const TOOL_DEFINITION = {
     'Add a component (field) to a form, or duplicate an existing one. ' +
     'For keyed types (textfield, number, select, etc.) a key is auto-generated if not provided. ' +
     'Use parentId to nest inside a group or dynamiclist. ' +
-    'Use sourceComponentId to deep-clone an existing component (new IDs/keys), inserting the copy after the original.',
+    'Use sourceComponentId to deep-clone an existing component (new IDs/keys), inserting the copy after the original. ' +
+    'Use fragment to insert a reusable block (built-in: "address", "contact-person", "bank-details", ' +
+    '"consent"; saved ones via save_form_fragment; see the form://templates resource) at parentId / position; ' +
+    'keys (or the data path of a fragment group) get keyPrefix and a numeric suffix when taken; ' +
+    'references inside the fragment follow, and the response maps old to new data paths (renamed).',
   inputSchema: {
     type: 'object',
     properties: {
       formId: { type: 'string', description: 'Target form ID' },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
       type: {
         type: 'string',
         description:
@@ -54,6 +75,18 @@ export const TOOL_DEFINITION = {
           'Deep-clone an existing component instead of creating a new one. ' +
           'The copy gets new IDs and keys and is inserted after the original.',
       },
+      fragment: {
+        type: 'string',
+        description: 'Name of a fragment to insert instead of a single component',
+      },
+      fragmentParams: {
+        type: 'object',
+        description: 'Fragment parameter values (e.g. { "title": "Billing Address" })',
+      },
+      keyPrefix: {
+        type: 'string',
+        description: 'Prefix for the keys / data paths of the inserted fragment (e.g. "billing_")',
+      },
     },
     required: ['formId'],
   },
@@ -61,21 +94,30 @@ export const TOOL_DEFINITION = {
 
 // ── Deep-clone helper (ported from duplicate_form_component) ───────────────
 
-function deepCloneComponent(comp: FormComponent, existingKeys: string[]): FormComponent {
+/**
+ * Deep-clone a component with new IDs and `_copy` keys. `existingKeys` holds
+ * full data paths; `scope` is the data scope the clone is placed in.
+ */
+function deepCloneComponent(
+  comp: FormComponent,
+  existingKeys: string[],
+  scope: string
+): FormComponent {
   const suffix = randomBytes(4).toString('hex');
   const clone: FormComponent = { ...comp, id: `${comp.type}_${suffix}` };
   if (clone.key) {
     let newKey = `${clone.key}_copy`;
     let counter = 1;
-    while (existingKeys.includes(newKey)) {
+    while (existingKeys.includes(joinPath(scope, newKey))) {
       newKey = `${clone.key}_copy${counter}`;
       counter++;
     }
     clone.key = newKey;
-    existingKeys.push(newKey);
+    existingKeys.push(joinPath(scope, newKey));
   }
   if (clone.components) {
-    clone.components = clone.components.map((c) => deepCloneComponent(c, existingKeys));
+    const inner = childScope(clone, scope);
+    clone.components = clone.components.map((c) => deepCloneComponent(c, existingKeys, inner));
   }
   return clone;
 }
@@ -85,38 +127,97 @@ function resolveTarget(rootComponents: FormComponent[], parentId?: string): Form
   if (!parentId) return rootComponents;
   const parent = findComponentById(rootComponents, parentId);
   if (!parent) throw new Error(`Parent component not found: ${parentId}`);
-  if (!(CONTAINER_FIELD_TYPES as readonly string[]).includes(parent.type)) {
+  if (!supportsProperty(parent.type, 'components')) {
     throw new Error(`Parent ${parentId} (type: ${parent.type}) is not a container`);
   }
   if (!parent.components) parent.components = [];
   return parent.components;
 }
 
-/** Generate a unique key for a keyed component. */
-function resolveKey(
-  rootComponents: FormComponent[],
-  explicitKey: string | undefined,
-  label: string | undefined,
-  type: string
-): string {
-  let key = explicitKey;
-  if (!key) {
-    key = label ? label.replaceAll(/[^\w]/g, '').slice(0, 30) : type;
-    key = key.charAt(0).toLowerCase() + key.slice(1);
+// ── Fragment insertion ─────────────────────────────────────────────────────
+
+/** First free name for `base` (suffixed `1`, `2`, … as `resolveKey` does). */
+function freeName(base: string, isTaken: (name: string) => boolean): string {
+  let name = base;
+  for (let suffix = 1; isTaken(name); suffix++) name = `${base}${suffix}`;
+  return name;
+}
+
+/**
+ * Prefix the data bindings of inserted components and suffix them while
+ * their full path in `scope` is taken, rewriting the fragment's FEEL and
+ * `{{ … }}` references along (see `key-rename.ts`). Keys inside a
+ * component with a `path` are scoped by it, so only the path is rebased
+ * there. Returns the renamed bindings by full data path.
+ */
+function rebaseBindings(
+  components: FormComponent[],
+  taken: Set<string>,
+  scope: string,
+  keyPrefix: string
+): Record<string, string> {
+  const fragment: FormSchema = { type: 'default', components };
+  const renamed: Record<string, string> = {};
+  const visit = (list: FormComponent[]) => {
+    for (const comp of list) {
+      const kind = comp.path ? 'path' : comp.key ? 'key' : undefined;
+      if (kind) {
+        const original: string = comp[kind];
+        const local = new Set(resolveBindings(components).map((binding) => binding.path));
+        const name = freeName(
+          `${keyPrefix}${original}`,
+          (n) => taken.has(joinPath(scope, n)) || (n !== original && local.has(n))
+        );
+        taken.add(joinPath(scope, name));
+        if (name !== original) {
+          (kind === 'path' ? renamePath : renameKey)(fragment, comp, name);
+          renamed[joinPath(scope, original)] = joinPath(scope, name);
+        }
+      }
+      if (comp.components && !comp.path) visit(comp.components);
+    }
+  };
+  visit(components);
+  return renamed;
+}
+
+function insertAt(target: FormComponent[], components: FormComponent[], position?: number): void {
+  if (position !== undefined && position >= 0 && position < target.length) {
+    target.splice(position, 0, ...components);
+  } else {
+    target.push(...components);
   }
-  const existingKeys = collectAllKeys(rootComponents);
-  let finalKey = key;
-  let suffix = 1;
-  while (existingKeys.includes(finalKey)) {
-    finalKey = `${key}${suffix}`;
-    suffix++;
+}
+
+function handleInsertFragment(form: FormState, args: any): ToolResult {
+  const fragment = findFragment(args.fragment);
+  if (!fragment) {
+    const available = listFragments().templates.map((f) => f.name);
+    throw new Error(`Unknown fragment "${args.fragment}". Available: ${available.join(', ')}`);
   }
-  return finalKey;
+  const target = resolveTarget(form.schema.components, args.parentId);
+  const components = instantiateTemplate(fragment, args.fragmentParams);
+  const taken = new Set(resolveBindings(form.schema.components).map((binding) => binding.path));
+  const scope = scopeOfChildren(form.schema.components, args.parentId);
+  const renamed = rebaseBindings(components, taken, scope, args.keyPrefix ?? '');
+
+  insertAt(target, components, args.position);
+  bumpVersion(form, args.formId);
+
+  return mutationResult(form, {
+    fragment: fragment.name,
+    components,
+    renamed,
+    totalComponents: countComponents(form.schema.components),
+    message: `Inserted fragment "${fragment.name}" (${countComponents(components)} component(s))`,
+  });
 }
 
 export async function handleAddFormComponent(args: any): Promise<ToolResult> {
   validateArgs(args, ['formId']);
-  const form = requireForm(args.formId);
+  const form = requireForm(args.formId, args.expectedVersion);
+
+  if (args.fragment !== undefined) return handleInsertFragment(form, args);
 
   // ── Duplicate mode (sourceComponentId) ─────────────────────────────────
   if (args.sourceComponentId) {
@@ -126,7 +227,8 @@ export async function handleAddFormComponent(args: any): Promise<ToolResult> {
 
     const idx = parentArr.findIndex((c) => c.id === args.sourceComponentId);
     const existingKeys = collectAllKeys(form.schema.components);
-    const clone = deepCloneComponent(parentArr[idx], existingKeys);
+    const scope = scopeOfComponent(form.schema.components, args.sourceComponentId);
+    const clone = deepCloneComponent(parentArr[idx], existingKeys, scope);
 
     parentArr.splice(idx + 1, 0, clone);
     bumpVersion(form, args.formId);
@@ -139,7 +241,7 @@ export async function handleAddFormComponent(args: any): Promise<ToolResult> {
 
   // ── Normal add mode ────────────────────────────────────────────────────
   if (!args.type) {
-    throw new Error('Either "type" or "sourceComponentId" is required');
+    throw new Error('One of "type", "sourceComponentId" or "fragment" is required');
   }
 
   const { type, label, parentId, position } = args;
@@ -152,15 +254,12 @@ export async function handleAddFormComponent(args: any): Promise<ToolResult> {
   const component: any = { type, id, ...(args.properties ?? {}) };
   if (label !== undefined) component.label = label;
   if (isKeyedType(type)) {
-    component.key = resolveKey(form.schema.components, args.key, label, type);
+    const scope = scopeOfChildren(form.schema.components, parentId);
+    component.key = resolveKey(form.schema.components, args.key, label, type, scope);
   }
 
   // Insert at position or append
-  if (position !== undefined && position >= 0 && position < targetComponents.length) {
-    targetComponents.splice(position, 0, component);
-  } else {
-    targetComponents.push(component);
-  }
+  insertAt(targetComponents, [component], position);
 
   bumpVersion(form, args.formId);
 
@@ -0,0 +1,148 @@
+/**
+ * apply_form_operations — Apply an ordered batch of add / modify / set
+ * operations to a form as one transaction.
+ *
+ * Each operation runs through the regular tool handler. Operations can
+ * name the component they add with `handle` and later operations refer to
+ * it as `"$<handle>"` in any component ID argument. If an operation fails,
+ * the form is restored to its state before the batch. A successful batch
+ * counts as a single change: one version bump, one undo step, one change
+ * notification.
+ */
+
+import { type ToolResult } from '../../types';
+import {
+  validateArgs,
+  requireForm,
+  mutationResult,
+  bumpVersion,
+  countComponents,
+  withChangeTrackingSuspended,
+  EXPECTED_VERSION_PROPERTY,
+} from '../helpers';
+import { handleAddFormComponent } from './add-form-component';
+import { handleModifyFormComponent } from './modify-form-component';
+import { handleSetFormComponentProperties } from '../properties/set-form-component-properties';
+
+export const TOOL_DEFINITION = {
+  name: 'apply_form_operations',
+  description:
+    'Apply an ordered list of operations to a form in one call, all-or-nothing. ' +
+    'Each operation has an "op" ("add", "modify" or "set") plus the arguments of ' +
+    'add_form_component, modify_form_component or set_form_component_properties (without formId). ' +
+    'Give an "add" operation a "handle" to refer to the new component in later operations as ' +
+    '"$<handle>" (in componentId, parentId, targetParentId or sourceComponentId). ' +
+    'If any operation fails, the form is left unchanged. ' +
+    'The batch counts as a single change (one version, one undo step).',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: { type: 'string', description: 'Target form ID' },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
+      operations: {
+        type: 'array',
+        description: 'Operations to apply, in order',
+        items: {
+          type: 'object',
+          properties: {
+            op: { type: 'string', enum: ['add', 'modify', 'set'] },
+            handle: {
+              type: 'string',
+              description: 'Name for the component created by an "add" operation',
+            },
+          },
+          required: ['op'],
+        },
+      },
+    },
+    required: ['formId', 'operations'],
+  },
+} as const;
+
+const OPERATION_HANDLERS: Record<string, (args: any) => Promise<ToolResult>> = {
+  add: handleAddFormComponent,
+  modify: handleModifyFormComponent,
+  set: handleSetFormComponentProperties,
+};
+
+/** Arguments that hold component IDs and may use `$handle` references. */
+const ID_ARGUMENTS = ['componentId', 'parentId', 'targetParentId', 'sourceComponentId'];
+
+function resolveHandles(args: Record<string, any>, handles: Map<string, string>): void {
+  for (const name of ID_ARGUMENTS) {
+    const value = args[name];
+    if (typeof value !== 'string' || !value.startsWith('$')) continue;
+    const id = handles.get(value.slice(1));
+    if (!id) throw new Error(`Unknown handle "${value}" in ${name}`);
+    args[name] = id;
+  }
+}
+
+async function applyOperation(
+  formId: string,
+  operation: any,
+  handles: Map<string, string>
+): Promise<Record<string, any>> {
+  const { op, handle, expectedVersion: _ignored, ...rest } = operation ?? {};
+  const handler = OPERATION_HANDLERS[op];
+  if (!handler) throw new Error(`Unknown op "${op}". Use "add", "modify" or "set".`);
+  if (handle !== undefined && op !== 'add') {
+    throw new Error('Only "add" operations can declare a handle');
+  }
+  if (handle !== undefined && handles.has(handle)) {
+    throw new Error(`Handle "${handle}" is already in use`);
+  }
+
+  const args = { ...rest, formId };
+  resolveHandles(args, handles);
+  const {
+    _hints,
+    version: _version,
+    ...result
+  } = JSON.parse((await handler(args)).content[0].text);
+  // A fragment insertion is referred to by its first component
+  if (handle !== undefined) handles.set(handle, (result.component ?? result.components[0]).id);
+  return { op, ...(handle === undefined ? {} : { handle }), ...result };
+}
+
+export async function handleApplyFormOperations(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId', 'operations']);
+  const form = requireForm(args.formId, args.expectedVersion);
+  const operations: unknown[] = args.operations;
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('"operations" must be a non-empty array');
+  }
+
+  const schemaBefore = JSON.stringify(form.schema);
+  const versionBefore = form.version ?? 0;
+  const handles = new Map<string, string>();
+  const results: Record<string, any>[] = [];
+
+  try {
+    await withChangeTrackingSuspended(args.formId, async () => {
+      for (const operation of operations) {
+        results.push(await applyOperation(args.formId, operation, handles));
+      }
+    });
+  } catch (error) {
+    form.schema = JSON.parse(schemaBefore);
+    form.version = versionBefore;
+    const failed = operations[results.length] as { op?: string } | undefined;
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Operation ${results.length} (${failed?.op}) failed: ${message}. No changes were applied.`
+    );
+  }
+
+  form.version = versionBefore;
+  bumpVersion(form, args.formId);
+
+  return mutationResult(form, {
+    formId: args.formId,
+    applied: results.length,
+    handles: Object.fromEntries(handles),
+    operations: results,
+    totalComponents: countComponents(form.schema.components),
+    message: `Applied ${results.length} operation(s)`,
+  });
+}
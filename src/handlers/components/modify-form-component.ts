@@ -5,9 +5,8 @@
  * `auto_layout_form` tools with a single structural-modification tool.
  */
 
-import { randomBytes } from 'node:crypto';
-import { type ToolResult, type FormComponent } from '../../types';
-import { CONTAINER_FIELD_TYPES, DEFAULT_COLUMNS, PRESENTATION_FIELD_TYPES } from '../../constants';
+import { type ToolResult, type FormComponent, type FormState } from '../../types';
+import { DEFAULT_COLUMNS } from '../../constants';
 import {
   validateArgs,
   requireForm,
@@ -16,7 +15,12 @@ import {
   findParentComponents,
   mutationResult,
   bumpVersion,
+  isSupportedType,
+  EXPECTED_VERSION_PROPERTY,
 } from '../helpers';
+import { repairGridLayout } from '../../grid-layout';
+import { supportsProperty } from '../../property-registry';
+import { autoLayout, LAYOUT_STRATEGIES, type LayoutStrategy } from '../../auto-layout';
 
 export const TOOL_DEFINITION = {
   name: 'modify_form_component',
@@ -24,11 +28,14 @@ export const TOOL_DEFINITION = {
     'Structural modification of form components: delete, move, or auto-layout. ' +
     'Use action "delete" to remove a component (and all nested children). ' +
     'Use action "move" to reorder within the same parent or reparent to a different container. ' +
-    'Use action "auto-layout" to auto-assign grid layout to all components (componentId not required).',
+    'Use action "auto-layout" to auto-assign grid layout to all components, or only to the children ' +
+    'of the container given as componentId. Adjacent fields that belong together (first/last name, ' +
+    'postal code/city, amount/currency) share a row in the two-column and compact strategies.',
   inputSchema: {
     type: 'object',
     properties: {
       formId: { type: 'string', description: 'Target form ID' },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
       action: {
         type: 'string',
         enum: ['delete', 'move', 'auto-layout'],
@@ -37,7 +44,8 @@ export const TOOL_DEFINITION = {
       },
       componentId: {
         type: 'string',
-        description: 'Component ID to delete or move (not required for auto-layout)',
+        description:
+          'Component ID to delete or move; for auto-layout, the container to lay out (default: whole form)',
       },
       targetParentId: {
         type: 'string',
@@ -49,15 +57,30 @@ export const TOOL_DEFINITION = {
       },
       strategy: {
         type: 'string',
-        enum: ['single-column', 'two-column', 'compact'],
+        enum: ['single-column', 'two-column', 'compact', 'repair'],
         description:
           'Layout strategy for auto-layout (default: "single-column"). ' +
-          '"single-column" = full width, "two-column" = side-by-side pairs, "compact" = auto-size by type.',
+          '"single-column" = full width, "two-column" = side-by-side pairs, "compact" = auto-size by type, ' +
+          '"repair" = fix only rows that overflow the grid, are split or reused across containers, ' +
+          'or hold a single auto-sized field, leaving all other layouts untouched.',
       },
       columns: {
         type: 'number',
         description: `Grid width for auto-layout (default: ${DEFAULT_COLUMNS})`,
       },
+      mode: {
+        type: 'string',
+        enum: ['replace', 'preserve-existing'],
+        description:
+          'Auto-layout mode: "replace" (default) lays out every component; "preserve-existing" only ' +
+          'components without a layout, keeping hand-tuned widths and row IDs.',
+      },
+      widths: {
+        type: 'object',
+        description:
+          'Per-type column widths for the compact strategy, e.g. { "checkbox": 4, "textarea": 16 }. ' +
+          'Fields with long labels are widened to fit them.',
+      },
     },
     required: ['formId', 'action'],
   },
@@ -82,7 +105,7 @@ export async function handleModifyFormComponent(args: any): Promise<ToolResult>
 
 async function handleDelete(args: any): Promise<ToolResult> {
   if (!args.componentId) throw new Error('"componentId" is required for delete action');
-  const form = requireForm(args.formId);
+  const form = requireForm(args.formId, args.expectedVersion);
   const comp = requireComponent(form, args.componentId);
 
   const parentArr = findParentComponents(form.schema.components, args.componentId);
@@ -104,7 +127,7 @@ async function handleDelete(args: any): Promise<ToolResult> {
 
 async function handleMove(args: any): Promise<ToolResult> {
   if (!args.componentId) throw new Error('"componentId" is required for move action');
-  const form = requireForm(args.formId);
+  const form = requireForm(args.formId, args.expectedVersion);
   const comp = requireComponent(form, args.componentId);
 
   // Remove from current parent
@@ -118,7 +141,7 @@ async function handleMove(args: any): Promise<ToolResult> {
   if (args.targetParentId) {
     const parent = findComponentById(form.schema.components, args.targetParentId);
     if (!parent) throw new Error(`Target parent not found: ${args.targetParentId}`);
-    if (!(CONTAINER_FIELD_TYPES as readonly string[]).includes(parent.type)) {
+    if (!supportsProperty(parent.type, 'components')) {
       throw new Error(`Target ${args.targetParentId} is not a container`);
     }
     if (!parent.components) parent.components = [];
@@ -145,168 +168,37 @@ async function handleMove(args: any): Promise<ToolResult> {
 
 // ── Auto-layout (ported from auto_layout_form) ────────────────────────────
 
-type Strategy = 'single-column' | 'two-column' | 'compact';
-
-/** Full-width presentation types that should always span the full row. */
-const FULL_WIDTH_TYPES = new Set([
-  'text',
-  'html',
-  'separator',
-  'spacer',
-  'table',
-  'documentPreview',
-  'image',
-  'group',
-  'dynamiclist',
-  'iframe',
-  'button',
-]);
+type Strategy = LayoutStrategy | 'repair';
 
-function generateRowId(): string {
-  return `Row_${randomBytes(3).toString('hex')}`;
-}
-
-function isPresentationType(type: string): boolean {
-  return (PRESENTATION_FIELD_TYPES as readonly string[]).includes(type);
-}
-
-function layoutSingleColumn(components: FormComponent[], gridWidth: number): number {
-  let count = 0;
-  for (const comp of components) {
-    if (!comp.layout) comp.layout = {};
-    comp.layout.columns = gridWidth;
-    delete comp.layout.row;
-    count++;
+const LAYOUT_MODES = ['replace', 'preserve-existing'];
 
-    // Recurse into containers
-    if (comp.components) {
-      count += layoutSingleColumn(comp.components, gridWidth);
-    }
+/** Validate the per-type `widths` argument. */
+function parseWidths(widths: unknown, gridWidth: number): Record<string, number> | undefined {
+  if (widths === undefined) return undefined;
+  if (widths === null || typeof widths !== 'object' || Array.isArray(widths)) {
+    throw new Error('widths must be an object mapping field types to column counts');
   }
-  return count;
-}
-
-function layoutTwoColumn(components: FormComponent[], gridWidth: number): number {
-  const halfWidth = Math.floor(gridWidth / 2);
-  let count = 0;
-  let pendingPair: FormComponent | undefined;
-  let currentRow: string | undefined;
-
-  for (const comp of components) {
-    if (!comp.layout) comp.layout = {};
-
-    // Full-width types always get their own row
-    if (FULL_WIDTH_TYPES.has(comp.type)) {
-      // Flush pending pair first
-      if (pendingPair) {
-        pendingPair.layout!.columns = gridWidth;
-        delete pendingPair.layout!.row;
-        count++;
-        pendingPair = undefined;
-        currentRow = undefined;
-      }
-      comp.layout.columns = gridWidth;
-      delete comp.layout.row;
-      count++;
-
-      if (comp.components) {
-        count += layoutTwoColumn(comp.components, gridWidth);
-      }
-      continue;
+  for (const [type, width] of Object.entries(widths)) {
+    if (!isSupportedType(type)) throw new Error(`Unsupported field type in widths: ${type}`);
+    if (!Number.isInteger(width) || (width as number) < 1 || (width as number) > gridWidth) {
+      throw new Error(`widths.${type} must be an integer between 1 and ${gridWidth}`);
     }
-
-    // Pair regular fields side-by-side
-    if (!pendingPair) {
-      pendingPair = comp;
-      currentRow = generateRowId();
-    } else {
-      // Complete the pair
-      pendingPair.layout!.columns = halfWidth;
-      pendingPair.layout!.row = currentRow!;
-      comp.layout.columns = gridWidth - halfWidth;
-      comp.layout.row = currentRow!;
-      count += 2;
-      pendingPair = undefined;
-      currentRow = undefined;
-    }
-  }
-
-  // Handle trailing unpaired field
-  if (pendingPair) {
-    pendingPair.layout!.columns = gridWidth;
-    delete pendingPair.layout!.row;
-    count++;
   }
-
-  return count;
+  return widths as Record<string, number>;
 }
 
-function layoutCompact(components: FormComponent[], gridWidth: number): number {
-  let count = 0;
-  let remainingInRow = gridWidth;
-  let currentRow: string | undefined;
-
-  for (const comp of components) {
-    if (!comp.layout) comp.layout = {};
-
-    // Full-width types always get their own row
-    if (FULL_WIDTH_TYPES.has(comp.type)) {
-      // Start fresh row
-      remainingInRow = gridWidth;
-      currentRow = undefined;
-      comp.layout.columns = gridWidth;
-      delete comp.layout.row;
-      count++;
-
-      if (comp.components) {
-        count += layoutCompact(comp.components, gridWidth);
-      }
-      continue;
-    }
-
-    // Determine natural width based on type
-    let naturalWidth: number;
-    if (comp.type === 'checkbox') {
-      naturalWidth = Math.max(4, Math.floor(gridWidth / 4));
-    } else if (comp.type === 'number' || comp.type === 'datetime') {
-      naturalWidth = Math.max(4, Math.floor(gridWidth / 3));
-    } else if (isPresentationType(comp.type)) {
-      naturalWidth = gridWidth;
-    } else {
-      // textfield, textarea, select, radio, etc.
-      naturalWidth = Math.floor(gridWidth / 2);
-    }
-
-    // Ensure at least width 1
-    naturalWidth = Math.max(1, Math.min(naturalWidth, gridWidth));
-
-    // Does it fit on current row?
-    if (naturalWidth > remainingInRow) {
-      // Start a new row
-      remainingInRow = gridWidth;
-      currentRow = undefined;
-    }
-
-    if (!currentRow) {
-      currentRow = generateRowId();
-    }
-
-    comp.layout.columns = naturalWidth;
-    comp.layout.row = currentRow;
-    remainingInRow -= naturalWidth;
-    count++;
-
-    if (remainingInRow <= 0) {
-      remainingInRow = gridWidth;
-      currentRow = undefined;
-    }
+/** The component list auto-layout works on: the form, or one container. */
+function layoutTarget(form: FormState, componentId: string | undefined): FormComponent[] {
+  if (!componentId) return form.schema.components;
+  const container = requireComponent(form, componentId);
+  if (!supportsProperty(container.type, 'components')) {
+    throw new Error(`Component "${componentId}" is a ${container.type}, not a container`);
   }
-
-  return count;
+  return container.components ?? [];
 }
 
 async function handleAutoLayout(args: any): Promise<ToolResult> {
-  const form = requireForm(args.formId);
+  const form = requireForm(args.formId, args.expectedVersion);
 
   const gridWidth = args.columns ?? DEFAULT_COLUMNS;
   if (gridWidth < 1 || gridWidth > DEFAULT_COLUMNS || !Number.isInteger(gridWidth)) {
@@ -314,34 +206,64 @@ async function handleAutoLayout(args: any): Promise<ToolResult> {
   }
 
   const strategy: Strategy = args.strategy ?? 'single-column';
-  const validStrategies = ['single-column', 'two-column', 'compact'];
+  const validStrategies = [...LAYOUT_STRATEGIES, 'repair'];
   if (!validStrategies.includes(strategy)) {
     throw new Error(`Invalid strategy: ${strategy}. Use one of: ${validStrategies.join(', ')}`);
   }
-
-  let count: number;
-  switch (strategy) {
-    case 'single-column': {
-      count = layoutSingleColumn(form.schema.components, gridWidth);
-      break;
-    }
-    case 'two-column': {
-      count = layoutTwoColumn(form.schema.components, gridWidth);
-      break;
-    }
-    case 'compact': {
-      count = layoutCompact(form.schema.components, gridWidth);
-      break;
-    }
+  const mode = args.mode ?? 'replace';
+  if (!LAYOUT_MODES.includes(mode)) {
+    throw new Error(`Invalid mode: ${mode}. Use one of: ${LAYOUT_MODES.join(', ')}`);
   }
+  const widths = parseWidths(args.widths, gridWidth);
+  const components = layoutTarget(form, args.componentId);
 
-  bumpVersion(form, args.formId);
+  if (strategy === 'repair') return handleRepairLayout(args, form, components, gridWidth);
+
+  const count = autoLayout(components, {
+    strategy,
+    gridWidth,
+    preserveExisting: mode === 'preserve-existing',
+    widths,
+  });
+
+  if (count > 0) bumpVersion(form, args.formId);
 
   return mutationResult(form, {
     formId: args.formId,
     strategy,
+    mode,
+    scope: args.componentId ?? 'root',
     gridWidth,
     componentsLaidOut: count,
     message: `Applied "${strategy}" layout to ${count} components`,
   });
 }
+
+/** Fix only the offending rows reported by the grid layout validator. */
+function handleRepairLayout(
+  args: any,
+  form: FormState,
+  components: FormComponent[],
+  gridWidth: number
+): ToolResult {
+  const fixed = repairGridLayout(components, gridWidth);
+  const touched = new Set(fixed.flatMap((problem) => problem.components));
+  if (fixed.length > 0) bumpVersion(form, args.formId);
+
+  return mutationResult(form, {
+    formId: args.formId,
+    strategy: 'repair',
+    scope: args.componentId ?? 'root',
+    gridWidth,
+    componentsLaidOut: touched.size,
+    repaired: fixed.map((problem) => ({
+      problem: problem.kind,
+      ...(problem.row ? { row: problem.row } : {}),
+      componentIds: problem.components.map((comp) => comp.id ?? comp.type),
+    })),
+    message:
+      fixed.length > 0
+        ? `Repaired ${fixed.length} row problem(s) affecting ${touched.size} components`
+        : 'No row problems found; layout unchanged',
+  });
+}
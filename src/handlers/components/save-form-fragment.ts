@@ -0,0 +1,79 @@
+/**
+ * save_form_fragment — Save a group of a form as a reusable fragment.
+ *
+ * The group is stored without component IDs (fresh ones are assigned on
+ * every insertion) in the templates directory, or for the session when the
+ * server runs without one. The form itself is not changed.
+ */
+
+import { type ToolResult, type FormComponent } from '../../types';
+import {
+  validateArgs,
+  requireForm,
+  requireComponent,
+  jsonResult,
+  countComponents,
+} from '../helpers';
+import { saveFragment } from '../../templates';
+
+export const TOOL_DEFINITION = {
+  name: 'save_form_fragment',
+  description:
+    'Save an existing group (with everything inside it) as a named fragment that ' +
+    'add_form_component can insert into any form via its fragment argument. ' +
+    'Fragments are written to the fragments/ folder of the templates directory, or kept for ' +
+    'the session when no templates directory is configured.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: { type: 'string', description: 'Form containing the group' },
+      componentId: { type: 'string', description: 'ID of the group to save' },
+      name: {
+        type: 'string',
+        description: 'Fragment name (letters, digits, "-" and "_")',
+      },
+      description: { type: 'string', description: 'What the fragment is for' },
+      overwrite: {
+        type: 'boolean',
+        description: 'Replace an existing fragment of the same name (default: false)',
+      },
+    },
+    required: ['formId', 'componentId', 'name'],
+  },
+} as const;
+
+function withoutIds(component: FormComponent): FormComponent {
+  const { id: _id, ...rest } = component;
+  if (rest.components) rest.components = rest.components.map(withoutIds);
+  return rest as FormComponent;
+}
+
+export async function handleSaveFormFragment(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId', 'componentId', 'name']);
+  const form = requireForm(args.formId);
+  const component = requireComponent(form, args.componentId);
+  if (component.type !== 'group') {
+    throw new Error(
+      `Only groups can be saved as fragments (${args.componentId} is a ${component.type})`
+    );
+  }
+
+  const copy = withoutIds(JSON.parse(JSON.stringify(component)));
+  const saved = saveFragment(
+    {
+      name: args.name,
+      description: args.description ?? `Saved from ${component.label ?? args.componentId}`,
+      parameters: {},
+      components: [copy],
+    },
+    args.overwrite === true
+  );
+
+  return jsonResult({
+    fragment: saved.name,
+    source: saved.source,
+    ...(saved.file ? { file: saved.file } : {}),
+    componentCount: countComponents([copy]),
+    message: `Saved fragment "${saved.name}"`,
+  });
+}
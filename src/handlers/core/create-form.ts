@@ -1,25 +1,52 @@
 /**
  * create_form — Create a new empty form, clone an existing one, or import a schema.
  *
- * Three modes:
+ * Five modes:
  *   1. Empty form (default) — creates a blank form with optional platform settings
  *   2. Clone via `cloneFromId` — deep-clones an existing form with new IDs
  *   3. Import via `schema` — imports a JSON schema (string or object)
+ *   4. Generate via `jsonSchema` / `sampleData` — builds typed components for
+ *      the described process variables
+ *   5. Template via `template` — instantiates a form template (see
+ *      `src/templates/`) with `templateParams`
+ *
+ * Imported schemas are upgraded to the newest schema version supported by
+ * the target execution platform; schemas newer than that keep their version.
  */
 
 import { randomBytes } from 'node:crypto';
 import { type ToolResult, type FormComponent, type FormSchema } from '../../types';
 import { generateFormId, storeForm, createEmptySchema } from '../../form-manager';
 import { jsonResult, requireForm, countComponents } from '../helpers';
+import { migrateSchema, type MigrationReport } from '../../migrations';
+import { maxSchemaVersionFor } from '../../platform-compat';
+import { componentsFromJsonSchema, inferJsonSchema } from '../../schema-to-form';
+import {
+  listTemplates,
+  findTemplate,
+  instantiateTemplate,
+  resolveTemplateParams,
+} from '../../templates';
+import { DEFAULT_SCHEMA_VERSION } from '../../constants';
 
 export const TOOL_DEFINITION = {
   name: 'create_form',
   description:
-    'Create a new empty form, clone an existing one, or import a JSON schema. ' +
+    'Create a new empty form, clone an existing one, import a JSON schema, generate one from ' +
+    'process variables or instantiate a template. ' +
     'Returns the formId and initial schema. ' +
     'Use add_form_component to add fields afterwards. ' +
     'Pass cloneFromId to deep-clone an existing form with new IDs. ' +
-    'Pass schema (JSON string or object) to import an existing form definition.',
+    'Pass schema (JSON string or object) to import an existing form definition; older schema ' +
+    'versions are upgraded to the schema version of the target platform release (form-js has ' +
+    'no shape migrations, so only schemaVersion changes); newer schemas are kept as they are ' +
+    'and never down-converted. ' +
+    'Pass jsonSchema (a JSON Schema of the process variables) or sampleData (a sample variables ' +
+    'object) to generate typed components: enums become select/radio, booleans checkbox, nested ' +
+    'objects group, arrays of objects dynamiclist; required and string/number constraints ' +
+    'become validate rules. ' +
+    'Pass template (a name from the form://templates resource) with templateParams (parameter ' +
+    'values by name) to build the form from a template.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -34,7 +61,9 @@ export const TOOL_DEFINITION = {
       },
       executionPlatformVersion: {
         type: 'string',
-        description: 'Target platform version (e.g. "8.8.0")',
+        description:
+          'Target platform version (e.g. "8.8.0"). Determines the schemaVersion of the form; ' +
+          'overrides the version of an imported schema.',
       },
       cloneFromId: {
         type: 'string',
@@ -47,6 +76,27 @@ export const TOOL_DEFINITION = {
           'Import a form schema as a JSON string or object. ' +
           'Must have a "components" array. Mutually exclusive with cloneFromId.',
       },
+      jsonSchema: {
+        description:
+          'Generate the form from a JSON Schema (string or object) describing the process ' +
+          'variables. The root must be an object schema; local $refs are resolved.',
+      },
+      sampleData: {
+        type: 'object',
+        description:
+          'Generate the form from a sample object of process variables (types are inferred; ' +
+          'ISO dates become datetime fields, e-mail addresses get e-mail validation).',
+      },
+      template: {
+        type: 'string',
+        description: 'Name of the template to instantiate (see the form://templates resource)',
+      },
+      templateParams: {
+        type: 'object',
+        description:
+          'Template parameter values. Text parameters take strings; option list parameters take ' +
+          'an array of strings or { label, value } objects. Omitted parameters use their defaults.',
+      },
     },
   },
 } as const;
@@ -111,32 +161,139 @@ function handleClone(formId: string, args: any): ToolResult {
   });
 }
 
+function applyPlatform(schema: FormSchema, args: any): void {
+  if (args?.executionPlatform) {
+    schema.executionPlatform = args.executionPlatform;
+  }
+  if (args?.executionPlatformVersion) {
+    schema.executionPlatformVersion = args.executionPlatformVersion;
+  }
+}
+
+/**
+ * Schema version for new and imported forms: the newest version the target
+ * platform supports, else the current version. Imports never lower it.
+ */
+function targetSchemaVersion(schema: FormSchema): number {
+  const max = maxSchemaVersionFor(schema.executionPlatform, schema.executionPlatformVersion);
+  return Math.min(max ?? DEFAULT_SCHEMA_VERSION, DEFAULT_SCHEMA_VERSION);
+}
+
+/**
+ * Migration details for the import response. Without shape migrations an
+ * upgrade only raises `schemaVersion`, which the response states instead of
+ * listing an empty set of changes.
+ */
+function migrationSummary(report: MigrationReport): Record<string, unknown> {
+  if (report.changes.length > 0) return { ...report };
+  return {
+    fromVersion: report.fromVersion,
+    toVersion: report.toVersion,
+    note: 'No shape migrations exist between these schema versions; only schemaVersion was raised',
+  };
+}
+
 function handleImport(formId: string, args: any): ToolResult {
   const schema = parseSchema(args.schema);
   validateImportSchema(schema);
   schema.type = 'default';
+  applyPlatform(schema, args);
+
+  const migration = migrateSchema(schema, targetSchemaVersion(schema));
 
   const name = args.name ?? schema.id ?? undefined;
   storeForm(formId, { schema, name, version: 0 });
 
   const componentCount = countComponents(schema.components);
+  const migrated = migration.fromVersion !== migration.toVersion;
   return jsonResult({
     formId,
     name: name ?? null,
     componentCount,
-    message: `Imported form with ${componentCount} component(s)`,
+    ...(migrated ? { migration: migrationSummary(migration) } : {}),
+    message:
+      `Imported form with ${componentCount} component(s)` +
+      (migrated
+        ? ` (schemaVersion ${migration.fromVersion} → ${migration.toVersion}, ` +
+          (migration.changes.length > 0
+            ? `${migration.changes.length} change(s))`
+            : 'no shape migrations)')
+        : ''),
   });
 }
 
-function handleEmpty(formId: string, args: any): ToolResult {
-  const schema = createEmptySchema(args?.name);
+function parseJsonSchema(raw: unknown): Record<string, any> {
+  if (typeof raw !== 'string') return raw as Record<string, any>;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error('Invalid JSON string for jsonSchema');
+  }
+}
 
-  if (args?.executionPlatform) {
-    schema.executionPlatform = args.executionPlatform;
+function handleGenerate(formId: string, args: any): ToolResult {
+  if (args.sampleData !== undefined && (!args.sampleData || typeof args.sampleData !== 'object')) {
+    throw new Error('sampleData must be a JSON object');
   }
-  if (args?.executionPlatformVersion) {
-    schema.executionPlatformVersion = args.executionPlatformVersion;
+  const jsonSchema =
+    args.jsonSchema === undefined
+      ? inferJsonSchema(args.sampleData)
+      : parseJsonSchema(args.jsonSchema);
+
+  const name = args.name ?? jsonSchema?.title;
+  const schema = createEmptySchema(name);
+  schema.components = componentsFromJsonSchema(jsonSchema);
+  applyPlatform(schema, args);
+  schema.schemaVersion = targetSchemaVersion(schema);
+
+  storeForm(formId, { schema, name, version: 0 });
+
+  const componentCount = countComponents(schema.components);
+  return jsonResult({
+    formId,
+    name: name ?? null,
+    componentCount,
+    schema,
+    message: `Generated form with ${componentCount} component(s)`,
+  });
+}
+
+function handleTemplate(formId: string, args: any): ToolResult {
+  const template = findTemplate(args.template);
+  if (!template) {
+    const available = listTemplates().templates.map((t) => t.name);
+    throw new Error(`Unknown template "${args.template}". Available: ${available.join(', ')}`);
   }
+  const given = args.templateParams ?? {};
+  if (typeof given !== 'object' || Array.isArray(given)) {
+    throw new Error('templateParams must be an object');
+  }
+
+  const params = resolveTemplateParams(template, given);
+  const name = args.name ?? template.name;
+  const schema = createEmptySchema(name);
+  schema.components = instantiateTemplate(template, params);
+  applyPlatform(schema, args);
+  schema.schemaVersion = targetSchemaVersion(schema);
+
+  storeForm(formId, { schema, name, version: 0 });
+
+  const componentCount = countComponents(schema.components);
+  return jsonResult({
+    formId,
+    name,
+    template: template.name,
+    params,
+    componentCount,
+    schema,
+    message: `Created form from template "${template.name}" with ${componentCount} component(s)`,
+  });
+}
+
+function handleEmpty(formId: string, args: any): ToolResult {
+  const schema = createEmptySchema(args?.name);
+  applyPlatform(schema, args);
+  schema.schemaVersion = targetSchemaVersion(schema);
 
   storeForm(formId, { schema, name: args?.name, version: 0 });
 
@@ -152,5 +309,9 @@ export async function handleCreateForm(args: any): Promise<ToolResult> {
 
   if (args?.cloneFromId) return handleClone(formId, args);
   if (args?.schema !== undefined) return handleImport(formId, args);
+  if (args?.jsonSchema !== undefined || args?.sampleData !== undefined) {
+    return handleGenerate(formId, args);
+  }
+  if (args?.template !== undefined) return handleTemplate(formId, args);
   return handleEmpty(formId, args);
 }
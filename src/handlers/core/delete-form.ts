@@ -4,7 +4,7 @@
 
 import { type ToolResult } from '../../types';
 import { deleteForm as removeForm } from '../../form-manager';
-import { validateArgs, requireForm, jsonResult } from '../helpers';
+import { validateArgs, requireForm, jsonResult, EXPECTED_VERSION_PROPERTY } from '../helpers';
 
 export const TOOL_DEFINITION = {
   name: 'delete_form',
@@ -16,6 +16,7 @@ export const TOOL_DEFINITION = {
         type: 'string',
         description: 'The form to delete',
       },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
     },
     required: ['formId'],
   },
@@ -23,12 +24,13 @@ export const TOOL_DEFINITION = {
 
 export async function handleDeleteForm(args: any): Promise<ToolResult> {
   validateArgs(args, ['formId']);
-  // Verify it exists first
-  requireForm(args.formId);
+  // Verify it exists (and is at the expected version) first
+  const form = requireForm(args.formId, args.expectedVersion);
   removeForm(args.formId);
 
   return jsonResult({
     deleted: args.formId,
+    version: form.version ?? 0,
     message: `Form ${args.formId} deleted`,
   });
 }
@@ -0,0 +1,190 @@
+/**
+ * Form facets shared by the `inspect_form` tool and the per-form
+ * `form://forms/{formId}/…` resources.
+ */
+
+import { type FormComponent, type FormSchema, type FormState } from '../../types';
+import { KEYED_FIELD_TYPES } from '../../constants';
+import { countComponents } from '../helpers';
+import { validateFormSchema } from '../../validator';
+import { getHistoryInfo } from '../../history';
+import { buildDataSchema, toTypeScript } from '../../data-schema';
+import { resolveBindings } from '../../data-binding';
+import { checkAccessibility } from '../../accessibility';
+import { type GraphFormat, buildDependencyGraph, toDot, toMermaid } from '../../dependency-graph';
+
+interface FormStats {
+  typeCounts: Record<string, number>;
+  rows: Set<string>;
+  hasValidation: boolean;
+  hasConditionals: boolean;
+  variableCount: number;
+  maxDepth: number;
+}
+
+function mergeChildStats(parent: FormStats, child: FormStats): void {
+  for (const [t, c] of Object.entries(child.typeCounts)) {
+    parent.typeCounts[t] = (parent.typeCounts[t] ?? 0) + c;
+  }
+  for (const r of child.rows) {
+    parent.rows.add(r);
+  }
+  if (child.hasValidation) {
+    parent.hasValidation = true;
+  }
+  if (child.hasConditionals) {
+    parent.hasConditionals = true;
+  }
+  parent.variableCount += child.variableCount;
+  if (child.maxDepth > parent.maxDepth) {
+    parent.maxDepth = child.maxDepth;
+  }
+}
+
+function collectStats(components: FormComponent[], depth: number): FormStats {
+  const stats: FormStats = {
+    typeCounts: {},
+    rows: new Set<string>(),
+    hasValidation: false,
+    hasConditionals: false,
+    variableCount: 0,
+    maxDepth: depth,
+  };
+  for (const comp of components) {
+    stats.typeCounts[comp.type] = (stats.typeCounts[comp.type] ?? 0) + 1;
+    if (comp.key && (KEYED_FIELD_TYPES as readonly string[]).includes(comp.type)) {
+      stats.variableCount++;
+    }
+    if (comp.validate && Object.keys(comp.validate).length > 0) {
+      stats.hasValidation = true;
+    }
+    if (comp.conditional?.hide) {
+      stats.hasConditionals = true;
+    }
+    if (comp.layout?.row) {
+      stats.rows.add(comp.layout.row);
+    }
+    if (comp.components?.length) {
+      mergeChildStats(stats, collectStats(comp.components, depth + 1));
+    }
+  }
+  return stats;
+}
+
+function extractVariables(components: FormComponent[]) {
+  const expressionFields: string[] = [];
+  const conditionalFields: string[] = [];
+  for (const comp of components) {
+    if (comp.valuesExpression) {
+      expressionFields.push(comp.id ?? comp.key ?? comp.type);
+    }
+    if (comp.conditional?.hide) {
+      conditionalFields.push(comp.id ?? comp.key ?? comp.type);
+    }
+    if (comp.components) {
+      const n = extractVariables(comp.components);
+      expressionFields.push(...n.expressionFields);
+      conditionalFields.push(...n.conditionalFields);
+    }
+  }
+  return { expressionFields, conditionalFields };
+}
+
+/** Component counts, nesting, layout and history statistics. */
+export function buildSummaryFacet(schema: FormSchema, form: FormState): Record<string, any> {
+  const stats = collectStats(schema.components, 0);
+  return {
+    schemaVersion: schema.schemaVersion ?? null,
+    executionPlatform: schema.executionPlatform ?? null,
+    totalComponents: countComponents(schema.components),
+    componentsByType: stats.typeCounts,
+    nestingDepth: stats.maxDepth,
+    variableCount: stats.variableCount,
+    layoutRows: stats.rows.size,
+    hasValidation: stats.hasValidation,
+    hasConditionals: stats.hasConditionals,
+    version: form.version ?? 0,
+    ...getHistoryInfo(form),
+    ...(form.externalConflict ? { externalConflict: form.externalConflict } : {}),
+  };
+}
+
+/** Validation issues, optionally without warnings. */
+export function buildValidationFacet(
+  schema: FormSchema,
+  includeWarnings: boolean
+): Record<string, any> {
+  const validationResult = validateFormSchema(schema);
+  const issues = includeWarnings
+    ? validationResult.issues
+    : validationResult.issues.filter((i) => i.severity === 'error');
+  return { valid: validationResult.valid, issueCount: issues.length, issues };
+}
+
+/**
+ * Accessibility findings with their WCAG references, optionally without
+ * warnings. `passed` is true when no finding is an error.
+ */
+export function buildAccessibilityFacet(
+  schema: FormSchema,
+  includeWarnings: boolean
+): Record<string, any> {
+  const all = checkAccessibility(schema);
+  const issues = includeWarnings ? all : all.filter((i) => i.severity === 'error');
+  return { passed: all.every((i) => i.severity !== 'error'), issueCount: issues.length, issues };
+}
+
+/**
+ * Data paths bound by the form plus expression / conditional counts. Keys
+ * inside groups and dynamic lists with a `path` are listed with their full
+ * path (`address.street`, `items[].sku`); `scopes` lists those paths.
+ * `dependencies` is the variable dependency graph, `processVariables` the
+ * variables the form reads but no field produces; with `graphFormat`
+ * `mermaid` or `dot`, the graph is also rendered as a `diagram`.
+ */
+export function buildVariablesFacet(
+  schema: FormSchema,
+  graphFormat: GraphFormat = 'json'
+): Record<string, any> {
+  const { expressionFields, conditionalFields } = extractVariables(schema.components);
+  const bindings = resolveBindings(schema.components);
+  const inputKeys = new Set(bindings.filter((b) => b.kind === 'key').map((b) => b.path));
+  const scopes = new Set(bindings.filter((b) => b.kind === 'path').map((b) => b.path));
+  const graph = buildDependencyGraph(schema);
+  return {
+    inputKeys: [...inputKeys],
+    ...(scopes.size > 0 ? { scopes: [...scopes] } : {}),
+    expressionFieldCount: expressionFields.length,
+    conditionalFieldCount: conditionalFields.length,
+    total: inputKeys.size,
+    processVariables: graph.processVariables,
+    dependencies: { components: graph.components, variables: graph.variables, edges: graph.edges },
+    ...(graphFormat === 'mermaid' ? { diagram: toMermaid(graph) } : {}),
+    ...(graphFormat === 'dot' ? { diagram: toDot(graph, schema.id) } : {}),
+  };
+}
+
+function interfaceNameFor(name: string | undefined): string {
+  const pascal = (name ?? '')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^\d+/, '');
+  return `${pascal || 'Form'}Data`;
+}
+
+/**
+ * JSON Schema for the submitted data, plus a TypeScript interface when
+ * `typescript` is set (named `interfaceName`, default `<FormName>Data`).
+ */
+export function buildDataSchemaFacet(
+  schema: FormSchema,
+  form: FormState,
+  options: { typescript?: boolean; interfaceName?: string } = {}
+): Record<string, any> {
+  const jsonSchema = buildDataSchema(schema, form.name);
+  if (!options.typescript) return { jsonSchema };
+  const name = options.interfaceName ?? interfaceNameFor(form.name);
+  return { jsonSchema, typescript: toTypeScript(jsonSchema, name) };
+}
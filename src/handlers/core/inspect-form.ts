@@ -2,11 +2,11 @@
  * inspect_form — Unified read-only inspection of forms.
  *
  * Without `formId`, lists all forms. With `formId`, returns selected facets:
- * summary, validation, variables, diff, schema, components.
+ * summary, validation, variables, dataSchema, diff, schema, components,
+ * accessibility.
  */
 
 import { type ToolResult, type FormComponent, type FormSchema, type FormState } from '../../types';
-import { KEYED_FIELD_TYPES } from '../../constants';
 import {
   requireForm,
   requireComponent,
@@ -16,6 +16,14 @@ import {
 } from '../helpers';
 import { validateFormSchema } from '../../validator';
 import { getAllForms } from '../../form-manager';
+import {
+  buildSummaryFacet,
+  buildValidationFacet,
+  buildVariablesFacet,
+  buildDataSchemaFacet,
+  buildAccessibilityFacet,
+} from './form-facets';
+import { type GraphFormat, GRAPH_FORMATS } from '../../dependency-graph';
 
 export const TOOL_DEFINITION = {
   name: 'inspect_form',
@@ -24,10 +32,18 @@ export const TOOL_DEFINITION = {
     'With `formId`, returns selected facets via the `include` array: ' +
     '"summary" (component counts, nesting depth, layout stats), ' +
     '"validation" (duplicate keys, missing properties, structural issues), ' +
-    '"variables" (data-bound keys, expression references, conditional references), ' +
+    '"variables" (data-bound keys plus a dependency graph: which components produce which ' +
+    'variables, which read them in conditionals, expressions, templates and valuesKey, and ' +
+    'which variables must come from the process; pass `graphFormat` "mermaid" or "dot" for a ' +
+    'diagram), ' +
+    '"dataSchema" (JSON Schema of the submitted data — nested objects for group paths, arrays ' +
+    'for dynamic lists, validate rules as constraints; pass `typescript: true` for a TypeScript ' +
+    'interface as well), ' +
     '"diff" (structural diff — requires `compareFormId`), ' +
     '"schema" (export the full JSON schema — validates first unless `skipValidation` is true), ' +
-    '"components" (list components or get single component detail via `componentId`). ' +
+    '"components" (list components or get single component detail via `componentId`), ' +
+    '"accessibility" (WCAG findings: unlabelled fields and buttons, images without alt, ' +
+    'untitled iframes, single-option radio groups and checklists, skipped heading levels). ' +
     'Defaults to ["summary", "validation", "variables"] when `include` is omitted.',
   inputSchema: {
     type: 'object',
@@ -40,13 +56,38 @@ export const TOOL_DEFINITION = {
         type: 'array',
         items: {
           type: 'string',
-          enum: ['summary', 'validation', 'variables', 'diff', 'schema', 'components'],
+          enum: [
+            'summary',
+            'validation',
+            'variables',
+            'dataSchema',
+            'diff',
+            'schema',
+            'components',
+            'accessibility',
+          ],
         },
         description: 'Which facets to include. Defaults to ["summary", "validation", "variables"]',
       },
       includeWarnings: {
         type: 'boolean',
-        description: 'Include warning-level validation issues (default: true)',
+        description: 'Include warning-level validation and accessibility issues (default: true)',
+      },
+      graphFormat: {
+        type: 'string',
+        enum: [...GRAPH_FORMATS],
+        description:
+          'For the "variables" facet: also render the dependency graph as a Mermaid flowchart ' +
+          'or Graphviz DOT digraph (default: "json", the graph only).',
+      },
+      typescript: {
+        type: 'boolean',
+        description: 'For the "dataSchema" facet: also render a TypeScript interface.',
+      },
+      interfaceName: {
+        type: 'string',
+        description:
+          'For the "dataSchema" facet: name of the TypeScript interface (default: "<FormName>Data").',
       },
       compareFormId: {
         type: 'string',
@@ -75,88 +116,6 @@ export const TOOL_DEFINITION = {
   },
 } as const;
 
-interface FormStats {
-  typeCounts: Record<string, number>;
-  rows: Set<string>;
-  hasValidation: boolean;
-  hasConditionals: boolean;
-  variableCount: number;
-  maxDepth: number;
-}
-
-function mergeChildStats(parent: FormStats, child: FormStats): void {
-  for (const [t, c] of Object.entries(child.typeCounts)) {
-    parent.typeCounts[t] = (parent.typeCounts[t] ?? 0) + c;
-  }
-  for (const r of child.rows) {
-    parent.rows.add(r);
-  }
-  if (child.hasValidation) {
-    parent.hasValidation = true;
-  }
-  if (child.hasConditionals) {
-    parent.hasConditionals = true;
-  }
-  parent.variableCount += child.variableCount;
-  if (child.maxDepth > parent.maxDepth) {
-    parent.maxDepth = child.maxDepth;
-  }
-}
-
-function collectStats(components: FormComponent[], depth: number): FormStats {
-  const stats: FormStats = {
-    typeCounts: {},
-    rows: new Set<string>(),
-    hasValidation: false,
-    hasConditionals: false,
-    variableCount: 0,
-    maxDepth: depth,
-  };
-  for (const comp of components) {
-    stats.typeCounts[comp.type] = (stats.typeCounts[comp.type] ?? 0) + 1;
-    if (comp.key && (KEYED_FIELD_TYPES as readonly string[]).includes(comp.type)) {
-      stats.variableCount++;
-    }
-    if (comp.validate && Object.keys(comp.validate).length > 0) {
-      stats.hasValidation = true;
-    }
-    if (comp.conditional?.hide) {
-      stats.hasConditionals = true;
-    }
-    if (comp.layout?.row) {
-      stats.rows.add(comp.layout.row);
-    }
-    if (comp.components?.length) {
-      mergeChildStats(stats, collectStats(comp.components, depth + 1));
-    }
-  }
-  return stats;
-}
-
-function extractVariables(components: FormComponent[]) {
-  const inputKeys: string[] = [];
-  const expressionFields: string[] = [];
-  const conditionalFields: string[] = [];
-  for (const comp of components) {
-    if (comp.key) {
-      inputKeys.push(comp.key);
-    }
-    if (comp.valuesExpression) {
-      expressionFields.push(comp.id ?? comp.key ?? comp.type);
-    }
-    if (comp.conditional?.hide) {
-      conditionalFields.push(comp.id ?? comp.key ?? comp.type);
-    }
-    if (comp.components) {
-      const n = extractVariables(comp.components);
-      inputKeys.push(...n.inputKeys);
-      expressionFields.push(...n.expressionFields);
-      conditionalFields.push(...n.conditionalFields);
-    }
-  }
-  return { inputKeys, expressionFields, conditionalFields };
-}
-
 function flattenForDiff(components: FormComponent[]): Map<string, FormComponent> {
   const map = new Map<string, FormComponent>();
   for (const comp of components) {
@@ -185,40 +144,6 @@ function diffComponent(a: FormComponent, b: FormComponent) {
   return changes;
 }
 
-function buildSummaryFacet(schema: FormSchema, form: FormState): Record<string, any> {
-  const stats = collectStats(schema.components, 0);
-  return {
-    schemaVersion: schema.schemaVersion ?? null,
-    executionPlatform: schema.executionPlatform ?? null,
-    totalComponents: countComponents(schema.components),
-    componentsByType: stats.typeCounts,
-    nestingDepth: stats.maxDepth,
-    variableCount: stats.variableCount,
-    layoutRows: stats.rows.size,
-    hasValidation: stats.hasValidation,
-    hasConditionals: stats.hasConditionals,
-    version: form.version ?? 0,
-  };
-}
-
-function buildValidationFacet(schema: FormSchema, includeWarnings: boolean): Record<string, any> {
-  const validationResult = validateFormSchema(schema);
-  const issues = includeWarnings
-    ? validationResult.issues
-    : validationResult.issues.filter((i) => i.severity === 'error');
-  return { valid: validationResult.valid, issueCount: issues.length, issues };
-}
-
-function buildVariablesFacet(schema: FormSchema): Record<string, any> {
-  const { inputKeys, expressionFields, conditionalFields } = extractVariables(schema.components);
-  return {
-    inputKeys: [...new Set(inputKeys)],
-    expressionFieldCount: expressionFields.length,
-    conditionalFieldCount: conditionalFields.length,
-    total: new Set(inputKeys).size,
-  };
-}
-
 function buildDiffFacet(schema: FormSchema, compareFormId: string): Record<string, any> {
   const form2 = requireForm(compareFormId);
   const map1 = flattenForDiff(schema.components);
@@ -332,6 +257,14 @@ function buildComponentsFacet(schema: FormSchema, form: FormState, args: any): R
   return { components: results, count: results.length };
 }
 
+function parseGraphFormat(value: unknown): GraphFormat {
+  if (value === undefined) return 'json';
+  if (!GRAPH_FORMATS.includes(value as GraphFormat)) {
+    throw new Error(`Invalid graphFormat: "${value}". Use ${GRAPH_FORMATS.join(', ')}.`);
+  }
+  return value as GraphFormat;
+}
+
 export async function handleInspectForm(args: any): Promise<ToolResult> {
   // ── List-all mode (no formId) ──────────────────────────────────────────
   if (!args?.formId) {
@@ -363,7 +296,10 @@ export async function handleInspectForm(args: any): Promise<ToolResult> {
     result.validation = buildValidationFacet(schema, includeWarnings);
   }
   if (include.includes('variables')) {
-    result.variables = buildVariablesFacet(schema);
+    result.variables = buildVariablesFacet(schema, parseGraphFormat(args.graphFormat));
+  }
+  if (include.includes('dataSchema')) {
+    result.dataSchema = buildDataSchemaFacet(schema, form, args);
   }
   if (include.includes('diff')) {
     if (!args.compareFormId) {
@@ -377,6 +313,9 @@ export async function handleInspectForm(args: any): Promise<ToolResult> {
   if (include.includes('components')) {
     result.components = buildComponentsFacet(schema, form, args);
   }
+  if (include.includes('accessibility')) {
+    result.accessibility = buildAccessibilityFacet(schema, includeWarnings);
+  }
 
   return jsonResult(result);
 }
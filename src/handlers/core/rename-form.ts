@@ -0,0 +1,48 @@
+/**
+ * rename_form — Change a form's display name.
+ */
+
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { type ToolResult } from '../../types';
+import { renameForm } from '../../form-manager';
+import { validateArgs, requireForm, jsonResult, EXPECTED_VERSION_PROPERTY } from '../helpers';
+
+export const TOOL_DEFINITION = {
+  name: 'rename_form',
+  description:
+    "Change a form's display name (shown by inspect_form and stored in the persisted " +
+    'meta.json). The schema and version are unchanged.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: {
+        type: 'string',
+        description: 'The form to rename',
+      },
+      name: {
+        type: 'string',
+        description: 'New display name',
+      },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
+    },
+    required: ['formId', 'name'],
+  },
+} as const;
+
+export async function handleRenameForm(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId', 'name']);
+  if (typeof args.name !== 'string' || args.name.trim() === '') {
+    throw new McpError(ErrorCode.InvalidParams, 'name must be a non-empty string');
+  }
+  const form = requireForm(args.formId, args.expectedVersion);
+  const previousName = form.name ?? null;
+  renameForm(args.formId, args.name);
+
+  return jsonResult({
+    formId: args.formId,
+    name: args.name,
+    previousName,
+    version: form.version ?? 0,
+    message: `Form ${args.formId} renamed to "${args.name}"`,
+  });
+}
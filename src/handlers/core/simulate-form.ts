@@ -0,0 +1,49 @@
+/**
+ * simulate_form — Evaluate a form against sample data without a browser.
+ */
+
+import { type ToolResult } from '../../types';
+import { simulateForm } from '../../simulator';
+import { validateArgs, requireForm, jsonResult } from '../helpers';
+
+export const TOOL_DEFINITION = {
+  name: 'simulate_form',
+  description:
+    'Simulate filling in a form with sample input data. Evaluates FEEL expressions the way ' +
+    'the form-js runtime would and reports which components are hidden (conditional.hide), ' +
+    'the resolved option lists (values / valuesKey / valuesExpression), computed expression ' +
+    'field values, and the validation errors a submission would produce ' +
+    '(required, min, max, minLength, maxLength, pattern, validationType). ' +
+    'Hidden fields are not validated. Does not modify the form.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: {
+        type: 'string',
+        description: 'The form to simulate',
+      },
+      data: {
+        type: 'object',
+        description:
+          'Sample input data keyed by field key (nested objects for group paths, ' +
+          'arrays for dynamic lists). Defaults to an empty object.',
+      },
+    },
+    required: ['formId'],
+  },
+} as const;
+
+export async function handleSimulateForm(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId']);
+  const form = requireForm(args.formId);
+
+  const data = args.data ?? {};
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('data must be a JSON object');
+  }
+
+  return jsonResult({
+    formId: args.formId,
+    ...simulateForm(form.schema, data),
+  });
+}
@@ -0,0 +1,180 @@
+/**
+ * translate_form — Translation catalogs and localized form variants.
+ *
+ * Three actions:
+ *   1. `extract` — export the form's translatable strings as a JSON, PO or
+ *      XLIFF catalog; pass an earlier catalog to carry its translations over
+ *   2. `apply`   — create a localized variant of the form from a translated
+ *      catalog (a new form with the same component IDs and keys)
+ *   3. `report`  — list missing, stale and obsolete translations of a
+ *      catalog against the current form
+ */
+
+import { type ToolResult } from '../../types';
+import { generateFormId, storeForm } from '../../form-manager';
+import { validateArgs, requireForm, jsonResult } from '../helpers';
+import {
+  type CatalogFormat,
+  type TranslationCatalog,
+  CATALOG_FORMATS,
+  buildCatalog,
+  compareCatalog,
+  applyCatalog,
+  formatCatalog,
+  parseCatalog,
+  unaddressableStrings,
+} from '../../translations';
+
+export const TOOL_DEFINITION = {
+  name: 'translate_form',
+  description:
+    'Translate a form. action "extract" exports every translatable string (labels, ' +
+    'descriptions, option labels, text blocks, validation messages, button labels) as a ' +
+    'message catalog in JSON, PO or XLIFF; pass the previous catalog to keep its ' +
+    'translations (those whose source text changed are marked stale). action "apply" creates ' +
+    'a localized variant of the form from a translated catalog and returns its new formId; ' +
+    'missing and stale translations keep the source text and are reported. action "report" ' +
+    'lists missing, stale and obsolete translations without creating a form. FEEL expressions ' +
+    'are not extracted; strings of components without an id cannot be addressed and are listed ' +
+    'in unaddressable. Does not modify the source form.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: {
+        type: 'string',
+        description: 'The source form',
+      },
+      action: {
+        type: 'string',
+        enum: ['extract', 'apply', 'report'],
+        description: 'What to do (default: "extract")',
+      },
+      format: {
+        type: 'string',
+        enum: [...CATALOG_FORMATS],
+        description:
+          'Catalog format. extract: output format (default "json"). apply / report: format of ' +
+          'the given catalog (detected when omitted).',
+      },
+      catalog: {
+        description:
+          'A catalog from a previous extract, as a string (JSON, PO or XLIFF) or a JSON object. ' +
+          'Required for apply and report; optional for extract.',
+      },
+      sourceLocale: {
+        type: 'string',
+        description: 'Locale of the form texts (extract; default: the catalog\'s, else "en")',
+      },
+      targetLocale: {
+        type: 'string',
+        description:
+          'Locale to translate to (e.g. "de"). Defaults to the catalog\'s target locale; ' +
+          'required for apply when the catalog has none.',
+      },
+      name: {
+        type: 'string',
+        description: 'Name of the localized form (apply; default: "<name> (<locale>)")',
+      },
+    },
+    required: ['formId'],
+  },
+} as const;
+
+type TranslateAction = 'extract' | 'apply' | 'report';
+
+function parseFormat(value: unknown): CatalogFormat | undefined {
+  if (value === undefined) return undefined;
+  if (!CATALOG_FORMATS.includes(value as CatalogFormat)) {
+    throw new Error(`Invalid format: "${value}". Use ${CATALOG_FORMATS.join(', ')}.`);
+  }
+  return value as CatalogFormat;
+}
+
+function requireCatalog(args: any, action: TranslateAction): TranslationCatalog {
+  if (args.catalog === undefined) throw new Error(`"catalog" is required for ${action} action`);
+  return parseCatalog(args.catalog, parseFormat(args.format));
+}
+
+/** Form schema IDs allow letters, digits, `_`, `-` and `.` only. */
+function localeSuffix(locale: string): string {
+  return locale.replaceAll(/[^\w.-]/g, '_');
+}
+
+// ── Actions ────────────────────────────────────────────────────────────────
+
+function handleExtract(args: any): ToolResult {
+  const form = requireForm(args.formId);
+  const format = parseFormat(args.format) ?? 'json';
+  // `format` names the output; the previous catalog's format is detected
+  const previous = args.catalog === undefined ? undefined : parseCatalog(args.catalog);
+  const catalog = buildCatalog(
+    form.schema,
+    {
+      sourceLocale: args.sourceLocale ?? previous?.sourceLocale ?? 'en',
+      targetLocale: args.targetLocale ?? previous?.targetLocale,
+    },
+    previous
+  );
+  const unaddressable = unaddressableStrings(form.schema);
+  return jsonResult({
+    formId: args.formId,
+    format,
+    messageCount: catalog.messages.length,
+    ...(unaddressable.length > 0 ? { unaddressable } : {}),
+    ...(previous ? { report: compareCatalog(form.schema, previous) } : {}),
+    catalog: formatCatalog(catalog, format),
+  });
+}
+
+function handleApply(args: any): ToolResult {
+  const source = requireForm(args.formId);
+  const catalog = requireCatalog(args, 'apply');
+  const locale: string | undefined = args.targetLocale ?? catalog.targetLocale;
+  if (!locale) {
+    throw new Error('"targetLocale" is required when the catalog has no target locale');
+  }
+
+  const { schema, report } = applyCatalog(source.schema, catalog);
+  schema.id = `${source.schema.id ?? 'Form'}_${localeSuffix(locale)}`;
+  const name = args.name ?? `${source.name ?? source.schema.id ?? args.formId} (${locale})`;
+  const formId = generateFormId();
+  storeForm(formId, { schema, name, version: 0 });
+
+  const untranslated = report.missing.length + report.stale.length;
+  return jsonResult({
+    formId,
+    sourceFormId: args.formId,
+    locale,
+    name,
+    ...report,
+    message:
+      `Created ${locale} variant ${formId} with ${report.translated} translated string(s)` +
+      (untranslated > 0 ? `; ${untranslated} string(s) kept the source text` : ''),
+  });
+}
+
+function handleReport(args: any): ToolResult {
+  const form = requireForm(args.formId);
+  const catalog = requireCatalog(args, 'report');
+  const report = compareCatalog(form.schema, catalog);
+  return jsonResult({
+    formId: args.formId,
+    locale: args.targetLocale ?? catalog.targetLocale ?? null,
+    upToDate: report.missing.length === 0 && report.stale.length === 0,
+    ...report,
+  });
+}
+
+export async function handleTranslateForm(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId']);
+  switch (args.action ?? 'extract') {
+    case 'extract':
+      return handleExtract(args);
+    case 'apply':
+      return handleApply(args);
+    case 'report':
+      return handleReport(args);
+    default:
+      throw new Error(`Invalid action: "${args.action}". Use "extract", "apply", or "report".`);
+  }
+}
@@ -8,6 +8,10 @@ import { getForm, notifyFormChanged } from '../form-manager';
 import { type FormState, type FormComponent, type ToolResult, type HintLevel } from '../types';
 import { KEYED_FIELD_TYPES, SUPPORTED_FIELD_TYPES } from '../constants';
 import { validateFormSchema, type ValidationIssue } from '../validator';
+import { recordHistory } from '../history';
+import { diffComponentIds } from '../schema-diff';
+import { boundKeyPaths, joinPath } from '../data-binding';
+import { checkAccessibility, getAccessibilityHints } from '../accessibility';
 
 // ── Argument validation ────────────────────────────────────────────────────
 
@@ -26,14 +30,69 @@ export function validateArgs(args: any, required: string[]): void {
   }
 }
 
+/**
+ * Read an optional positive-integer argument, falling back to `fallback`.
+ * Throws McpError with InvalidParams on non-integer or non-positive values.
+ */
+export function optionalPositiveInt(value: unknown, name: string, fallback: number): number {
+  if (value === undefined || value === null) return fallback;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `${name} must be a positive integer`);
+  }
+  return value;
+}
+
 // ── Form access ────────────────────────────────────────────────────────────
 
-/** Fetch a form or throw McpError if not found. */
-export function requireForm(formId: string): FormState {
+/** JSON-RPC error code of `VersionConflictError` (implementation-defined server error). */
+export const VERSION_CONFLICT_ERROR_CODE = -32010;
+
+/** Raised when a mutation's `expectedVersion` does not match the form's current version. */
+export class VersionConflictError extends McpError {
+  readonly formId: string;
+  readonly expectedVersion: number;
+  readonly currentVersion: number;
+
+  constructor(formId: string, expectedVersion: number, currentVersion: number) {
+    super(
+      VERSION_CONFLICT_ERROR_CODE,
+      `Version conflict on form ${formId}: expected version ${expectedVersion}, ` +
+        `current version is ${currentVersion}. Re-read the form and retry.`,
+      { formId, expectedVersion, currentVersion }
+    );
+    this.name = 'VersionConflictError';
+    this.formId = formId;
+    this.expectedVersion = expectedVersion;
+    this.currentVersion = currentVersion;
+  }
+}
+
+/** `inputSchema` property shared by mutating tools for optimistic concurrency. */
+export const EXPECTED_VERSION_PROPERTY = {
+  type: 'number',
+  description:
+    'Optimistic concurrency: fail with a version conflict unless the form is still at this ' +
+    'version (as returned by the previous response or inspect_form).',
+} as const;
+
+/**
+ * Fetch a form or throw McpError if not found. When `expectedVersion` is
+ * given, throws `VersionConflictError` unless the form is at that version.
+ */
+export function requireForm(formId: string, expectedVersion?: unknown): FormState {
   const form = getForm(formId);
   if (!form) {
     throw new McpError(ErrorCode.InvalidParams, `Form not found: ${formId}`);
   }
+  if (expectedVersion !== undefined && expectedVersion !== null) {
+    if (!Number.isInteger(expectedVersion) || (expectedVersion as number) < 0) {
+      throw new McpError(ErrorCode.InvalidParams, 'expectedVersion must be a non-negative integer');
+    }
+    const currentVersion = form.version ?? 0;
+    if (expectedVersion !== currentVersion) {
+      throw new VersionConflictError(formId, expectedVersion as number, currentVersion);
+    }
+  }
   return form;
 }
 
@@ -95,11 +154,44 @@ export function requireComponent(form: FormState, componentId: string): FormComp
 
 // ── Version tracking ───────────────────────────────────────────────────────
 
-/** Bump the mutation version counter on a form.
- *  When `formId` is provided, also notifies the persistence layer. */
-export function bumpVersion(form: FormState, formId?: string): void {
+/** Forms inside `withChangeTrackingSuspended`. */
+const suspendedForms = new Set<string>();
+
+/**
+ * Run `fn` while `bumpVersion` only counts versions for `formId` — no undo
+ * snapshots, no change notifications. The caller records the net change
+ * afterwards with a single `bumpVersion`.
+ */
+export async function withChangeTrackingSuspended<T>(
+  formId: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  suspendedForms.add(formId);
+  try {
+    return await fn();
+  } finally {
+    suspendedForms.delete(formId);
+  }
+}
+
+/** Bump the mutation version counter on a form and record an undo snapshot.
+ *  When `formId` is provided, also notifies change listeners (persistence, …).
+ *  Changed component IDs are derived from the last snapshot unless given. */
+export function bumpVersion(
+  form: FormState,
+  formId?: string,
+  changedComponentIds?: string[]
+): void {
+  const previous = form.history?.current;
   form.version = (form.version ?? 0) + 1;
-  if (formId) notifyFormChanged(formId);
+  if (formId && suspendedForms.has(formId)) return;
+  recordHistory(form);
+  if (!formId) return;
+
+  const changed =
+    changedComponentIds ??
+    (previous ? diffComponentIds(JSON.parse(previous).components, form.schema.components) : []);
+  notifyFormChanged(formId, changed);
 }
 
 // ── Response helpers ───────────────────────────────────────────────────────
@@ -141,14 +233,41 @@ export function isSupportedType(type: string): boolean {
 
 // ── Key collection ─────────────────────────────────────────────────────────
 
-/** Collect all keys from a component tree. */
+/**
+ * Collect the data paths bound by all keyed components of a tree: a key
+ * inside a group or dynamic list with a `path` is returned with its full
+ * path (`address.street`), see `data-binding.ts`.
+ */
 export function collectAllKeys(components: FormComponent[]): string[] {
-  const keys: string[] = [];
-  for (const comp of components) {
-    if (comp.key) keys.push(comp.key);
-    if (comp.components) keys.push(...collectAllKeys(comp.components));
+  return boundKeyPaths(components);
+}
+
+/**
+ * Generate a unique key for a keyed component: the explicit key, else one
+ * derived from the label (or type), suffixed until no component in
+ * `components` binds it within `scope` (the data scope the component will
+ * be placed in, see `scopeOfChildren`).
+ */
+export function resolveKey(
+  components: FormComponent[],
+  explicitKey: string | undefined,
+  label: string | undefined,
+  type: string,
+  scope = ''
+): string {
+  let key = explicitKey;
+  if (!key) {
+    key = label ? label.replaceAll(/[^\w]/g, '').slice(0, 30) : type;
+    key = key.charAt(0).toLowerCase() + key.slice(1);
   }
-  return keys;
+  const boundPaths = new Set(collectAllKeys(components));
+  let finalKey = key;
+  let suffix = 1;
+  while (boundPaths.has(joinPath(scope, finalKey))) {
+    finalKey = `${key}${suffix}`;
+    suffix++;
+  }
+  return finalKey;
 }
 
 /** Collect all IDs from a component tree. */
@@ -179,24 +298,28 @@ export function countComponents(components: FormComponent[]): number {
  * - `'full'`    — return all issues (errors + warnings)
  * - `'minimal'` — return errors only
  * - `'none'`    — return empty array
+ *
+ * Accessibility findings are included when enabled with `setAccessibilityHints`.
  */
 export function collectValidationHints(form: FormState): ValidationIssue[] {
   const level: HintLevel = form.hintLevel ?? 'full';
   if (level === 'none') return [];
 
-  const { issues } = validateFormSchema(form.schema);
+  const issues: ValidationIssue[] = validateFormSchema(form.schema).issues;
+  if (getAccessibilityHints()) issues.push(...checkAccessibility(form.schema));
   if (level === 'minimal') return issues.filter((i) => i.severity === 'error');
   return issues;
 }
 
 /**
- * Create a JSON ToolResult for a mutation, automatically appending
- * validation hints based on the form's `hintLevel`.
+ * Create a JSON ToolResult for a mutation, adding the form's new `version`
+ * and appending validation hints based on the form's `hintLevel`.
  */
 export function mutationResult(form: FormState, data: Record<string, any>): ToolResult {
+  const result: Record<string, any> = { ...data, version: form.version ?? 0 };
   const hints = collectValidationHints(form);
   if (hints.length > 0) {
-    data._hints = hints;
+    result._hints = hints;
   }
-  return jsonResult(data);
+  return jsonResult(result);
 }
@@ -0,0 +1,57 @@
+/**
+ * redo_form_change — Re-apply change(s) previously reverted by undo_form_change.
+ */
+
+import { type ToolResult } from '../../types';
+import { diffComponentIds } from '../../schema-diff';
+import { redoChange, getHistoryInfo } from '../../history';
+import {
+  validateArgs,
+  requireForm,
+  mutationResult,
+  bumpVersion,
+  optionalPositiveInt,
+  EXPECTED_VERSION_PROPERTY,
+} from '../helpers';
+
+export const TOOL_DEFINITION = {
+  name: 'redo_form_change',
+  description:
+    'Redo change(s) to a form that were reverted with undo_form_change. ' +
+    'The redo history is discarded as soon as a new change is made.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: { type: 'string', description: 'Target form ID' },
+      steps: {
+        type: 'number',
+        description: 'Number of changes to redo (default: 1)',
+      },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
+    },
+    required: ['formId'],
+  },
+} as const;
+
+export async function handleRedoFormChange(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId']);
+  const form = requireForm(args.formId, args.expectedVersion);
+  const steps = optionalPositiveInt(args.steps, 'steps', 1);
+
+  const before = form.schema.components;
+  const redone = redoChange(form, steps);
+  if (redone === 0) throw new Error(`Nothing to redo for form ${args.formId}`);
+
+  // The restored snapshot is already the history baseline, so diff explicitly
+  bumpVersion(form, args.formId, diffComponentIds(before, form.schema.components));
+
+  const { undoSteps, redoSteps } = getHistoryInfo(form);
+  return mutationResult(form, {
+    formId: args.formId,
+    redone,
+    version: form.version,
+    undoSteps,
+    redoSteps,
+    message: `Redid ${redone} change(s)`,
+  });
+}
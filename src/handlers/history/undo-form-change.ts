@@ -0,0 +1,58 @@
+/**
+ * undo_form_change — Revert the most recent mutation(s) of a form.
+ */
+
+import { type ToolResult } from '../../types';
+import { diffComponentIds } from '../../schema-diff';
+import { undoChange, getHistoryInfo } from '../../history';
+import {
+  validateArgs,
+  requireForm,
+  mutationResult,
+  bumpVersion,
+  optionalPositiveInt,
+  EXPECTED_VERSION_PROPERTY,
+} from '../helpers';
+
+export const TOOL_DEFINITION = {
+  name: 'undo_form_change',
+  description:
+    'Undo the most recent change(s) to a form made by any mutating tool ' +
+    '(add_form_component, modify_form_component, set_form_component_properties, …). ' +
+    'Undone changes can be re-applied with redo_form_change until a new change is made.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: { type: 'string', description: 'Target form ID' },
+      steps: {
+        type: 'number',
+        description: 'Number of changes to undo (default: 1)',
+      },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
+    },
+    required: ['formId'],
+  },
+} as const;
+
+export async function handleUndoFormChange(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId']);
+  const form = requireForm(args.formId, args.expectedVersion);
+  const steps = optionalPositiveInt(args.steps, 'steps', 1);
+
+  const before = form.schema.components;
+  const undone = undoChange(form, steps);
+  if (undone === 0) throw new Error(`Nothing to undo for form ${args.formId}`);
+
+  // The restored snapshot is already the history baseline, so diff explicitly
+  bumpVersion(form, args.formId, diffComponentIds(before, form.schema.components));
+
+  const { undoSteps, redoSteps } = getHistoryInfo(form);
+  return mutationResult(form, {
+    formId: args.formId,
+    undone,
+    version: form.version,
+    undoSteps,
+    redoSteps,
+    message: `Undid ${undone} change(s)`,
+  });
+}
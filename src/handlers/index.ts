@@ -11,15 +11,25 @@ import { type ToolResult } from '../types';
 // ── Core handlers ──────────────────────────────────────────────────────────
 import * as CreateForm from './core/create-form';
 import * as DeleteForm from './core/delete-form';
+import * as RenameForm from './core/rename-form';
 import * as InspectForm from './core/inspect-form';
 import * as ExportFormToFile from './core/export-form-to-file';
+import * as SimulateForm from './core/simulate-form';
+import * as TranslateForm from './core/translate-form';
 
 // ── Component handlers ─────────────────────────────────────────────────────
 import * as AddFormComponent from './components/add-form-component';
 import * as ModifyFormComponent from './components/modify-form-component';
+import * as ApplyFormOperations from './components/apply-form-operations';
+import * as SaveFormFragment from './components/save-form-fragment';
 
 // ── Property handlers ──────────────────────────────────────────────────────
 import * as SetProps from './properties/set-form-component-properties';
+import * as RenameFormKey from './properties/rename-form-key';
+
+// ── History handlers ───────────────────────────────────────────────────────
+import * as UndoFormChange from './history/undo-form-change';
+import * as RedoFormChange from './history/redo-form-change';
 
 // ── Tool registration type ─────────────────────────────────────────────────
 
@@ -34,11 +44,14 @@ export const TOOL_REGISTRY: readonly ToolRegistration[] = [
   // Core form lifecycle
   { definition: CreateForm.TOOL_DEFINITION, handler: CreateForm.handleCreateForm },
   { definition: DeleteForm.TOOL_DEFINITION, handler: DeleteForm.handleDeleteForm },
+  { definition: RenameForm.TOOL_DEFINITION, handler: RenameForm.handleRenameForm },
   { definition: InspectForm.TOOL_DEFINITION, handler: InspectForm.handleInspectForm },
   {
     definition: ExportFormToFile.TOOL_DEFINITION,
     handler: ExportFormToFile.handleExportFormToFile,
   },
+  { definition: SimulateForm.TOOL_DEFINITION, handler: SimulateForm.handleSimulateForm },
+  { definition: TranslateForm.TOOL_DEFINITION, handler: TranslateForm.handleTranslateForm },
 
   // Component manipulation
   {
@@ -49,9 +62,22 @@ export const TOOL_REGISTRY: readonly ToolRegistration[] = [
     definition: ModifyFormComponent.TOOL_DEFINITION,
     handler: ModifyFormComponent.handleModifyFormComponent,
   },
+  {
+    definition: ApplyFormOperations.TOOL_DEFINITION,
+    handler: ApplyFormOperations.handleApplyFormOperations,
+  },
+  {
+    definition: SaveFormFragment.TOOL_DEFINITION,
+    handler: SaveFormFragment.handleSaveFormFragment,
+  },
 
   // Property management
   { definition: SetProps.TOOL_DEFINITION, handler: SetProps.handleSetFormComponentProperties },
+  { definition: RenameFormKey.TOOL_DEFINITION, handler: RenameFormKey.handleRenameFormKey },
+
+  // Undo / redo
+  { definition: UndoFormChange.TOOL_DEFINITION, handler: UndoFormChange.handleUndoFormChange },
+  { definition: RedoFormChange.TOOL_DEFINITION, handler: RedoFormChange.handleRedoFormChange },
 ];
 
 // ── Auto-derived exports ───────────────────────────────────────────────────
@@ -0,0 +1,78 @@
+/**
+ * rename_form_key — Rename a component's key and rewrite every reference.
+ *
+ * Unlike setting `key` with set_form_component_properties, this also
+ * updates FEEL expressions, template placeholders and `valuesKey` values
+ * that read the old variable (see `key-rename.ts`). `dryRun` previews the
+ * edits without changing the form.
+ */
+
+import { type ToolResult } from '../../types';
+import {
+  validateArgs,
+  requireForm,
+  requireComponent,
+  mutationResult,
+  bumpVersion,
+  jsonResult,
+  EXPECTED_VERSION_PROPERTY,
+} from '../helpers';
+import { renameKey } from '../../key-rename';
+
+export const TOOL_DEFINITION = {
+  name: 'rename_form_key',
+  description:
+    "Rename a component's key and rewrite all references to it across the form: FEEL " +
+    'expressions (conditional.hide, valuesExpression, expression fields and any "="-prefixed ' +
+    'property), {{ }} placeholders in text and html templates, and valuesKey. References are ' +
+    'resolved per data scope: inside a dynamic list, item fields are matched as plain names, ' +
+    'this.<key> and parent.<key>; a root variable with the same name as an item field is not ' +
+    'touched. Names bound inside an expression (for / some / every iterators, function ' +
+    'parameters, filter item) are left alone. Pass dryRun=true to preview every edited ' +
+    'location without changing the form.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      formId: { type: 'string', description: 'Target form ID' },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
+      componentId: { type: 'string', description: 'ID of the component whose key to rename' },
+      newKey: {
+        type: 'string',
+        description:
+          'New key, relative to the same data scope as the old one (e.g. "customerName", ' +
+          'or "customer.name" for nested data)',
+      },
+      dryRun: {
+        type: 'boolean',
+        description: 'Only report the edits, do not change the form (default: false)',
+      },
+    },
+    required: ['formId', 'componentId', 'newKey'],
+  },
+} as const;
+
+export async function handleRenameFormKey(args: any): Promise<ToolResult> {
+  validateArgs(args, ['formId', 'componentId', 'newKey']);
+  const form = requireForm(args.formId, args.expectedVersion);
+  const comp = requireComponent(form, args.componentId);
+  const dryRun = args.dryRun === true;
+
+  const { skipped, ...result } = renameKey(form.schema, comp, String(args.newKey), { dryRun });
+  // The first edit is the key itself
+  const references = result.edits.length - 1;
+  const data = {
+    ...result,
+    ...(skipped.length > 0 ? { skipped } : {}),
+    dryRun,
+    message:
+      `${dryRun ? 'Would rename' : 'Renamed'} key "${result.oldKey}" to "${result.newKey}" ` +
+      `and ${dryRun ? 'update' : 'updated'} ${references} referencing value(s)` +
+      (skipped.length > 0
+        ? `; ${skipped.length} expression(s) could not be parsed and were left unchanged`
+        : ''),
+  };
+  if (dryRun) return jsonResult(data);
+
+  bumpVersion(form, args.formId);
+  return mutationResult(form, data);
+}
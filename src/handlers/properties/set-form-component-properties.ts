@@ -8,6 +8,10 @@
  * - Conditional visibility (via `conditional.hide`)
  * - Grid layout (via `layout.columns` / `layout.row`)
  * - Options for select/radio/checklist/taglist (via `values`, `valuesKey`, or `valuesExpression`)
+ *
+ * Values are checked against the property registry before anything is
+ * changed: mistyped values are rejected, unknown properties are set but
+ * reported as `warnings`.
  */
 
 import {
@@ -18,12 +22,7 @@ import {
   type FormOptionValue,
   type FormState,
 } from '../../types';
-import {
-  OPTIONS_FIELD_TYPES,
-  KEYED_FIELD_TYPES,
-  CONTAINER_FIELD_TYPES,
-  DEFAULT_COLUMNS,
-} from '../../constants';
+import { OPTIONS_FIELD_TYPES, KEYED_FIELD_TYPES, DEFAULT_COLUMNS } from '../../constants';
 import {
   validateArgs,
   requireForm,
@@ -32,7 +31,14 @@ import {
   bumpVersion,
   isSupportedType,
   collectAllKeys,
+  EXPECTED_VERSION_PROPERTY,
 } from '../helpers';
+import { joinPath, scopeOfComponent } from '../../data-binding';
+import {
+  checkComponentProperties,
+  supportsProperty,
+  VALIDATE_PROPERTIES,
+} from '../../property-registry';
 
 export const TOOL_DEFINITION = {
   name: 'set_form_component_properties',
@@ -40,16 +46,20 @@ export const TOOL_DEFINITION = {
     'Set or update properties on a form component. Pass a properties object ' +
     'with key/value pairs to set. Set a value to null to remove a property. ' +
     'Setting `type` changes the component type while preserving compatible properties ' +
-    '(e.g. textfield → textarea keeps key, label, validate; incompatible properties are removed). ' +
+    '(e.g. textfield → textarea keeps key, label, validate; properties the new type does not support are removed). ' +
+    'Values are checked against the properties each type supports (e.g. datetime subtype, number decimalDigits, ' +
+    'dynamiclist isRepeating): mistyped values are rejected, unknown properties are set with a warning. ' +
     'Supports nested objects for validate (e.g. { validate: { required: true, minLength: 2 } }), ' +
     'conditional (e.g. { conditional: { hide: "=x > 1" } } or null to clear), ' +
     `layout (e.g. { layout: { columns: 8, row: "Row_1" } }, ${DEFAULT_COLUMNS}-column grid), ` +
     'and options for select/radio/checklist/taglist via values (static array of { label, value }), ' +
-    'valuesKey (input data key), or valuesExpression (FEEL expression) — only one options source at a time.',
+    'valuesKey (input data key), or valuesExpression (FEEL expression) — only one options source at a time. ' +
+    'Setting key does not update references to the old key; use rename_form_key for that.',
   inputSchema: {
     type: 'object',
     properties: {
       formId: { type: 'string', description: 'Target form ID' },
+      expectedVersion: EXPECTED_VERSION_PROPERTY,
       componentId: { type: 'string', description: 'Component ID' },
       properties: {
         type: 'object',
@@ -80,16 +90,7 @@ function applyValidation(
 ): void {
   const existing: FormValidation = comp.validate ?? {};
 
-  const VALID_KEYS = [
-    'required',
-    'minLength',
-    'maxLength',
-    'min',
-    'max',
-    'pattern',
-    'validationError',
-  ];
-  for (const key of VALID_KEYS) {
+  for (const key of Object.keys(VALIDATE_PROPERTIES)) {
     if (validate[key] !== undefined) {
       (existing as any)[key] = validate[key];
     }
@@ -201,42 +202,13 @@ function applyOptionsSource(
 
 // ── Type-change logic (ported from replace_form_component) ─────────────────
 
-/**
- * Properties that are universally compatible across all field types.
- */
-const UNIVERSAL_PROPS = new Set([
-  'id',
-  'type',
-  'label',
-  'description',
-  'conditional',
-  'layout',
-  'properties',
-]);
-
-/** Properties specific to keyed (input/selection) types. */
-const KEYED_PROPS = new Set(['key', 'defaultValue', 'disabled', 'readonly', 'validate']);
-
-/** Properties specific to option-based types (select, radio, checklist, taglist). */
-const OPTIONS_PROPS = new Set(['values', 'valuesKey', 'valuesExpression']);
-
-/** Properties specific to container types (group, dynamiclist). */
-const CONTAINER_PROPS = new Set(['components']);
-
 function isKeyed(type: string): boolean {
   return (KEYED_FIELD_TYPES as readonly string[]).includes(type);
 }
 
-function isOptions(type: string): boolean {
-  return (OPTIONS_FIELD_TYPES as readonly string[]).includes(type);
-}
-
-function isContainer(type: string): boolean {
-  return (CONTAINER_FIELD_TYPES as readonly string[]).includes(type);
-}
-
 /**
- * Change a component's type while preserving compatible properties.
+ * Change a component's type, keeping the properties the new type supports
+ * according to the property registry.
  */
 function applyTypeChange(
   comp: Record<string, any>,
@@ -256,18 +228,7 @@ function applyTypeChange(
   const allKeys = Object.keys(comp).filter((k) => k !== 'type');
 
   for (const key of allKeys) {
-    let keep = false;
-    if (UNIVERSAL_PROPS.has(key)) {
-      keep = true;
-    } else if (KEYED_PROPS.has(key)) {
-      keep = isKeyed(newType);
-    } else if (OPTIONS_PROPS.has(key)) {
-      keep = isOptions(newType);
-    } else if (CONTAINER_PROPS.has(key)) {
-      keep = isContainer(newType);
-    }
-
-    if (keep) {
+    if (supportsProperty(newType, key)) {
       updated.push(key);
     } else {
       removed.push(key);
@@ -282,9 +243,10 @@ function applyTypeChange(
   if (isKeyed(newType) && !comp.key) {
     const baseKey = (comp.label ?? newType).replaceAll(/[^\w]/g, '').toLowerCase() || newType;
     const existingKeys = new Set(collectAllKeys(form.schema.components));
+    const scope = comp.id ? scopeOfComponent(form.schema.components, comp.id) : '';
     let candidateKey = baseKey;
     let counter = 1;
-    while (existingKeys.has(candidateKey)) {
+    while (existingKeys.has(joinPath(scope, candidateKey))) {
       candidateKey = `${baseKey}${counter++}`;
     }
     comp.key = candidateKey;
@@ -337,13 +299,26 @@ function applySingleProperty(
 
 export async function handleSetFormComponentProperties(args: any): Promise<ToolResult> {
   validateArgs(args, ['formId', 'componentId', 'properties']);
-  const form = requireForm(args.formId);
+  const form = requireForm(args.formId, args.expectedVersion);
   const comp = requireComponent(form, args.componentId);
 
   const props: Record<string, unknown> = args.properties;
   const updated: string[] = [];
   const removed: string[] = [];
 
+  // Check values against the (new) type before changing anything
+  const issues = checkComponentProperties(
+    { ...comp, type: String(props.type ?? comp.type) },
+    props
+  );
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(errors.map((issue) => issue.message).join('; '));
+  }
+  const warnings = issues.map((issue) =>
+    issue.suggestion ? `${issue.message}. ${issue.suggestion}` : issue.message
+  );
+
   // Handle type change first (before other properties, since it may remove properties)
   if (props.type !== undefined && props.type !== null) {
     applyTypeChange(comp as Record<string, any>, props.type as string, form, updated, removed);
@@ -367,6 +342,7 @@ export async function handleSetFormComponentProperties(args: any): Promise<ToolR
     componentId: args.componentId,
     updated,
     removed,
+    ...(warnings.length > 0 ? { warnings } : {}),
     message: `Updated ${updated.length} and removed ${removed.length} properties`,
   });
 }
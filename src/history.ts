@@ -0,0 +1,105 @@
+/**
+ * Per-form undo/redo history.
+ *
+ * Every mutation that goes through `bumpVersion` records a snapshot of the
+ * resulting schema. Undo/redo swap `form.schema` with an earlier or later
+ * snapshot; callers then bump the version so persistence and other
+ * listeners see the restored state through `notifyFormChanged`.
+ */
+
+import { type FormState, type FormHistory } from './types';
+import { DEFAULT_HISTORY_DEPTH } from './constants';
+
+// ── Configuration ──────────────────────────────────────────────────────────
+
+let historyDepth = DEFAULT_HISTORY_DEPTH;
+
+/** Set the maximum number of undo steps kept per form (0 disables history). */
+export function setHistoryDepth(depth: number): void {
+  if (!Number.isInteger(depth) || depth < 0) {
+    throw new Error('History depth must be a non-negative integer');
+  }
+  historyDepth = depth;
+}
+
+/** Return the configured maximum number of undo steps. */
+export function getHistoryDepth(): number {
+  return historyDepth;
+}
+
+// ── Recording ──────────────────────────────────────────────────────────────
+
+function serialize(form: FormState): string {
+  return JSON.stringify(form.schema);
+}
+
+/** Capture the form's current schema as the history baseline, if none exists. */
+export function initHistory(form: FormState): FormHistory {
+  form.history ??= { undo: [], redo: [], current: serialize(form) };
+  return form.history;
+}
+
+/**
+ * Record the form's current schema as a new history entry.
+ * No-op when the schema is unchanged since the last recorded snapshot,
+ * so restoring a snapshot does not clear the redo stack.
+ */
+export function recordHistory(form: FormState): void {
+  const history = initHistory(form);
+  const snapshot = serialize(form);
+  if (history.current === snapshot) return;
+
+  if (history.current !== undefined && historyDepth > 0) {
+    history.undo.push(history.current);
+    if (history.undo.length > historyDepth) {
+      history.undo.splice(0, history.undo.length - historyDepth);
+    }
+  }
+  history.current = snapshot;
+  history.redo = [];
+}
+
+// ── Undo / redo ────────────────────────────────────────────────────────────
+
+function restore(form: FormState, snapshot: string): void {
+  form.schema = JSON.parse(snapshot);
+  form.history!.current = snapshot;
+}
+
+/**
+ * Revert up to `steps` recorded changes.
+ * @returns The number of steps actually undone.
+ */
+export function undoChange(form: FormState, steps = 1): number {
+  const history = initHistory(form);
+  let count = 0;
+  while (count < steps && history.undo.length > 0) {
+    history.redo.push(history.current ?? serialize(form));
+    restore(form, history.undo.pop()!);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Re-apply up to `steps` previously undone changes.
+ * @returns The number of steps actually redone.
+ */
+export function redoChange(form: FormState, steps = 1): number {
+  const history = initHistory(form);
+  let count = 0;
+  while (count < steps && history.redo.length > 0) {
+    history.undo.push(history.current ?? serialize(form));
+    restore(form, history.redo.pop()!);
+    count++;
+  }
+  return count;
+}
+
+/** Number of available undo / redo steps. */
+export function getHistoryInfo(form: FormState): { undoSteps: number; redoSteps: number } {
+  return {
+    undoSteps: form.history?.undo.length ?? 0,
+    redoSteps: form.history?.redo.length ?? 0,
+  };
+}
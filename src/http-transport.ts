@@ -0,0 +1,250 @@
+/**
+ * Streamable HTTP transport — serves MCP over HTTP so several clients
+ * can share one server (e.g. when run as a sidecar).
+ *
+ * Endpoints:
+ *   POST/GET/DELETE /mcp   MCP Streamable HTTP (JSON responses + SSE streams)
+ *   GET /health            Liveness probe (never requires auth)
+ *
+ * Each client session gets its own `Server` + transport pair; all sessions
+ * operate on the same in-memory form store. Sessions that see no request
+ * for `sessionIdleMs` (and have no open request or SSE stream) are closed,
+ * so clients that disconnect without `DELETE` do not leak them. Request
+ * bodies above `maxBodyBytes` are rejected with 413.
+ */
+
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from './server';
+import { getAllForms } from './form-manager';
+import { DEFAULT_MAX_BODY_BYTES, DEFAULT_SESSION_IDLE_MS } from './constants';
+
+export interface HttpTransportOptions {
+  port: number;
+  /** Interface to bind to (default: 127.0.0.1). */
+  host?: string;
+  /** When set, `/mcp` requests must send `Authorization: Bearer <token>`. */
+  authToken?: string;
+  /** Idle time in ms after which a session is closed (default: 30 minutes). */
+  sessionIdleMs?: number;
+  /** Maximum request body size in bytes (default: 4 MiB). */
+  maxBodyBytes?: number;
+}
+
+export interface HttpServerHandle {
+  /** The actual port (useful when started with port 0). */
+  port: number;
+  /** Number of open MCP sessions. */
+  sessionCount(): number;
+  close(): Promise<void>;
+}
+
+export const MCP_PATH = '/mcp';
+export const HEALTH_PATH = '/health';
+
+const SESSION_HEADER = 'mcp-session-id';
+
+/** Longest interval between two sweeps for idle sessions. */
+const MAX_SWEEP_INTERVAL_MS = 60_000;
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests (including SSE streams) still open. */
+  openRequests: number;
+}
+
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJsonBody(req: IncomingMessage, limit: number): Promise<unknown> {
+  if (Number(req.headers['content-length'] ?? 0) > limit) throw new BodyTooLargeError(limit);
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > limit) throw new BodyTooLargeError(limit);
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf-8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+// ── Sessions ───────────────────────────────────────────────────────────────
+
+/** Open MCP sessions by ID; sessions idle for `idleMs` are closed. */
+class SessionRegistry {
+  private readonly sessions = new Map<string, Session>();
+  private readonly sweep: NodeJS.Timeout;
+
+  constructor(private readonly idleMs: number) {
+    this.sweep = setInterval(() => this.closeIdle(), Math.min(idleMs, MAX_SWEEP_INTERVAL_MS));
+    this.sweep.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get(sessionId: string): Session | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  add(sessionId: string, transport: StreamableHTTPServerTransport): void {
+    this.sessions.set(sessionId, { transport, lastActivity: Date.now(), openRequests: 0 });
+  }
+
+  delete(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /** Handle a request of a session, keeping the session alive while the request is open. */
+  async forward(session: Session, req: IncomingMessage, res: ServerResponse, body: unknown) {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  closeIdle(): void {
+    const now = Date.now();
+    for (const session of this.sessions.values()) {
+      if (session.openRequests > 0 || now - session.lastActivity < this.idleMs) continue;
+      void session.transport.close();
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweep);
+    await Promise.all([...this.sessions.values()].map((s) => s.transport.close()));
+    this.sessions.clear();
+  }
+}
+
+// ── Server ─────────────────────────────────────────────────────────────────
+
+/** Start the HTTP server and resolve once it is listening. */
+export async function startHttpServer(options: HttpTransportOptions): Promise<HttpServerHandle> {
+  const sessions = new SessionRegistry(options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS);
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  async function openSession(req: IncomingMessage, res: ServerResponse, body: unknown) {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.add(sessionId, transport);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) sessions.delete(transport.sessionId);
+    };
+    const server = createServer();
+    await server.connect(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize never registers the session; close the server
+      // so it does not keep listening for form changes
+      if (!transport.sessionId || !sessions.get(transport.sessionId)) await server.close();
+    }
+  }
+
+  async function handleMcp(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = req.method === 'POST' ? await readJsonBody(req, maxBodyBytes) : undefined;
+    const sessionId = req.headers[SESSION_HEADER];
+    const existing = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+
+    if (existing) {
+      await sessions.forward(existing, req, res, body);
+    } else if (!sessionId && req.method === 'POST' && isInitializeRequest(body)) {
+      await openSession(req, res, body);
+    } else if (sessionId) {
+      sendJsonRpcError(res, 404, 'Session not found');
+    } else {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+    }
+  }
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size, forms: getAllForms().size });
+      return;
+    }
+    if (path !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    if (options.authToken && !isAuthorized(req, options.authToken)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendJsonRpcError(res, 401, 'Unauthorized');
+      return;
+    }
+
+    try {
+      await handleMcp(req, res);
+    } catch (error) {
+      if (res.headersSent) return;
+      if (error instanceof BodyTooLargeError) {
+        sendJsonRpcError(res, 413, error.message);
+      } else if (error instanceof SyntaxError) {
+        sendJsonRpcError(res, 400, 'Parse error: invalid JSON');
+      } else {
+        sendJsonRpcError(res, 500, `Internal error: ${String(error)}`);
+      }
+    }
+  }
+
+  const httpServer = createHttpServer((req, res) => void handle(req, res));
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host ?? '127.0.0.1', () => resolve());
+  });
+
+  return {
+    port: (httpServer.address() as AddressInfo).port,
+    sessionCount: () => sessions.size,
+    async close() {
+      await sessions.closeAll();
+      await new Promise<void>((resolve) => {
+        httpServer.closeAllConnections();
+        httpServer.close(() => resolve());
+      });
+    },
+  };
+}
@@ -1,56 +1,72 @@
 /**
  * form-js-mcp server entry point.
  *
- * Thin shell that wires MCP SDK transport ↔ tool modules ↔ handlers.
- *
- * Tool modules are pluggable: each editor back-end (BPMN, DMN, Forms, …)
- * implements the ToolModule interface and registers its tools here.
- * Currently only the Form module is active.
+ * Thin shell that parses CLI options and connects the MCP server
+ * (see `server.ts`) to the selected transport.
  *
  * CLI usage:
  *   form-js-mcp [options]
  *
  * Options:
+ *   --transport <kind>    "stdio" (default) or "http" (Streamable HTTP)
+ *   --port <n>            HTTP port (default: 3000)
+ *   --host <addr>         HTTP bind address (default: 127.0.0.1)
+ *   --auth-token <token>  Require this bearer token for HTTP requests
  *   --persist-dir <dir>   Enable file-backed persistence in <dir>
+ *   --backup-count <n>    Backup revisions kept per persisted form (default: 5)
+ *   --history-depth <n>   Number of undo steps kept per form (default: 50)
+ *   --templates-dir <dir> Load user form templates from <dir>
+ *   --accessibility-hints Include accessibility findings in mutation hints
  *   --help                Show usage information
  */
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { resolve } from 'node:path';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  ListResourcesRequestSchema,
-  ListResourceTemplatesRequestSchema,
-  ReadResourceRequestSchema,
-  ListPromptsRequestSchema,
-  GetPromptRequestSchema,
-  McpError,
-  ErrorCode,
-} from '@modelcontextprotocol/sdk/types.js';
-import { type ToolModule } from './module';
-import { formModule } from './form-module';
-import { RESOURCE_TEMPLATES, listResources, readResource } from './resources';
-import { listPrompts, getPrompt } from './prompts';
-import { enablePersistence } from './persistence';
+import { createServer } from './server';
+import { startHttpServer } from './http-transport';
+import { enablePersistence, getRecoveryReport } from './persistence';
+import { setHistoryDepth } from './history';
+import { setTemplatesDir } from './templates';
+import { setAccessibilityHints } from './accessibility';
+import { DEFAULT_BACKUP_COUNT, DEFAULT_HISTORY_DEPTH, DEFAULT_HTTP_PORT } from './constants';
 
 // ── CLI argument parsing ───────────────────────────────────────────────────
 
 interface CliOptions {
+  transport: 'stdio' | 'http';
+  port: number;
+  host?: string;
+  authToken?: string;
   persistDir?: string;
+  backupCount?: number;
+  historyDepth?: number;
+  templatesDir?: string;
+  accessibilityHints?: boolean;
 }
 
 function printUsage(): void {
   console.error(`Usage: form-js-mcp [options]
 
 Options:
+  --transport <kind>    Transport to serve: "stdio" (default) or "http".
+  --port <n>            Port for the HTTP transport (default: ${DEFAULT_HTTP_PORT}).
+  --host <addr>         Bind address for the HTTP transport (default: 127.0.0.1).
+  --auth-token <token>  Require "Authorization: Bearer <token>" on HTTP requests.
+                        Can also be set via FORM_JS_MCP_AUTH_TOKEN.
   --persist-dir <dir>   Enable file-backed form persistence in <dir>.
                         Forms are saved as .form files and restored on startup.
+  --backup-count <n>    Backup revisions kept per persisted form (default: ${DEFAULT_BACKUP_COUNT}).
+                        Damaged .form files are restored from backups on startup.
+  --history-depth <n>   Number of undo steps kept per form (default: ${DEFAULT_HISTORY_DEPTH}).
+                        Use 0 to disable undo/redo history.
+  --templates-dir <dir> Load user form templates (.json templates, .form files) from <dir>.
+  --accessibility-hints Include accessibility (WCAG) findings in mutation response hints.
   --help                Show this help message and exit.
 
 Examples:
   form-js-mcp
   form-js-mcp --persist-dir ./forms
+  form-js-mcp --transport http --port 3000 --auth-token secret
 
 MCP configuration (.vscode/mcp.json):
   {
@@ -64,21 +80,75 @@ MCP configuration (.vscode/mcp.json):
 `);
 }
 
+/** Parse a non-negative integer flag value, exiting with an error if it is invalid. */
+function requireCount(args: string[], i: number, flag: string): number {
+  const value = Number(args[i]);
+  if (!Number.isInteger(value) || value < 0) {
+    console.error(`Error: ${flag} requires a non-negative integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+/** Read the value following a flag, exiting with an error if it is missing. */
+function requireValue(args: string[], i: number, message: string): string {
+  const value = args[i];
+  if (!value) {
+    console.error(`Error: ${message}`);
+    process.exit(1);
+  }
+  return value;
+}
+
 function parseArgs(argv: string[]): CliOptions {
   const args = argv.slice(2); // skip node + script
-  const options: CliOptions = {};
+  const options: CliOptions = {
+    transport: 'stdio',
+    port: DEFAULT_HTTP_PORT,
+    authToken: process.env.FORM_JS_MCP_AUTH_TOKEN || undefined,
+  };
 
   for (let i = 0; i < args.length; i++) {
     switch (args[i]) {
-      case '--persist-dir': {
-        const dir = args[++i];
-        if (!dir) {
-          console.error('Error: --persist-dir requires a directory path');
+      case '--transport': {
+        const kind = requireValue(args, ++i, '--transport requires "stdio" or "http"');
+        if (kind !== 'stdio' && kind !== 'http') {
+          console.error('Error: --transport must be "stdio" or "http"');
+          process.exit(1);
+        }
+        options.transport = kind;
+        break;
+      }
+      case '--port': {
+        const port = Number(args[++i]);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          console.error('Error: --port requires a port number (0-65535)');
           process.exit(1);
         }
-        options.persistDir = dir;
+        options.port = port;
         break;
       }
+      case '--host':
+        options.host = requireValue(args, ++i, '--host requires an address');
+        break;
+      case '--auth-token':
+        options.authToken = requireValue(args, ++i, '--auth-token requires a token');
+        break;
+      case '--persist-dir':
+        options.persistDir = requireValue(args, ++i, '--persist-dir requires a directory path');
+        break;
+      case '--backup-count':
+        options.backupCount = requireCount(args, ++i, '--backup-count');
+        break;
+      case '--history-depth':
+        options.historyDepth = requireCount(args, ++i, '--history-depth');
+        break;
+      case '--templates-dir':
+        options.templatesDir = requireValue(args, ++i, '--templates-dir requires a directory path');
+        break;
+      case '--accessibility-hints':
+        options.accessibilityHints = true;
+        break;
       case '--help':
       case '-h':
         printUsage();
@@ -94,72 +164,42 @@ function parseArgs(argv: string[]): CliOptions {
   return options;
 }
 
-// ── Registered tool modules ────────────────────────────────────────────────
-// Add new editor modules here when available.
-const modules: ToolModule[] = [formModule];
-
-const server = new Server(
-  { name: 'form-js-mcp', version: '1.0.0' },
-  { capabilities: { tools: {}, resources: {}, prompts: {} } }
-);
-
-// ── Tool handlers ──────────────────────────────────────────────────────────
-
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools: modules.flatMap((m) => m.toolDefinitions),
-}));
-
-server.setRequestHandler(CallToolRequestSchema, async (request: any): Promise<any> => {
-  const { name, arguments: args } = request.params;
+async function main() {
+  const options = parseArgs(process.argv);
 
-  for (const mod of modules) {
-    const result = mod.dispatch(name, args);
-    if (result) return result;
+  if (options.historyDepth !== undefined) {
+    setHistoryDepth(options.historyDepth);
   }
 
-  throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
-});
-
-// ── Resource handlers ──────────────────────────────────────────────────────
-
-server.setRequestHandler(ListResourcesRequestSchema, async () => ({
-  resources: listResources(),
-}));
-
-server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
-  resourceTemplates: [...RESOURCE_TEMPLATES],
-}));
-
-server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
-  const { uri } = request.params;
-  const content = readResource(uri);
-  return {
-    contents: [content],
-  };
-});
-
-// ── Prompt handlers ────────────────────────────────────────────────────────
-
-server.setRequestHandler(ListPromptsRequestSchema, async () => ({
-  prompts: [...listPrompts()],
-}));
-
-server.setRequestHandler(GetPromptRequestSchema, async (request: any): Promise<any> => {
-  const { name, arguments: args } = request.params;
-  return getPrompt(name, args ?? {});
-});
+  if (options.templatesDir) {
+    setTemplatesDir(resolve(options.templatesDir));
+  }
 
-async function main() {
-  const options = parseArgs(process.argv);
+  if (options.accessibilityHints) {
+    setAccessibilityHints(true);
+  }
 
   // Enable file-backed persistence if requested
   if (options.persistDir) {
-    const loaded = enablePersistence(options.persistDir);
+    const loaded = enablePersistence(options.persistDir, { backupCount: options.backupCount });
+    for (const repair of getRecoveryReport()) {
+      const source = repair.restoredFrom ? ` from ${repair.restoredFrom}` : '';
+      console.error(`Recovery: ${repair.file} ${repair.action}${source} (${repair.reason})`);
+    }
     console.error(`Persistence enabled in ${options.persistDir} (${loaded} form(s) loaded)`);
   }
 
+  if (options.transport === 'http') {
+    const http = await startHttpServer(options);
+    const auth = options.authToken ? ' (bearer auth required)' : '';
+    console.error(
+      `form-js-mcp server listening on http://${options.host ?? '127.0.0.1'}:${http.port}/mcp${auth}`
+    );
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error('form-js-mcp server running on stdio');
 }
 
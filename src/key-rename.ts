@@ -0,0 +1,195 @@
+/**
+ * Key rename refactoring.
+ *
+ * Renaming a field's `key` changes the variable its value is bound to, so
+ * every reference to the old variable has to follow: `=`-prefixed FEEL
+ * properties (`conditional.hide`, `valuesExpression`, expression fields,
+ * FEEL labels, …), `{{ … }}` placeholders of text / html templates and
+ * `valuesKey`. References are matched by the data path they resolve to
+ * (see `feel-references.ts`), so a root variable that shares its name with
+ * a dynamic list item field is left alone. The `path` of a group or dynamic
+ * list is renamed the same way.
+ */
+
+import { type FormComponent, type FormSchema } from './types';
+import { joinPath, resolveBindings } from './data-binding';
+import {
+  type NameReference,
+  type PropertyValue,
+  ReferenceResolver,
+  forEachPropertyValue,
+} from './feel-references';
+import { KEY_PATTERN } from './constants';
+
+export interface KeyRenameEdit {
+  componentId?: string;
+  /** Property path, e.g. `conditional.hide` or `values[0].label`. */
+  property: string;
+  before: string;
+  after: string;
+}
+
+export interface KeyRenameResult {
+  componentId: string;
+  oldKey: string;
+  newKey: string;
+  /** Full data paths before and after the rename (`items[].sku`). */
+  oldPath: string;
+  newPath: string;
+  /** Every edited location, starting with the renamed `key` or `path` itself. */
+  edits: KeyRenameEdit[];
+  /** Expressions mentioning the old key that could not be parsed (left as they are). */
+  skipped: { componentId?: string; property: string; reason: string }[];
+}
+
+/** Words FEEL reads as keywords; such key segments are written as `` `name` ``. */
+const FEEL_KEYWORDS = new Set([
+  ...['and', 'or', 'if', 'then', 'else', 'for', 'in', 'return', 'some', 'every'],
+  ...['satisfies', 'between', 'instance', 'of', 'function', 'null', 'true', 'false'],
+]);
+
+interface Replacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Location {
+  edit: KeyRenameEdit;
+  apply: () => void;
+}
+
+type Kind = 'key' | 'path';
+
+interface RenameOptions {
+  dryRun?: boolean;
+}
+
+interface Rename {
+  oldPath: string[];
+  /** Number of path segments the key itself spans (`a.b` → 2). */
+  keyLength: number;
+  newKey: string;
+}
+
+/** Replacement for the key segments of a reference that reads the old path. */
+function rewrite(reference: NameReference, rename: Rename): Replacement | undefined {
+  const { chain, path } = reference;
+  if (!rename.oldPath.every((name, i) => path[i] === name)) return undefined;
+  // Leading path segments that come from the scope rather than the chain
+  const offset = path.length - chain.length;
+  const first = rename.oldPath.length - rename.keyLength - offset;
+  if (first < 0) return undefined;
+  const segments = rename.newKey.split('.');
+  const text = reference.plain
+    ? rename.newKey
+    : segments.map((name) => (FEEL_KEYWORDS.has(name) ? `\`${name}\`` : name)).join('.');
+  return { start: chain[first].start, end: chain[first + rename.keyLength - 1].end, text };
+}
+
+function applyReplacements(value: string, replacements: Replacement[]): string {
+  return [...replacements]
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, r) => text.slice(0, r.start) + r.text + text.slice(r.end), value);
+}
+
+function checkNewKey(schema: FormSchema, component: FormComponent, kind: Kind, newKey: string) {
+  const bindings = resolveBindings(schema.components);
+  const own = bindings.find((b) => b.componentId === component.id && b.kind === kind);
+  if (!component.id || !own) throw new Error(`Component "${component.id}" has no ${kind}`);
+  if (!KEY_PATTERN.test(newKey)) {
+    throw new Error(
+      `Invalid ${kind} "${newKey}": use letters, digits and "_", with "." separating nested data`
+    );
+  }
+  if (newKey === own.name) {
+    throw new Error(`Component "${component.id}" already has ${kind} "${newKey}"`);
+  }
+  const newPath = joinPath(own.scope, newKey);
+  const clash = bindings.find((b) => b.path === newPath);
+  if (clash) {
+    throw new Error(`${newPath} is already bound by ${clash.componentId ?? clash.type}`);
+  }
+  return { componentId: component.id, own, newPath };
+}
+
+/**
+ * Rename the key of a component and rewrite every reference to it. With
+ * `dryRun`, the edits are only reported.
+ */
+export function renameKey(
+  schema: FormSchema,
+  component: FormComponent,
+  newKey: string,
+  options: RenameOptions = {}
+): KeyRenameResult {
+  return renameBinding(schema, component, 'key', newKey, options);
+}
+
+/**
+ * Rename the `path` of a group or dynamic list and rewrite every reference
+ * to data below it, like `renameKey`.
+ */
+export function renamePath(
+  schema: FormSchema,
+  component: FormComponent,
+  newPath: string,
+  options: RenameOptions = {}
+): KeyRenameResult {
+  return renameBinding(schema, component, 'path', newPath, options);
+}
+
+function renameBinding(
+  schema: FormSchema,
+  component: FormComponent,
+  kind: Kind,
+  newKey: string,
+  options: RenameOptions
+): KeyRenameResult {
+  const { componentId, own, newPath } = checkNewKey(schema, component, kind, newKey);
+  const rename: Rename = {
+    oldPath: own.path.split('.'),
+    keyLength: own.name.split('.').length,
+    newKey,
+  };
+  const resolver = new ReferenceResolver(schema.components);
+  const oldKeyStart = own.name.split('.')[0];
+  const skipped: KeyRenameResult['skipped'] = [];
+  const locations: Location[] = [
+    {
+      edit: { componentId, property: kind, before: own.name, after: newKey },
+      apply: () => (component[kind] = newKey),
+    },
+  ];
+
+  forEachPropertyValue(schema.components, (entry: PropertyValue) => {
+    const { component: owner, property, value } = entry;
+    try {
+      const replacements = resolver
+        .referencesIn(entry)
+        .map((reference) => rewrite(reference, rename))
+        .filter((replacement): replacement is Replacement => replacement !== undefined);
+      if (replacements.length === 0) return;
+      const after = applyReplacements(value, replacements);
+      locations.push({
+        edit: { componentId: owner.id, property, before: value, after },
+        apply: () => entry.set(after),
+      });
+    } catch (error) {
+      if (!value.includes(oldKeyStart)) return;
+      const reason = error instanceof Error ? error.message : String(error);
+      skipped.push({ componentId: owner.id, property, reason });
+    }
+  });
+
+  if (!options.dryRun) for (const location of locations) location.apply();
+  return {
+    componentId,
+    oldKey: own.name,
+    newKey,
+    oldPath: own.path,
+    newPath,
+    edits: locations.map((location) => location.edit),
+    skipped,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Schema version migrations.
+ *
+ * A registry of versioned migrations that rewrite property shapes which
+ * changed between form-js schema versions. `migrateSchema` upgrades
+ * imported schemas to a newer `schemaVersion` — the current one, or the
+ * newest one the target execution platform renders (see
+ * `maxSchemaVersionFor` in `platform-compat.ts`). Schemas are never
+ * down-converted: a form that uses something its target cannot render is
+ * reported by the compatibility linter instead.
+ *
+ * form-js has only added field types and properties so far (schema
+ * versions 4–19 all read the same property shapes), so the registry is
+ * empty and an upgrade only raises `schemaVersion`. A migration's `up`
+ * converts a component from `version - 1` to `version` in place and
+ * reports what it changed through the `record` callback.
+ */
+
+import { type FormSchema, type FormComponent } from './types';
+import { DEFAULT_SCHEMA_VERSION } from './constants';
+
+export interface MigrationChange {
+  migration: string;
+  componentId?: string;
+  message: string;
+}
+
+type Recorder = (comp: FormComponent, message: string) => void;
+
+export interface SchemaMigration {
+  /** Schema version this migration upgrades to. */
+  readonly version: number;
+  readonly name: string;
+  readonly description: string;
+  up(comp: FormComponent, record: Recorder): void;
+}
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  /** Names of the migrations that changed the schema, in order. */
+  applied: string[];
+  changes: MigrationChange[];
+}
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+export const SCHEMA_MIGRATIONS: readonly SchemaMigration[] = [];
+
+// ── Engine ─────────────────────────────────────────────────────────────────
+
+function forEachComponent(components: FormComponent[], fn: (comp: FormComponent) => void): void {
+  for (const comp of components) {
+    fn(comp);
+    if (Array.isArray(comp.components)) forEachComponent(comp.components, fn);
+  }
+}
+
+/**
+ * Upgrade `schema` in place to `targetVersion` (default: the current
+ * schema version), running the migrations above the schema's version in
+ * ascending order. Schemas at or above the target keep their version;
+ * schemas without a `schemaVersion` are assumed to be current.
+ */
+export function migrateSchema(
+  schema: FormSchema,
+  targetVersion: number = DEFAULT_SCHEMA_VERSION,
+  migrations: readonly SchemaMigration[] = SCHEMA_MIGRATIONS
+): MigrationReport {
+  const fromVersion = schema.schemaVersion ?? DEFAULT_SCHEMA_VERSION;
+  const toVersion = Math.max(fromVersion, targetVersion);
+  const report: MigrationReport = { fromVersion, toVersion, applied: [], changes: [] };
+
+  const steps = migrations.filter((m) => m.version > fromVersion && m.version <= toVersion);
+  for (const migration of steps) {
+    const before = report.changes.length;
+    const record: Recorder = (comp, message) => {
+      report.changes.push({ migration: migration.name, componentId: comp.id, message });
+    };
+    forEachComponent(schema.components, (comp) => migration.up(comp, record));
+    if (report.changes.length > before) report.applied.push(migration.name);
+  }
+
+  schema.schemaVersion = toVersion;
+  return report;
+}
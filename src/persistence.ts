@@ -2,30 +2,72 @@
  * Optional file-backed persistence for form schemas.
  *
  * When enabled via `enablePersistence(dir)`, forms are saved as `.form`
- * JSON files alongside a `meta.json` manifest. On startup, existing
- * `.form` files are loaded back into memory.
+ * JSON files alongside a `meta.json` manifest. On startup, damaged files
+ * are repaired from backups (see `form-backups.ts`) and existing `.form`
+ * files are loaded back into memory.
+ *
+ * All files are written atomically (temp file, fsync, rename).
+ *
+ * The directory is watched (see `form-watcher.ts`): `.form` files edited
+ * by other tools are reloaded through `storeForm`. Each form remembers the
+ * version and file hash of its last sync with disk; an external edit that
+ * meets in-memory changes not yet on disk is a conflict — the in-memory
+ * form is kept, the external edit is saved as a backup revision and the
+ * conflict is reported via `notifyFormConflict`.
  *
  * File layout inside the persistence directory:
  *   <dir>/
  *     meta.json            — { forms: { [formId]: { name?, file } } }
  *     <formId>.form        — JSON schema
+ *     .backups/<formId>/   — newest N revisions (`000001.form`, …)
  */
 
-import {
-  existsSync,
-  mkdirSync,
-  readdirSync,
-  readFileSync,
-  unlinkSync,
-  writeFileSync,
-} from 'node:fs';
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync } from 'node:fs';
+import { createHash } from 'node:crypto';
 import { join, resolve } from 'node:path';
-import { type FormState, type FormSchema } from './types';
-import { storeForm, setFormChangeListener } from './form-manager';
+import { type FormState } from './types';
+import {
+  getForm,
+  storeForm,
+  notifyFormConflict,
+  addFormChangeListener,
+  removeFormChangeListener,
+  type FormChangeEvent,
+} from './form-manager';
+import { recordHistory } from './history';
+import {
+  writeFileAtomic,
+  writeBackup,
+  deleteBackups,
+  recoverForms,
+  tryReadFormFile,
+  type RecoveryAction,
+} from './form-backups';
+import { watchFormFiles, type FormWatcher } from './form-watcher';
+import { DEFAULT_BACKUP_COUNT } from './constants';
 
 // ── State ──────────────────────────────────────────────────────────────────
 
 let persistDir: string | undefined;
+let backupCount = DEFAULT_BACKUP_COUNT;
+let lastRecovery: RecoveryAction[] = [];
+let watcher: FormWatcher | undefined;
+
+/** Version and file content hash of each form at its last sync with disk. */
+const synced = new Map<string, { version: number; hash: string }>();
+
+/** Form currently being reloaded from disk; its change event is not written back. */
+let reloadingFormId: string | undefined;
+
+export interface PersistenceOptions {
+  /** Backup revisions kept per form (default: 5). 0 disables backups. */
+  backupCount?: number;
+  /** Reload `.form` files edited by other tools (default: true). */
+  watch?: boolean;
+}
+
+/** Outcome of `reloadFormFromDisk`. */
+export type ReloadResult = 'loaded' | 'reloaded' | 'unchanged' | 'invalid';
 
 // ── Public API ─────────────────────────────────────────────────────────────
 
@@ -39,55 +81,84 @@ export function getPersistDir(): string | undefined {
   return persistDir;
 }
 
+/** Files repaired or removed by the recovery step of the last `enablePersistence`. */
+export function getRecoveryReport(): RecoveryAction[] {
+  return lastRecovery;
+}
+
 /**
  * Enable file-backed persistence in `dir`.
  *
  * - Creates `dir` if it does not exist.
+ * - Repairs interrupted writes and damaged files (see `getRecoveryReport`).
  * - Loads any existing `.form` files into the in-memory store.
  * - Registers a form-manager change listener for auto-save.
+ * - Watches `dir` for external edits unless `options.watch` is false.
  *
  * @returns The number of forms loaded from disk.
  */
-export function enablePersistence(dir: string): number {
+export function enablePersistence(dir: string, options: PersistenceOptions = {}): number {
   const absDir = resolve(dir);
   mkdirSync(absDir, { recursive: true });
   persistDir = absDir;
+  backupCount = options.backupCount ?? DEFAULT_BACKUP_COUNT;
+  lastRecovery = recover(absDir);
 
   // Register the auto-persist hook
-  setFormChangeListener(onFormChange);
+  addFormChangeListener(onFormChange);
 
   // Load existing forms
-  return loadForms(absDir);
+  const loaded = loadForms(absDir);
+
+  if (options.watch !== false) {
+    watcher = watchFormFiles(absDir, (formId) => {
+      try {
+        reloadFormFromDisk(formId);
+      } catch (error) {
+        console.error(`Failed to reload ${formId}.form:`, error);
+      }
+    });
+  }
+  return loaded;
 }
 
-/** Disable file-backed persistence and remove the change listener. */
+/** Disable file-backed persistence, stop watching and remove the change listener. */
 export function disablePersistence(): void {
   persistDir = undefined;
-  setFormChangeListener(undefined);
+  watcher?.close();
+  watcher = undefined;
+  synced.clear();
+  removeFormChangeListener(onFormChange);
 }
 
 // ── Persist a single form ──────────────────────────────────────────────────
 
 /**
- * Write a form's schema to disk as `<formId>.form`.
- * After writing, re-reads and verifies the JSON is parseable.
+ * Write a form's schema to disk as `<formId>.form` (atomically) and keep
+ * the revision as a backup. After writing, re-reads and verifies the JSON
+ * is parseable.
  */
 export function persistForm(formId: string, form: FormState): void {
   if (!persistDir) return;
 
   const filePath = formFilePath(persistDir, formId);
   const json = JSON.stringify(form.schema, null, 2);
-  writeFileSync(filePath, json, 'utf-8');
+  const external = readExternalEdit(persistDir, formId);
+  if (external !== undefined) preserveExternalEdit(persistDir, formId, form, external);
+  writeFileAtomic(filePath, json);
 
   // Post-write validation: re-read and verify JSON is parseable
   const raw = readFileSync(filePath, 'utf-8');
   JSON.parse(raw); // throws on corruption
 
+  if (backupCount > 0) writeBackup(persistDir, formId, json, backupCount);
+  synced.set(formId, { version: form.version ?? 0, hash: hashContent(json) });
+
   // Update meta.json
   writeMeta(persistDir, formId, form.name);
 }
 
-/** Remove a persisted form file and its meta entry. */
+/** Remove a persisted form file, its backups and its meta entry. */
 export function deletePersistedForm(formId: string): void {
   if (!persistDir) return;
 
@@ -95,9 +166,78 @@ export function deletePersistedForm(formId: string): void {
   if (existsSync(filePath)) {
     unlinkSync(filePath);
   }
+  deleteBackups(persistDir, formId);
+  synced.delete(formId);
   removeMeta(persistDir, formId);
 }
 
+// ── External edits ─────────────────────────────────────────────────────────
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/** File content when it changed since the form's last sync, else undefined. */
+function readExternalEdit(dir: string, formId: string): string | undefined {
+  const state = synced.get(formId);
+  const filePath = formFilePath(dir, formId);
+  if (!state || !existsSync(filePath)) return undefined;
+  const raw = readFileSync(filePath, 'utf-8');
+  return hashContent(raw) === state.hash ? undefined : raw;
+}
+
+function preserveExternalEdit(dir: string, formId: string, form: FormState, raw: string): void {
+  const preservedAs = writeBackup(dir, formId, raw, Math.max(backupCount, 1));
+  notifyFormConflict(formId, {
+    detectedAt: new Date().toISOString(),
+    version: form.version ?? 0,
+    syncedVersion: synced.get(formId)?.version ?? 0,
+    preservedAs,
+  });
+}
+
+/**
+ * Load `<formId>.form` into the store after it changed on disk (called by
+ * the directory watcher). Files that are unreadable — e.g. half-written by
+ * an editor — are left for the next change. Reloading a known form keeps
+ * its undo history and records the external edit as one undoable step.
+ *
+ * In-memory changes are written synchronously by the change listener, so
+ * a reload never meets unsaved changes; edits that race a write are
+ * handled as conflicts by `persistForm`.
+ */
+export function reloadFormFromDisk(formId: string): ReloadResult {
+  if (!persistDir) return 'unchanged';
+  const filePath = formFilePath(persistDir, formId);
+  const schema = tryReadFormFile(filePath);
+  if (!schema) return 'invalid';
+
+  const raw = readFileSync(filePath, 'utf-8');
+  if (synced.get(formId)?.hash === hashContent(raw)) return 'unchanged';
+
+  const current = getForm(formId);
+  const version = current ? (current.version ?? 0) + 1 : 0;
+  const name = current ? current.name : (schema.id ?? formId);
+  const next: FormState = {
+    schema,
+    name,
+    version,
+    ...(current?.hintLevel ? { hintLevel: current.hintLevel } : {}),
+    ...(current?.history ? { history: current.history } : {}),
+  };
+  if (current) recordHistory(next);
+  reloadingFormId = formId;
+  try {
+    storeForm(formId, next);
+  } finally {
+    reloadingFormId = undefined;
+  }
+  if (backupCount > 0) writeBackup(persistDir, formId, raw, backupCount);
+  synced.set(formId, { version, hash: hashContent(raw) });
+  writeMeta(persistDir, formId, name);
+  return current ? 'reloaded' : 'loaded';
+}
+
 // ── Load forms from disk ───────────────────────────────────────────────────
 
 /**
@@ -143,15 +283,45 @@ export function loadForms(dir: string): number {
   return loaded;
 }
 
-// ── Change listener (auto-save hook) ───────────────────────────────────────
+// ── Startup recovery ───────────────────────────────────────────────────────
 
-function onFormChange(event: 'store' | 'delete', formId: string, form?: FormState): void {
-  if (!persistDir) return;
+/**
+ * Restore damaged form files from backups, then rebuild `meta.json` from
+ * the form files when it is unreadable (forms would otherwise be dropped
+ * from the manifest on the next write).
+ */
+function recover(dir: string): RecoveryAction[] {
+  const meta = readMeta(dir);
+  const actions = recoverForms(dir, meta ? Object.keys(meta.forms ?? {}) : []);
+  if (!meta && existsSync(metaPath(dir))) {
+    const forms: MetaJson['forms'] = {};
+    for (const file of readdirSync(dir).filter((f) => f.endsWith('.form'))) {
+      const schema = tryReadFormFile(join(dir, file));
+      const formId = file.replace(/\.form$/, '');
+      if (schema) forms[formId] = { name: schema.id ?? formId, file };
+    }
+    writeFileAtomic(metaPath(dir), JSON.stringify({ forms }, null, 2));
+    actions.push({ file: 'meta.json', action: 'rebuilt', reason: 'Manifest is unreadable' });
+  }
+  return actions;
+}
 
-  if (event === 'store' && form) {
-    persistForm(formId, form);
-  } else if (event === 'delete') {
-    deletePersistedForm(formId);
+// ── Change listener (auto-save hook) ───────────────────────────────────────
+
+function onFormChange(event: FormChangeEvent): void {
+  if (!persistDir || event.formId === reloadingFormId) return;
+
+  switch (event.type) {
+    case 'created':
+    case 'mutated':
+      persistForm(event.formId, event.form);
+      break;
+    case 'renamed':
+      writeMeta(persistDir, event.formId, event.form.name);
+      break;
+    case 'deleted':
+      deletePersistedForm(event.formId);
+      break;
   }
 }
 
@@ -178,14 +348,14 @@ function readMeta(dir: string): MetaJson | undefined {
 function writeMeta(dir: string, formId: string, name?: string): void {
   const meta = readMeta(dir) ?? { forms: {} };
   meta.forms[formId] = { name, file: `${formId}.form` };
-  writeFileSync(metaPath(dir), JSON.stringify(meta, null, 2), 'utf-8');
+  writeFileAtomic(metaPath(dir), JSON.stringify(meta, null, 2));
 }
 
 function removeMeta(dir: string, formId: string): void {
   const meta = readMeta(dir);
   if (!meta) return;
   delete meta.forms[formId];
-  writeFileSync(metaPath(dir), JSON.stringify(meta, null, 2), 'utf-8');
+  writeFileAtomic(metaPath(dir), JSON.stringify(meta, null, 2));
 }
 
 // ── File helpers ───────────────────────────────────────────────────────────
@@ -193,18 +363,3 @@ function removeMeta(dir: string, formId: string): void {
 function formFilePath(dir: string, formId: string): string {
   return join(dir, `${formId}.form`);
 }
-
-/** Attempt to read and parse a .form file. Returns undefined on failure. */
-function tryReadFormFile(filePath: string): FormSchema | undefined {
-  try {
-    const raw = readFileSync(filePath, 'utf-8');
-    const schema = JSON.parse(raw);
-    if (!schema || typeof schema !== 'object' || !Array.isArray(schema.components)) {
-      return undefined;
-    }
-    schema.type = schema.type ?? 'default';
-    return schema as FormSchema;
-  } catch {
-    return undefined;
-  }
-}
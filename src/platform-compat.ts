@@ -0,0 +1,171 @@
+/**
+ * Execution-platform compatibility linter.
+ *
+ * Maps field types and properties to the first Camunda 8 / Camunda 7
+ * release that can render them, and reports components a form's target
+ * platform (`executionPlatform` + `executionPlatformVersion`) cannot
+ * render. Forms without a target platform are not checked.
+ *
+ * `PLATFORM_RELEASES` lists which Camunda 8 and Camunda 7 releases ship
+ * the same form-js and the schema version it writes; the rule table pairs
+ * releases the same way, and schema migrations use it to pick the schema
+ * version for a target platform.
+ */
+
+import { type FormSchema, type FormComponent } from './types';
+import { type ValidationIssue } from './validator';
+import { DEFAULT_SCHEMA_VERSION } from './constants';
+
+export interface CompatibilityRule {
+  /** Field type the rule applies to. */
+  type?: string;
+  /** Property path whose presence requires the release (e.g. `valuesExpression`). */
+  property?: string;
+  /** First supporting Camunda 8 release; `null` when unsupported. */
+  camunda8: string | null;
+  /** First supporting Camunda 7 release; `null` when unsupported. */
+  camunda7: string | null;
+}
+
+const C8 = 'Camunda Cloud';
+const C7 = 'Camunda Platform';
+
+export interface PlatformRelease {
+  /** Schema version written by the form-js these releases ship. */
+  schemaVersion: number;
+  camunda8: string;
+  /** Camunda 7 release with the same form-js (`null` when there is none). */
+  camunda7: string | null;
+}
+
+/** Camunda releases by the form-js schema version they render, oldest first. */
+export const PLATFORM_RELEASES: readonly PlatformRelease[] = [
+  { schemaVersion: 4, camunda8: '8.0', camunda7: null },
+  { schemaVersion: 5, camunda8: '8.1', camunda7: null },
+  { schemaVersion: 8, camunda8: '8.2', camunda7: '7.19' },
+  { schemaVersion: 11, camunda8: '8.3', camunda7: '7.20' },
+  { schemaVersion: 14, camunda8: '8.4', camunda7: '7.21' },
+  { schemaVersion: 16, camunda8: '8.5', camunda7: '7.22' },
+  { schemaVersion: 17, camunda8: '8.6', camunda7: '7.23' },
+  { schemaVersion: 18, camunda8: '8.7', camunda7: null },
+  { schemaVersion: 19, camunda8: '8.8', camunda7: null },
+];
+
+export const COMPATIBILITY_RULES: readonly CompatibilityRule[] = [
+  // Field types
+  { type: 'group', camunda8: '8.3', camunda7: '7.20' },
+  { type: 'separator', camunda8: '8.4', camunda7: '7.21' },
+  { type: 'spacer', camunda8: '8.4', camunda7: '7.21' },
+  { type: 'dynamiclist', camunda8: '8.5', camunda7: '7.22' },
+  { type: 'table', camunda8: '8.5', camunda7: '7.22' },
+  { type: 'iframe', camunda8: '8.5', camunda7: '7.22' },
+  { type: 'expression', camunda8: '8.5', camunda7: '7.22' },
+  { type: 'html', camunda8: '8.6', camunda7: '7.23' },
+  { type: 'filepicker', camunda8: '8.6', camunda7: null },
+  { type: 'documentPreview', camunda8: '8.7', camunda7: null },
+
+  // Properties
+  { property: 'conditional.hide', camunda8: '8.1', camunda7: '7.19' },
+  { property: 'layout.columns', camunda8: '8.2', camunda7: '7.19' },
+  { property: 'valuesExpression', camunda8: '8.4', camunda7: '7.21' },
+  { property: 'path', camunda8: '8.4', camunda7: '7.21' },
+  { property: 'readonly', camunda8: '8.2', camunda7: '7.19' },
+];
+
+// ── Releases ───────────────────────────────────────────────────────────────
+
+/** Compare dotted version strings numerically (`8.10` > `8.9`). */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split('.').map((n) => Number.parseInt(n, 10) || 0);
+  const pb = b.split('.').map((n) => Number.parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Newest schema version supported by an execution platform release, or
+ * `undefined` when the platform or version is unknown. Releases newer than
+ * the table get `DEFAULT_SCHEMA_VERSION`; releases older than the table
+ * get its oldest schema version.
+ */
+export function maxSchemaVersionFor(
+  platform: string | undefined,
+  platformVersion: string | undefined
+): number | undefined {
+  if ((platform !== C8 && platform !== C7) || !platformVersion) return undefined;
+  const releases = PLATFORM_RELEASES.flatMap(({ schemaVersion, camunda8, camunda7 }) => {
+    const release = platform === C8 ? camunda8 : camunda7;
+    return release ? [{ release, schemaVersion }] : [];
+  });
+
+  const minor = platformVersion.split('.').slice(0, 2).join('.');
+  if (compareVersions(minor, releases.at(-1)!.release) > 0) return DEFAULT_SCHEMA_VERSION;
+  let result = releases[0].schemaVersion;
+  for (const { release, schemaVersion } of releases) {
+    if (compareVersions(minor, release) >= 0) result = schemaVersion;
+  }
+  return result;
+}
+
+// ── Rules ──────────────────────────────────────────────────────────────────
+
+function readProperty(comp: FormComponent, path: string): unknown {
+  return path.split('.').reduce<any>((obj, part) => obj?.[part], comp);
+}
+
+function platformLabel(platform: string): string {
+  return platform === C8 ? 'Camunda 8' : 'Camunda 7';
+}
+
+function ruleApplies(rule: CompatibilityRule, comp: FormComponent): boolean {
+  if (rule.type) return comp.type === rule.type;
+  return rule.property !== undefined && readProperty(comp, rule.property) !== undefined;
+}
+
+function checkComponent(comp: FormComponent, platform: string, version: string): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const target = `${platform} ${version}`;
+  const where = comp.id ?? comp.key ?? comp.type;
+
+  for (const rule of COMPATIBILITY_RULES) {
+    if (!ruleApplies(rule, comp)) continue;
+    const required = platform === C8 ? rule.camunda8 : rule.camunda7;
+    if (required && compareVersions(version, required) >= 0) continue;
+
+    const feature = rule.type ? `"${rule.type}" field` : `"${rule.property}" property`;
+    const subject = rule.type ? 'component' : 'property';
+    issues.push({
+      severity: 'warning',
+      componentId: comp.id,
+      property: rule.property,
+      message: required
+        ? `${feature} on ${where} requires Camunda ${required} or later (form targets ${target})`
+        : `${feature} on ${where} is not supported on ${platformLabel(platform)} (form targets ${target})`,
+      suggestion: required
+        ? `Raise executionPlatformVersion to ${required}.0 or remove the ${subject}`
+        : `Remove the ${subject} or target Camunda 8`,
+    });
+  }
+  return issues;
+}
+
+function walk(components: FormComponent[], platform: string, version: string): ValidationIssue[] {
+  return components.flatMap((comp) => [
+    ...checkComponent(comp, platform, version),
+    ...(comp.components ? walk(comp.components, platform, version) : []),
+  ]);
+}
+
+/**
+ * Report components and properties the schema's target platform cannot
+ * render. Returns no issues when the platform or version is not set.
+ */
+export function checkPlatformCompatibility(schema: FormSchema): ValidationIssue[] {
+  const platform = schema.executionPlatform;
+  const version = schema.executionPlatformVersion;
+  if (!version || (platform !== C8 && platform !== C7)) return [];
+  return walk(schema.components, platform, version);
+}
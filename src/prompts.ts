@@ -101,7 +101,9 @@ function handleCreateApprovalForm(args: Record<string, string>): PromptResult {
           `\`add_form_component({ type: "textarea", key: "rejectionReason", label: "Rejection Reason", properties: { conditional: { hide: "=${approvalField} != \\"reject\\"" }, validate: { required: true } } })\`\n\n` +
           '**Step 5: Validate and export**\n' +
           `\`inspect_form({ include: ["validation"] })\` → \`export_form_to_file({ filePath: "./approval-form.form" })\`\n\n` +
-          `The rejection reason field will only appear when "${approvalField}" is set to "reject".`
+          `The rejection reason field will only appear when "${approvalField}" is set to "reject".\n\n` +
+          '**Shortcut:** the built-in "approval" template creates the same form in one call:\n' +
+          `\`create_form({ name: "${formName}", template: "approval", templateParams: { approvalField: "${approvalField}" } })\``
       ),
     ],
   };
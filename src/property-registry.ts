@@ -0,0 +1,284 @@
+/**
+ * Per-type component property registry.
+ *
+ * Declares which properties each field type supports and the JSON type
+ * their values must have. `set_form_component_properties` rejects
+ * mistyped values and warns about unknown properties, the validator
+ * reports both, and type changes keep exactly the properties the new type
+ * supports.
+ */
+
+import { type FormComponent } from './types';
+import { type FormFieldType } from './constants';
+import { type ValidationIssue } from './validator';
+
+export type PropertyValueType = 'string' | 'boolean' | 'number' | 'integer' | 'object' | 'array';
+
+export interface PropertySpec {
+  /** Accepted value type(s); omitted for properties that take any value. */
+  type?: PropertyValueType | readonly PropertyValueType[];
+  /** Allowed values of a string property. */
+  enum?: readonly string[];
+  /** A `=`-prefixed FEEL expression is accepted in place of the value. */
+  feel?: boolean;
+  /** Known properties of an object value (checked one level down). */
+  properties?: Record<string, PropertySpec>;
+}
+
+type PropertyTable = Record<string, PropertySpec>;
+
+const STRING: PropertySpec = { type: 'string' };
+const FEEL_STRING: PropertySpec = { type: 'string', feel: true };
+const BOOLEAN: PropertySpec = { type: 'boolean' };
+const FEEL_BOOLEAN: PropertySpec = { type: 'boolean', feel: true };
+const INTEGER: PropertySpec = { type: 'integer' };
+const FEEL_INTEGER: PropertySpec = { type: 'integer', feel: true };
+const FEEL_NUMBER: PropertySpec = { type: 'number', feel: true };
+const ARRAY: PropertySpec = { type: 'array' };
+
+// ── Property groups ────────────────────────────────────────────────────────
+
+const COMMON: PropertyTable = {
+  id: STRING,
+  type: STRING,
+  label: FEEL_STRING,
+  description: FEEL_STRING,
+  conditional: { type: 'object', properties: { hide: STRING } },
+  layout: { type: 'object', properties: { row: STRING, columns: INTEGER } },
+  properties: { type: 'object' },
+};
+
+/** Rules accepted in `validate`; the limits and `required` may be FEEL expressions. */
+export const VALIDATE_PROPERTIES: PropertyTable = {
+  required: FEEL_BOOLEAN,
+  minLength: FEEL_INTEGER,
+  maxLength: FEEL_INTEGER,
+  min: FEEL_NUMBER,
+  max: FEEL_NUMBER,
+  pattern: STRING,
+  patternErrorMessage: STRING,
+  validationType: { type: 'string', enum: ['email', 'phone'] },
+  validationError: STRING,
+};
+
+const INPUT: PropertyTable = {
+  ...COMMON,
+  key: STRING,
+  defaultValue: {},
+  disabled: FEEL_BOOLEAN,
+  readonly: FEEL_BOOLEAN,
+  validate: { type: 'object', properties: VALIDATE_PROPERTIES },
+};
+
+const OPTIONS: PropertyTable = {
+  ...INPUT,
+  values: ARRAY,
+  valuesKey: STRING,
+  valuesExpression: STRING,
+};
+
+const APPEARANCE: PropertyTable = {
+  appearance: {
+    type: 'object',
+    properties: { prefixAdorner: FEEL_STRING, suffixAdorner: FEEL_STRING },
+  },
+};
+
+const CONTAINER: PropertyTable = { ...COMMON, path: STRING, components: ARRAY };
+
+// ── Registry ───────────────────────────────────────────────────────────────
+
+export const PROPERTY_REGISTRY: Record<FormFieldType, PropertyTable> = {
+  textfield: { ...INPUT, ...APPEARANCE },
+  textarea: INPUT,
+  number: {
+    ...INPUT,
+    ...APPEARANCE,
+    decimalDigits: INTEGER,
+    increment: { type: ['number', 'string'] },
+    serializeToString: BOOLEAN,
+  },
+  datetime: {
+    ...INPUT,
+    subtype: { type: 'string', enum: ['date', 'time', 'datetime'] },
+    dateLabel: FEEL_STRING,
+    timeLabel: FEEL_STRING,
+    use24h: BOOLEAN,
+    timeInterval: INTEGER,
+    timeSerializingFormat: {
+      type: 'string',
+      enum: ['utc_offset', 'utc_normalized', 'no_timezone'],
+    },
+    disallowPassedDates: BOOLEAN,
+  },
+  expression: {
+    ...COMMON,
+    key: STRING,
+    expression: STRING,
+    computeOn: { type: 'string', enum: ['change', 'presubmit'] },
+  },
+  filepicker: { ...INPUT, accept: FEEL_STRING, multiple: FEEL_BOOLEAN },
+  checkbox: INPUT,
+  checklist: OPTIONS,
+  radio: OPTIONS,
+  select: { ...OPTIONS, searchable: BOOLEAN },
+  taglist: OPTIONS,
+  text: { ...COMMON, text: FEEL_STRING },
+  html: { ...COMMON, content: FEEL_STRING },
+  image: { ...COMMON, source: FEEL_STRING, alt: FEEL_STRING },
+  table: {
+    ...COMMON,
+    columns: ARRAY,
+    columnsExpression: STRING,
+    dataSource: STRING,
+    rowCount: INTEGER,
+  },
+  documentPreview: { ...COMMON, dataSource: STRING, maxHeight: INTEGER, title: FEEL_STRING },
+  spacer: { ...COMMON, height: INTEGER },
+  separator: COMMON,
+  group: { ...CONTAINER, showOutline: BOOLEAN },
+  dynamiclist: {
+    ...CONTAINER,
+    showOutline: BOOLEAN,
+    isRepeating: BOOLEAN,
+    defaultRepetitions: INTEGER,
+    allowAddRemove: BOOLEAN,
+    disableCollapse: BOOLEAN,
+    nonCollapsedItems: INTEGER,
+  },
+  iframe: {
+    ...COMMON,
+    url: FEEL_STRING,
+    title: FEEL_STRING,
+    height: INTEGER,
+    security: { type: 'object' },
+  },
+  button: { ...COMMON, key: STRING, action: { type: 'string', enum: ['submit', 'reset'] } },
+};
+
+/** Properties of a field type, or undefined for unknown types. */
+export function propertiesOf(type: string): PropertyTable | undefined {
+  return (PROPERTY_REGISTRY as Record<string, PropertyTable>)[type];
+}
+
+/** Check whether a field type supports a (top-level) property. */
+export function supportsProperty(type: string, property: string): boolean {
+  return propertiesOf(type)?.[property] !== undefined;
+}
+
+// ── Value checks ───────────────────────────────────────────────────────────
+
+function matchesType(value: unknown, type: PropertyValueType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeTypes(types: readonly PropertyValueType[]): string {
+  return types
+    .map((type) => (type === 'integer' || type === 'array' ? `an ${type}` : `a ${type}`))
+    .join(' or ');
+}
+
+/** Why `value` does not fit `spec`, or undefined when it does. */
+function valueProblem(spec: PropertySpec, value: unknown): string | undefined {
+  if (spec.feel && typeof value === 'string' && value.startsWith('=')) return undefined;
+  const types: readonly PropertyValueType[] =
+    spec.type === undefined ? [] : typeof spec.type === 'string' ? [spec.type] : spec.type;
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    return `must be ${describeTypes(types)}${spec.feel ? ' or a FEEL expression' : ''}`;
+  }
+  if (spec.enum && typeof value === 'string' && !spec.enum.includes(value)) {
+    return `must be one of ${spec.enum.join(', ')}`;
+  }
+  return undefined;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + cost);
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+/** The known property closest to a misspelt one (at most two edits away). */
+function closestProperty(name: string, table: PropertyTable): string | undefined {
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of Object.keys(table)) {
+    const distance = editDistance(name, candidate);
+    if (distance <= 2 && (!best || distance < best.distance)) best = { name: candidate, distance };
+  }
+  return best?.name;
+}
+
+/**
+ * Check properties against a property table. `prefix` is the path of the
+ * enclosing object (e.g. `validate.`) used in messages.
+ */
+function checkTable(
+  values: Record<string, unknown>,
+  table: PropertyTable,
+  context: { componentId?: string; type: string; prefix: string }
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined || value === null) continue;
+    const property = `${context.prefix}${name}`;
+    const spec = table[name];
+    if (!spec) {
+      const suggestion = closestProperty(name, table);
+      issues.push({
+        severity: 'warning',
+        componentId: context.componentId,
+        property,
+        message: `Unknown property "${property}" for type "${context.type}"`,
+        suggestion: suggestion
+          ? `Did you mean "${context.prefix}${suggestion}"?`
+          : `Supported: ${Object.keys(table).join(', ')}`,
+      });
+      continue;
+    }
+    const problem = valueProblem(spec, value);
+    if (problem) {
+      issues.push({
+        severity: 'error',
+        componentId: context.componentId,
+        property,
+        message: `Property "${property}" of ${context.type} ${problem}`,
+      });
+    } else if (spec.properties && matchesType(value, 'object')) {
+      const nested = { ...context, prefix: `${property}.` };
+      issues.push(...checkTable(value as Record<string, unknown>, spec.properties, nested));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check the given properties (default: all of them) of a component
+ * against its type's registry entry. Unknown properties are warnings,
+ * mistyped values errors. Components of unknown types are not checked.
+ */
+export function checkComponentProperties(
+  comp: FormComponent,
+  values: Record<string, unknown> = comp
+): ValidationIssue[] {
+  const table = propertiesOf(comp.type);
+  if (!table) return [];
+  return checkTable(values, table, { componentId: comp.id, type: comp.type, prefix: '' });
+}
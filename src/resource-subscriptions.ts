@@ -0,0 +1,67 @@
+/**
+ * MCP resource subscriptions.
+ *
+ * Clients subscribe to `form://forms` or a per-form resource URI and
+ * receive `notifications/resources/updated` whenever the form store
+ * reports a change for that form (see `notifyFormChanged`).
+ */
+
+import { type Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import { addFormChangeListener, type FormChangeEvent } from './form-manager';
+import { formIdFromResourceUri } from './resources';
+
+const FORMS_LIST_URI = 'form://forms';
+
+function isSubscribable(uri: string): boolean {
+  return uri === FORMS_LIST_URI || formIdFromResourceUri(uri) !== undefined;
+}
+
+/** Subscribed URIs affected by `event`. The forms list changes with every event. */
+function affectedUris(event: FormChangeEvent, subscriptions: Set<string>): string[] {
+  return [...subscriptions].filter(
+    (uri) => uri === FORMS_LIST_URI || formIdFromResourceUri(uri) === event.formId
+  );
+}
+
+/**
+ * Register subscribe / unsubscribe handlers on `server` and forward form
+ * changes as resource-updated notifications. The server must advertise
+ * `resources.subscribe`. The change listener is removed when the server closes.
+ */
+export function enableResourceSubscriptions(server: Server): void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!isSubscribable(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const removeListener = addFormChangeListener((event) => {
+    for (const uri of affectedUris(event, subscriptions)) {
+      server.sendResourceUpdated({ uri }).catch((error) => {
+        console.error(`Failed to send resource update for ${uri}:`, error);
+      });
+    }
+  });
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    removeListener();
+    previousOnClose?.();
+  };
+}
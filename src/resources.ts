@@ -4,17 +4,29 @@
  * Exposes form data as MCP resources so that AI assistants can
  * browse forms and field type documentation without needing to call tools.
  *
- * Per-form resources (summary, schema, validation, variables) have been
- * removed — use `inspect_form` tool facets instead.
+ * Per-form resources are exposed as templates only (not enumerated by
+ * `listResources`); clients can subscribe to them to be notified when
+ * the form changes instead of polling `inspect_form`.
  *
  * URI scheme:
- *   form://forms                       — list all in-memory forms
- *   form://guides/form-field-reference — comprehensive field type reference
+ *   form://forms                          — list all in-memory forms
+ *   form://forms/{formId}/schema          — the form-js schema JSON
+ *   form://forms/{formId}/summary         — summary facet
+ *   form://forms/{formId}/validation      — validation facet
+ *   form://forms/{formId}/variables       — variables facet
+ *   form://templates                      — form templates and component fragments
+ *   form://guides/form-field-reference    — comprehensive field type reference
  */
 
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { getAllForms } from './form-manager';
+import { getAllForms, getForm } from './form-manager';
 import { countComponents } from './handlers/helpers';
+import { listTemplates, listFragments, getTemplatesDir, type TemplateLibrary } from './templates';
+import {
+  buildSummaryFacet,
+  buildValidationFacet,
+  buildVariablesFacet,
+} from './handlers/core/form-facets';
 import {
   SUPPORTED_FIELD_TYPES,
   INPUT_FIELD_TYPES,
@@ -35,6 +47,36 @@ export const RESOURCE_TEMPLATES = [
     description: 'List all in-memory forms with summary information',
     mimeType: 'application/json',
   },
+  {
+    uriTemplate: 'form://forms/{formId}/schema',
+    name: 'Form Schema',
+    description: 'The form-js schema JSON of a form',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'form://forms/{formId}/summary',
+    name: 'Form Summary',
+    description: 'Component counts, nesting depth, layout rows and version of a form',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'form://forms/{formId}/validation',
+    name: 'Form Validation',
+    description: 'Validation errors and warnings of a form',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'form://forms/{formId}/variables',
+    name: 'Form Variables',
+    description: 'Data keys bound by a form',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'form://templates',
+    name: 'Form Templates',
+    description: 'Form templates and component fragments with their parameters',
+    mimeType: 'application/json',
+  },
   {
     uriTemplate: 'form://guides/form-field-reference',
     name: 'Form Field Reference',
@@ -43,6 +85,14 @@ export const RESOURCE_TEMPLATES = [
   },
 ] as const;
 
+/** Matches `form://forms/{formId}/{facet}` URIs. */
+const FORM_RESOURCE_PATTERN = /^form:\/\/forms\/([^/]+)\/(schema|summary|validation|variables)$/;
+
+/** Return the form ID a resource URI refers to, if it is a per-form resource. */
+export function formIdFromResourceUri(uri: string): string | undefined {
+  return FORM_RESOURCE_PATTERN.exec(uri)?.[1];
+}
+
 // ── listResources (P5.3) ──────────────────────────────────────────────────
 
 export interface ResourceDescriptor {
@@ -65,6 +115,14 @@ export function listResources(): ResourceDescriptor[] {
     mimeType: 'application/json',
   });
 
+  // Static: template library
+  resources.push({
+    uri: 'form://templates',
+    name: 'Form Templates',
+    description: 'Templates for create_form and fragments for add_form_component',
+    mimeType: 'application/json',
+  });
+
   // Static guide
   resources.push({
     uri: 'form://guides/form-field-reference',
@@ -91,11 +149,22 @@ export function readResource(uri: string): ResourceContent {
     return readFormsList();
   }
 
+  // form://templates
+  if (uri === 'form://templates') {
+    return readTemplateList();
+  }
+
   // form://guides/form-field-reference
   if (uri === 'form://guides/form-field-reference') {
     return readFieldReference();
   }
 
+  // form://forms/{formId}/{facet}
+  const match = FORM_RESOURCE_PATTERN.exec(uri);
+  if (match) {
+    return readFormFacet(uri, match[1], match[2]);
+  }
+
   throw new McpError(ErrorCode.InvalidRequest, `Unknown resource URI: ${uri}`);
 }
 
@@ -116,6 +185,49 @@ function readFormsList(): ResourceContent {
   };
 }
 
+function readTemplateList(): ResourceContent {
+  const templates = listTemplates();
+  const fragments = listFragments();
+  const describe = (library: TemplateLibrary) =>
+    library.templates.map(({ components: _components, ...template }) => template);
+  const invalid = [...templates.invalid, ...fragments.invalid];
+  const data = {
+    templatesDir: getTemplatesDir() ?? null,
+    templates: describe(templates),
+    fragments: describe(fragments),
+    ...(invalid.length > 0 ? { invalid } : {}),
+  };
+  return {
+    uri: 'form://templates',
+    mimeType: 'application/json',
+    text: JSON.stringify(data, null, 2),
+  };
+}
+
+function readFormFacet(uri: string, formId: string, facet: string): ResourceContent {
+  const form = getForm(formId);
+  if (!form) {
+    throw new McpError(ErrorCode.InvalidParams, `Form not found: ${formId}`);
+  }
+
+  let data: unknown;
+  switch (facet) {
+    case 'schema':
+      data = form.schema;
+      break;
+    case 'summary':
+      data = buildSummaryFacet(form.schema, form);
+      break;
+    case 'validation':
+      data = buildValidationFacet(form.schema, true);
+      break;
+    default:
+      data = buildVariablesFacet(form.schema);
+  }
+
+  return { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+}
+
 // ── Static guide (P5.5) ──────────────────────────────────────────────────
 
 function readFieldReference(): ResourceContent {
@@ -0,0 +1,32 @@
+/**
+ * Component-level change detection between two versions of a schema.
+ */
+
+import { type FormComponent } from './types';
+
+/**
+ * Index components by ID. Containers are fingerprinted with their child
+ * IDs only, so editing a child does not mark its parent as changed —
+ * but adding, removing or reordering children does.
+ */
+function fingerprint(components: FormComponent[], into = new Map<string, string>()) {
+  for (const comp of components) {
+    if (comp.id) {
+      const own = comp.components
+        ? { ...comp, components: comp.components.map((c) => c.id) }
+        : comp;
+      into.set(comp.id, JSON.stringify(own));
+    }
+    if (comp.components) fingerprint(comp.components, into);
+  }
+  return into;
+}
+
+/** IDs of components added, removed or changed between `before` and `after`. */
+export function diffComponentIds(before: FormComponent[], after: FormComponent[]): string[] {
+  const a = fingerprint(before);
+  const b = fingerprint(after);
+  const changed = [...b.keys()].filter((id) => a.get(id) !== b.get(id));
+  const removed = [...a.keys()].filter((id) => !b.has(id));
+  return [...changed, ...removed];
+}
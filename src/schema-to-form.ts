@@ -0,0 +1,236 @@
+/**
+ * Form generation from a JSON Schema or sample data.
+ *
+ * The inverse of `data-schema.ts`: `componentsFromJsonSchema` turns the
+ * properties of an object schema into typed form components — enums
+ * become `select` / `radio`, booleans `checkbox`, nested objects `group`
+ * (bound via `path`), arrays of objects `dynamiclist` — and maps `required`
+ * and string / number constraints to `validate` rules.
+ * `inferJsonSchema` derives a schema from a sample object of process
+ * variables so the same conversion applies.
+ *
+ * IDs and keys come from the same generators `add_form_component` uses.
+ */
+
+import { type FormComponent, type FormValidation } from './types';
+import { generateComponentId, resolveKey } from './handlers/helpers';
+
+/** Enums with at most this many values become radio groups; larger ones selects. */
+const RADIO_MAX_OPTIONS = 4;
+
+/** Strings allowed to be longer than this become textareas. */
+const TEXTAREA_MIN_LENGTH = 200;
+
+const VALID_KEY = /^[A-Za-z_$][\w$]*$/;
+
+const DATETIME_SUBTYPES: Record<string, string> = {
+  date: 'date',
+  time: 'time',
+  'date-time': 'datetime',
+};
+
+// ── JSON Schema access ─────────────────────────────────────────────────────
+
+/** Resolve local `$ref`s (`#/$defs/…`, `#/definitions/…`) against the root schema. */
+function deref(node: any, root: any, seen: Set<string> = new Set()): any {
+  if (!node || typeof node !== 'object' || typeof node.$ref !== 'string') return node ?? {};
+  const ref: string = node.$ref;
+  if (!ref.startsWith('#/') || seen.has(ref)) return {};
+  seen.add(ref);
+  const target = ref
+    .slice(2)
+    .split('/')
+    .reduce<any>((obj, part) => obj?.[part.replaceAll('~1', '/').replaceAll('~0', '~')], root);
+  return deref(target, root, seen);
+}
+
+/** First non-null type of a (possibly union) `type`; infers `object` / `array`. */
+function schemaType(node: any): string | undefined {
+  const types: unknown[] = Array.isArray(node.type) ? node.type : [node.type];
+  const type = types.find((t) => typeof t === 'string' && t !== 'null') as string | undefined;
+  if (type) return type;
+  if (node.properties) return 'object';
+  if (node.items) return 'array';
+  return undefined;
+}
+
+function humanize(name: string): string {
+  const words = name
+    .replaceAll(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replaceAll(/[_\-.\s]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function optionValues(values: unknown[]): { label: string; value: string }[] {
+  return values
+    .filter((v) => v !== null)
+    .map((v) => ({ label: humanize(String(v)), value: String(v) }));
+}
+
+// ── Components ─────────────────────────────────────────────────────────────
+
+function validation(node: any, required: boolean): FormValidation | undefined {
+  const v: FormValidation = {};
+  if (required) v.required = true;
+  if (typeof node.minLength === 'number') v.minLength = node.minLength;
+  if (typeof node.maxLength === 'number') v.maxLength = node.maxLength;
+  if (typeof node.pattern === 'string') v.pattern = node.pattern;
+  if (typeof node.minimum === 'number') v.min = node.minimum;
+  if (typeof node.maximum === 'number') v.max = node.maximum;
+  if (node.format === 'email') v.validationType = 'email';
+  return Object.keys(v).length ? v : undefined;
+}
+
+/** Type and type-specific properties of a scalar or array field. */
+function fieldShape(node: any, root: any): Record<string, any> {
+  if (Array.isArray(node.enum)) {
+    const values = optionValues(node.enum);
+    return { type: values.length <= RADIO_MAX_OPTIONS ? 'radio' : 'select', values };
+  }
+  switch (schemaType(node)) {
+    case 'boolean':
+      return { type: 'checkbox' };
+    case 'integer':
+      return { type: 'number', decimalDigits: 0 };
+    case 'number':
+      return { type: 'number' };
+    case 'array': {
+      const items = deref(node.items, root);
+      return Array.isArray(items.enum)
+        ? { type: 'checklist', values: optionValues(items.enum) }
+        : { type: 'taglist', values: [] };
+    }
+    default: {
+      const subtype = DATETIME_SUBTYPES[node.format];
+      if (subtype) return { type: 'datetime', subtype };
+      const long = typeof node.maxLength === 'number' && node.maxLength > TEXTAREA_MIN_LENGTH;
+      return { type: long ? 'textarea' : 'textfield' };
+    }
+  }
+}
+
+function isObjectArray(node: any, root: any): boolean {
+  return schemaType(node) === 'array' && schemaType(deref(node.items, root)) === 'object';
+}
+
+function containerComponent(name: string, node: any, root: any): FormComponent {
+  const label: string = node.title ?? humanize(name);
+  const list = isObjectArray(node, root);
+  const type = list ? 'dynamiclist' : 'group';
+  const source = list ? deref(node.items, root) : node;
+  const comp: FormComponent = {
+    type,
+    id: generateComponentId(type, label),
+    label,
+    path: VALID_KEY.test(name) ? name : resolveKey([], undefined, label, type),
+    components: buildComponents(source, root),
+  };
+  if (list) {
+    comp.isRepeating = true;
+    comp.defaultRepetitions = 1;
+    comp.allowAddRemove = true;
+  }
+  return comp;
+}
+
+function fieldComponent(
+  name: string,
+  node: any,
+  root: any,
+  required: boolean,
+  siblings: FormComponent[]
+): FormComponent {
+  const shape = fieldShape(node, root);
+  const label: string = node.title ?? humanize(name);
+  const comp: FormComponent = {
+    ...shape,
+    type: shape.type,
+    id: generateComponentId(shape.type, label),
+    key: resolveKey(siblings, VALID_KEY.test(name) ? name : undefined, label, shape.type),
+    label,
+  };
+  if (node.description) comp.description = node.description;
+  if (node.default !== undefined && typeof node.default !== 'object') {
+    comp.defaultValue = node.default;
+  }
+  const validate = validation(node, required);
+  if (validate) comp.validate = validate;
+  return comp;
+}
+
+function buildComponents(objectNode: any, root: any): FormComponent[] {
+  const required = new Set<string>(Array.isArray(objectNode.required) ? objectNode.required : []);
+  const components: FormComponent[] = [];
+  const fields: FormComponent[] = [];
+  for (const [name, raw] of Object.entries<any>(objectNode.properties ?? {})) {
+    const node = deref(raw, root);
+    if (schemaType(node) === 'object' || isObjectArray(node, root)) {
+      components.push(containerComponent(name, node, root));
+    } else {
+      const field = fieldComponent(name, node, root, required.has(name), fields);
+      fields.push(field);
+      components.push(field);
+    }
+  }
+  return components;
+}
+
+/**
+ * Build form components for the properties of an object JSON Schema.
+ * Keys are unique per data scope: a group's `path` opens a new scope, so
+ * `customer.name` and `name` can coexist.
+ */
+export function componentsFromJsonSchema(jsonSchema: any): FormComponent[] {
+  const root = deref(jsonSchema, jsonSchema);
+  if (schemaType(root) !== 'object') {
+    throw new Error('JSON Schema must describe an object with "properties"');
+  }
+  return buildComponents(root, jsonSchema);
+}
+
+// ── Sample data inference ──────────────────────────────────────────────────
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function inferString(value: string): Record<string, any> {
+  if (ISO_DATE.test(value)) return { type: 'string', format: 'date' };
+  if (ISO_DATE_TIME.test(value)) return { type: 'string', format: 'date-time' };
+  if (EMAIL.test(value)) return { type: 'string', format: 'email' };
+  return { type: 'string' };
+}
+
+function inferArray(values: unknown[]): Record<string, any> {
+  const objects = values.filter(
+    (v): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v)
+  );
+  const items = objects.length
+    ? inferJsonSchema(Object.assign({}, ...objects))
+    : { type: 'string' };
+  return { type: 'array', items };
+}
+
+function inferValue(value: unknown): Record<string, any> {
+  if (Array.isArray(value)) return inferArray(value);
+  if (value && typeof value === 'object') return inferJsonSchema(value as Record<string, unknown>);
+  if (typeof value === 'boolean') return { type: 'boolean' };
+  if (typeof value === 'number') return { type: Number.isInteger(value) ? 'integer' : 'number' };
+  if (typeof value === 'string') return inferString(value);
+  return { type: 'string' };
+}
+
+/**
+ * Infer an object JSON Schema from a sample of process variables. Arrays of
+ * objects merge the keys of all items; no property is marked required.
+ */
+export function inferJsonSchema(sample: Record<string, unknown>): Record<string, any> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      Object.entries(sample).map(([key, value]) => [key, inferValue(value)])
+    ),
+  };
+}
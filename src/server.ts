@@ -0,0 +1,88 @@
+/**
+ * MCP server factory — wires request handlers to tool modules, resources
+ * and prompts.
+ *
+ * Each transport connection needs its own `Server` instance (the stdio
+ * transport uses one; the HTTP transport creates one per session). All
+ * instances share the module-level form store in `form-manager.ts`.
+ */
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import { type ToolModule } from './module';
+import { formModule } from './form-module';
+import { RESOURCE_TEMPLATES, listResources, readResource } from './resources';
+import { enableResourceSubscriptions } from './resource-subscriptions';
+import { listPrompts, getPrompt } from './prompts';
+
+// ── Registered tool modules ────────────────────────────────────────────────
+// Add new editor modules here when available.
+const modules: ToolModule[] = [formModule];
+
+/** Create an MCP server with all tool, resource and prompt handlers registered. */
+export function createServer(): Server {
+  const server = new Server(
+    { name: 'form-js-mcp', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {} } }
+  );
+
+  // ── Tool handlers ────────────────────────────────────────────────────────
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: modules.flatMap((m) => m.toolDefinitions),
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request: any): Promise<any> => {
+    const { name, arguments: args } = request.params;
+
+    for (const mod of modules) {
+      const result = mod.dispatch(name, args);
+      if (result) return result;
+    }
+
+    throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+  });
+
+  // ── Resource handlers ────────────────────────────────────────────────────
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: listResources(),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [...RESOURCE_TEMPLATES],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+    const { uri } = request.params;
+    const content = readResource(uri);
+    return {
+      contents: [content],
+    };
+  });
+
+  enableResourceSubscriptions(server);
+
+  // ── Prompt handlers ──────────────────────────────────────────────────────
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: [...listPrompts()],
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request: any): Promise<any> => {
+    const { name, arguments: args } = request.params;
+    return getPrompt(name, args ?? {});
+  });
+
+  return server;
+}
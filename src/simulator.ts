@@ -0,0 +1,228 @@
+/**
+ * Headless form simulation — evaluates a schema against sample data.
+ *
+ * Computes what form-js would do on submit without a browser:
+ *   1. `expression` fields are evaluated and their results written to the data
+ *   2. `conditional.hide` is evaluated (hidden containers hide their children)
+ *   3. option lists are resolved from `values`, `valuesKey` or `valuesExpression`
+ *   4. `validate` rules are checked on every visible keyed field
+ *
+ * Groups with a `path` read their children from a nested object and
+ * dynamic lists evaluate their children once per item of the bound list.
+ */
+
+import { type FormSchema, type FormComponent, type FormOptionValue } from './types';
+import { KEYED_FIELD_TYPES, OPTIONS_FIELD_TYPES } from './constants';
+import { type FeelContext, evaluateFeel, isFeelExpression, parseFeel } from './feel';
+import { validateFieldValue } from './field-validation';
+
+export interface SimulationError {
+  componentId?: string;
+  /** Data path of the field, e.g. `items[0].amount`. */
+  path: string;
+  rule: string;
+  message: string;
+}
+
+export interface SimulationResult {
+  valid: boolean;
+  /** Input data plus the values computed by `expression` fields. */
+  data: Record<string, unknown>;
+  /** IDs of components hidden by `conditional.hide` (directly or via a parent). */
+  hidden: string[];
+  /** Resolved option lists of select/radio/checklist/taglist fields, by component ID. */
+  options: Record<string, FormOptionValue[] | null>;
+  /** Values of `expression` fields, by data path. */
+  computed: Record<string, unknown>;
+  errors: SimulationError[];
+  /** Expressions that could not be evaluated. */
+  warnings: string[];
+}
+
+/** Evaluation scope: where keys are read/written and which variables FEEL sees. */
+interface Scope {
+  data: Record<string, unknown>;
+  root: Record<string, unknown>;
+  /** Current dynamic-list item, exposed to FEEL as `this`. */
+  item?: Record<string, unknown>;
+  parent?: Record<string, unknown>;
+  pathPrefix: string;
+}
+
+const MAX_EXPRESSION_PASSES = 3;
+
+// ── Data access ────────────────────────────────────────────────────────────
+
+function getPath(obj: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<any>((o, part) => (o == null ? undefined : o[part]), obj);
+}
+
+function setPath(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let target: any = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (target[part] === null || typeof target[part] !== 'object') target[part] = {};
+    target = target[part];
+  }
+  target[parts.at(-1)!] = value;
+}
+
+function feelContext(scope: Scope): FeelContext {
+  if (!scope.item) return { ...scope.root };
+  return { ...scope.root, ...scope.item, this: scope.item, parent: scope.parent };
+}
+
+function label(comp: FormComponent): string {
+  return comp.id ?? comp.key ?? comp.type;
+}
+
+// ── Traversal ──────────────────────────────────────────────────────────────
+
+/**
+ * Resolve the scopes a container's children are evaluated in: one nested
+ * scope for a group with `path`, one per item for a dynamic list.
+ */
+function childScopes(comp: FormComponent, scope: Scope): Scope[] {
+  if (!comp.path) return [scope];
+  const prefix = `${scope.pathPrefix}${comp.path}`;
+
+  if (comp.type === 'dynamiclist') {
+    let items = getPath(scope.data, comp.path);
+    if (!Array.isArray(items)) {
+      items = [];
+      setPath(scope.data, comp.path, items);
+    }
+    return (items as unknown[]).map((raw, i) => {
+      const item = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+      (items as unknown[])[i] = item;
+      return {
+        data: item,
+        root: scope.root,
+        item,
+        parent: scope.data,
+        pathPrefix: `${prefix}[${i}].`,
+      };
+    });
+  }
+
+  let nested = getPath(scope.data, comp.path);
+  if (!nested || typeof nested !== 'object') {
+    nested = {};
+    setPath(scope.data, comp.path, nested);
+  }
+  return [{ ...scope, data: nested as Record<string, unknown>, pathPrefix: `${prefix}.` }];
+}
+
+class Simulation {
+  readonly result: SimulationResult;
+
+  constructor(data: Record<string, unknown>) {
+    this.result = {
+      valid: true,
+      data,
+      hidden: [],
+      options: {},
+      computed: {},
+      errors: [],
+      warnings: [],
+    };
+  }
+
+  /** Evaluate a `=`-prefixed expression; problems become warnings and yield `null`. */
+  evaluate(expression: string, scope: Scope, where: string): unknown {
+    try {
+      return evaluateFeel(parseFeel(expression.slice(1)), feelContext(scope));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.result.warnings.push(`${where}: ${message}`);
+      return null;
+    }
+  }
+
+  computeExpressions(components: FormComponent[], scope: Scope): void {
+    for (const comp of components) {
+      if (comp.type === 'expression' && comp.key && isFeelExpression(comp.expression)) {
+        const value = this.evaluate(comp.expression, scope, `expression of ${label(comp)}`);
+        setPath(scope.data, comp.key, value);
+        this.result.computed[`${scope.pathPrefix}${comp.key}`] = value;
+      }
+      if (comp.components) {
+        for (const child of childScopes(comp, scope)) {
+          this.computeExpressions(comp.components, child);
+        }
+      }
+    }
+  }
+
+  isHidden(comp: FormComponent, scope: Scope): boolean {
+    const hide = comp.conditional?.hide;
+    if (!isFeelExpression(hide)) return false;
+    return this.evaluate(hide, scope, `conditional.hide of ${label(comp)}`) === true;
+  }
+
+  resolveOptions(comp: FormComponent, scope: Scope): FormOptionValue[] | null {
+    let raw: unknown = comp.values;
+    if (comp.valuesKey) raw = getPath(scope.root, comp.valuesKey);
+    if (isFeelExpression(comp.valuesExpression)) {
+      raw = this.evaluate(comp.valuesExpression, scope, `valuesExpression of ${label(comp)}`);
+    }
+    if (!Array.isArray(raw)) return null;
+    return raw.map((opt) =>
+      opt && typeof opt === 'object'
+        ? { label: String(opt.label ?? opt.value), value: opt.value }
+        : { label: String(opt), value: opt }
+    );
+  }
+
+  visit(components: FormComponent[], scope: Scope, parentHidden: boolean): void {
+    for (const comp of components) {
+      const hidden = parentHidden || this.isHidden(comp, scope);
+      // Components inside a dynamic list are listed once, however many items hide them
+      if (hidden && comp.id && !this.result.hidden.includes(comp.id)) {
+        this.result.hidden.push(comp.id);
+      }
+
+      if ((OPTIONS_FIELD_TYPES as readonly string[]).includes(comp.type) && comp.id) {
+        this.result.options[comp.id] = this.resolveOptions(comp, scope);
+      }
+
+      const isKeyed = (KEYED_FIELD_TYPES as readonly string[]).includes(comp.type);
+      if (!hidden && isKeyed && comp.key && comp.validate) {
+        const value = getPath(scope.data, comp.key);
+        const evaluate = (expr: string) => this.evaluate(expr, scope, `validate of ${label(comp)}`);
+        const warn = (property: string, message: string) =>
+          this.result.warnings.push(`${property} of ${label(comp)}: ${message}`);
+        for (const failure of validateFieldValue(comp, value, evaluate, warn)) {
+          this.result.errors.push({
+            componentId: comp.id,
+            path: `${scope.pathPrefix}${comp.key}`,
+            ...failure,
+          });
+        }
+      }
+
+      if (comp.components) {
+        for (const child of childScopes(comp, scope)) this.visit(comp.components, child, hidden);
+      }
+    }
+  }
+}
+
+/** Simulate a submission of `data` against `schema`. The input is not modified. */
+export function simulateForm(schema: FormSchema, data: Record<string, unknown>): SimulationResult {
+  const working = structuredClone(data);
+  const simulation = new Simulation(working);
+  const scope: Scope = { data: working, root: working, pathPrefix: '' };
+
+  // Repeat so expressions that depend on later expression fields settle
+  for (let pass = 0; pass < MAX_EXPRESSION_PASSES; pass++) {
+    const before = JSON.stringify(working);
+    simulation.result.warnings = [];
+    simulation.computeExpressions(schema.components, scope);
+    if (JSON.stringify(working) === before) break;
+  }
+
+  simulation.visit(schema.components, scope, false);
+  simulation.result.valid = simulation.result.errors.length === 0;
+  return simulation.result;
+}
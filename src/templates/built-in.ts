@@ -0,0 +1,239 @@
+/**
+ * Built-in form templates.
+ *
+ * Component IDs are assigned when a template is instantiated, so the
+ * definitions below leave them out.
+ */
+
+import { type FormTemplate } from './types';
+
+const TITLE_DESCRIPTION = 'Heading shown at the top of the form';
+
+const approval: FormTemplate = {
+  name: 'approval',
+  description:
+    'Approve / reject decision with comments and a rejection reason that is only shown ' +
+    '(and required) when the request is rejected.',
+  parameters: {
+    title: { description: TITLE_DESCRIPTION, default: 'Approval' },
+    approvalField: { description: 'Key of the decision field', default: 'approved' },
+    decisions: {
+      description: 'Decision options',
+      type: 'options',
+      default: [
+        { label: 'Approve', value: 'approve' },
+        { label: 'Reject', value: 'reject' },
+      ],
+    },
+    rejectValue: {
+      description: 'Decision value that asks for a rejection reason',
+      default: 'reject',
+    },
+  },
+  components: [
+    { type: 'text', text: '# ${title}' },
+    {
+      type: 'radio',
+      key: '${approvalField}',
+      label: 'Decision',
+      values: '${decisions}',
+      validate: { required: true },
+    },
+    { type: 'textarea', key: 'comments', label: 'Comments' },
+    {
+      type: 'textarea',
+      key: 'rejectionReason',
+      label: 'Rejection Reason',
+      validate: { required: true },
+      conditional: { hide: '=${approvalField} != "${rejectValue}"' },
+    },
+  ],
+};
+
+const contactDetails: FormTemplate = {
+  name: 'contact-details',
+  description: 'Name, e-mail, phone number and preferred contact method.',
+  parameters: {
+    title: { description: TITLE_DESCRIPTION, default: 'Contact Details' },
+    keyPrefix: {
+      description: 'Prefix for all field keys (e.g. "applicant_" gives "applicant_email")',
+      default: '',
+    },
+    contactMethods: {
+      description: 'Options of the preferred contact method',
+      type: 'options',
+      default: [
+        { label: 'E-mail', value: 'email' },
+        { label: 'Phone', value: 'phone' },
+      ],
+    },
+  },
+  components: [
+    { type: 'text', text: '## ${title}' },
+    {
+      type: 'textfield',
+      key: '${keyPrefix}firstName',
+      label: 'First Name',
+      validate: { required: true },
+      layout: { row: 'Row_name', columns: 8 },
+    },
+    {
+      type: 'textfield',
+      key: '${keyPrefix}lastName',
+      label: 'Last Name',
+      validate: { required: true },
+      layout: { row: 'Row_name', columns: 8 },
+    },
+    {
+      type: 'textfield',
+      key: '${keyPrefix}email',
+      label: 'E-mail',
+      validate: { required: true, validationType: 'email' },
+      layout: { row: 'Row_contact', columns: 8 },
+    },
+    {
+      type: 'textfield',
+      key: '${keyPrefix}phone',
+      label: 'Phone',
+      validate: { validationType: 'phone' },
+      layout: { row: 'Row_contact', columns: 8 },
+    },
+    {
+      type: 'radio',
+      key: '${keyPrefix}preferredContact',
+      label: 'Preferred Contact Method',
+      values: '${contactMethods}',
+    },
+  ],
+};
+
+const address: FormTemplate = {
+  name: 'address',
+  description: 'Postal address in a group bound to its own data path.',
+  parameters: {
+    title: { description: 'Label of the address group', default: 'Address' },
+    path: { description: 'Data path of the address object', default: 'address' },
+    countries: {
+      description: 'Country options',
+      type: 'options',
+      default: [
+        { label: 'Germany', value: 'DE' },
+        { label: 'France', value: 'FR' },
+        { label: 'United Kingdom', value: 'GB' },
+        { label: 'United States', value: 'US' },
+      ],
+    },
+  },
+  components: [
+    {
+      type: 'group',
+      label: '${title}',
+      path: '${path}',
+      showOutline: true,
+      components: [
+        { type: 'textfield', key: 'street', label: 'Street', validate: { required: true } },
+        {
+          type: 'textfield',
+          key: 'postalCode',
+          label: 'Postal Code',
+          validate: { required: true },
+          layout: { row: 'Row_city', columns: 4 },
+        },
+        {
+          type: 'textfield',
+          key: 'city',
+          label: 'City',
+          validate: { required: true },
+          layout: { row: 'Row_city', columns: 12 },
+        },
+        {
+          type: 'select',
+          key: 'country',
+          label: 'Country',
+          values: '${countries}',
+          searchable: true,
+          validate: { required: true },
+        },
+      ],
+    },
+  ],
+};
+
+const invoice: FormTemplate = {
+  name: 'invoice',
+  description: 'Invoice details (creditor, number, amount, currency) with an approval checkbox.',
+  parameters: {
+    title: { description: TITLE_DESCRIPTION, default: 'Invoice' },
+    invoiceNumberPattern: {
+      description: 'Regular expression invoice numbers must match',
+      default: '^INV-[0-9]+$',
+    },
+    invoiceNumberFormat: {
+      description: 'Human-readable invoice number format',
+      default: 'INV-NNNN',
+    },
+    currencies: {
+      description: 'Currency options',
+      type: 'options',
+      default: [
+        { label: 'EUR', value: 'EUR' },
+        { label: 'USD', value: 'USD' },
+        { label: 'GBP', value: 'GBP' },
+      ],
+    },
+    defaultCurrency: { description: 'Preselected currency value', default: 'EUR' },
+    approvalKey: { description: 'Key of the approval checkbox', default: 'approved' },
+  },
+  components: [
+    { type: 'text', text: '# ${title}\nPlease fill in the invoice details below.' },
+    {
+      type: 'textfield',
+      key: 'creditor',
+      label: 'Creditor',
+      validate: { required: true },
+      layout: { columns: 8, row: 'Row_1' },
+    },
+    {
+      type: 'textfield',
+      key: 'invoiceNumber',
+      label: 'Invoice Number',
+      description: 'Format: ${invoiceNumberFormat}',
+      validate: {
+        required: true,
+        pattern: '${invoiceNumberPattern}',
+        patternErrorMessage: 'Must match ${invoiceNumberFormat} format',
+      },
+      layout: { columns: 8, row: 'Row_1' },
+    },
+    {
+      type: 'number',
+      key: 'amount',
+      label: 'Amount',
+      validate: { required: true, min: 0 },
+      layout: { columns: 8, row: 'Row_2' },
+    },
+    {
+      type: 'select',
+      key: 'currency',
+      label: 'Currency',
+      values: '${currencies}',
+      defaultValue: '${defaultCurrency}',
+      layout: { columns: 8, row: 'Row_2' },
+    },
+    { type: 'checkbox', key: '${approvalKey}', label: 'Approved' },
+    {
+      type: 'textarea',
+      key: 'approverComments',
+      label: 'Comments',
+      conditional: { hide: '=${approvalKey} = false' },
+    },
+    { type: 'button', key: 'submit', label: 'Submit' },
+  ],
+};
+
+export const BUILT_IN_TEMPLATES: readonly FormTemplate[] = [
+  approval,
+  contactDetails,
+  address,
+  invoice,
+];
@@ -0,0 +1,119 @@
+/**
+ * Built-in component fragments.
+ *
+ * Fragments use the template format but are inserted into an existing form
+ * (`add_form_component` with `fragment`) instead of creating one. Blocks
+ * with several fields sit in a group bound to their own data path, so only
+ * the path needs rebasing when the block is inserted twice.
+ */
+
+import { type FormTemplate } from './types';
+import { BUILT_IN_TEMPLATES } from './built-in';
+
+const addressTemplate = BUILT_IN_TEMPLATES.find((template) => template.name === 'address')!;
+
+const address: FormTemplate = { ...addressTemplate, description: 'Postal address group.' };
+
+const contactPerson: FormTemplate = {
+  name: 'contact-person',
+  description: 'Name, e-mail and phone number of a contact person.',
+  parameters: {
+    title: { description: 'Label of the group', default: 'Contact Person' },
+    path: { description: 'Data path of the contact object', default: 'contactPerson' },
+  },
+  components: [
+    {
+      type: 'group',
+      label: '${title}',
+      path: '${path}',
+      showOutline: true,
+      components: [
+        { type: 'textfield', key: 'name', label: 'Name', validate: { required: true } },
+        {
+          type: 'textfield',
+          key: 'email',
+          label: 'E-mail',
+          validate: { validationType: 'email' },
+          layout: { row: 'Row_reach', columns: 8 },
+        },
+        {
+          type: 'textfield',
+          key: 'phone',
+          label: 'Phone',
+          validate: { validationType: 'phone' },
+          layout: { row: 'Row_reach', columns: 8 },
+        },
+      ],
+    },
+  ],
+};
+
+const bankDetails: FormTemplate = {
+  name: 'bank-details',
+  description: 'Account holder, IBAN and BIC with format validation.',
+  parameters: {
+    title: { description: 'Label of the group', default: 'Bank Details' },
+    path: { description: 'Data path of the bank details object', default: 'bankDetails' },
+  },
+  components: [
+    {
+      type: 'group',
+      label: '${title}',
+      path: '${path}',
+      showOutline: true,
+      components: [
+        {
+          type: 'textfield',
+          key: 'accountHolder',
+          label: 'Account Holder',
+          validate: { required: true },
+        },
+        {
+          type: 'textfield',
+          key: 'iban',
+          label: 'IBAN',
+          validate: {
+            required: true,
+            pattern: '^[A-Z]{2}[0-9]{2}[A-Z0-9]{11,30}$',
+            patternErrorMessage: 'Enter the IBAN without spaces, e.g. DE89370400440532013000',
+          },
+          layout: { row: 'Row_account', columns: 10 },
+        },
+        {
+          type: 'textfield',
+          key: 'bic',
+          label: 'BIC',
+          validate: {
+            pattern: '^[A-Z]{6}[A-Z0-9]{2}([A-Z0-9]{3})?$',
+            patternErrorMessage: 'Enter an 8 or 11 character BIC',
+          },
+          layout: { row: 'Row_account', columns: 6 },
+        },
+      ],
+    },
+  ],
+};
+
+const consent: FormTemplate = {
+  name: 'consent',
+  description: 'Consent text with a required confirmation checkbox.',
+  parameters: {
+    text: {
+      description: 'Consent statement (Markdown)',
+      default: 'I agree that my data is processed to handle this request.',
+    },
+    label: { description: 'Checkbox label', default: 'I agree' },
+    key: { description: 'Key of the checkbox', default: 'consent' },
+  },
+  components: [
+    { type: 'text', text: '${text}' },
+    { type: 'checkbox', key: '${key}', label: '${label}', validate: { required: true } },
+  ],
+};
+
+export const BUILT_IN_FRAGMENTS: readonly FormTemplate[] = [
+  address,
+  contactPerson,
+  bankDetails,
+  consent,
+];
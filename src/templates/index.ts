@@ -0,0 +1,132 @@
+/**
+ * Form template library — barrel and registry.
+ *
+ * Templates are parameterised component lists that `create_form`
+ * instantiates in one call (`template` + `templateParams`). The built-in
+ * templates (approval, contact details, address, invoice) are always
+ * available; user templates are read from the directory configured with
+ * `setTemplatesDir` (CLI: `--templates-dir`) each time the library is
+ * listed, so new files are picked up without a restart. A user template
+ * replaces a built-in template of the same name.
+ *
+ * Fragments share the template format and are inserted into existing forms
+ * (`add_form_component` with `fragment`). User fragments live in the
+ * `fragments/` subdirectory; `saveFragment` writes there, or keeps the
+ * fragment for the session when no templates directory is configured.
+ */
+
+import { mkdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { BUILT_IN_TEMPLATES } from './built-in';
+import { BUILT_IN_FRAGMENTS } from './fragments';
+import { loadUserTemplates, type InvalidTemplateFile } from './user-templates';
+import { type FormTemplate, type RegisteredTemplate } from './types';
+import { writeFileAtomic } from '../form-backups';
+
+export {
+  type FormTemplate,
+  type RegisteredTemplate,
+  type TemplateComponent,
+  type TemplateParameter,
+  type TemplateParams,
+} from './types';
+export { type InvalidTemplateFile } from './user-templates';
+export { instantiateTemplate, resolveTemplateParams, templatePlaceholders } from './instantiate';
+export { BUILT_IN_TEMPLATES, BUILT_IN_FRAGMENTS };
+
+/** Subdirectory of the templates directory holding user fragments. */
+export const FRAGMENTS_DIR_NAME = 'fragments';
+
+let templatesDir: string | undefined;
+
+/** Fragments saved while no templates directory is configured. */
+const sessionFragments = new Map<string, RegisteredTemplate>();
+
+/** Set (or clear) the directory user templates are loaded from. */
+export function setTemplatesDir(dir: string | undefined): void {
+  templatesDir = dir;
+}
+
+/** Return the configured user templates directory, or undefined. */
+export function getTemplatesDir(): string | undefined {
+  return templatesDir;
+}
+
+export interface TemplateLibrary {
+  templates: RegisteredTemplate[];
+  /** User template files that could not be loaded. */
+  invalid: InvalidTemplateFile[];
+}
+
+function mergeLibrary(
+  builtIn: readonly FormTemplate[],
+  extra: RegisteredTemplate[],
+  dir: string | undefined
+): TemplateLibrary {
+  const user = dir ? loadUserTemplates(dir) : { templates: [], invalid: [] };
+  const byName = new Map<string, RegisteredTemplate>();
+  for (const template of builtIn) byName.set(template.name, { ...template, source: 'built-in' });
+  for (const template of [...extra, ...user.templates]) byName.set(template.name, template);
+  return { templates: [...byName.values()], invalid: user.invalid };
+}
+
+/** All available templates: built-ins, overridden or extended by user templates. */
+export function listTemplates(): TemplateLibrary {
+  return mergeLibrary(BUILT_IN_TEMPLATES, [], templatesDir);
+}
+
+/** Look up a template by name. */
+export function findTemplate(name: string): RegisteredTemplate | undefined {
+  return listTemplates().templates.find((template) => template.name === name);
+}
+
+// ── Fragments ──────────────────────────────────────────────────────────────
+
+/** All available fragments: built-in, saved this session and user fragments. */
+export function listFragments(): TemplateLibrary {
+  const dir = templatesDir ? join(templatesDir, FRAGMENTS_DIR_NAME) : undefined;
+  const library = mergeLibrary(BUILT_IN_FRAGMENTS, [...sessionFragments.values()], dir);
+  const inDir = (file: string) => `${FRAGMENTS_DIR_NAME}/${file}`;
+  return {
+    templates: library.templates.map((f) => (f.file ? { ...f, file: inDir(f.file) } : f)),
+    invalid: library.invalid.map((entry) => ({ ...entry, file: inDir(entry.file) })),
+  };
+}
+
+/** Look up a fragment by name. */
+export function findFragment(name: string): RegisteredTemplate | undefined {
+  return listFragments().templates.find((fragment) => fragment.name === name);
+}
+
+/**
+ * Save a fragment under its name — as `fragments/<name>.json` in the
+ * templates directory when one is configured, else for this session.
+ * An existing fragment of the same name is only replaced with `overwrite`.
+ */
+export function saveFragment(fragment: FormTemplate, overwrite = false): RegisteredTemplate {
+  if (!/^[\w-]+$/.test(fragment.name)) {
+    throw new Error(
+      `Invalid fragment name "${fragment.name}": use letters, digits, "-" and "_" only`
+    );
+  }
+  if (!overwrite && findFragment(fragment.name)) {
+    throw new Error(
+      `Fragment "${fragment.name}" already exists. Pass overwrite: true to replace it.`
+    );
+  }
+  if (!templatesDir) {
+    const saved: RegisteredTemplate = { ...fragment, source: 'session' };
+    sessionFragments.set(fragment.name, saved);
+    return saved;
+  }
+  const dir = join(templatesDir, FRAGMENTS_DIR_NAME);
+  const file = `${fragment.name}.json`;
+  mkdirSync(dir, { recursive: true });
+  writeFileAtomic(join(dir, file), JSON.stringify(fragment, null, 2));
+  return { ...fragment, source: 'user', file: `${FRAGMENTS_DIR_NAME}/${file}` };
+}
+
+/** Forget fragments saved for this session. */
+export function clearSessionFragments(): void {
+  sessionFragments.clear();
+}
@@ -0,0 +1,173 @@
+/**
+ * Template instantiation: parameter resolution and `${name}` substitution.
+ */
+
+import { type FormComponent, type FormOptionValue } from '../types';
+import { generateComponentId } from '../handlers/helpers';
+import { KEY_PATTERN } from '../constants';
+import { generateRowId } from '../grid-layout';
+import { type FormTemplate, type TemplateParams } from './types';
+
+const PLACEHOLDER = /\$\{(\w+)\}/g;
+const WHOLE_PLACEHOLDER = /^\$\{(\w+)\}$/;
+const FEEL_NUMBER = /^-?\d+(\.\d+)?$/;
+
+/** Properties that bind data; substituted values must give a valid key or path. */
+const BINDING_PROPERTIES = new Set(['key', 'path']);
+
+// ── Parameters ─────────────────────────────────────────────────────────────
+
+function toOptions(value: unknown, name: string): FormOptionValue[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Parameter "${name}" must be a non-empty list of options`);
+  }
+  return value.map((option) => {
+    if (typeof option === 'string') return { label: option, value: option };
+    if (typeof option?.label === 'string' && typeof option?.value === 'string') {
+      return { label: option.label, value: option.value };
+    }
+    throw new Error(
+      `Parameter "${name}" options must be strings or { label, value } objects with string values`
+    );
+  });
+}
+
+function toText(value: unknown, name: string): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  throw new Error(`Parameter "${name}" must be a string`);
+}
+
+/**
+ * Merge the given parameter values with the template defaults. Rejects
+ * unknown parameters, missing required ones and values of the wrong kind.
+ */
+export function resolveTemplateParams(
+  template: FormTemplate,
+  given: Record<string, unknown> = {}
+): TemplateParams {
+  const declared = Object.keys(template.parameters);
+  for (const name of Object.keys(given)) {
+    if (!declared.includes(name)) {
+      throw new Error(
+        `Unknown parameter "${name}" for template "${template.name}". ` +
+          `Parameters: ${declared.join(', ') || '(none)'}`
+      );
+    }
+  }
+
+  const params: TemplateParams = {};
+  for (const [name, parameter] of Object.entries(template.parameters)) {
+    const value = given[name] ?? parameter.default;
+    if (value === undefined) {
+      throw new Error(`Template "${template.name}" requires parameter "${name}"`);
+    }
+    params[name] = parameter.type === 'options' ? toOptions(value, name) : toText(value, name);
+  }
+  return params;
+}
+
+// ── Substitution ───────────────────────────────────────────────────────────
+
+/** Whether `offset` of a FEEL expression lies inside a string literal. */
+function insideStringLiteral(expression: string, offset: number): boolean {
+  let inside = false;
+  for (let i = 0; i < offset; i++) {
+    if (inside && expression[i] === '\\') i++;
+    else if (expression[i] === '"') inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * A parameter value placed into a FEEL expression: escaped inside a string
+ * literal, else it must be a name or a number.
+ */
+function feelText(expression: string, offset: number, name: string, value: string): string {
+  if (insideStringLiteral(expression, offset)) return value.replaceAll(/["\\]/g, '\\$&');
+  if (KEY_PATTERN.test(value) || FEEL_NUMBER.test(value)) return value;
+  throw new Error(
+    `Parameter "${name}" is a name in the FEEL expression "${expression}" ` +
+      `and must be a valid key or a number, got "${value}"`
+  );
+}
+
+function checkBinding(property: string, text: string, result: string): void {
+  const substituted = result !== text && result.search(PLACEHOLDER) < 0;
+  if (BINDING_PROPERTIES.has(property) && substituted && !KEY_PATTERN.test(result)) {
+    throw new Error(
+      `Template parameters give the invalid ${property} "${result}": ` +
+        'use letters, digits and "_", with "." separating nested data'
+    );
+  }
+}
+
+function substituteString(
+  text: string,
+  params: TemplateParams,
+  property: string
+): string | FormOptionValue[] {
+  const whole = WHOLE_PLACEHOLDER.exec(text);
+  const wholeValue = whole ? params[whole[1]] : undefined;
+  if (Array.isArray(wholeValue)) return wholeValue.map((option) => ({ ...option }));
+
+  const feel = text.startsWith('=');
+  const result = text.replaceAll(PLACEHOLDER, (placeholder, name: string, offset: number) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    if (Array.isArray(value)) {
+      throw new Error(`Option list parameter ${placeholder} must be a whole property value`);
+    }
+    return feel ? feelText(text, offset, name, value) : value;
+  });
+  checkBinding(property, text, result);
+  return result;
+}
+
+function substitute(value: unknown, params: TemplateParams, property = ''): unknown {
+  if (typeof value === 'string') return substituteString(value, params, property);
+  if (Array.isArray(value)) return value.map((item) => substitute(item, params, property));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, item]) => [name, substitute(item, params, name)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Give every component a fresh ID and every layout row a fresh row ID;
+ * components that shared a row in the template share the new one.
+ */
+function assignIds(components: FormComponent[], rows = new Map<string, string>()): void {
+  for (const component of components) {
+    component.id = generateComponentId(component.type, component.label);
+    const row = component.layout?.row;
+    if (row) {
+      if (!rows.has(row)) rows.set(row, generateRowId());
+      component.layout!.row = rows.get(row);
+    }
+    if (component.components) assignIds(component.components, rows);
+  }
+}
+
+/** Names of all `${name}` placeholders used by a template's components. */
+export function templatePlaceholders(template: FormTemplate): string[] {
+  const text = JSON.stringify(template.components);
+  return [...new Set([...text.matchAll(PLACEHOLDER)].map((match) => match[1]))];
+}
+
+/**
+ * Build the components of a template with the given parameter values.
+ * Placeholders of undeclared parameters are left as they are. Every
+ * component and layout row gets a fresh ID.
+ */
+export function instantiateTemplate(
+  template: FormTemplate,
+  given?: Record<string, unknown>
+): FormComponent[] {
+  const params = resolveTemplateParams(template, given);
+  const components = substitute(template.components, params) as FormComponent[];
+  assignIds(components);
+  return components;
+}
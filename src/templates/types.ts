@@ -0,0 +1,47 @@
+/**
+ * Types of the form template library.
+ *
+ * A template is a list of components whose strings may contain `${name}`
+ * placeholders for its declared parameters. A placeholder that makes up a
+ * whole string value is replaced by the parameter value as is, so an
+ * `options` parameter can stand for a complete option list
+ * (`"values": "${choices}"`). In FEEL expressions, values are escaped inside
+ * string literals and must be names or numbers elsewhere; substituted
+ * `key` and `path` values must be valid keys.
+ */
+
+import { type FormComponent, type FormOptionValue } from '../types';
+
+/** A value-substituting parameter of a template. */
+export interface TemplateParameter {
+  description: string;
+  /** `text` (default) substitutes into strings; `options` stands for an option list. */
+  type?: 'text' | 'options';
+  /** Value used when the parameter is not given. Parameters without a default are required. */
+  default?: string | FormOptionValue[];
+}
+
+/** A template component: like a form component, but option lists may be placeholders. */
+export type TemplateComponent = Omit<FormComponent, 'values' | 'components'> & {
+  values?: FormOptionValue[] | string;
+  components?: TemplateComponent[];
+};
+
+export interface FormTemplate {
+  /** Unique name (`create_form` `template`, `add_form_component` `fragment`). */
+  name: string;
+  description: string;
+  parameters: Record<string, TemplateParameter>;
+  components: TemplateComponent[];
+}
+
+/** A template or fragment in the library, with where it came from. */
+export interface RegisteredTemplate extends FormTemplate {
+  /** `session`: fragment saved while no templates directory is configured. */
+  source: 'built-in' | 'user' | 'session';
+  /** File the template was loaded from (user templates). */
+  file?: string;
+}
+
+/** Resolved parameter values: strings for `text`, option lists for `options`. */
+export type TemplateParams = Record<string, string | FormOptionValue[]>;
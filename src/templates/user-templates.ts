@@ -0,0 +1,95 @@
+/**
+ * Loading of user templates from a directory.
+ *
+ * Two file kinds are recognised:
+ *   - `<name>.json` — a template definition
+ *     (`{ name?, description?, parameters?, components }`)
+ *   - `<name>.form` — a plain form-js schema, used as a template without
+ *     parameters
+ *
+ * The template name defaults to the file name without extension. Files
+ * that cannot be read, or templates using undeclared `${name}`
+ * placeholders, are reported instead of loaded.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, extname, join } from 'node:path';
+import { type RegisteredTemplate, type TemplateParameter } from './types';
+import { templatePlaceholders } from './instantiate';
+
+/** A file in the templates directory that could not be loaded. */
+export interface InvalidTemplateFile {
+  file: string;
+  reason: string;
+}
+
+export interface UserTemplates {
+  templates: RegisteredTemplate[];
+  invalid: InvalidTemplateFile[];
+}
+
+const TEMPLATE_EXTENSIONS = new Set(['.json', '.form']);
+
+function parseParameters(raw: unknown): Record<string, TemplateParameter> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('"parameters" must be an object');
+  }
+  const parameters: Record<string, TemplateParameter> = {};
+  for (const [name, value] of Object.entries(raw as Record<string, any>)) {
+    if (!/^\w+$/.test(name)) throw new Error(`Invalid parameter name "${name}"`);
+    const type = value?.type ?? 'text';
+    if (type !== 'text' && type !== 'options') {
+      throw new Error(`Parameter "${name}" has unknown type "${type}"`);
+    }
+    parameters[name] = {
+      description: typeof value?.description === 'string' ? value.description : '',
+      type,
+      ...(value?.default === undefined ? {} : { default: value.default }),
+    };
+  }
+  return parameters;
+}
+
+function parseTemplateFile(file: string, raw: any): RegisteredTemplate {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.components)) {
+    throw new Error('Expected an object with a "components" array');
+  }
+  const isForm = extname(file) === '.form';
+  const template: RegisteredTemplate = {
+    name: !isForm && typeof raw.name === 'string' ? raw.name : basename(file, extname(file)),
+    description: typeof raw.description === 'string' ? raw.description : '',
+    parameters: isForm ? {} : parseParameters(raw.parameters),
+    components: raw.components,
+    source: 'user',
+    file,
+  };
+  if (isForm) return template;
+  const undeclared = templatePlaceholders(template).filter(
+    (name) => !(name in template.parameters)
+  );
+  if (undeclared.length > 0) {
+    throw new Error(`Undeclared parameter(s): ${undeclared.join(', ')}`);
+  }
+  return template;
+}
+
+/** Load all templates in `dir`. A missing directory has no templates. */
+export function loadUserTemplates(dir: string): UserTemplates {
+  const result: UserTemplates = { templates: [], invalid: [] };
+  if (!existsSync(dir)) return result;
+
+  for (const file of readdirSync(dir).sort()) {
+    if (!TEMPLATE_EXTENSIONS.has(extname(file))) continue;
+    try {
+      const raw = JSON.parse(readFileSync(join(dir, file), 'utf-8'));
+      result.templates.push(parseTemplateFile(file, raw));
+    } catch (error) {
+      result.invalid.push({
+        file,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return result;
+}
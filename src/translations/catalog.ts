@@ -0,0 +1,182 @@
+/**
+ * Translation catalogs for forms.
+ *
+ * Every user-facing string of a form — labels, descriptions, option
+ * labels, text blocks and validation messages — becomes a message with a
+ * stable ID built from the component ID and the property
+ * (`Textfield_1.label`, `Select_1.values.approved.label`). A catalog pairs
+ * each message's source text with its translation; because it keeps the
+ * source text, a catalog can tell which translations went stale after the
+ * source form changed. Strings of components without an ID have no stable
+ * message ID; they are reported as `unaddressable` instead.
+ */
+
+import { type FormComponent, type FormOptionValue, type FormSchema } from '../types';
+
+export interface TranslationMessage {
+  /**
+   * `<componentId>.<property>`; option labels use `<componentId>.values.<value>.label`
+   * (`values.<value>[n].label` for the n-th repeat of an option value).
+   */
+  id: string;
+  /** Source text the translation was made for. */
+  source: string;
+  translation?: string;
+  /** The source text changed since translating; the translation needs review. */
+  stale?: boolean;
+}
+
+export interface TranslationCatalog {
+  sourceLocale: string;
+  targetLocale?: string;
+  /** Schema ID of the form the catalog was extracted from. */
+  form?: string;
+  messages: TranslationMessage[];
+}
+
+export interface StaleTranslation {
+  id: string;
+  /** Current source text in the form. */
+  source: string;
+  /** Source text the translation was made for. */
+  catalogSource: string;
+}
+
+export interface TranslationReport {
+  translated: number;
+  /** Messages of the form without a translation. */
+  missing: string[];
+  /** Translations made for a different source text (or flagged for review). */
+  stale: StaleTranslation[];
+  /** Catalog messages whose string no longer exists in the form. */
+  obsolete: string[];
+  /** Strings of components without an ID, by position (`components[2].text`); not translated. */
+  unaddressable: string[];
+}
+
+interface TranslatableString {
+  id: string;
+  text: string;
+  set: (text: string) => void;
+}
+
+interface CollectedStrings {
+  strings: TranslatableString[];
+  unaddressable: string[];
+}
+
+/** Property names of option labels; repeated option values get an `[n]` suffix. */
+function optionProperties(values: FormOptionValue[]): string[] {
+  const seen = new Map<string, number>();
+  return values.map((option) => {
+    const value = String(option.value);
+    const count = seen.get(value) ?? 0;
+    seen.set(value, count + 1);
+    return `values.${value}${count > 0 ? `[${count}]` : ''}.label`;
+  });
+}
+
+function collectStrings(components: FormComponent[], out: CollectedStrings, at: string): void {
+  components.forEach((comp, index) => {
+    const position = `${at}[${index}]`;
+    const add = (property: string, text: unknown, set: (text: string) => void) => {
+      if (typeof text !== 'string' || !text.trim() || text.startsWith('=')) return;
+      if (comp.id) out.strings.push({ id: `${comp.id}.${property}`, text, set });
+      else out.unaddressable.push(`${position}.${property}`);
+    };
+    add('label', comp.label, (text) => (comp.label = text));
+    add('description', comp.description, (text) => (comp.description = text));
+    if (comp.type === 'text') add('text', comp.text, (text) => (comp.text = text));
+    add('validate.validationError', comp.validate?.validationError, (text) => {
+      comp.validate!.validationError = text;
+    });
+    const values: FormOptionValue[] = Array.isArray(comp.values) ? comp.values : [];
+    optionProperties(values).forEach((property, i) => {
+      add(property, values[i].label, (text) => (values[i].label = text));
+    });
+    if (comp.components) collectStrings(comp.components, out, `${position}.components`);
+  });
+}
+
+function collect(schema: FormSchema): CollectedStrings {
+  const out: CollectedStrings = { strings: [], unaddressable: [] };
+  collectStrings(schema.components ?? [], out, 'components');
+  return out;
+}
+
+function stringsOf(schema: FormSchema): TranslatableString[] {
+  return collect(schema).strings;
+}
+
+/** Strings of components without an ID, which catalogs cannot address. */
+export function unaddressableStrings(schema: FormSchema): string[] {
+  return collect(schema).unaddressable;
+}
+
+/**
+ * Build a catalog of the form's strings. Translations of an earlier
+ * catalog are carried over; those whose source text changed are kept but
+ * flagged `stale`.
+ */
+export function buildCatalog(
+  schema: FormSchema,
+  locales: { sourceLocale: string; targetLocale?: string },
+  previous?: TranslationCatalog
+): TranslationCatalog {
+  const known = new Map(previous?.messages.map((message) => [message.id, message]));
+  const messages = stringsOf(schema).map(({ id, text }): TranslationMessage => {
+    const earlier = known.get(id);
+    if (!earlier?.translation) return { id, source: text };
+    const stale = earlier.stale || earlier.source !== text;
+    return { id, source: text, translation: earlier.translation, ...(stale ? { stale } : {}) };
+  });
+  return {
+    sourceLocale: locales.sourceLocale,
+    ...(locales.targetLocale ? { targetLocale: locales.targetLocale } : {}),
+    ...(schema.id ? { form: schema.id } : {}),
+    messages,
+  };
+}
+
+/** Compare a catalog with the current strings of a form. */
+export function compareCatalog(schema: FormSchema, catalog: TranslationCatalog): TranslationReport {
+  const known = new Map(catalog.messages.map((message) => [message.id, message]));
+  const { strings, unaddressable } = collect(schema);
+  const report: TranslationReport = {
+    translated: 0,
+    missing: [],
+    stale: [],
+    obsolete: [],
+    unaddressable,
+  };
+  const current = new Set<string>();
+  for (const { id, text } of strings) {
+    current.add(id);
+    const message = known.get(id);
+    if (!message?.translation) report.missing.push(id);
+    else if (message.stale || message.source !== text) {
+      report.stale.push({ id, source: text, catalogSource: message.source });
+    } else report.translated++;
+  }
+  report.obsolete = catalog.messages.map((m) => m.id).filter((id) => !current.has(id));
+  return report;
+}
+
+/**
+ * Produce a localized copy of a schema. Missing and stale translations
+ * keep the source text; the report lists them.
+ */
+export function applyCatalog(
+  schema: FormSchema,
+  catalog: TranslationCatalog
+): { schema: FormSchema; report: TranslationReport } {
+  const report = compareCatalog(schema, catalog);
+  const skipped = new Set([...report.missing, ...report.stale.map((entry) => entry.id)]);
+  const known = new Map(catalog.messages.map((message) => [message.id, message]));
+  const localized: FormSchema = JSON.parse(JSON.stringify(schema));
+  for (const { id, set } of stringsOf(localized)) {
+    const translation = known.get(id)?.translation;
+    if (translation && !skipped.has(id)) set(translation);
+  }
+  return { schema: localized, report };
+}
@@ -0,0 +1,260 @@
+/**
+ * Catalog file formats: JSON, gettext PO and XLIFF 1.2.
+ *
+ * - JSON: `{ sourceLocale, targetLocale, form, messages: { <id>: { source, translation, stale? } } }`
+ * - PO: one entry per message with the message ID as `msgctxt`; stale
+ *   translations are marked `#, fuzzy`
+ * - XLIFF 1.2: one `trans-unit` per message; stale translations carry
+ *   `state="needs-review-translation"`
+ */
+
+import { type TranslationCatalog, type TranslationMessage } from './catalog';
+
+export type CatalogFormat = 'json' | 'po' | 'xliff';
+
+export const CATALOG_FORMATS: readonly CatalogFormat[] = ['json', 'po', 'xliff'];
+
+// ── JSON ───────────────────────────────────────────────────────────────────
+
+function toJson(catalog: TranslationCatalog): string {
+  const messages = Object.fromEntries(
+    catalog.messages.map((m) => [
+      m.id,
+      { source: m.source, translation: m.translation ?? '', ...(m.stale ? { stale: true } : {}) },
+    ])
+  );
+  return JSON.stringify({ ...catalog, messages }, null, 2);
+}
+
+function fromJson(raw: unknown): TranslationCatalog {
+  let data: any = raw;
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      throw new Error('Invalid JSON translation catalog');
+    }
+  }
+  if (!data || typeof data.messages !== 'object' || Array.isArray(data.messages)) {
+    throw new Error('JSON translation catalog must have a "messages" object');
+  }
+  const messages = Object.entries<any>(data.messages).map(([id, entry]): TranslationMessage => {
+    if (typeof entry?.source !== 'string') {
+      throw new Error(`Message "${id}" of the translation catalog has no "source" text`);
+    }
+    return message(id, entry.source, entry.translation, entry.stale === true);
+  });
+  return {
+    sourceLocale: data.sourceLocale ?? 'en',
+    ...(data.targetLocale ? { targetLocale: data.targetLocale } : {}),
+    ...(data.form ? { form: data.form } : {}),
+    messages,
+  };
+}
+
+function message(id: string, source: string, translation: unknown, stale: boolean) {
+  return {
+    id,
+    source,
+    ...(typeof translation === 'string' && translation ? { translation } : {}),
+    ...(stale ? { stale } : {}),
+  };
+}
+
+// ── PO ─────────────────────────────────────────────────────────────────────
+
+const PO_ESCAPES: Record<string, string> = { '\\': '\\\\', '"': '\\"', '\n': '\\n', '\t': '\\t' };
+
+function poQuote(text: string): string {
+  return `"${text.replaceAll(/[\\"\n\t]/g, (char) => PO_ESCAPES[char])}"`;
+}
+
+function poUnquote(quoted: string): string {
+  return quoted
+    .slice(1, -1)
+    .replaceAll(/\\(.)/g, (_, char: string) => ({ n: '\n', t: '\t' })[char] ?? char);
+}
+
+function toPo(catalog: TranslationCatalog): string {
+  const headers = [
+    ...(catalog.targetLocale ? [`Language: ${catalog.targetLocale}`] : []),
+    `X-Source-Language: ${catalog.sourceLocale}`,
+    ...(catalog.form ? [`X-Form: ${catalog.form}`] : []),
+    'Content-Type: text/plain; charset=UTF-8',
+  ];
+  const header = ['msgid ""', 'msgstr ""', ...headers.map((h) => poQuote(`${h}\n`))].join('\n');
+  const entries = catalog.messages.map((m) =>
+    [
+      ...(m.stale ? ['#, fuzzy'] : []),
+      `msgctxt ${poQuote(m.id)}`,
+      `msgid ${poQuote(m.source)}`,
+      `msgstr ${poQuote(m.translation ?? '')}`,
+    ].join('\n')
+  );
+  return `${[header, ...entries].join('\n\n')}\n`;
+}
+
+interface PoEntry {
+  fuzzy: boolean;
+  fields: Record<string, string>;
+}
+
+function parsePoEntries(raw: string): PoEntry[] {
+  const entries: PoEntry[] = [];
+  let entry: PoEntry | undefined;
+  let field: string | undefined;
+  for (const line of raw.split(/\r?\n/).map((l) => l.trim())) {
+    if (!line) {
+      entry = undefined;
+      continue;
+    }
+    if (!entry) {
+      entry = { fuzzy: false, fields: {} };
+      entries.push(entry);
+    }
+    const keyword = /^(msgctxt|msgid|msgstr)\s+(".*")$/.exec(line);
+    if (line.startsWith('#,')) entry.fuzzy ||= line.includes('fuzzy');
+    else if (keyword) {
+      field = keyword[1];
+      entry.fields[field] = poUnquote(keyword[2]);
+    } else if (line.startsWith('"') && field) entry.fields[field] += poUnquote(line);
+  }
+  return entries;
+}
+
+function fromPo(raw: string): TranslationCatalog {
+  const catalog: TranslationCatalog = { sourceLocale: 'en', messages: [] };
+  for (const { fuzzy, fields } of parsePoEntries(raw)) {
+    if (fields.msgid === '' && fields.msgctxt === undefined) {
+      const headers = Object.fromEntries(
+        (fields.msgstr ?? '')
+          .split('\n')
+          .map((h) => h.split(/:\s*/, 2))
+          .filter((pair) => pair.length === 2)
+      );
+      if (headers.Language) catalog.targetLocale = headers.Language;
+      if (headers['X-Source-Language']) catalog.sourceLocale = headers['X-Source-Language'];
+      if (headers['X-Form']) catalog.form = headers['X-Form'];
+    } else if (fields.msgid !== undefined) {
+      if (!fields.msgctxt) {
+        throw new Error(`PO entry "${fields.msgid}" has no msgctxt with its message ID`);
+      }
+      catalog.messages.push(message(fields.msgctxt, fields.msgid, fields.msgstr, fuzzy));
+    }
+  }
+  return catalog;
+}
+
+// ── XLIFF 1.2 ──────────────────────────────────────────────────────────────
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+function xmlEscape(text: string): string {
+  return text.replaceAll(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+}
+
+function xmlUnescape(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+  return text.replaceAll(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(Number.parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) return String.fromCodePoint(Number(name.slice(1)));
+    return named[name] ?? entity;
+  });
+}
+
+function toXliff(catalog: TranslationCatalog): string {
+  const attrs = [
+    `original="${xmlEscape(catalog.form ?? 'form')}"`,
+    `source-language="${xmlEscape(catalog.sourceLocale)}"`,
+    ...(catalog.targetLocale ? [`target-language="${xmlEscape(catalog.targetLocale)}"`] : []),
+    'datatype="plaintext"',
+  ];
+  const units = catalog.messages.map((m) => {
+    const state = m.stale ? ' state="needs-review-translation"' : '';
+    const target =
+      m.translation === undefined
+        ? ''
+        : `\n        <target${state}>${xmlEscape(m.translation)}</target>`;
+    return (
+      `      <trans-unit id="${xmlEscape(m.id)}">\n` +
+      `        <source>${xmlEscape(m.source)}</source>${target}\n` +
+      '      </trans-unit>'
+    );
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+    `  <file ${attrs.join(' ')}>`,
+    '    <body>',
+    ...units,
+    '    </body>',
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n');
+}
+
+function xmlAttribute(attrs: string, name: string): string | undefined {
+  const match = new RegExp(`\\b${name}="([^"]*)"`).exec(attrs);
+  return match ? xmlUnescape(match[1]) : undefined;
+}
+
+function fromXliff(raw: string): TranslationCatalog {
+  const file = /<file\b([^>]*)>/.exec(raw);
+  if (!file) throw new Error('XLIFF translation catalog has no <file> element');
+  const targetLocale = xmlAttribute(file[1], 'target-language');
+  const form = xmlAttribute(file[1], 'original');
+  const catalog: TranslationCatalog = {
+    sourceLocale: xmlAttribute(file[1], 'source-language') ?? 'en',
+    ...(targetLocale ? { targetLocale } : {}),
+    ...(form ? { form } : {}),
+    messages: [],
+  };
+  for (const unit of raw.matchAll(/<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g)) {
+    const id = xmlAttribute(unit[1], 'id');
+    const source = /<source\b[^>]*>([\s\S]*?)<\/source>/.exec(unit[2]);
+    if (!id || !source) throw new Error('XLIFF trans-unit needs an id and a <source>');
+    const target = /<target\b([^>]*?)(?:\/>|>([\s\S]*?)<\/target>)/.exec(unit[2]);
+    const stale = target ? xmlAttribute(target[1], 'state') === 'needs-review-translation' : false;
+    const translation = target?.[2] === undefined ? undefined : xmlUnescape(target[2]);
+    catalog.messages.push(message(id, xmlUnescape(source[1]), translation, stale));
+  }
+  return catalog;
+}
+
+// ── Entry points ───────────────────────────────────────────────────────────
+
+/** Serialize a catalog in the given format. */
+export function formatCatalog(catalog: TranslationCatalog, format: CatalogFormat): string {
+  switch (format) {
+    case 'json':
+      return toJson(catalog);
+    case 'po':
+      return toPo(catalog);
+    case 'xliff':
+      return toXliff(catalog);
+  }
+}
+
+/** Detect the format of a serialized catalog (objects are JSON). */
+export function detectCatalogFormat(raw: unknown): CatalogFormat {
+  if (typeof raw !== 'string') return 'json';
+  const start = raw.trimStart();
+  if (start.startsWith('{')) return 'json';
+  return start.startsWith('<') ? 'xliff' : 'po';
+}
+
+/** Parse a catalog in the given (or detected) format. */
+export function parseCatalog(raw: unknown, format = detectCatalogFormat(raw)): TranslationCatalog {
+  if (format === 'json') return fromJson(raw);
+  if (typeof raw !== 'string') throw new Error(`A ${format} catalog must be a string`);
+  return format === 'po' ? fromPo(raw) : fromXliff(raw);
+}
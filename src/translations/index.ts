@@ -0,0 +1,26 @@
+/**
+ * Form translations — barrel.
+ *
+ * `buildCatalog` extracts the translatable strings of a form,
+ * `formatCatalog` / `parseCatalog` convert catalogs to and from JSON, PO
+ * and XLIFF, and `applyCatalog` produces a localized copy of a form,
+ * reporting missing and stale translations.
+ */
+
+export {
+  type TranslationCatalog,
+  type TranslationMessage,
+  type TranslationReport,
+  type StaleTranslation,
+  buildCatalog,
+  compareCatalog,
+  applyCatalog,
+  unaddressableStrings,
+} from './catalog';
+export {
+  type CatalogFormat,
+  CATALOG_FORMATS,
+  formatCatalog,
+  parseCatalog,
+  detectCatalogFormat,
+} from './formats';
@@ -18,10 +18,11 @@ export type HintLevel = 'none' | 'minimal' | 'full';
 /** Validation rules for a form component. */
 export interface FormValidation {
   required?: boolean;
-  minLength?: number;
-  maxLength?: number;
-  min?: number;
-  max?: number;
+  /** Length and value limits: a number, or a FEEL expression (`=…`). */
+  minLength?: number | string;
+  maxLength?: number | string;
+  min?: number | string;
+  max?: number | string;
   pattern?: string;
   patternErrorMessage?: string;
   validationType?: 'email' | 'phone';
@@ -90,6 +91,19 @@ export interface FormSchema {
 
 // ── Form state ─────────────────────────────────────────────────────────────
 
+/**
+ * Undo/redo history for a form. Snapshots are serialized schemas so they
+ * are cheap to compare and cannot be mutated through shared references.
+ */
+export interface FormHistory {
+  /** Snapshots of earlier states, oldest first. */
+  undo: string[];
+  /** Snapshots of undone states, most recently undone last. */
+  redo: string[];
+  /** Snapshot of the last recorded state. */
+  current?: string;
+}
+
 /** State for a single in-memory form. */
 export interface FormState {
   schema: FormSchema;
@@ -103,6 +117,26 @@ export interface FormState {
   hintLevel?: HintLevel;
   /** Monotonically increasing version counter, bumped on each mutation. */
   version?: number;
+  /** Undo/redo snapshots (see `history.ts`). */
+  history?: FormHistory;
+  /** Set when an external edit of the persisted file conflicted with in-memory changes. */
+  externalConflict?: ExternalConflict;
+}
+
+/**
+ * An external edit of a persisted `.form` file made while the in-memory
+ * form had changes that were not on disk yet. The in-memory form wins; the
+ * external edit is kept as a backup revision.
+ */
+export interface ExternalConflict {
+  /** ISO timestamp of the detection. */
+  detectedAt: string;
+  /** In-memory version that was kept. */
+  version: number;
+  /** Version the file was last in sync with. */
+  syncedVersion: number;
+  /** Backup file holding the external edit, relative to the persistence directory. */
+  preservedAs?: string;
 }
 
 /** Shape of the JSON returned by tool handlers that wrap results. */
@@ -1,18 +1,33 @@
 /**
  * Form schema validation — semantic checks beyond JSON Schema.
  *
- * Checks: duplicate keys, duplicate IDs, missing keys on keyed types,
- * invalid field types, and structural issues.
+ * Checks: duplicate keys and overlapping data paths (scope-aware, see
+ * `data-binding.ts`), duplicate IDs, missing keys on keyed types, invalid
+ * field types, FEEL expression syntax, unknown or mistyped properties (see
+ * `property-registry.ts`), grid rows that do not fit or are split (see
+ * `grid-layout.ts`), circular, self-dependent, contradicting and constant
+ * conditional logic (see `conditional-logic.ts`), structural issues, and
+ * compatibility with the target execution platform.
  */
 
 import { type FormSchema, type FormComponent } from './types';
 import { SUPPORTED_FIELD_TYPES, KEYED_FIELD_TYPES } from './constants';
+import { checkFeelProperty, isFeelExpression } from './feel';
+import { checkPlatformCompatibility } from './platform-compat';
+import { checkComponentProperties } from './property-registry';
+import { checkGridLayout } from './grid-layout';
+import { checkConditionalLogic } from './conditional-logic';
+import { resolveBindings, enclosingPaths, type DataBinding } from './data-binding';
 
 export interface ValidationIssue {
   severity: 'error' | 'warning';
   componentId?: string;
   message: string;
   suggestion?: string;
+  /** Property path the issue refers to (e.g. `conditional.hide`). */
+  property?: string;
+  /** Character offset into the property value (FEEL diagnostics). */
+  offset?: number;
 }
 
 export interface ValidationResult {
@@ -72,28 +87,123 @@ function checkKeyPresence(comp: FormComponent): ValidationIssue | undefined {
   return undefined;
 }
 
-function checkDuplicateKey(
-  comp: FormComponent,
-  seenKeys: Map<string, string>
-): ValidationIssue | undefined {
-  if (!comp.key) return undefined;
-  const existing = seenKeys.get(comp.key);
-  if (existing) {
-    return {
+function bindingOwner(binding: DataBinding): string {
+  return binding.componentId ?? binding.type;
+}
+
+/** Keyed fields that bind the same full data path. */
+function checkDuplicateKeys(bindings: DataBinding[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const seen = new Map<string, DataBinding>();
+  for (const binding of bindings) {
+    if (binding.kind !== 'key') continue;
+    const existing = seen.get(binding.path);
+    if (!existing) {
+      seen.set(binding.path, binding);
+      continue;
+    }
+    const scoped = binding.path === binding.name ? '' : ` (data path "${binding.path}")`;
+    issues.push({
       severity: 'error',
-      componentId: comp.id,
-      message: `Duplicate key "${comp.key}" on ${comp.id ?? comp.type} (also at ${existing})`,
-      suggestion: 'Each keyed component must have a unique key',
-    };
+      componentId: binding.componentId,
+      message:
+        `Duplicate key "${binding.name}"${scoped} on ${bindingOwner(binding)} ` +
+        `(also at ${bindingOwner(existing)})`,
+      suggestion:
+        'Each keyed component must bind a unique data path — rename the key or move it into ' +
+        'a group with its own path',
+    });
   }
-  seenKeys.set(comp.key, comp.id ?? comp.type);
-  return undefined;
+  return issues;
+}
+
+/** Bindings nested inside a path that a keyed field binds as a plain value. */
+function checkPathConflicts(bindings: DataBinding[]): ValidationIssue[] {
+  const values = new Map<string, DataBinding>();
+  for (const binding of bindings) {
+    if (binding.kind === 'key' && !values.has(binding.path)) values.set(binding.path, binding);
+  }
+  const issues: ValidationIssue[] = [];
+  for (const binding of bindings) {
+    const candidates = enclosingPaths(binding.path);
+    if (binding.kind === 'path') candidates.push(binding.path);
+    const owner = candidates.map((path) => values.get(path)).find(Boolean);
+    if (!owner) continue;
+    issues.push({
+      severity: 'error',
+      componentId: binding.componentId,
+      message:
+        `Data path "${binding.path}" of ${bindingOwner(binding)} overlaps the value ` +
+        `"${owner.path}" bound by ${bindingOwner(owner)}`,
+      suggestion: 'Rename the key or the group path so values and nested data do not overlap',
+    });
+  }
+  return issues;
+}
+
+/** Properties that must always hold a FEEL expression. */
+const FEEL_ONLY_PROPERTIES = ['conditional.hide', 'valuesExpression'];
+
+/** Properties that may optionally hold a `=`-prefixed FEEL expression. */
+const FEEL_CAPABLE_PROPERTIES = [
+  'label',
+  'description',
+  'text',
+  'source',
+  'alt',
+  'url',
+  'title',
+  'readonly',
+  'disabled',
+  'dataSource',
+];
+
+function readProperty(comp: FormComponent, path: string): unknown {
+  return path.split('.').reduce<any>((obj, part) => obj?.[part], comp);
+}
+
+function checkFeelValue(comp: FormComponent, property: string, value: string): ValidationIssue[] {
+  return checkFeelProperty(value).map((d) => ({
+    severity: d.severity,
+    componentId: comp.id,
+    property,
+    offset: d.offset,
+    message: `FEEL ${d.severity === 'error' ? 'error' : 'warning'} in ${property} of ${comp.id ?? comp.type}: ${d.message}`,
+    suggestion: d.suggestion ?? 'Fix the FEEL expression syntax',
+  }));
+}
+
+function checkFeelExpressions(comp: FormComponent): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const required =
+    comp.type === 'expression' ? [...FEEL_ONLY_PROPERTIES, 'expression'] : FEEL_ONLY_PROPERTIES;
+
+  for (const property of required) {
+    const value = readProperty(comp, property);
+    if (value === undefined || value === null || value === '') continue;
+    if (isFeelExpression(value)) {
+      issues.push(...checkFeelValue(comp, property, value));
+    } else {
+      issues.push({
+        severity: 'warning',
+        componentId: comp.id,
+        property,
+        message: `${property} of ${comp.id ?? comp.type} is not a FEEL expression and will be ignored`,
+        suggestion: 'Prefix the expression with "=" (e.g. "=amount > 100")',
+      });
+    }
+  }
+
+  for (const property of FEEL_CAPABLE_PROPERTIES) {
+    const value = readProperty(comp, property);
+    if (isFeelExpression(value)) issues.push(...checkFeelValue(comp, property, value));
+  }
+  return issues;
 }
 
 function walkComponents(
   components: FormComponent[],
   issues: ValidationIssue[],
-  seenKeys: Map<string, string>,
   seenIds: Map<string, string>,
   parentPath: string
 ): void {
@@ -110,11 +220,11 @@ function walkComponents(
     const keyPresenceIssue = checkKeyPresence(comp);
     if (keyPresenceIssue) issues.push(keyPresenceIssue);
 
-    const keyDupIssue = checkDuplicateKey(comp, seenKeys);
-    if (keyDupIssue) issues.push(keyDupIssue);
+    issues.push(...checkFeelExpressions(comp));
+    issues.push(...checkComponentProperties(comp));
 
     if (comp.components && Array.isArray(comp.components)) {
-      walkComponents(comp.components, issues, seenKeys, seenIds, `${path}.components`);
+      walkComponents(comp.components, issues, seenIds, `${path}.components`);
     }
   }
 }
@@ -122,7 +232,6 @@ function walkComponents(
 /** Validate a form schema with semantic checks. */
 export function validateFormSchema(schema: FormSchema): ValidationResult {
   const issues: ValidationIssue[] = [];
-  const seenKeys = new Map<string, string>();
   const seenIds = new Map<string, string>();
 
   if (!schema) {
@@ -138,7 +247,12 @@ export function validateFormSchema(schema: FormSchema): ValidationResult {
     return { valid: false, issues };
   }
 
-  walkComponents(schema.components, issues, seenKeys, seenIds, 'components');
+  walkComponents(schema.components, issues, seenIds, 'components');
+  const bindings = resolveBindings(schema.components);
+  issues.push(...checkDuplicateKeys(bindings), ...checkPathConflicts(bindings));
+  issues.push(...checkGridLayout(schema.components));
+  issues.push(...checkConditionalLogic(schema));
+  issues.push(...checkPlatformCompatibility(schema));
 
   const hasErrors = issues.some((i) => i.severity === 'error');
   return { valid: !hasErrors, issues };
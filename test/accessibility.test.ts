@@ -0,0 +1,117 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { checkAccessibility, headingLevels, setAccessibilityHints } from '../src/accessibility';
+import { collectValidationHints } from '../src/handlers/helpers';
+import { type FormComponent } from '../src/types';
+import { createForm } from './helpers';
+
+const check = (components: FormComponent[]) => checkAccessibility({ type: 'default', components });
+
+describe('accessibility', () => {
+  afterEach(() => {
+    setAccessibilityHints(false);
+  });
+
+  test('passes a labelled form', () => {
+    expect(
+      check([
+        { type: 'text', id: 't', text: '# Request\n\n## Details' },
+        { type: 'textfield', id: 'name', key: 'name', label: 'Name' },
+        { type: 'image', id: 'logo', source: 'logo.png', alt: '' },
+        { type: 'iframe', id: 'map', url: 'https://example.com', title: 'Map' },
+        { type: 'button', id: 'submit', label: 'Submit', action: 'submit' },
+      ])
+    ).toEqual([]);
+  });
+
+  test('flags fields without a label or with a blank one', () => {
+    const issues = check([
+      { type: 'textfield', id: 'a', key: 'a' },
+      { type: 'checkbox', id: 'b', key: 'b', label: '  ' },
+      { type: 'expression', id: 'c', key: 'c', expression: '=1' },
+    ]);
+    expect(issues).toEqual([
+      {
+        severity: 'error',
+        componentId: 'a',
+        rule: 'field-label',
+        wcag: '3.3.2 Labels or Instructions (A)',
+        property: 'label',
+        message: 'textfield a has no label',
+        suggestion: 'Add a label that tells users what to enter',
+      },
+      expect.objectContaining({ componentId: 'b', rule: 'field-label' }),
+    ]);
+  });
+
+  test('flags images, buttons and iframes without an accessible name', () => {
+    const issues = check([
+      { type: 'image', id: 'img', source: 'a.png' },
+      { type: 'button', id: 'btn', action: 'submit' },
+      { type: 'iframe', id: 'frame', url: 'https://example.com' },
+    ]);
+    expect(issues.map((i) => [i.componentId, i.rule, i.wcag])).toEqual([
+      ['img', 'image-alt', '1.1.1 Non-text Content (A)'],
+      ['btn', 'button-label', '4.1.2 Name, Role, Value (A)'],
+      ['frame', 'iframe-title', '4.1.2 Name, Role, Value (A)'],
+    ]);
+  });
+
+  test('warns about radio groups and checklists with a single option', () => {
+    const issues = check([
+      { type: 'radio', id: 'r', key: 'r', label: 'R', values: [{ label: 'Yes', value: 'y' }] },
+      {
+        type: 'checklist',
+        id: 'c',
+        key: 'c',
+        label: 'C',
+        values: [
+          { label: 'A', value: 'a' },
+          { label: 'B', value: 'b' },
+        ],
+      },
+    ]);
+    expect(issues).toEqual([
+      expect.objectContaining({ componentId: 'r', rule: 'single-option', severity: 'warning' }),
+    ]);
+  });
+
+  test('reads heading levels from Markdown and HTML', () => {
+    expect(headingLevels({ type: 'text', text: '# A\ntext #1\n### B' })).toEqual([1, 3]);
+    expect(headingLevels({ type: 'html', content: '<H2 class="x">A</H2><h4>B</h4>' })).toEqual([
+      2, 4,
+    ]);
+    expect(headingLevels({ type: 'text', text: '="# " + title' })).toEqual([]);
+  });
+
+  test('warns about skipped heading levels across blocks and containers', () => {
+    const issues = check([
+      { type: 'text', id: 't1', text: '# Order' },
+      {
+        type: 'group',
+        id: 'g',
+        components: [{ type: 'html', id: 'h', content: '<h3>Items</h3>' }],
+      },
+      { type: 'text', id: 't2', text: '## Notes' },
+    ]);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        componentId: 'h',
+        rule: 'heading-order',
+        wcag: '1.3.1 Info and Relationships (A)',
+        message: 'h skips from heading level 1 to 3',
+      }),
+    ]);
+  });
+
+  test('adds findings to mutation hints only when enabled', () => {
+    const { form } = createForm();
+    form.schema.components = [{ type: 'textfield', id: 'a', key: 'a' }];
+    expect(collectValidationHints(form)).toEqual([]);
+    setAccessibilityHints(true);
+    expect(collectValidationHints(form)).toEqual([
+      expect.objectContaining({ componentId: 'a', rule: 'field-label' }),
+    ]);
+    form.hintLevel = 'none';
+    expect(collectValidationHints(form)).toEqual([]);
+  });
+});
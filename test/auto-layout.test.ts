@@ -0,0 +1,115 @@
+import { describe, test, expect } from 'vitest';
+import { autoLayout } from '../src/auto-layout';
+import { analyzeGridLayout } from '../src/grid-layout';
+import { type FormComponent } from '../src/types';
+
+const field = (key: string, type: FormComponent['type'] = 'textfield'): FormComponent => ({
+  type,
+  id: key,
+  key,
+});
+
+const rowsOf = (components: FormComponent[]) => {
+  const rows: string[][] = [];
+  let previous: string | undefined;
+  for (const comp of components) {
+    const row = comp.layout?.row;
+    if (row && row === previous) rows.at(-1)!.push(comp.id!);
+    else rows.push([comp.id!]);
+    previous = row;
+  }
+  return rows;
+};
+
+describe('auto-layout', () => {
+  test('two-column keeps fields that belong together on one row', () => {
+    const components = [
+      field('email'),
+      field('applicantFirstName'),
+      field('applicantLastName'),
+      field('phone'),
+    ];
+    autoLayout(components, { strategy: 'two-column', gridWidth: 16 });
+    expect(rowsOf(components)).toEqual([
+      ['email'],
+      ['applicantFirstName', 'applicantLastName'],
+      ['phone'],
+    ]);
+    expect(components[0].layout).toEqual({ columns: 16 });
+    expect(analyzeGridLayout(components)).toEqual([]);
+  });
+
+  test('compact gives an affinity group a row of its own', () => {
+    const components = [
+      field('street'),
+      field('houseNumber', 'number'),
+      field('postal_code'),
+      field('city'),
+      field('country', 'select'),
+    ];
+    autoLayout(components, { strategy: 'compact', gridWidth: 16 });
+    expect(rowsOf(components)).toEqual([
+      ['street', 'houseNumber'],
+      ['postal_code', 'city'],
+      ['country'],
+    ]);
+    expect(components.map((c) => c.layout?.columns)).toEqual([8, 5, 8, 8, 8]);
+  });
+
+  test('groups each member of an affinity group at most once', () => {
+    const components = [
+      field('netAmount'),
+      field('grossAmount'),
+      field('currency', 'select'),
+      field('photo'),
+      field('to'),
+    ];
+    autoLayout(components, { strategy: 'two-column', gridWidth: 16 });
+    expect(rowsOf(components)).toEqual([
+      ['netAmount'],
+      ['grossAmount', 'currency'],
+      ['photo', 'to'],
+    ]);
+  });
+
+  test('compact applies per-type widths and widens fields for long labels', () => {
+    const components: FormComponent[] = [
+      { ...field('agree', 'checkbox'), label: 'I agree' },
+      { ...field('reason', 'textarea'), label: 'Please describe the reason for your request' },
+      { ...field('notes', 'textarea'), label: '=notesLabel' },
+    ];
+    autoLayout(components, { strategy: 'compact', gridWidth: 16, widths: { checkbox: 6 } });
+    expect(components.map((c) => c.layout?.columns)).toEqual([6, 9, 8]);
+    expect(rowsOf(components)).toEqual([['agree', 'reason'], ['notes']]);
+  });
+
+  test('preserveExisting only lays out components without a layout', () => {
+    const components: FormComponent[] = [
+      field('a'),
+      { ...field('b'), layout: { row: 'Row_custom', columns: 10 } },
+      { ...field('c'), layout: { row: 'Row_custom', columns: 6 } },
+      field('d'),
+      field('e'),
+    ];
+    const count = autoLayout(components, {
+      strategy: 'two-column',
+      gridWidth: 16,
+      preserveExisting: true,
+    });
+    expect(count).toBe(3);
+    expect(components[0].layout).toEqual({ columns: 16 });
+    expect(components[1].layout).toEqual({ row: 'Row_custom', columns: 10 });
+    expect(rowsOf(components)).toEqual([['a'], ['b', 'c'], ['d', 'e']]);
+  });
+
+  test('lays out nested containers', () => {
+    const components: FormComponent[] = [
+      { type: 'group', id: 'g', components: [field('x'), field('y')] },
+    ];
+    expect(autoLayout(components, { strategy: 'single-column', gridWidth: 12 })).toBe(3);
+    expect(components[0].components!.map((c) => c.layout)).toEqual([
+      { columns: 12 },
+      { columns: 12 },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, test, expect } from 'vitest';
+import { checkConditionalLogic } from '../src/conditional-logic';
+import { type FormComponent } from '../src/types';
+
+const check = (components: FormComponent[]) =>
+  checkConditionalLogic({ type: 'default', components });
+
+const messages = (components: FormComponent[]) => check(components).map((i) => i.message);
+
+const group = (hide: string, components: FormComponent[]): FormComponent => ({
+  type: 'group',
+  id: 'details',
+  conditional: { hide },
+  components,
+});
+
+describe('conditional logic', () => {
+  test('reports expression fields that depend on each other', () => {
+    const issues = check([
+      { type: 'expression', id: 'net', key: 'net', expression: '=gross - tax' },
+      { type: 'expression', id: 'tax', key: 'tax', expression: '=net * 0.19' },
+      { type: 'expression', id: 'gross', key: 'gross', expression: '=amount' },
+      { type: 'expression', id: 'loop', key: 'loop', expression: '=loop + 1' },
+    ]);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        componentId: 'net',
+        property: 'expression',
+        message: 'Expression fields depend on each other in a cycle: net → tax → net',
+      }),
+      expect.objectContaining({ message: 'Expression field loop reads its own value' }),
+    ]);
+  });
+
+  test('accepts expression fields that form a chain', () => {
+    expect(
+      check([
+        { type: 'expression', id: 'a', key: 'a', expression: '=b + c' },
+        { type: 'expression', id: 'b', key: 'b', expression: '=c * 2' },
+        { type: 'expression', id: 'c', key: 'c', expression: '=amount' },
+      ])
+    ).toEqual([]);
+  });
+
+  test('reports conditions that depend on the field itself', () => {
+    expect(
+      messages([
+        { type: 'checkbox', id: 'agree', key: 'agree', conditional: { hide: '=agree' } },
+        {
+          type: 'group',
+          id: 'address',
+          path: 'address',
+          conditional: { hide: '=address.zip = null' },
+          components: [{ type: 'textfield', id: 'zip', key: 'zip' }],
+        },
+        { type: 'expression', id: 'big', key: 'big', expression: '=amount > 100' },
+        { type: 'number', id: 'amount', key: 'amount', conditional: { hide: '=big' } },
+        { type: 'number', id: 'other', key: 'other', conditional: { hide: '=amount > 1' } },
+      ])
+    ).toEqual([
+      'conditional.hide of agree depends on its own value, "agree"',
+      'conditional.hide of address depends on the value of zip inside it, "address.zip"',
+      'conditional.hide of amount depends on its own value, "amount" (through big)',
+    ]);
+  });
+
+  test('reports fields whose condition contradicts their group', () => {
+    const issues = check([
+      group('=amount < 100', [
+        {
+          type: 'textfield',
+          id: 'reason',
+          key: 'reason',
+          conditional: { hide: '=amount >= 100 or amount = null' },
+        },
+      ]),
+    ]);
+    expect(issues).toEqual([
+      {
+        severity: 'warning',
+        componentId: 'reason',
+        property: 'conditional.hide',
+        message:
+          'reason is never visible: whenever its condition "=amount >= 100 or amount = null" ' +
+          'shows it, details is hidden by "=amount < 100"',
+        suggestion: expect.stringContaining('move reason out of details'),
+      },
+    ]);
+    expect(
+      messages([
+        group('=status = "closed"', [
+          { type: 'text', id: 'note', text: 'Open', conditional: { hide: '=status != "closed"' } },
+        ]),
+      ])
+    ).toHaveLength(1);
+  });
+
+  test('accepts opposite conditions that both leave the field visible while unset', () => {
+    expect(
+      check([
+        group('=n > 5', [{ type: 'number', id: 'x', key: 'x', conditional: { hide: '=n <= 5' } }]),
+      ])
+    ).toEqual([]);
+  });
+
+  test('accepts group and field conditions that can both be false', () => {
+    expect(
+      check([
+        group('=amount < 100', [
+          { type: 'textfield', id: 'a', key: 'a', conditional: { hide: '=amount > 200' } },
+          { type: 'textfield', id: 'b', key: 'b', conditional: { hide: '=amount < 101' } },
+          { type: 'textfield', id: 'c', key: 'c', conditional: { hide: '=not(vip)' } },
+          { type: 'textfield', id: 'd', key: 'd', conditional: { hide: '=count(items) = 0' } },
+        ]),
+      ])
+    ).toEqual([]);
+  });
+
+  test('reports conditions that are always true', () => {
+    expect(
+      messages([
+        { type: 'textfield', id: 'a', key: 'a', conditional: { hide: '=true' } },
+        { type: 'textfield', id: 'b', key: 'b', conditional: { hide: '=1 < 2' } },
+        { type: 'textfield', id: 'c', key: 'c', conditional: { hide: '=false' } },
+        { type: 'textfield', id: 'd', key: 'd', conditional: { hide: '=now() > @"2020-01-01"' } },
+      ])
+    ).toEqual([
+      'conditional.hide of a is always true ("=true"), so a is never visible',
+      'conditional.hide of b is always true ("=1 < 2"), so b is never visible',
+    ]);
+  });
+
+  test('names components without an ID by their position', () => {
+    expect(
+      messages([
+        { type: 'text', text: 'A', conditional: { hide: '=true' } },
+        { type: 'text', text: 'B', conditional: { hide: '=amount > 1' } },
+        {
+          type: 'group',
+          components: [{ type: 'number', key: 'amount', conditional: { hide: '=amount > 1' } }],
+        },
+      ])
+    ).toEqual([
+      'conditional.hide of components[2].components[0] depends on its own value, "amount"',
+      'conditional.hide of components[0] is always true ("=true"), so components[0] is never visible',
+    ]);
+  });
+});
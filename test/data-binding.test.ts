@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'vitest';
+import {
+  resolveBindings,
+  scopeOfChildren,
+  scopeOfComponent,
+  enclosingPaths,
+} from '../src/data-binding';
+import { type FormComponent } from '../src/types';
+
+const components: FormComponent[] = [
+  { type: 'textfield', id: 'name', key: 'name' },
+  {
+    type: 'group',
+    id: 'customer',
+    path: 'customer',
+    components: [
+      { type: 'textfield', id: 'city', key: 'address.city' },
+      {
+        type: 'group',
+        id: 'plain',
+        components: [{ type: 'textfield', id: 'email', key: 'email' }],
+      },
+      {
+        type: 'dynamiclist',
+        id: 'orders',
+        path: 'orders',
+        components: [{ type: 'number', id: 'total', key: 'total' }],
+      },
+    ],
+  },
+];
+
+describe('resolveBindings', () => {
+  test('computes full variable paths through groups and dynamic lists', () => {
+    const paths = resolveBindings(components).map((b) => [b.kind, b.componentId, b.path]);
+    expect(paths).toEqual([
+      ['key', 'name', 'name'],
+      ['path', 'customer', 'customer'],
+      ['key', 'city', 'customer.address.city'],
+      ['key', 'email', 'customer.email'],
+      ['path', 'orders', 'customer.orders'],
+      ['key', 'total', 'customer.orders[].total'],
+    ]);
+  });
+
+  test('records the scope of each binding', () => {
+    const total = resolveBindings(components).find((b) => b.componentId === 'total')!;
+    expect(total).toMatchObject({ name: 'total', scope: 'customer.orders[]' });
+  });
+});
+
+describe('scopes', () => {
+  test('scopeOfChildren returns the scope a container opens', () => {
+    expect(scopeOfChildren(components)).toBe('');
+    expect(scopeOfChildren(components, 'customer')).toBe('customer');
+    expect(scopeOfChildren(components, 'plain')).toBe('customer');
+    expect(scopeOfChildren(components, 'orders')).toBe('customer.orders[]');
+  });
+
+  test('scopeOfComponent returns the scope a component is bound in', () => {
+    expect(scopeOfComponent(components, 'orders')).toBe('customer');
+    expect(scopeOfComponent(components, 'email')).toBe('customer');
+    expect(scopeOfComponent(components, 'missing')).toBe('');
+  });
+
+  test('enclosingPaths lists outer paths, including list arrays', () => {
+    expect(enclosingPaths('a.b[].c')).toEqual(['a', 'a.b', 'a.b[]']);
+    expect(enclosingPaths('a')).toEqual([]);
+  });
+});
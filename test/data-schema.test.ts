@@ -0,0 +1,245 @@
+import { describe, test, expect } from 'vitest';
+import { buildDataSchema, toTypeScript } from '../src/data-schema';
+import { type FormSchema, type FormComponent } from '../src/types';
+
+function schema(components: FormComponent[]): FormSchema {
+  return { type: 'default', components };
+}
+
+describe('buildDataSchema', () => {
+  test('maps field types to JSON Schema types', () => {
+    const result = buildDataSchema(
+      schema([
+        { type: 'textfield', id: 't', key: 'name', label: 'Name' },
+        { type: 'number', id: 'n', key: 'age' },
+        { type: 'checkbox', id: 'c', key: 'agree' },
+        { type: 'checklist', id: 'cl', key: 'tags' },
+        { type: 'taglist', id: 'tl', key: 'labels' },
+        { type: 'datetime', id: 'd1', key: 'due', subtype: 'date' },
+        { type: 'datetime', id: 'd2', key: 'at', subtype: 'datetime' },
+        { type: 'datetime', id: 'd3', key: 'time', subtype: 'time' },
+        { type: 'text', id: 'txt', text: 'Display only' },
+        { type: 'button', id: 'b', key: 'submit', action: 'submit' },
+      ])
+    );
+    expect(result.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(result.properties).toEqual({
+      name: { title: 'Name', type: 'string' },
+      age: { type: 'number' },
+      agree: { type: 'boolean' },
+      tags: { type: 'array', items: { type: 'string' } },
+      labels: { type: 'array', items: { type: 'string' } },
+      due: { type: 'string', format: 'date' },
+      at: { type: 'string', pattern: expect.any(String) },
+      time: { type: 'string', pattern: expect.any(String) },
+    });
+  });
+
+  test('matches the time values form-js submits', () => {
+    const result = buildDataSchema(
+      schema([
+        { type: 'datetime', id: 'd', key: 'at', subtype: 'datetime' },
+        { type: 'datetime', id: 't', key: 'time', subtype: 'time' },
+      ])
+    );
+    const time = new RegExp(result.properties!.time.pattern!);
+    const at = new RegExp(result.properties!.at.pattern!);
+    for (const value of ['14:30', '14:30Z', '14:30+02:00', '09:05-05:30']) {
+      expect(time.test(value)).toBe(true);
+      expect(at.test(`2024-03-01T${value}`)).toBe(true);
+    }
+    expect(time.test('14:30:00')).toBe(false);
+    expect(at.test('2024-03-01')).toBe(false);
+  });
+
+  test('uses static option values as enums', () => {
+    const values = [
+      { label: 'Low', value: 'low' },
+      { label: 'High', value: 'high' },
+    ];
+    const result = buildDataSchema(
+      schema([
+        { type: 'select', id: 's', key: 'priority', values },
+        { type: 'checklist', id: 'c', key: 'levels', values },
+        { type: 'radio', id: 'r', key: 'dynamic', valuesKey: 'options' },
+      ])
+    );
+    expect(result.properties!.priority).toEqual({ type: 'string', enum: ['low', 'high'] });
+    expect(result.properties!.levels.items).toEqual({ type: 'string', enum: ['low', 'high'] });
+    expect(result.properties!.dynamic).toEqual({ type: 'string' });
+  });
+
+  test('turns validate rules into constraints', () => {
+    const result = buildDataSchema(
+      schema([
+        {
+          type: 'textfield',
+          id: 'e',
+          key: 'email',
+          validate: { required: true, validationType: 'email', maxLength: 50 },
+        },
+        {
+          type: 'textfield',
+          id: 'c',
+          key: 'code',
+          validate: { pattern: '^[A-Z]{3}$', minLength: 3 },
+        },
+        { type: 'number', id: 'n', key: 'qty', validate: { required: true, min: 1, max: 10 } },
+      ])
+    );
+    expect(result.required).toEqual(['email', 'qty']);
+    expect(result.properties!.email).toEqual({ type: 'string', maxLength: 50, format: 'email' });
+    expect(result.properties!.code).toEqual({
+      type: 'string',
+      minLength: 3,
+      pattern: '^[A-Z]{3}$',
+    });
+    expect(result.properties!.qty).toEqual({ type: 'number', minimum: 1, maximum: 10 });
+  });
+
+  test('leaves FEEL limits out of the constraints', () => {
+    const result = buildDataSchema(
+      schema([
+        {
+          type: 'number',
+          id: 'n',
+          key: 'qty',
+          description: 'How many',
+          validate: { min: 1, max: '=stock' },
+        },
+        { type: 'textfield', id: 't', key: 'code', validate: { maxLength: '=codeLength' } },
+      ])
+    );
+    expect(result.properties!.qty).toEqual({
+      type: 'number',
+      minimum: 1,
+      description: 'How many. Limits set by FEEL: maximum =stock',
+    });
+    expect(result.properties!.code).toEqual({
+      type: 'string',
+      description: 'Limits set by FEEL: maxLength =codeLength',
+    });
+  });
+
+  test('nests group paths and dotted keys', () => {
+    const result = buildDataSchema(
+      schema([
+        {
+          type: 'group',
+          id: 'g',
+          label: 'Address',
+          path: 'customer.address',
+          components: [
+            { type: 'textfield', id: 'city', key: 'city', validate: { required: true } },
+          ],
+        },
+        { type: 'group', id: 'flat', components: [{ type: 'textfield', id: 'x', key: 'note' }] },
+        { type: 'textfield', id: 'y', key: 'customer.name' },
+      ])
+    );
+    const customer = result.properties!.customer;
+    expect(customer.properties!.name).toEqual({ type: 'string' });
+    expect(customer.properties!.address).toEqual({
+      type: 'object',
+      title: 'Address',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    });
+    expect(result.properties!.note).toEqual({ type: 'string' });
+  });
+
+  test('turns dynamic lists into arrays of objects', () => {
+    const result = buildDataSchema(
+      schema([
+        {
+          type: 'dynamiclist',
+          id: 'list',
+          path: 'items',
+          label: 'Items',
+          components: [
+            { type: 'textfield', id: 'd', key: 'description', validate: { required: true } },
+            { type: 'number', id: 'a', key: 'amount' },
+          ],
+        },
+      ])
+    );
+    expect(result.properties!.items).toEqual({
+      title: 'Items',
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { description: { type: 'string' }, amount: { type: 'number' } },
+        required: ['description'],
+      },
+    });
+  });
+
+  test('does not require conditionally hidden fields', () => {
+    const result = buildDataSchema(
+      schema([
+        {
+          type: 'textfield',
+          id: 'a',
+          key: 'a',
+          validate: { required: true },
+          conditional: { hide: '=b' },
+        },
+        {
+          type: 'group',
+          id: 'g',
+          conditional: { hide: '=c' },
+          components: [{ type: 'textfield', id: 'd', key: 'd', validate: { required: true } }],
+        },
+      ])
+    );
+    expect(result.required).toBeUndefined();
+  });
+});
+
+describe('toTypeScript', () => {
+  test('renders an interface with optional, enum, array and nested members', () => {
+    const data = buildDataSchema(
+      schema([
+        { type: 'textfield', id: 'n', key: 'name', label: 'Name', validate: { required: true } },
+        {
+          type: 'select',
+          id: 's',
+          key: 'priority',
+          values: [
+            { label: 'Low', value: 'low' },
+            { label: 'High', value: 'high' },
+          ],
+        },
+        { type: 'expression', id: 'e', key: 'total', expression: '=1' },
+        {
+          type: 'dynamiclist',
+          id: 'l',
+          path: 'items',
+          components: [{ type: 'number', id: 'a', key: 'amount' }],
+        },
+        { type: 'textfield', id: 'x', key: 'first-name' },
+      ])
+    );
+    expect(toTypeScript(data, 'OrderData')).toBe(
+      [
+        'export interface OrderData {',
+        '  /** Name */',
+        '  name: string;',
+        '  priority?: "low" | "high";',
+        '  readonly total?: unknown;',
+        '  items?: {',
+        '    amount?: number;',
+        '  }[];',
+        '  "first-name"?: string;',
+        '}',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('renders a type alias for forms without data', () => {
+    expect(toTypeScript(buildDataSchema(schema([])), 'EmptyData')).toBe(
+      'export type EmptyData = Record<string, never>;\n'
+    );
+  });
+});
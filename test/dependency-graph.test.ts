@@ -0,0 +1,150 @@
+import { describe, test, expect } from 'vitest';
+import { buildDependencyGraph, toDot, toMermaid } from '../src/dependency-graph';
+import { type FormComponent } from '../src/types';
+
+const graphOf = (components: FormComponent[]) =>
+  buildDependencyGraph({ type: 'default', id: 'Form_1', components });
+
+const sample: FormComponent[] = [
+  { type: 'number', id: 'amount', key: 'amount', label: 'Amount' },
+  {
+    type: 'textfield',
+    id: 'reason',
+    key: 'reason',
+    label: 'Reason',
+    conditional: { hide: '=amount < approvalLimit' },
+  },
+  { type: 'select', id: 'tier', key: 'tier', label: 'Tier', valuesKey: 'tiers' },
+];
+
+describe('dependency graph', () => {
+  test('links producing fields, reading components and process variables', () => {
+    const graph = graphOf(sample);
+    expect(graph.edges).toEqual([
+      { kind: 'produces', component: 'amount', variable: 'amount' },
+      { kind: 'produces', component: 'reason', variable: 'reason' },
+      { kind: 'produces', component: 'tier', variable: 'tier' },
+      { kind: 'reads', component: 'reason', variable: 'amount', property: 'conditional.hide' },
+      {
+        kind: 'reads',
+        component: 'reason',
+        variable: 'approvalLimit',
+        property: 'conditional.hide',
+      },
+      { kind: 'reads', component: 'tier', variable: 'tiers', property: 'valuesKey' },
+    ]);
+    expect(graph.variables.find((v) => v.path === 'amount')).toEqual({
+      path: 'amount',
+      source: 'form',
+      producedBy: ['amount'],
+      readBy: ['reason'],
+    });
+    expect(graph.processVariables).toEqual(['approvalLimit', 'tiers']);
+    expect(graph.components).toEqual([
+      { id: 'reason', type: 'textfield' },
+      { id: 'tier', type: 'select' },
+      { id: 'amount', type: 'number' },
+    ]);
+  });
+
+  test('resolves reads inside dynamic lists and templates per scope', () => {
+    const graph = graphOf([
+      {
+        type: 'dynamiclist',
+        id: 'lines',
+        path: 'lines',
+        components: [
+          { type: 'number', id: 'qty', key: 'qty', label: 'Quantity' },
+          { type: 'expression', id: 'net', key: 'net', expression: '=qty * parent.unitPrice' },
+        ],
+      },
+      { type: 'text', id: 'total', text: 'Lines: {{count(lines)}}, currency: {{currency}}' },
+    ]);
+
+    const reads = graph.edges.filter((edge) => edge.kind === 'reads');
+    expect(reads.map((edge) => `${edge.component} ${edge.variable}`)).toEqual([
+      'net lines[].qty',
+      'net unitPrice',
+      'total lines',
+      'total currency',
+    ]);
+    expect(graph.variables.find((v) => v.path === 'lines')?.producedBy).toEqual(['lines']);
+    expect(graph.processVariables).toEqual(['unitPrice', 'currency']);
+  });
+
+  test('treats reads into fields of a keyed object as produced by that field', () => {
+    const graph = graphOf([
+      { type: 'textfield', id: 'address', key: 'address.street', label: 'Street' },
+      { type: 'text', id: 'shown', text: '=address' },
+      { type: 'text', id: 'loc', text: '=location.city' },
+    ]);
+    expect(graph.variables.find((v) => v.path === 'address')?.producedBy).toEqual(['address']);
+    expect(graph.processVariables).toEqual(['location.city']);
+  });
+
+  test('skips locally bound names and unparsable expressions', () => {
+    const graph = graphOf([
+      { type: 'text', id: 'a', text: '=for x in xs return x + offset' },
+      { type: 'text', id: 'b', text: '=broken (' },
+    ]);
+    expect(graph.processVariables).toEqual(['xs', 'offset']);
+  });
+
+  test('names components without an ID by their position', () => {
+    const graph = graphOf([
+      { type: 'text', text: 'Hello {{name}}' },
+      {
+        type: 'group',
+        id: 'box',
+        components: [
+          { type: 'text', text: 'Total: {{total}}' },
+          { type: 'number', key: 'total' },
+        ],
+      },
+    ]);
+    expect(graph.components.map((c) => c.id)).toEqual([
+      'components[0]',
+      'components[1].components[0]',
+      'components[1].components[1]',
+    ]);
+    expect(graph.variables.find((v) => v.path === 'total')).toMatchObject({
+      producedBy: ['components[1].components[1]'],
+      readBy: ['components[1].components[0]'],
+    });
+  });
+
+  test('renders a Mermaid flowchart', () => {
+    expect(toMermaid(graphOf(sample))).toBe(
+      [
+        'flowchart LR',
+        '  c0["reason (textfield)"]',
+        '  c1["tier (select)"]',
+        '  c2["amount (number)"]',
+        '  v0(["amount"])',
+        '  v1(["reason"])',
+        '  v2(["tier"])',
+        '  v3(["approvalLimit"])',
+        '  v4(["tiers"])',
+        '  c2 --> v0',
+        '  c0 --> v1',
+        '  c1 --> v2',
+        '  v0 -.->|"conditional.hide"| c0',
+        '  v3 -.->|"conditional.hide"| c0',
+        '  v4 -.->|"valuesKey"| c1',
+        '  classDef process fill:#fff4e5,stroke:#f0a020,stroke-dasharray:4 2',
+        '  class v3,v4 process',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('renders a Graphviz DOT digraph', () => {
+    const dot = toDot(graphOf(sample), 'Form_1');
+    expect(dot).toMatch(/^digraph "Form_1" \{\n {2}rankdir=LR;/);
+    expect(dot).toContain('  c0 [label="reason\\n(textfield)", shape=box];');
+    expect(dot).toContain('  v3 [label="approvalLimit", shape=ellipse, style=dashed];');
+    expect(dot).toContain('  c2 -> v0;');
+    expect(dot).toContain('  v0 -> c0 [label="conditional.hide", style=dashed];');
+    expect(dot.trimEnd().endsWith('}')).toBe(true);
+  });
+});
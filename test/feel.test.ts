@@ -0,0 +1,214 @@
+import { describe, test, expect } from 'vitest';
+import {
+  tokenize,
+  parseFeel,
+  checkFeelExpression,
+  checkFeelProperty,
+  isFeelExpression,
+  evaluateFeel,
+  FeelSyntaxError,
+  FeelEvaluationError,
+} from '../src/feel';
+
+const run = (source: string, context: Record<string, unknown> = {}) =>
+  evaluateFeel(parseFeel(source), context);
+
+describe('FEEL', () => {
+  // ── Tokenizer ──────────────────────────────────────────────────────────
+
+  describe('tokenize', () => {
+    test('produces positioned tokens', () => {
+      const tokens = tokenize('amount >= 10.5');
+      expect(tokens.map((t) => [t.type, t.value, t.start])).toEqual([
+        ['name', 'amount', 0],
+        ['op', '>=', 7],
+        ['number', '10.5', 10],
+        ['eof', '', 14],
+      ]);
+    });
+
+    test('distinguishes ranges from decimals', () => {
+      const values = tokenize('[1..10]').map((t) => t.value);
+      expect(values).toEqual(['[', '1', '..', '10', ']', '']);
+    });
+
+    test('skips comments', () => {
+      const values = tokenize('a /* note */ + b // trailing').map((t) => t.value);
+      expect(values).toEqual(['a', '+', 'b', '']);
+    });
+
+    test('throws FeelSyntaxError with offset on unterminated string', () => {
+      expect(() => tokenize('x = "abc')).toThrow(FeelSyntaxError);
+      try {
+        tokenize('x = "abc');
+      } catch (error) {
+        expect((error as FeelSyntaxError).offset).toBe(4);
+      }
+    });
+  });
+
+  // ── Parser ─────────────────────────────────────────────────────────────
+
+  describe('parseFeel', () => {
+    test('respects operator precedence', () => {
+      const ast = parseFeel('a or b and c');
+      expect(ast.kind).toBe('Binary');
+      expect((ast as any).op).toBe('or');
+      expect((ast as any).right.op).toBe('and');
+    });
+
+    test('parses multi-word built-in function names', () => {
+      const ast = parseFeel('string length(name) > 3') as any;
+      expect(ast.left.kind).toBe('Call');
+      expect(ast.left.callee.name).toBe('string length');
+    });
+
+    test('parses named arguments', () => {
+      const ast = parseFeel('substring(string: "abc", start position: 2)') as any;
+      expect(ast.args.map((a: any) => a.name)).toEqual(['string', 'start position']);
+    });
+
+    test.each([
+      'if approved then "yes" else "no"',
+      'for i in items return i.price * 2',
+      'some x in list satisfies x > 1',
+      'every x in 1..3 satisfies x > 0',
+      'x in [1..10]',
+      'x in ]0..1]',
+      'x in (1, 2, < 0)',
+      'x between 1 and 5',
+      'x instance of date and time',
+      '{a: 1, "b c": 2}.a',
+      'items[price > 10].name',
+      '@"2024-01-01"',
+      'function(a, b) a + b',
+      '-x ** 2',
+      'not(x = null)',
+    ])('parses %s', (expression) => {
+      expect(() => parseFeel(expression)).not.toThrow();
+    });
+
+    test('records source offsets on nodes', () => {
+      const ast = parseFeel('foo + bar') as any;
+      expect(ast.right).toMatchObject({ kind: 'Name', name: 'bar', start: 6, end: 9 });
+    });
+
+    test('rejects trailing tokens', () => {
+      expect(() => parseFeel('a b')).toThrow('Unexpected token "b"');
+    });
+  });
+
+  // ── Static checks ──────────────────────────────────────────────────────
+
+  describe('checkFeelExpression', () => {
+    test('returns no diagnostics for valid expressions', () => {
+      expect(checkFeelExpression('count(items) > 0 and is defined(total)')).toEqual([]);
+    });
+
+    test('reports unclosed brackets with the opening offset', () => {
+      const [diag] = checkFeelExpression('a and (b or c');
+      expect(diag.severity).toBe('error');
+      expect(diag.message).toContain('never closed');
+      expect(diag.offset).toBe(6);
+    });
+
+    test('reports unexpected closing brackets', () => {
+      const [diag] = checkFeelExpression('a)');
+      expect(diag.message).toContain('Unbalanced brackets');
+      expect(diag.offset).toBe(1);
+    });
+
+    test('reports mismatched bracket pairs', () => {
+      const [diag] = checkFeelExpression('[1, 2}');
+      expect(diag.message).toContain('closed by "}"');
+      expect(diag.offset).toBe(5);
+    });
+
+    test('reports syntax errors with offsets', () => {
+      const [diag] = checkFeelExpression('a + ');
+      expect(diag.severity).toBe('error');
+      expect(diag.message).toContain('Unexpected end of expression');
+      expect(diag.offset).toBe(4);
+    });
+
+    test('warns about unknown functions and suggests close matches', () => {
+      const [unknown] = checkFeelExpression('lenght(name)');
+      expect(unknown.severity).toBe('warning');
+      expect(unknown.message).toContain('Unknown function "lenght"');
+
+      const [typo] = checkFeelExpression('sumx(values)');
+      expect(typo.suggestion).toContain('"sum"');
+    });
+
+    test('does not flag functions bound in scope', () => {
+      expect(checkFeelExpression('{ double: function(x) x * 2, r: double(2) }.r')).toEqual([]);
+    });
+
+    test('reports empty expressions', () => {
+      expect(checkFeelExpression('  ')[0].message).toContain('Empty');
+    });
+  });
+
+  describe('checkFeelProperty', () => {
+    test('offsets include the leading "="', () => {
+      const [diag] = checkFeelProperty('=(a');
+      expect(diag.offset).toBe(1);
+    });
+
+    test('isFeelExpression detects the "=" prefix', () => {
+      expect(isFeelExpression('=a')).toBe(true);
+      expect(isFeelExpression('a')).toBe(false);
+      expect(isFeelExpression(42)).toBe(false);
+    });
+  });
+
+  // ── Evaluator ──────────────────────────────────────────────────────────
+
+  describe('evaluateFeel', () => {
+    test('evaluates arithmetic, comparisons and logic', () => {
+      expect(run('1 + 2 * 3')).toBe(7);
+      expect(run('2 ** 3')).toBe(8);
+      expect(run('a > 5 and b = "x"', { a: 6, b: 'x' })).toBe(true);
+      expect(run('"ab" + "cd"')).toBe('abcd');
+    });
+
+    test('follows null semantics', () => {
+      expect(run('missing > 5')).toBeNull();
+      expect(run('1 + "a"')).toBeNull();
+      expect(run('missing = null')).toBe(true);
+      expect(run('false and missing')).toBe(false);
+      expect(run('true or missing')).toBe(true);
+    });
+
+    test('resolves paths, filters and lists', () => {
+      const ctx = { order: { items: [{ price: 5 }, { price: 20 }] } };
+      expect(run('order.items.price', ctx)).toEqual([5, 20]);
+      expect(run('order.items[price > 10].price', ctx)).toEqual([20]);
+      expect(run('[1, 2, 3][2]')).toBe(2);
+      expect(run('[1, 2, 3][-1]')).toBe(3);
+    });
+
+    test('evaluates if, in, between and iteration', () => {
+      expect(run('if x > 1 then "big" else "small"', { x: 3 })).toBe('big');
+      expect(run('x in [1..5]', { x: 5 })).toBe(true);
+      expect(run('x in (1..5)', { x: 5 })).toBe(false);
+      expect(run('x in (< 0, > 10)', { x: 11 })).toBe(true);
+      expect(run('x between 1 and 3', { x: 2 })).toBe(true);
+      expect(run('for i in 1..3 return i * 2')).toEqual([2, 4, 6]);
+      expect(run('some x in [1, 5] satisfies x > 3')).toBe(true);
+      expect(run('every x in [1, 5] satisfies x > 3')).toBe(false);
+    });
+
+    test('calls built-in and user-defined functions', () => {
+      expect(run('sum([1, 2, 3])')).toBe(6);
+      expect(run('upper case(name)', { name: 'ada' })).toBe('ADA');
+      expect(run('string length("abc")')).toBe(3);
+      expect(run('is defined(missing)')).toBe(false);
+      expect(run('{ double: function(x) x * 2, r: double(4) }.r')).toBe(8);
+    });
+
+    test('throws for unsupported functions', () => {
+      expect(() => run('nope(1)')).toThrow(FeelEvaluationError);
+    });
+  });
+});
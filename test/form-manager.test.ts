@@ -1,4 +1,4 @@
-import { describe, test, expect, beforeEach } from 'vitest';
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
 import { clearForms, createForm, parseResult } from './helpers';
 import {
   getForm,
@@ -8,7 +8,13 @@ import {
   generateFormId,
   clearForms as clearStore,
   createEmptySchema,
+  renameForm,
+  notifyFormChanged,
+  addFormChangeListener,
+  removeFormChangeListener,
+  type FormChangeEvent,
 } from '../src/form-manager';
+import { bumpVersion } from '../src/handlers/helpers';
 
 describe('test helpers', () => {
   beforeEach(() => {
@@ -96,3 +102,72 @@ describe('form-manager store', () => {
     expect(getAllForms().size).toBe(0);
   });
 });
+
+describe('form-manager change events', () => {
+  let events: FormChangeEvent[];
+  const listener = (event: FormChangeEvent) => events.push(event);
+
+  beforeEach(() => {
+    clearStore();
+    events = [];
+    addFormChangeListener(listener);
+  });
+
+  afterEach(() => {
+    removeFormChangeListener(listener);
+  });
+
+  test('emits created, mutated and deleted events', () => {
+    const schema = createEmptySchema();
+    storeForm('a', { schema, version: 0 });
+    storeForm('a', {
+      schema: { ...schema, components: [{ type: 'textfield', id: 'Field_1', key: 'f' }] },
+      version: 1,
+    });
+    deleteForm('a');
+
+    expect(events.map((e) => e.type)).toEqual(['created', 'mutated', 'deleted']);
+    expect(events[1]).toMatchObject({ version: 1, changedComponentIds: ['Field_1'] });
+  });
+
+  test('bumpVersion reports the components changed since the last snapshot', () => {
+    const { formId, form } = createForm();
+    form.schema.components.push(
+      { type: 'textfield', id: 'A', key: 'a' },
+      { type: 'textfield', id: 'B', key: 'b' }
+    );
+    bumpVersion(form, formId);
+
+    form.schema.components[1].label = 'Changed';
+    form.schema.components.shift();
+    bumpVersion(form, formId);
+
+    const mutated = events.filter((e) => e.type === 'mutated');
+    expect(mutated.map((e) => e.type === 'mutated' && e.changedComponentIds)).toEqual([
+      ['A', 'B'],
+      ['B', 'A'],
+    ]);
+    expect(mutated[1]).toMatchObject({ version: 2 });
+  });
+
+  test('emits renamed with the previous name', () => {
+    storeForm('a', { schema: createEmptySchema(), name: 'Old', version: 0 });
+    expect(renameForm('a', 'New')).toBe(true);
+    expect(renameForm('missing', 'x')).toBe(false);
+
+    expect(events.at(-1)).toMatchObject({ type: 'renamed', formId: 'a', previousName: 'Old' });
+    expect(getForm('a')!.name).toBe('New');
+  });
+
+  test('supports multiple listeners and unsubscribing', () => {
+    const other: string[] = [];
+    const unsubscribe = addFormChangeListener((e) => other.push(e.formId));
+
+    storeForm('a', { schema: createEmptySchema(), version: 0 });
+    unsubscribe();
+    notifyFormChanged('a');
+
+    expect(other).toEqual(['a']);
+    expect(events.map((e) => e.type)).toEqual(['created', 'mutated']);
+  });
+});
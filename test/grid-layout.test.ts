@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'vitest';
+import { analyzeGridLayout, fitRowWidths, repairGridLayout } from '../src/grid-layout';
+import { type FormComponent } from '../src/types';
+
+const field = (id: string, row: string, columns?: number): FormComponent => ({
+  type: 'textfield',
+  id,
+  key: id,
+  layout: columns === undefined ? { row } : { row, columns },
+});
+
+describe('grid layout', () => {
+  test('fits widths proportionally, counting auto-sized fields as an equal share', () => {
+    expect(fitRowWidths([field('a', 'R', 12), field('b', 'R', 12)])).toEqual([8, 8]);
+    expect(fitRowWidths([field('a', 'R', 16), field('b', 'R')])).toEqual([11, 5]);
+    expect(fitRowWidths([field('a', 'R', 10), field('b', 'R', 5), field('c', 'R', 5)])).toEqual([
+      8, 4, 4,
+    ]);
+  });
+
+  test('reports components without a row that are wider than the grid', () => {
+    const wide: FormComponent = { type: 'textfield', id: 'a', key: 'a', layout: { columns: 20 } };
+    expect(analyzeGridLayout([wide])).toEqual([
+      { kind: 'overflow', parentId: undefined, components: [wide] },
+    ]);
+  });
+
+  test('honours a narrower grid', () => {
+    const components = [field('a', 'R', 6), field('b', 'R', 6)];
+    expect(analyzeGridLayout(components)).toEqual([]);
+    expect(analyzeGridLayout(components, 8).map((p) => p.kind)).toEqual(['overflow']);
+  });
+
+  test('repairs rows reused across containers, then what the split leaves behind', () => {
+    const components: FormComponent[] = [
+      field('a', 'Row_1', 8),
+      field('b', 'Row_1', 8),
+      {
+        type: 'group',
+        id: 'g',
+        components: [field('c', 'Row_1', 10), field('d', 'Row_1', 10)],
+      },
+    ];
+    const fixed = repairGridLayout(components);
+    expect(fixed.map((p) => p.kind)).toEqual(['cross-parent', 'overflow']);
+    const [c, d] = components[2].components!;
+    expect(c.layout!.row).not.toBe('Row_1');
+    expect(d.layout).toEqual({ row: c.layout!.row, columns: 8 });
+    expect(analyzeGridLayout(components)).toEqual([]);
+  });
+});
@@ -3,15 +3,32 @@ import { clearForms, createForm, parseResult } from '../helpers';
 import { handleAddFormComponent } from '../../src/handlers/components/add-form-component';
 import { handleModifyFormComponent } from '../../src/handlers/components/modify-form-component';
 import { handleInspectForm } from '../../src/handlers/core/inspect-form';
+import { handleApplyFormOperations } from '../../src/handlers/components/apply-form-operations';
+import { handleSaveFormFragment } from '../../src/handlers/components/save-form-fragment';
+import { clearSessionFragments } from '../../src/templates';
+import { addFormChangeListener } from '../../src/form-manager';
+import { getHistoryInfo } from '../../src/history';
 
 describe('component handlers', () => {
   beforeEach(() => {
     clearForms();
+    clearSessionFragments();
   });
 
   // ── add_form_component ─────────────────────────────────────────────────
 
   describe('add_form_component', () => {
+    test('returns the new version and honours expectedVersion', async () => {
+      const { formId } = createForm();
+      const first = parseResult(
+        await handleAddFormComponent({ formId, type: 'textfield', expectedVersion: 0 })
+      );
+      expect(first.version).toBe(1);
+      await expect(
+        handleAddFormComponent({ formId, type: 'textfield', expectedVersion: 0 })
+      ).rejects.toThrow('Version conflict');
+    });
+
     test('adds a textfield to root', async () => {
       const { formId } = createForm();
       const result = parseResult(
@@ -75,10 +92,16 @@ describe('component handlers', () => {
 
     test('rejects non-container parentId', async () => {
       const { formId, form } = createForm();
-      form.schema.components = [{ type: 'textfield', id: 'tf1', key: 'name' }];
+      form.schema.components = [
+        { type: 'textfield', id: 'tf1', key: 'name' },
+        { type: 'iframe', id: 'frame', url: 'https://example.com' },
+      ];
       await expect(
         handleAddFormComponent({ formId, type: 'text', parentId: 'tf1' })
       ).rejects.toThrow('not a container');
+      await expect(
+        handleAddFormComponent({ formId, type: 'text', parentId: 'frame' })
+      ).rejects.toThrow('not a container');
     });
 
     test('rejects unknown parentId', async () => {
@@ -130,6 +153,21 @@ describe('component handlers', () => {
         handleModifyFormComponent({ formId, action: 'delete', componentId: 'nope' })
       ).rejects.toThrow('not found');
     });
+
+    test('rejects a stale expectedVersion without deleting', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'name' }];
+      form.version = 2;
+      await expect(
+        handleModifyFormComponent({
+          formId,
+          action: 'delete',
+          componentId: 'a',
+          expectedVersion: 1,
+        })
+      ).rejects.toThrow('expected version 1, current version is 2');
+      expect(form.schema.components).toHaveLength(1);
+    });
   });
 
   // ── move via modify_form_component ───────────────────────────────────
@@ -215,6 +253,26 @@ describe('component handlers', () => {
       expect(form.schema.components).toHaveLength(2);
     });
 
+    test('keeps keys that are only taken in another data scope', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'street', key: 'street' },
+        { type: 'group', id: 'g1', path: 'billing', components: [] },
+      ];
+      const added = parseResult(
+        await handleAddFormComponent({ formId, type: 'textfield', key: 'street', parentId: 'g1' })
+      );
+      expect(added.component.key).toBe('street');
+      const copy = parseResult(
+        await handleAddFormComponent({ formId, sourceComponentId: added.component.id })
+      );
+      expect(copy.component.key).toBe('street_copy');
+      const rootCopy = parseResult(
+        await handleAddFormComponent({ formId, sourceComponentId: 'street' })
+      );
+      expect(rootCopy.component.key).toBe('street_copy');
+    });
+
     test('duplicates nested components', async () => {
       const { formId, form } = createForm();
       form.schema.components = [
@@ -243,7 +301,253 @@ describe('component handlers', () => {
     test('requires either type or sourceComponentId', async () => {
       const { formId } = createForm();
       await expect(handleAddFormComponent({ formId })).rejects.toThrow(
-        'Either "type" or "sourceComponentId" is required'
+        'One of "type", "sourceComponentId" or "fragment" is required'
+      );
+    });
+  });
+
+  // ── add_form_component (fragment mode) ───────────────────────────────
+
+  describe('add_form_component (fragment mode)', () => {
+    test('inserts a fragment under a parent with fresh IDs', async () => {
+      const { formId, form } = createForm();
+      const group = parseResult(
+        await handleAddFormComponent({ formId, type: 'group', label: 'Payment' })
+      ).component;
+      const result = parseResult(
+        await handleAddFormComponent({ formId, fragment: 'bank-details', parentId: group.id })
+      );
+      expect(result.fragment).toBe('bank-details');
+      const inserted = form.schema.components[0].components![0];
+      expect(inserted).toMatchObject({ type: 'group', path: 'bankDetails' });
+      expect(inserted.components!.map((c) => c.key)).toEqual(['accountHolder', 'iban', 'bic']);
+      expect(inserted.id).toMatch(/^Group_/);
+      expect(result.totalComponents).toBe(5);
+    });
+
+    test('rebases keys and paths that are already taken', async () => {
+      const { formId, form } = createForm();
+      await handleAddFormComponent({ formId, fragment: 'consent' });
+      await handleAddFormComponent({ formId, fragment: 'address' });
+      const second = parseResult(await handleAddFormComponent({ formId, fragment: 'consent' }));
+      expect(second.renamed).toEqual({ consent: 'consent1' });
+      const prefixed = parseResult(
+        await handleAddFormComponent({ formId, fragment: 'address', keyPrefix: 'billing_' })
+      );
+      expect(prefixed.renamed).toEqual({ address: 'billing_address' });
+      const paths = form.schema.components.filter((c) => c.path).map((c) => c.path);
+      expect(paths).toEqual(['address', 'billing_address']);
+    });
+
+    test('rewrites references inside a rebased fragment', async () => {
+      const source = createForm();
+      const group = parseResult(
+        await handleAddFormComponent({ formId: source.formId, type: 'group', label: 'Terms' })
+      ).component;
+      for (const component of [
+        { type: 'checkbox', key: 'agree', label: 'Agree' },
+        { type: 'textfield', key: 'reason', properties: { conditional: { hide: '=agree' } } },
+        { type: 'text', properties: { text: 'Agreed: {{agree}}' } },
+      ]) {
+        await handleAddFormComponent({ formId: source.formId, parentId: group.id, ...component });
+      }
+      await handleSaveFormFragment({ formId: source.formId, componentId: group.id, name: 'terms' });
+
+      const { formId, form } = createForm();
+      const order = parseResult(
+        await handleAddFormComponent({ formId, type: 'group', label: 'Order' })
+      ).component;
+      form.schema.components[0].path = 'order';
+      await handleAddFormComponent({ formId, fragment: 'terms', parentId: order.id });
+      const second = parseResult(
+        await handleAddFormComponent({ formId, fragment: 'terms', parentId: order.id })
+      );
+      expect(second.renamed).toEqual({
+        'order.agree': 'order.agree1',
+        'order.reason': 'order.reason1',
+      });
+      const [, copy] = form.schema.components[0].components!;
+      expect(copy.components!.map((c) => c.key ?? c.text)).toEqual([
+        'agree1',
+        'reason1',
+        'Agreed: {{agree1}}',
+      ]);
+      expect(copy.components![1].conditional).toEqual({ hide: '=agree1' });
+    });
+
+    test('applies fragment parameters', async () => {
+      const { formId } = createForm();
+      const result = parseResult(
+        await handleAddFormComponent({
+          formId,
+          fragment: 'consent',
+          fragmentParams: { key: 'termsAccepted', label: 'I accept the terms' },
+        })
+      );
+      expect(result.components[1]).toMatchObject({
+        key: 'termsAccepted',
+        label: 'I accept the terms',
+      });
+    });
+
+    test('gives each inserted fragment its own layout rows', async () => {
+      const { formId, form } = createForm();
+      form.hintLevel = 'full';
+      await handleAddFormComponent({ formId, fragment: 'contact-person' });
+      const result = parseResult(
+        await handleAddFormComponent({ formId, fragment: 'contact-person', keyPrefix: 'second_' })
+      );
+      expect((result._hints ?? []).filter((h: any) => h.property === 'layout.row')).toEqual([]);
+
+      const rows = form.schema.components.map((group) =>
+        group.components!.filter((c) => c.layout?.row).map((c) => c.layout!.row)
+      );
+      expect(new Set(rows[0]).size).toBe(1);
+      expect(new Set(rows[1]).size).toBe(1);
+      expect(rows[0][0]).not.toBe(rows[1][0]);
+    });
+
+    test('rejects unknown fragments', async () => {
+      const { formId } = createForm();
+      await expect(handleAddFormComponent({ formId, fragment: 'nope' })).rejects.toThrow(
+        'Available: address, contact-person, bank-details, consent'
+      );
+    });
+  });
+
+  // ── save_form_fragment ─────────────────────────────────────────────────
+
+  describe('save_form_fragment', () => {
+    test('saves a group and inserts it into another form', async () => {
+      const source = createForm();
+      const group = parseResult(
+        await handleAddFormComponent({
+          formId: source.formId,
+          type: 'group',
+          label: 'Vehicle',
+          properties: { path: 'vehicle' },
+        })
+      ).component;
+      await handleAddFormComponent({
+        formId: source.formId,
+        type: 'textfield',
+        key: 'plate',
+        parentId: group.id,
+      });
+
+      const saved = parseResult(
+        await handleSaveFormFragment({
+          formId: source.formId,
+          componentId: group.id,
+          name: 'vehicle',
+        })
+      );
+      expect(saved).toMatchObject({ fragment: 'vehicle', source: 'session', componentCount: 2 });
+
+      const target = createForm();
+      await handleAddFormComponent({ formId: target.formId, fragment: 'vehicle' });
+      const copy = target.form.schema.components[0];
+      expect(copy).toMatchObject({ type: 'group', label: 'Vehicle', path: 'vehicle' });
+      expect(copy.id).not.toBe(group.id);
+      expect(copy.components![0].key).toBe('plate');
+    });
+
+    test('rejects non-groups and existing names', async () => {
+      const { formId } = createForm();
+      const field = parseResult(
+        await handleAddFormComponent({ formId, type: 'textfield', label: 'Name' })
+      ).component;
+      await expect(
+        handleSaveFormFragment({ formId, componentId: field.id, name: 'name' })
+      ).rejects.toThrow('Only groups can be saved as fragments');
+
+      const group = parseResult(
+        await handleAddFormComponent({ formId, type: 'group', label: 'Box' })
+      ).component;
+      await expect(
+        handleSaveFormFragment({ formId, componentId: group.id, name: 'address' })
+      ).rejects.toThrow('already exists');
+      const replaced = parseResult(
+        await handleSaveFormFragment({
+          formId,
+          componentId: group.id,
+          name: 'address',
+          overwrite: true,
+        })
+      );
+      expect(replaced.fragment).toBe('address');
+    });
+  });
+
+  // ── apply_form_operations ──────────────────────────────────────────────
+
+  describe('apply_form_operations', () => {
+    test('applies operations with symbolic handles as a single change', async () => {
+      const { formId, form } = createForm();
+      const events: string[] = [];
+      const unsubscribe = addFormChangeListener((e) => events.push(e.type));
+
+      const result = parseResult(
+        await handleApplyFormOperations({
+          formId,
+          expectedVersion: 0,
+          operations: [
+            { op: 'add', type: 'group', label: 'Address', handle: 'address' },
+            { op: 'add', type: 'textfield', label: 'City', parentId: '$address', handle: 'city' },
+            { op: 'set', componentId: '$city', properties: { validate: { required: true } } },
+            { op: 'add', type: 'textfield', label: 'Street', parentId: '$address' },
+            { op: 'modify', action: 'move', componentId: '$city', targetParentId: '$address' },
+          ],
+        })
+      );
+      unsubscribe();
+
+      expect(result.applied).toBe(5);
+      expect(result.version).toBe(1);
+      expect(Object.keys(result.handles)).toEqual(['address', 'city']);
+      expect(result.operations[2]).toMatchObject({ op: 'set', updated: ['validate'] });
+      const group = form.schema.components[0];
+      expect(group.id).toBe(result.handles.address);
+      expect(group.components!.map((c) => c.label)).toEqual(['Street', 'City']);
+      expect(group.components![1].validate).toEqual({ required: true });
+      expect(events).toEqual(['mutated']);
+      expect(getHistoryInfo(form).undoSteps).toBe(1);
+    });
+
+    test('rolls back all operations on the first error', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'a' }];
+      const before = JSON.stringify(form.schema);
+
+      await expect(
+        handleApplyFormOperations({
+          formId,
+          operations: [
+            { op: 'add', type: 'number', label: 'Amount', handle: 'amount' },
+            { op: 'set', componentId: 'a', properties: { label: 'A' } },
+            { op: 'modify', action: 'delete', componentId: 'missing' },
+          ],
+        })
+      ).rejects.toThrow('Operation 2 (modify) failed');
+
+      expect(JSON.stringify(form.schema)).toBe(before);
+      expect(form.version).toBe(0);
+      expect(getHistoryInfo(form).undoSteps).toBe(0);
+    });
+
+    test('rejects unknown handles and ops', async () => {
+      const { formId } = createForm();
+      await expect(
+        handleApplyFormOperations({
+          formId,
+          operations: [{ op: 'set', componentId: '$nope', properties: {} }],
+        })
+      ).rejects.toThrow('Unknown handle "$nope"');
+      await expect(
+        handleApplyFormOperations({ formId, operations: [{ op: 'rename' }] })
+      ).rejects.toThrow('Unknown op "rename"');
+      await expect(handleApplyFormOperations({ formId, operations: [] })).rejects.toThrow(
+        'non-empty array'
       );
     });
   });
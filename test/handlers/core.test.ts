@@ -3,11 +3,16 @@ import { existsSync, readFileSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { clearForms, createForm, parseResult } from '../helpers';
+import { addFormChangeListener, getForm } from '../../src/form-manager';
 import { handleCreateForm } from '../../src/handlers/core/create-form';
 import { handleDeleteForm } from '../../src/handlers/core/delete-form';
+import { handleRenameForm } from '../../src/handlers/core/rename-form';
 import { handleInspectForm } from '../../src/handlers/core/inspect-form';
 import { handleExportFormToFile } from '../../src/handlers/core/export-form-to-file';
+import { handleSimulateForm } from '../../src/handlers/core/simulate-form';
+import { handleTranslateForm } from '../../src/handlers/core/translate-form';
 import { handleModifyFormComponent } from '../../src/handlers/components/modify-form-component';
+import { validateFormSchema } from '../../src/validator';
 
 describe('core handlers', () => {
   beforeEach(() => {
@@ -67,6 +72,171 @@ describe('core handlers', () => {
     test('rejects schema without components', async () => {
       await expect(handleCreateForm({ schema: { type: 'default' } })).rejects.toThrow('components');
     });
+
+    test('upgrades old schema versions without changing components', async () => {
+      const components = [
+        { type: 'textfield', id: 'f1', key: 'name', conditional: { hide: '=x' } },
+      ];
+      const schema = { type: 'default', schemaVersion: 4, components };
+      const result = parseResult(await handleCreateForm({ schema }));
+      expect(result.migration).toEqual({
+        fromVersion: 4,
+        toVersion: 19,
+        note: expect.stringContaining('No shape migrations'),
+      });
+      expect(result.message).toContain('schemaVersion 4 → 19');
+
+      const form = getForm(result.formId)!;
+      expect(form.schema.schemaVersion).toBe(19);
+      expect(form.schema.components).toEqual(components);
+    });
+
+    test('upgrades to the schema version of the target platform', async () => {
+      const schema = { type: 'default', schemaVersion: 4, components: [] };
+      const result = parseResult(
+        await handleCreateForm({
+          schema,
+          executionPlatform: 'Camunda Cloud',
+          executionPlatformVersion: '8.3.0',
+        })
+      );
+      expect(result.migration).toMatchObject({ fromVersion: 4, toVersion: 11 });
+    });
+
+    test('keeps newer schemas when targeting an older platform', async () => {
+      const schema = {
+        type: 'default',
+        schemaVersion: 19,
+        components: [{ type: 'dynamiclist', id: 'list', path: 'items', components: [] }],
+      };
+      const result = parseResult(
+        await handleCreateForm({
+          schema,
+          executionPlatform: 'Camunda Cloud',
+          executionPlatformVersion: '8.3.0',
+        })
+      );
+      expect(result.migration).toBeUndefined();
+      const form = getForm(result.formId)!;
+      expect(form.schema.schemaVersion).toBe(19);
+      expect(form.schema.components[0]).toEqual(schema.components[0]);
+    });
+
+    test('leaves current schemas untouched', async () => {
+      const schema = { type: 'default', schemaVersion: 19, components: [] };
+      const result = parseResult(await handleCreateForm({ schema }));
+      expect(result.migration).toBeUndefined();
+    });
+  });
+
+  // ── create_form from JSON Schema / sample data ──────────────────────
+
+  describe('generate form (via create_form)', () => {
+    test('builds typed components from a JSON Schema', async () => {
+      const jsonSchema = {
+        title: 'Order',
+        type: 'object',
+        required: ['customer'],
+        properties: {
+          customer: { type: 'string', maxLength: 80 },
+          express: { type: 'boolean' },
+        },
+      };
+      const result = parseResult(
+        await handleCreateForm({ jsonSchema: JSON.stringify(jsonSchema) })
+      );
+      expect(result.name).toBe('Order');
+      expect(result.componentCount).toBe(2);
+      const [customer, express] = getForm(result.formId)!.schema.components;
+      expect(customer).toMatchObject({
+        type: 'textfield',
+        key: 'customer',
+        validate: { required: true, maxLength: 80 },
+      });
+      expect(express).toMatchObject({ type: 'checkbox', key: 'express', label: 'Express' });
+    });
+
+    test('infers components from sample data', async () => {
+      const result = parseResult(
+        await handleCreateForm({
+          name: 'Claim',
+          sampleData: { amount: 12.5, submittedOn: '2024-05-01', items: [{ sku: 'A1' }] },
+        })
+      );
+      const types = getForm(result.formId)!.schema.components.map((c) => c.type);
+      expect(types).toEqual(['number', 'datetime', 'dynamiclist']);
+    });
+
+    test('generates nested objects without duplicate key errors', async () => {
+      const address = {
+        type: 'object',
+        properties: { street: { type: 'string' }, city: { type: 'string' } },
+      };
+      const result = parseResult(
+        await handleCreateForm({
+          jsonSchema: { type: 'object', properties: { billing: address, shipping: address } },
+        })
+      );
+      const validation = parseResult(
+        await handleInspectForm({ formId: result.formId, include: ['validation'] })
+      ).validation;
+      expect(validation.issues).toEqual([]);
+    });
+
+    test('rejects schemas that do not describe an object', async () => {
+      await expect(handleCreateForm({ jsonSchema: { type: 'string' } })).rejects.toThrow(
+        'must describe an object'
+      );
+      await expect(handleCreateForm({ sampleData: 'x' })).rejects.toThrow(
+        'sampleData must be a JSON object'
+      );
+    });
+  });
+
+  // ── create_form from a template ─────────────────────────────────────
+
+  describe('create form from a template (via create_form)', () => {
+    test('instantiates a built-in template with parameters', async () => {
+      const result = parseResult(
+        await handleCreateForm({
+          template: 'invoice',
+          templateParams: { currencies: ['CHF', 'EUR'], defaultCurrency: 'CHF' },
+        })
+      );
+      expect(result.name).toBe('invoice');
+      expect(result.template).toBe('invoice');
+      const components = getForm(result.formId)!.schema.components;
+      const currency = components.find((c) => c.key === 'currency')!;
+      expect(currency.values).toEqual([
+        { label: 'CHF', value: 'CHF' },
+        { label: 'EUR', value: 'EUR' },
+      ]);
+      expect(currency.defaultValue).toBe('CHF');
+    });
+
+    test('substitutes keys into conditions', async () => {
+      const result = parseResult(
+        await handleCreateForm({
+          name: 'Leave Request',
+          template: 'approval',
+          templateParams: { approvalField: 'decision' },
+        })
+      );
+      const components = getForm(result.formId)!.schema.components;
+      expect(components.map((c) => c.key)).toContain('decision');
+      expect(components.find((c) => c.key === 'rejectionReason')!.conditional!.hide).toBe(
+        '=decision != "reject"'
+      );
+    });
+
+    test('rejects unknown templates and parameters', async () => {
+      await expect(handleCreateForm({ template: 'nope' })).rejects.toThrow(
+        'Available: approval, contact-details, address, invoice'
+      );
+      await expect(
+        handleCreateForm({ template: 'address', templateParams: { colour: 'red' } })
+      ).rejects.toThrow('Unknown parameter "colour"');
+    });
   });
 
   // ── export_form (via inspect_form with schema facet) ────────────────
@@ -205,6 +375,44 @@ describe('core handlers', () => {
       // Cannot delete again
       await expect(handleDeleteForm({ formId })).rejects.toThrow('not found');
     });
+
+    test('keeps the form when expectedVersion is stale', async () => {
+      const { formId, form } = createForm();
+      form.version = 4;
+      await expect(handleDeleteForm({ formId, expectedVersion: 3 })).rejects.toThrow(
+        'Version conflict'
+      );
+      expect(getForm(formId)).toBe(form);
+      expect(parseResult(await handleDeleteForm({ formId, expectedVersion: 4 })).version).toBe(4);
+    });
+  });
+
+  // ── rename_form ────────────────────────────────────────────────────────
+
+  describe('rename_form', () => {
+    test('renames a form and emits a renamed event', async () => {
+      const { formId } = createForm('Old');
+      const events: string[] = [];
+      const remove = addFormChangeListener((event) => events.push(event.type));
+      try {
+        const result = parseResult(await handleRenameForm({ formId, name: 'New' }));
+        expect(result).toMatchObject({ formId, name: 'New', previousName: 'Old' });
+      } finally {
+        remove();
+      }
+      expect(getForm(formId)!.name).toBe('New');
+      expect(events).toEqual(['renamed']);
+    });
+
+    test('rejects empty names and stale versions', async () => {
+      const { formId, form } = createForm('Old');
+      form.version = 2;
+      await expect(handleRenameForm({ formId, name: ' ' })).rejects.toThrow('non-empty');
+      await expect(handleRenameForm({ formId, name: 'New', expectedVersion: 1 })).rejects.toThrow(
+        'Version conflict'
+      );
+      expect(form.name).toBe('Old');
+    });
   });
 
   // ── list_forms (via inspect_form without formId) ────────────────────
@@ -309,6 +517,31 @@ describe('core handlers', () => {
     });
   });
 
+  // ── inspect_form (dataSchema facet) ──────────────────────────────────
+
+  describe('inspect_form — dataSchema', () => {
+    test('returns a JSON Schema and optional TypeScript interface', async () => {
+      const { formId, form } = createForm('Leave request');
+      form.schema.components = [
+        { type: 'number', id: 'd', key: 'days', validate: { required: true, min: 1 } },
+      ];
+      const result = parseResult(
+        await handleInspectForm({ formId, include: ['dataSchema'], typescript: true })
+      );
+      expect(result.dataSchema.jsonSchema.title).toBe('Leave request');
+      expect(result.dataSchema.jsonSchema.required).toEqual(['days']);
+      expect(result.dataSchema.jsonSchema.properties.days).toEqual({ type: 'number', minimum: 1 });
+      expect(result.dataSchema.typescript).toContain('export interface LeaveRequestData {');
+      expect(result.dataSchema.typescript).toContain('  days: number;');
+    });
+
+    test('omits the TypeScript interface by default', async () => {
+      const { formId } = createForm('Plain');
+      const result = parseResult(await handleInspectForm({ formId, include: ['dataSchema'] }));
+      expect(result.dataSchema.typescript).toBeUndefined();
+    });
+  });
+
   // ── inspect_form (summary facet) ──────────────────────────────────────
 
   describe('inspect_form — summary', () => {
@@ -428,6 +661,27 @@ describe('core handlers', () => {
       expect(result.variables.total).toBe(2);
     });
 
+    test('lists keys under a group path with their full path', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        {
+          type: 'group',
+          id: 'g1',
+          path: 'billing',
+          components: [{ type: 'textfield', id: 'street', key: 'street' }],
+        },
+        {
+          type: 'dynamiclist',
+          id: 'list',
+          path: 'items',
+          components: [{ type: 'textfield', id: 'sku', key: 'sku' }],
+        },
+      ];
+      const result = parseResult(await handleInspectForm({ formId, include: ['variables'] }));
+      expect(result.variables.inputKeys).toEqual(['billing.street', 'items[].sku']);
+      expect(result.variables.scopes).toEqual(['billing', 'items']);
+    });
+
     test('deduplicates keys', async () => {
       const { formId, form } = createForm();
       form.schema.components = [
@@ -437,6 +691,40 @@ describe('core handlers', () => {
       const result = parseResult(await handleInspectForm({ formId, include: ['variables'] }));
       expect(result.variables.total).toBe(1);
     });
+
+    test('returns the dependency graph and process variables', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'number', id: 'amount', key: 'amount' },
+        { type: 'textfield', id: 'note', key: 'note', conditional: { hide: '=amount < limit' } },
+      ];
+      const result = parseResult(await handleInspectForm({ formId, include: ['variables'] }));
+      expect(result.variables.processVariables).toEqual(['limit']);
+      expect(result.variables.dependencies.edges).toContainEqual({
+        kind: 'reads',
+        component: 'note',
+        variable: 'amount',
+        property: 'conditional.hide',
+      });
+      expect(result.variables.diagram).toBeUndefined();
+    });
+
+    test('renders the graph as Mermaid or DOT', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'note', key: 'note', conditional: { hide: '=hidden' } },
+      ];
+      const include = ['variables'];
+      const mermaid = parseResult(
+        await handleInspectForm({ formId, include, graphFormat: 'mermaid' })
+      );
+      expect(mermaid.variables.diagram).toMatch(/^flowchart LR\n/);
+      const dot = parseResult(await handleInspectForm({ formId, include, graphFormat: 'dot' }));
+      expect(dot.variables.diagram).toMatch(/^digraph /);
+      await expect(handleInspectForm({ formId, include, graphFormat: 'svg' })).rejects.toThrow(
+        'Invalid graphFormat: "svg"'
+      );
+    });
   });
 
   // ── inspect_form (all facets default) ─────────────────────────────────
@@ -534,6 +822,38 @@ describe('core handlers', () => {
     });
   });
 
+  describe('inspect_form accessibility facet', () => {
+    test('reports findings with WCAG references', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a' },
+        { type: 'radio', id: 'r', key: 'r', label: 'R', values: [{ label: 'Yes', value: 'y' }] },
+      ];
+      const result = parseResult(await handleInspectForm({ formId, include: ['accessibility'] }));
+      expect(result.accessibility.passed).toBe(false);
+      expect(result.accessibility.issueCount).toBe(2);
+      expect(result.accessibility.issues[0]).toMatchObject({
+        rule: 'field-label',
+        wcag: '3.3.2 Labels or Instructions (A)',
+      });
+
+      const errorsOnly = parseResult(
+        await handleInspectForm({ formId, include: ['accessibility'], includeWarnings: false })
+      );
+      expect(errorsOnly.accessibility.issueCount).toBe(1);
+    });
+
+    test('passes when only warnings remain', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'text', id: 't1', text: '# A' },
+        { type: 'text', id: 't2', text: '### B' },
+      ];
+      const result = parseResult(await handleInspectForm({ formId, include: ['accessibility'] }));
+      expect(result.accessibility).toMatchObject({ passed: true, issueCount: 1 });
+    });
+  });
+
   // ── auto_layout_form (via modify_form_component) ───────────────────────
 
   describe('auto_layout_form (via modify_form_component)', () => {
@@ -598,6 +918,130 @@ describe('core handlers', () => {
       expect(form.schema.components[1].layout?.columns).toBe(16);
     });
 
+    test('repair fixes only offending rows', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a', layout: { row: 'Row_1', columns: 12 } },
+        { type: 'textfield', id: 'b', key: 'b', layout: { row: 'Row_1', columns: 12 } },
+        { type: 'textfield', id: 'c', key: 'c', layout: { row: 'Row_2', columns: 6 } },
+        { type: 'textfield', id: 'd', key: 'd', layout: { row: 'Row_2', columns: 6 } },
+        { type: 'textfield', id: 'e', key: 'e', layout: { row: 'Row_3' } },
+      ];
+      const result = parseResult(
+        await handleModifyFormComponent({ formId, action: 'auto-layout', strategy: 'repair' })
+      );
+      expect(result.repaired).toEqual([
+        { problem: 'overflow', row: 'Row_1', componentIds: ['a', 'b'] },
+        { problem: 'single-auto', row: 'Row_3', componentIds: ['e'] },
+      ]);
+      expect(result.componentsLaidOut).toBe(3);
+      expect(form.schema.components.map((c) => c.layout)).toEqual([
+        { row: 'Row_1', columns: 8 },
+        { row: 'Row_1', columns: 8 },
+        { row: 'Row_2', columns: 6 },
+        { row: 'Row_2', columns: 6 },
+        {},
+      ]);
+      expect(validateFormSchema(form.schema).issues).toEqual([]);
+    });
+
+    test('repair gives split-off components a row of their own', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a', layout: { row: 'Row_1', columns: 8 } },
+        { type: 'textfield', id: 'b', key: 'b', layout: { row: 'Row_2', columns: 16 } },
+        { type: 'textfield', id: 'c', key: 'c', layout: { row: 'Row_1', columns: 8 } },
+      ];
+      await handleModifyFormComponent({ formId, action: 'auto-layout', strategy: 'repair' });
+      const [a, b, c] = form.schema.components;
+      expect(a.layout).toEqual({ row: 'Row_1', columns: 8 });
+      expect(b.layout).toEqual({ row: 'Row_2', columns: 16 });
+      expect(c.layout?.row).toMatch(/^Row_[0-9a-f]{6}$/);
+      expect(validateFormSchema(form.schema).issues).toEqual([]);
+    });
+
+    test('repair leaves a valid layout unchanged', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a', layout: { row: 'Row_1', columns: 8 } },
+      ];
+      const result = parseResult(
+        await handleModifyFormComponent({ formId, action: 'auto-layout', strategy: 'repair' })
+      );
+      expect(result.repaired).toEqual([]);
+      expect(result.version).toBe(form.version);
+      expect(form.schema.components[0].layout).toEqual({ row: 'Row_1', columns: 8 });
+    });
+
+    test('lays out only the children of a container', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a', layout: { columns: 4 } },
+        {
+          type: 'group',
+          id: 'g',
+          components: [
+            { type: 'textfield', id: 'b', key: 'b' },
+            { type: 'textfield', id: 'c', key: 'c' },
+          ],
+        },
+      ];
+      const result = parseResult(
+        await handleModifyFormComponent({
+          formId,
+          action: 'auto-layout',
+          strategy: 'two-column',
+          componentId: 'g',
+        })
+      );
+      expect(result.scope).toBe('g');
+      expect(result.componentsLaidOut).toBe(2);
+      expect(form.schema.components[0].layout).toEqual({ columns: 4 });
+      expect(form.schema.components[1].layout).toBeUndefined();
+      const [b, c] = form.schema.components[1].components!;
+      expect(b.layout?.row).toBe(c.layout?.row);
+    });
+
+    test('preserve-existing keeps hand-tuned layouts', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        { type: 'textfield', id: 'a', key: 'a', layout: { row: 'Row_mine', columns: 6 } },
+        { type: 'textfield', id: 'b', key: 'b' },
+      ];
+      const result = parseResult(
+        await handleModifyFormComponent({
+          formId,
+          action: 'auto-layout',
+          mode: 'preserve-existing',
+        })
+      );
+      expect(result.mode).toBe('preserve-existing');
+      expect(result.componentsLaidOut).toBe(1);
+      expect(form.schema.components[0].layout).toEqual({ row: 'Row_mine', columns: 6 });
+      expect(form.schema.components[1].layout).toEqual({ columns: 16 });
+    });
+
+    test('rejects auto-layout of a non-container', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'a' }];
+      await expect(
+        handleModifyFormComponent({ formId, action: 'auto-layout', componentId: 'a' })
+      ).rejects.toThrow('not a container');
+    });
+
+    test('rejects invalid widths and modes', async () => {
+      const { formId } = createForm();
+      await expect(
+        handleModifyFormComponent({ formId, action: 'auto-layout', widths: { checkbox: 20 } })
+      ).rejects.toThrow('widths.checkbox must be an integer between 1 and 16');
+      await expect(
+        handleModifyFormComponent({ formId, action: 'auto-layout', widths: { fancy: 4 } })
+      ).rejects.toThrow('Unsupported field type in widths: fancy');
+      await expect(
+        handleModifyFormComponent({ formId, action: 'auto-layout', mode: 'merge' })
+      ).rejects.toThrow('Invalid mode');
+    });
+
     test('rejects invalid strategy', async () => {
       const { formId } = createForm();
       await expect(
@@ -605,4 +1049,120 @@ describe('core handlers', () => {
       ).rejects.toThrow('Invalid strategy');
     });
   });
+
+  // ── simulate_form ──────────────────────────────────────────────────────
+
+  describe('simulate_form', () => {
+    test('reports hidden components and validation errors', async () => {
+      const { formId, form } = createForm();
+      form.schema.components.push(
+        { type: 'number', id: 'amount', key: 'amount' },
+        {
+          type: 'textfield',
+          id: 'reason',
+          key: 'reason',
+          validate: { required: true },
+          conditional: { hide: '=amount < 1000' },
+        }
+      );
+
+      const small = parseResult(await handleSimulateForm({ formId, data: { amount: 10 } }));
+      expect(small.hidden).toEqual(['reason']);
+      expect(small.valid).toBe(true);
+
+      const large = parseResult(await handleSimulateForm({ formId, data: { amount: 5000 } }));
+      expect(large.hidden).toEqual([]);
+      expect(large.errors[0]).toMatchObject({ componentId: 'reason', rule: 'required' });
+    });
+
+    test('defaults to empty data and leaves the form untouched', async () => {
+      const { formId, form } = createForm();
+      const result = parseResult(await handleSimulateForm({ formId }));
+      expect(result.valid).toBe(true);
+      expect(form.version).toBe(0);
+    });
+
+    test('rejects non-object data', async () => {
+      const { formId } = createForm();
+      await expect(handleSimulateForm({ formId, data: [1] })).rejects.toThrow('JSON object');
+    });
+  });
+
+  describe('translate_form', () => {
+    function formWithLabels() {
+      const created = createForm('Request');
+      created.form.schema.components.push(
+        { type: 'textfield', id: 'name', key: 'name', label: 'Name' },
+        { type: 'button', id: 'submit', label: 'Submit', action: 'submit' }
+      );
+      return created;
+    }
+
+    test('extracts a PO catalog and applies it as a new localized form', async () => {
+      const { formId, form } = formWithLabels();
+      const extracted = parseResult(
+        await handleTranslateForm({ formId, format: 'po', targetLocale: 'de' })
+      );
+      expect(extracted.messageCount).toBe(2);
+      const catalog = extracted.catalog.replace(
+        'msgid "Submit"\nmsgstr ""',
+        'msgid "Submit"\nmsgstr "Absenden"'
+      );
+
+      const result = parseResult(await handleTranslateForm({ formId, action: 'apply', catalog }));
+      expect(result).toMatchObject({
+        sourceFormId: formId,
+        locale: 'de',
+        name: 'Request (de)',
+        translated: 1,
+        missing: ['name.label'],
+      });
+      const variant = getForm(result.formId)!;
+      expect(variant.schema.id).toBe(`${form.schema.id}_de`);
+      expect(variant.schema.components.map((c) => c.label)).toEqual(['Name', 'Absenden']);
+      expect(form.schema.components[1].label).toBe('Submit');
+      expect(form.version).toBe(0);
+    });
+
+    test('reports stale translations after the source form changed', async () => {
+      const { formId, form } = formWithLabels();
+      const { catalog } = parseResult(await handleTranslateForm({ formId, targetLocale: 'de' }));
+      const messages = JSON.parse(catalog).messages;
+      messages['name.label'].translation = 'Name';
+      messages['submit.label'].translation = 'Absenden';
+      form.schema.components[1].label = 'Send';
+
+      const report = parseResult(
+        await handleTranslateForm({ formId, action: 'report', catalog: { messages } })
+      );
+      expect(report).toMatchObject({ upToDate: false, translated: 1, missing: [] });
+      expect(report.stale).toEqual([
+        { id: 'submit.label', source: 'Send', catalogSource: 'Submit' },
+      ]);
+
+      const updated = parseResult(
+        await handleTranslateForm({ formId, format: 'xliff', catalog: { messages } })
+      );
+      expect(updated.report.stale).toHaveLength(1);
+      expect(updated.catalog).toContain(
+        '<target state="needs-review-translation">Absenden</target>'
+      );
+    });
+
+    test('rejects invalid actions, formats and missing catalogs', async () => {
+      const { formId } = formWithLabels();
+      await expect(handleTranslateForm({ formId, action: 'merge' })).rejects.toThrow(
+        'Invalid action'
+      );
+      await expect(handleTranslateForm({ formId, format: 'csv' })).rejects.toThrow(
+        'Invalid format'
+      );
+      await expect(handleTranslateForm({ formId, action: 'apply' })).rejects.toThrow(
+        '"catalog" is required'
+      );
+      await expect(
+        handleTranslateForm({ formId, action: 'apply', catalog: { messages: {} } })
+      ).rejects.toThrow('"targetLocale" is required');
+    });
+  });
 });
@@ -0,0 +1,175 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { clearForms, createForm, parseResult } from '../helpers';
+import { handleAddFormComponent } from '../../src/handlers/components/add-form-component';
+import { handleModifyFormComponent } from '../../src/handlers/components/modify-form-component';
+import { handleSetFormComponentProperties } from '../../src/handlers/properties/set-form-component-properties';
+import { handleUndoFormChange } from '../../src/handlers/history/undo-form-change';
+import { handleRedoFormChange } from '../../src/handlers/history/redo-form-change';
+import { setHistoryDepth, getHistoryDepth, getHistoryInfo } from '../../src/history';
+import { addFormChangeListener, type FormChangeListener } from '../../src/form-manager';
+import { DEFAULT_HISTORY_DEPTH } from '../../src/constants';
+
+describe('history handlers', () => {
+  beforeEach(() => {
+    clearForms();
+  });
+
+  let unsubscribe: (() => void) | undefined;
+
+  afterEach(() => {
+    setHistoryDepth(DEFAULT_HISTORY_DEPTH);
+    unsubscribe?.();
+    unsubscribe = undefined;
+  });
+
+  async function addField(formId: string, label: string): Promise<string> {
+    const result = parseResult(await handleAddFormComponent({ formId, type: 'textfield', label }));
+    return result.component.id;
+  }
+
+  describe('undo_form_change', () => {
+    test('reverts the last property change', async () => {
+      const { formId, form } = createForm('Undo');
+      const id = await addField(formId, 'Name');
+      await handleSetFormComponentProperties({
+        formId,
+        componentId: id,
+        properties: { label: 'Changed' },
+      });
+
+      const result = parseResult(await handleUndoFormChange({ formId }));
+      expect(result.undone).toBe(1);
+      expect(form.schema.components[0].label).toBe('Name');
+    });
+
+    test('restores a deleted component', async () => {
+      const { formId, form } = createForm('Undo');
+      const id = await addField(formId, 'Name');
+      await handleModifyFormComponent({ formId, action: 'delete', componentId: id });
+      expect(form.schema.components).toHaveLength(0);
+
+      await handleUndoFormChange({ formId });
+      expect(form.schema.components[0].id).toBe(id);
+    });
+
+    test('undoes multiple steps and reports remaining history', async () => {
+      const { formId, form } = createForm('Undo');
+      await addField(formId, 'A');
+      await addField(formId, 'B');
+      await addField(formId, 'C');
+
+      const result = parseResult(await handleUndoFormChange({ formId, steps: 2 }));
+      expect(result.undone).toBe(2);
+      expect(result.undoSteps).toBe(1);
+      expect(result.redoSteps).toBe(2);
+      expect(form.schema.components).toHaveLength(1);
+    });
+
+    test('bumps the version', async () => {
+      const { formId, form } = createForm('Undo');
+      await addField(formId, 'A');
+      const before = form.version!;
+      const result = parseResult(await handleUndoFormChange({ formId }));
+      expect(result.version).toBe(before + 1);
+    });
+
+    test('rejects a stale expectedVersion without undoing', async () => {
+      const { formId, form } = createForm('Undo');
+      await addField(formId, 'A');
+      const version = form.version!;
+      await expect(handleUndoFormChange({ formId, expectedVersion: version - 1 })).rejects.toThrow(
+        'Version conflict'
+      );
+      expect(form.schema.components).toHaveLength(1);
+
+      const result = parseResult(await handleUndoFormChange({ formId, expectedVersion: version }));
+      expect(result.undone).toBe(1);
+    });
+
+    test('throws when there is nothing to undo', async () => {
+      const { formId } = createForm('Empty');
+      await expect(handleUndoFormChange({ formId })).rejects.toThrow('Nothing to undo');
+    });
+
+    test('rejects invalid steps', async () => {
+      const { formId } = createForm('Steps');
+      await expect(handleUndoFormChange({ formId, steps: 0 })).rejects.toThrow('positive integer');
+    });
+
+    test('notifies change listeners so persistence sees the restored state', async () => {
+      const { formId } = createForm('Notify');
+      await addField(formId, 'A');
+
+      const id = await addField(formId, 'B');
+
+      const events: string[] = [];
+      const listener: FormChangeListener = (event) => {
+        if (event.type !== 'mutated') return;
+        events.push(`${event.formId}:${event.form.schema.components.length}`);
+        events.push(...event.changedComponentIds);
+      };
+      unsubscribe = addFormChangeListener(listener);
+      await handleUndoFormChange({ formId });
+      expect(events).toEqual([`${formId}:1`, id]);
+    });
+  });
+
+  describe('redo_form_change', () => {
+    test('re-applies an undone change', async () => {
+      const { formId, form } = createForm('Redo');
+      await addField(formId, 'A');
+      await handleUndoFormChange({ formId });
+
+      const result = parseResult(await handleRedoFormChange({ formId }));
+      expect(result.redone).toBe(1);
+      expect(form.schema.components).toHaveLength(1);
+    });
+
+    test('rejects a stale expectedVersion without redoing', async () => {
+      const { formId, form } = createForm('Redo');
+      await addField(formId, 'A');
+      const stale = form.version!;
+      await handleUndoFormChange({ formId });
+
+      await expect(handleRedoFormChange({ formId, expectedVersion: stale })).rejects.toThrow(
+        'Version conflict'
+      );
+      expect(getHistoryInfo(form).redoSteps).toBe(1);
+    });
+
+    test('a new change discards the redo stack', async () => {
+      const { formId, form } = createForm('Redo');
+      await addField(formId, 'A');
+      await handleUndoFormChange({ formId });
+      await addField(formId, 'B');
+
+      expect(getHistoryInfo(form).redoSteps).toBe(0);
+      await expect(handleRedoFormChange({ formId })).rejects.toThrow('Nothing to redo');
+    });
+  });
+
+  describe('history depth', () => {
+    test('limits the number of undo steps', async () => {
+      setHistoryDepth(2);
+      expect(getHistoryDepth()).toBe(2);
+      const { formId, form } = createForm('Depth');
+      for (const label of ['A', 'B', 'C', 'D']) await addField(formId, label);
+
+      expect(getHistoryInfo(form).undoSteps).toBe(2);
+      const result = parseResult(await handleUndoFormChange({ formId, steps: 5 }));
+      expect(result.undone).toBe(2);
+      expect(form.schema.components).toHaveLength(2);
+    });
+
+    test('depth 0 disables history', async () => {
+      setHistoryDepth(0);
+      const { formId } = createForm('Off');
+      await addField(formId, 'A');
+      await expect(handleUndoFormChange({ formId })).rejects.toThrow('Nothing to undo');
+    });
+
+    test('rejects negative depth', () => {
+      expect(() => setHistoryDepth(-1)).toThrow('non-negative');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, test, expect, beforeEach } from 'vitest';
 import { clearForms, createForm, parseResult } from '../helpers';
 import { handleSetFormComponentProperties } from '../../src/handlers/properties/set-form-component-properties';
+import { handleRenameFormKey } from '../../src/handlers/properties/rename-form-key';
 import { handleInspectForm } from '../../src/handlers/core/inspect-form';
 
 describe('property handlers', () => {
@@ -46,6 +47,14 @@ describe('property handlers', () => {
   // ── set_form_component_properties ──────────────────────────────────────
 
   describe('set_form_component_properties', () => {
+    test('returns the new version and honours expectedVersion', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'name' }];
+      const args = { formId, componentId: 'a', properties: { label: 'A' }, expectedVersion: 0 };
+      expect(parseResult(await handleSetFormComponentProperties(args)).version).toBe(1);
+      await expect(handleSetFormComponentProperties(args)).rejects.toThrow('Version conflict');
+    });
+
     test('updates properties', async () => {
       const { formId, form } = createForm();
       form.schema.components = [{ type: 'textfield', id: 'a', key: 'name', label: 'Name' }];
@@ -226,6 +235,28 @@ describe('property handlers', () => {
       // Should not be 'notes' since that already exists
       expect(form.schema.components[1].key).not.toBe('notes');
     });
+
+    test('keeps properties the new type supports and drops the others', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [
+        {
+          type: 'textfield',
+          id: 'a',
+          key: 'amount',
+          appearance: { suffixAdorner: 'EUR' },
+          validate: { pattern: '^\\d+$', patternErrorMessage: 'Digits only' },
+        },
+      ];
+      const result = parseResult(
+        await handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { type: 'textarea' },
+        })
+      );
+      expect(result.removed).toEqual(['appearance']);
+      expect(form.schema.components[0].validate?.patternErrorMessage).toBe('Digits only');
+    });
   });
 
   // ── validation via set_form_component_properties ───────────────────────
@@ -285,6 +316,20 @@ describe('property handlers', () => {
       expect(form.schema.components[0].validate?.required).toBe(true);
       expect(form.schema.components[0].validate?.minLength).toBe(3);
     });
+
+    test('sets patternErrorMessage and validationType', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'email' }];
+      await handleSetFormComponentProperties({
+        formId,
+        componentId: 'a',
+        properties: { validate: { validationType: 'email', patternErrorMessage: 'Invalid' } },
+      });
+      expect(form.schema.components[0].validate).toEqual({
+        validationType: 'email',
+        patternErrorMessage: 'Invalid',
+      });
+    });
   });
 
   // ── conditional via set_form_component_properties ──────────────────────
@@ -313,6 +358,25 @@ describe('property handlers', () => {
       });
       expect(form.schema.components[0].conditional).toBeUndefined();
     });
+
+    test('hints at a condition that hides the field permanently', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'name' }];
+      const result = parseResult(
+        await handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { conditional: { hide: '=name = ""' } },
+        })
+      );
+      expect(result._hints).toContainEqual(
+        expect.objectContaining({
+          componentId: 'a',
+          property: 'conditional.hide',
+          message: expect.stringContaining('depends on its own value, "name"'),
+        })
+      );
+    });
   });
 
   // ── layout via set_form_component_properties ───────────────────────────
@@ -493,4 +557,148 @@ describe('property handlers', () => {
       ).rejects.toThrow('Only one');
     });
   });
+
+  // ── property registry checks ───────────────────────────────────────────
+
+  describe('property registry checks', () => {
+    test('sets type-specific properties without warnings', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'datetime', id: 'a', key: 'due' }];
+      const result = parseResult(
+        await handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { subtype: 'date', disallowPassedDates: true, dateLabel: '=dueLabel' },
+        })
+      );
+      expect(result.warnings).toBeUndefined();
+      expect(form.schema.components[0].subtype).toBe('date');
+    });
+
+    test('rejects mistyped values without changing the component', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'number', id: 'a', key: 'amount', label: 'Amount' }];
+      await expect(
+        handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { label: 'Total', decimalDigits: '2' },
+        })
+      ).rejects.toThrow('Property "decimalDigits" of number must be an integer');
+      expect(form.schema.components[0].label).toBe('Amount');
+    });
+
+    test('rejects values outside an enumeration', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'datetime', id: 'a', key: 'due' }];
+      await expect(
+        handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { subtype: 'week' },
+        })
+      ).rejects.toThrow('must be one of date, time, datetime');
+    });
+
+    test('checks values against the new type on a type change', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'group', id: 'g', label: 'Items', components: [] }];
+      await expect(
+        handleSetFormComponentProperties({
+          formId,
+          componentId: 'g',
+          properties: { type: 'dynamiclist', isRepeating: 'yes' },
+        })
+      ).rejects.toThrow('Property "isRepeating" of dynamiclist must be a boolean');
+      expect(form.schema.components[0].type).toBe('group');
+    });
+
+    test('sets unknown properties with a did-you-mean warning', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'group', id: 'g', label: 'Group', components: [] }];
+      const result = parseResult(
+        await handleSetFormComponentProperties({
+          formId,
+          componentId: 'g',
+          properties: { showOutlines: true },
+        })
+      );
+      expect(result.warnings).toEqual([
+        'Unknown property "showOutlines" for type "group". Did you mean "showOutline"?',
+      ]);
+      expect((form.schema.components[0] as any).showOutlines).toBe(true);
+    });
+
+    test('warns about unknown nested properties', async () => {
+      const { formId, form } = createForm();
+      form.schema.components = [{ type: 'textfield', id: 'a', key: 'price' }];
+      const result = parseResult(
+        await handleSetFormComponentProperties({
+          formId,
+          componentId: 'a',
+          properties: { appearance: { prefixAdorners: '$' } },
+        })
+      );
+      expect(result.warnings[0]).toContain('Did you mean "appearance.prefixAdorner"?');
+    });
+  });
+
+  // ── rename_form_key ────────────────────────────────────────────────────
+
+  describe('rename_form_key', () => {
+    function formWithReferences() {
+      const created = createForm();
+      created.form.schema.components = [
+        { type: 'number', id: 'age', key: 'age', label: 'Age' },
+        { type: 'checkbox', id: 'consent', key: 'consent', conditional: { hide: '=age >= 18' } },
+        { type: 'text', id: 'note', text: 'You are {{age}} years old' },
+      ];
+      return created;
+    }
+
+    test('renames the key and rewrites references', async () => {
+      const { formId, form } = formWithReferences();
+      const result = parseResult(
+        await handleRenameFormKey({ formId, componentId: 'age', newKey: 'years' })
+      );
+      expect(result).toMatchObject({ oldKey: 'age', newKey: 'years', dryRun: false, version: 1 });
+      expect(result.message).toBe(
+        'Renamed key "age" to "years" and updated 2 referencing value(s)'
+      );
+      expect(result).not.toHaveProperty('skipped');
+      expect(form.schema.components.map((c) => c.key ?? c.text)).toEqual([
+        'years',
+        'consent',
+        'You are {{years}} years old',
+      ]);
+      expect(form.schema.components[1].conditional?.hide).toBe('=years >= 18');
+    });
+
+    test('previews every edited location without changing the form', async () => {
+      const { formId, form } = formWithReferences();
+      const result = parseResult(
+        await handleRenameFormKey({ formId, componentId: 'age', newKey: 'years', dryRun: true })
+      );
+      expect(result.edits).toHaveLength(3);
+      expect(result.edits[2]).toEqual({
+        componentId: 'note',
+        property: 'text',
+        before: 'You are {{age}} years old',
+        after: 'You are {{years}} years old',
+      });
+      expect(result.message).toContain('Would rename');
+      expect(form.schema.components[0].key).toBe('age');
+      expect(form.version).toBe(0);
+    });
+
+    test('honours expectedVersion and rejects unknown components', async () => {
+      const { formId } = formWithReferences();
+      await expect(
+        handleRenameFormKey({ formId, componentId: 'age', newKey: 'years', expectedVersion: 3 })
+      ).rejects.toThrow('Version conflict');
+      await expect(
+        handleRenameFormKey({ formId, componentId: 'missing', newKey: 'x' })
+      ).rejects.toThrow('missing');
+    });
+  });
 });
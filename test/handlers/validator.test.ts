@@ -193,6 +193,68 @@ describe('validator', () => {
     expect(result.issues.some((i) => i.message.includes('Duplicate key'))).toBe(true);
   });
 
+  // ── Data binding scopes ───────────────────────────────────────────────
+
+  describe('data binding scopes', () => {
+    const addressGroup = (id: string, path: string) => ({
+      type: 'group',
+      id,
+      path,
+      components: [{ type: 'textfield', id: `${id}_street`, key: 'street' }],
+    });
+
+    test('allows the same key under groups with different paths', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [addressGroup('billing', 'billing'), addressGroup('shipping', 'shipping')],
+      };
+      expect(validateFormSchema(schema).issues).toEqual([]);
+    });
+
+    test('reports keys that bind the same full path', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          addressGroup('billing', 'address'),
+          { type: 'textfield', id: 'dotted', key: 'address.street' },
+        ],
+      };
+      const [issue] = validateFormSchema(schema).issues;
+      expect(issue.componentId).toBe('dotted');
+      expect(issue.message).toContain('Duplicate key "address.street"');
+      expect(issue.message).toContain('also at billing_street');
+    });
+
+    test('reports data nested under a value binding', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          { type: 'textfield', id: 'plain', key: 'address' },
+          addressGroup('billing', 'address'),
+        ],
+      };
+      const issues = validateFormSchema(schema).issues;
+      expect(issues.map((i) => i.componentId)).toEqual(['billing', 'billing_street']);
+      expect(issues[1].message).toContain('"address.street" of billing_street overlaps');
+    });
+
+    test('scopes dynamic list items', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          { type: 'textfield', id: 'sku', key: 'sku' },
+          {
+            type: 'dynamiclist',
+            id: 'items',
+            path: 'items',
+            components: [{ type: 'textfield', id: 'itemSku', key: 'sku' }],
+          },
+        ],
+      };
+      expect(validateFormSchema(schema).valid).toBe(true);
+    });
+  });
+
   test('multiple issues in single schema', () => {
     const schema: FormSchema = {
       type: 'default',
@@ -206,4 +268,257 @@ describe('validator', () => {
     expect(result.valid).toBe(false);
     expect(result.issues.length).toBeGreaterThanOrEqual(3);
   });
+
+  // ── FEEL expressions ──────────────────────────────────────────────────
+
+  describe('FEEL expressions', () => {
+    test('accepts well-formed expressions', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          { type: 'number', id: 'a', key: 'amount' },
+          { type: 'textfield', id: 'b', key: 'note', conditional: { hide: '=amount < 100' } },
+          { type: 'expression', id: 'c', key: 'total', expression: '=amount * 1.2' },
+          { type: 'select', id: 'd', key: 'opt', valuesExpression: '=[{label: "A", value: "a"}]' },
+        ],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.issues).toHaveLength(0);
+    });
+
+    test('reports syntax errors in conditional.hide with offset', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          { type: 'textfield', id: 'a', key: 'x', conditional: { hide: '=(amount > 1' } },
+        ],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.valid).toBe(false);
+      const issue = result.issues.find((i) => i.property === 'conditional.hide');
+      expect(issue?.severity).toBe('error');
+      expect(issue?.offset).toBe(1);
+      expect(issue?.message).toContain('Unbalanced brackets');
+    });
+
+    test('reports syntax errors in expression fields and valuesExpression', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [
+          { type: 'expression', id: 'e', key: 'sum', expression: '=a +' },
+          { type: 'select', id: 's', key: 'opt', valuesExpression: '=items[' },
+        ],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.issues.map((i) => i.property)).toEqual(['expression', 'valuesExpression']);
+    });
+
+    test('warns about unknown functions', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [{ type: 'expression', id: 'e', key: 'n', expression: '=lenght(name)' }],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.valid).toBe(true);
+      expect(result.issues[0].severity).toBe('warning');
+      expect(result.issues[0].message).toContain('Unknown function "lenght"');
+    });
+
+    test('warns when conditional.hide lacks the "=" prefix', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [{ type: 'textfield', id: 'a', key: 'x', conditional: { hide: 'x > 1' } }],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.issues[0].severity).toBe('warning');
+      expect(result.issues[0].suggestion).toContain('"="');
+    });
+
+    test('checks "="-prefixed labels', () => {
+      const schema: FormSchema = {
+        type: 'default',
+        components: [{ type: 'textfield', id: 'a', key: 'x', label: '="Hello " +' }],
+      };
+      const result = validateFormSchema(schema);
+      expect(result.issues[0].property).toBe('label');
+    });
+  });
+
+  // ── Execution platform compatibility ──────────────────────────────────
+
+  describe('platform compatibility', () => {
+    function targeting(executionPlatform: string, executionPlatformVersion: string) {
+      return (components: FormSchema['components']): FormSchema => ({
+        type: 'default',
+        executionPlatform,
+        executionPlatformVersion,
+        components,
+      });
+    }
+
+    test('warns about field types newer than the target release', () => {
+      const schema = targeting(
+        'Camunda Cloud',
+        '8.3.0'
+      )([{ type: 'dynamiclist', id: 'List_1', path: 'items', components: [] }]);
+      const result = validateFormSchema(schema);
+      expect(result.valid).toBe(true);
+      const messages = result.issues.map((i) => i.message);
+      expect(messages).toContain(
+        '"dynamiclist" field on List_1 requires Camunda 8.5 or later (form targets Camunda Cloud 8.3.0)'
+      );
+      expect(result.issues.find((i) => i.property === 'path')?.message).toContain('8.4');
+    });
+
+    test('warns about types unsupported on Camunda 7', () => {
+      const schema = targeting(
+        'Camunda Platform',
+        '7.23.0'
+      )([{ type: 'filepicker', id: 'Upload', key: 'upload' }]);
+      const [issue] = validateFormSchema(schema).issues;
+      expect(issue.message).toContain('not supported on Camunda 7');
+      expect(issue.componentId).toBe('Upload');
+    });
+
+    test('checks nested components and properties', () => {
+      const schema = targeting(
+        'Camunda Cloud',
+        '8.0.0'
+      )([
+        {
+          type: 'group',
+          id: 'G',
+          components: [{ type: 'textfield', id: 'T', key: 't', conditional: { hide: '=hidden' } }],
+        },
+      ]);
+      const issues = validateFormSchema(schema).issues;
+      expect(issues.map((i) => i.componentId)).toEqual(['G', 'T']);
+      expect(issues[1].property).toBe('conditional.hide');
+    });
+
+    test('accepts supported features and skips forms without a target', () => {
+      const components = [{ type: 'table', id: 'Tbl' }];
+      expect(validateFormSchema(targeting('Camunda Cloud', '8.8.0')(components)).issues).toEqual(
+        []
+      );
+      expect(validateFormSchema({ type: 'default', components }).issues).toEqual([]);
+    });
+  });
+
+  describe('grid layout', () => {
+    const row = (id: string, row: string, columns?: number) => ({
+      type: 'textfield' as const,
+      id,
+      key: id,
+      layout: columns === undefined ? { row } : { row, columns },
+    });
+
+    test('accepts rows that fit the grid', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [row('a', 'Row_1', 8), row('b', 'Row_1'), row('c', 'Row_2', 16)],
+      });
+      expect(result.issues).toEqual([]);
+    });
+
+    test('reports rows wider than the grid with fitting widths', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [row('a', 'Row_1', 12), row('b', 'Row_1', 12)],
+      });
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          componentId: 'a',
+          property: 'layout.columns',
+          message: 'Row "Row_1" (a, b) is 24 columns wide, but the grid has 16',
+          suggestion: 'Set layout.columns to 8, 8 or move fields to a new row',
+        }),
+      ]);
+    });
+
+    test('reports auto-sized fields left without room', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [row('a', 'Row_1', 16), row('b', 'Row_1')],
+      });
+      expect(result.issues[0].message).toContain('is 16 columns wide plus 1 auto-sized field(s)');
+    });
+
+    test('warns about split rows', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [row('a', 'Row_1', 8), row('b', 'Row_2', 16), row('c', 'Row_1', 8)],
+      });
+      expect(result.valid).toBe(true);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          severity: 'warning',
+          componentId: 'c',
+          message: 'Row "Row_1" is split: c not next to the rest of the row',
+        }),
+      ]);
+    });
+
+    test('warns about rows reused in another container', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [
+          row('a', 'Row_1', 8),
+          row('b', 'Row_1', 8),
+          {
+            type: 'group',
+            id: 'g',
+            components: [row('c', 'Row_1', 8), row('d', 'Row_1', 8)],
+          },
+        ],
+      });
+      expect(result.issues.map((issue) => issue.message)).toEqual([
+        'Row "Row_1" is reused by c, d in g',
+      ]);
+    });
+
+    test('warns about a row holding a single auto-sized field', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [row('a', 'Row_1'), row('b', 'Row_2', 8)],
+      });
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          componentId: 'a',
+          suggestion: 'Set layout.columns on a or remove layout.row',
+        }),
+      ]);
+    });
+  });
+
+  describe('conditional logic', () => {
+    test('reports cyclic expression fields as errors', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [
+          { type: 'expression', id: 'x', key: 'x', expression: '=y' },
+          { type: 'expression', id: 'y', key: 'y', expression: '=x' },
+        ],
+      });
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          componentId: 'x',
+          message: 'Expression fields depend on each other in a cycle: x → y → x',
+        }),
+      ]);
+    });
+
+    test('warns about fields that are never visible', () => {
+      const result = validateFormSchema({
+        type: 'default',
+        components: [{ type: 'textfield', id: 'a', key: 'a', conditional: { hide: '=true' } }],
+      });
+      expect(result.valid).toBe(true);
+      expect(result.issues[0].message).toContain('a is never visible');
+    });
+  });
 });
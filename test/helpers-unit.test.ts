@@ -14,10 +14,13 @@ import {
   isKeyedType,
   isSupportedType,
   collectAllKeys,
+  resolveKey,
   collectAllIds,
   countComponents,
   collectValidationHints,
   mutationResult,
+  VersionConflictError,
+  VERSION_CONFLICT_ERROR_CODE,
 } from '../src/handlers/helpers';
 
 describe('handler helpers', () => {
@@ -59,6 +62,33 @@ describe('handler helpers', () => {
     test('throws when form not found', () => {
       expect(() => requireForm('nonexistent')).toThrow('Form not found');
     });
+
+    test('accepts a matching expectedVersion', () => {
+      const { formId, form } = createForm();
+      form.version = 3;
+      expect(requireForm(formId, 3)).toBe(form);
+    });
+
+    test('throws a version conflict for a stale expectedVersion', () => {
+      const { formId, form } = createForm();
+      form.version = 3;
+      let error: unknown;
+      try {
+        requireForm(formId, 2);
+      } catch (e) {
+        error = e;
+      }
+      expect(error).toBeInstanceOf(VersionConflictError);
+      expect(error).toMatchObject({
+        code: VERSION_CONFLICT_ERROR_CODE,
+        data: { formId, expectedVersion: 2, currentVersion: 3 },
+      });
+    });
+
+    test('rejects an invalid expectedVersion', () => {
+      const { formId } = createForm();
+      expect(() => requireForm(formId, 'latest')).toThrow('non-negative integer');
+    });
   });
 
   // ── requireComponent ──────────────────────────────────────────────────
@@ -239,6 +269,33 @@ describe('handler helpers', () => {
       expect(keys).toContain('age');
     });
 
+    test('collectAllKeys returns keys under a group path with their full path', () => {
+      const components = [
+        {
+          type: 'group',
+          id: 'g1',
+          path: 'billing',
+          components: [{ type: 'textfield', key: 'city' }],
+        },
+      ];
+      expect(collectAllKeys(components)).toEqual(['billing.city']);
+    });
+
+    test('resolveKey only suffixes keys taken in the same scope', () => {
+      const components = [
+        { type: 'textfield', id: 'a', key: 'city' },
+        {
+          type: 'group',
+          id: 'g1',
+          path: 'billing',
+          components: [{ type: 'textfield', key: 'city' }],
+        },
+      ];
+      expect(resolveKey(components, 'city', undefined, 'textfield')).toBe('city1');
+      expect(resolveKey(components, 'city', undefined, 'textfield', 'billing')).toBe('city1');
+      expect(resolveKey(components, 'city', undefined, 'textfield', 'shipping')).toBe('city');
+    });
+
     test('collectAllIds gathers ids recursively', () => {
       const components = [
         { type: 'textfield', id: 'a', key: 'name' },
@@ -322,6 +379,13 @@ describe('handler helpers', () => {
       expect(data._hints.length).toBeGreaterThan(0);
     });
 
+    test('includes the form version', () => {
+      const { form } = createForm();
+      form.version = 7;
+      const data = JSON.parse(mutationResult(form, { ok: true }).content[0].text);
+      expect(data.version).toBe(7);
+    });
+
     test('omits _hints when form is valid', () => {
       const { form } = createForm();
       form.schema.components = [];
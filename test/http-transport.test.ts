@@ -0,0 +1,155 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { startHttpServer, type HttpServerHandle } from '../src/http-transport';
+import { formChangeListenerCount } from '../src/form-manager';
+import { clearForms } from './helpers';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let server: HttpServerHandle;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  async function connect(token = TOKEN): Promise<Client> {
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } },
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    clearForms();
+    server = await startHttpServer({ port: 0, authToken: TOKEN });
+    baseUrl = `http://127.0.0.1:${server.port}`;
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((c) => c.close()));
+    await server.close();
+  });
+
+  test('serves a health endpoint without auth', async () => {
+    const res = await fetch(`${baseUrl}/health`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ status: 'ok', sessions: 0, forms: 0 });
+  });
+
+  test('rejects MCP requests without a valid bearer token', async () => {
+    const res = await fetch(`${baseUrl}/mcp`, { method: 'POST', body: '{}' });
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+
+    await expect(connect('wrong')).rejects.toThrow();
+  });
+
+  test('rejects requests for unknown sessions', async () => {
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        'mcp-session-id': 'nope',
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  test('closes the server of a rejected initialize', async () => {
+    const listeners = formChangeListenerCount();
+    const res = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      // Without `Accept: text/event-stream` the transport rejects the request
+      headers: { Authorization: `Bearer ${TOKEN}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'initialize',
+        params: {
+          protocolVersion: '2025-03-26',
+          capabilities: {},
+          clientInfo: { name: 'test', version: '1.0.0' },
+        },
+      }),
+    });
+    expect(res.status).toBe(406);
+    expect(server.sessionCount()).toBe(0);
+    expect(formChangeListenerCount()).toBe(listeners);
+  });
+
+  test('lists tools over HTTP', async () => {
+    const client = await connect();
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name)).toContain('create_form');
+    expect(server.sessionCount()).toBe(1);
+  });
+
+  test('shares the form store across sessions', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const created = await first.callTool({ name: 'create_form', arguments: { name: 'Shared' } });
+    const { formId } = JSON.parse((created.content as any)[0].text);
+
+    const inspected = await second.callTool({
+      name: 'inspect_form',
+      arguments: { formId, include: ['summary'] },
+    });
+    expect((inspected.content as any)[0].text).toContain('Shared');
+    expect(server.sessionCount()).toBe(2);
+  });
+
+  describe('limits', () => {
+    let limited: HttpServerHandle;
+    let limitedUrl: string;
+
+    const post = (body: string) =>
+      fetch(limitedUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body,
+      });
+
+    beforeEach(async () => {
+      limited = await startHttpServer({ port: 0, sessionIdleMs: 50, maxBodyBytes: 1024 });
+      limitedUrl = `http://127.0.0.1:${limited.port}/mcp`;
+    });
+
+    afterEach(() => limited.close());
+
+    test('closes sessions that stay idle', async () => {
+      const res = await post(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-03-26',
+            capabilities: {},
+            clientInfo: { name: 'test', version: '1.0.0' },
+          },
+        })
+      );
+      expect(res.status).toBe(200);
+      await res.text();
+      expect(limited.sessionCount()).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(limited.sessionCount()).toBe(0);
+    });
+
+    test('rejects request bodies above the size limit', async () => {
+      const res = await post(JSON.stringify({ padding: 'x'.repeat(2048) }));
+      expect(res.status).toBe(413);
+      expect((await res.json()).error.message).toBe('Request body exceeds 1024 bytes');
+    });
+  });
+});
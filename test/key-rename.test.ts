@@ -0,0 +1,212 @@
+import { describe, test, expect } from 'vitest';
+import { renameKey, renamePath } from '../src/key-rename';
+import { type FormComponent, type FormSchema } from '../src/types';
+
+function schemaOf(components: FormComponent[]): FormSchema {
+  return { type: 'default', components };
+}
+
+function find(components: FormComponent[], id: string): FormComponent {
+  for (const comp of components) {
+    if (comp.id === id) return comp;
+    const nested = comp.components && find(comp.components, id);
+    if (nested) return nested;
+  }
+  return undefined as never;
+}
+
+function rename(schema: FormSchema, id: string, newKey: string, dryRun = false) {
+  return renameKey(schema, find(schema.components, id), newKey, { dryRun });
+}
+
+describe('key rename', () => {
+  test('rewrites FEEL references in every property', () => {
+    const schema = schemaOf([
+      { type: 'number', id: 'amount', key: 'amount', label: 'Amount' },
+      {
+        type: 'textfield',
+        id: 'reason',
+        key: 'reason',
+        label: '="Why " + string(amount) + "?"',
+        conditional: { hide: '=amount < 1000 or amounts = null' },
+        validate: { min: '=amount' },
+      },
+      { type: 'expression', id: 'vat', key: 'vat', expression: '=amount * 0.19' },
+    ]);
+
+    const result = rename(schema, 'amount', 'total');
+    expect(result).toMatchObject({ oldKey: 'amount', newKey: 'total', newPath: 'total' });
+    expect(result.edits.map((e) => `${e.componentId}.${e.property}`)).toEqual([
+      'amount.key',
+      'reason.label',
+      'reason.conditional.hide',
+      'reason.validate.min',
+      'vat.expression',
+    ]);
+    expect(schema.components[1]).toMatchObject({
+      label: '="Why " + string(total) + "?"',
+      conditional: { hide: '=total < 1000 or amounts = null' },
+    });
+    expect(schema.components[2].expression).toBe('=total * 0.19');
+  });
+
+  test('rewrites only the key segment of a path and keeps local names', () => {
+    const schema = schemaOf([
+      {
+        type: 'group',
+        id: 'customer',
+        path: 'customer',
+        components: [{ type: 'textfield', id: 'name', key: 'name', label: 'Name' }],
+      },
+      { type: 'textfield', id: 'name2', key: 'name', label: 'Root name' },
+      {
+        type: 'text',
+        id: 'summary',
+        text: '=customer.name + " / " + name + (for name in ["x"] return name)[1]',
+      },
+    ]);
+
+    rename(schema, 'name', 'fullName');
+    expect(schema.components[2].text).toBe(
+      '=customer.fullName + " / " + name + (for name in ["x"] return name)[1]'
+    );
+  });
+
+  test('resolves item fields, this and parent inside dynamic lists', () => {
+    const schema = schemaOf([
+      { type: 'number', id: 'limit', key: 'limit', label: 'Limit' },
+      { type: 'number', id: 'rootQty', key: 'qty', label: 'Default quantity' },
+      {
+        type: 'dynamiclist',
+        id: 'items',
+        path: 'items',
+        conditional: { hide: '=count(items) = 0 or qty = 0' },
+        components: [
+          { type: 'number', id: 'qty', key: 'qty', label: 'Quantity' },
+          {
+            type: 'number',
+            id: 'price',
+            key: 'price',
+            label: 'Price',
+            conditional: { hide: '=qty = 0 or this.qty > parent.limit' },
+          },
+        ],
+      },
+    ]);
+
+    rename(schema, 'qty', 'quantity');
+    expect(schema.components[2].conditional?.hide).toBe('=count(items) = 0 or qty = 0');
+    expect(find(schema.components, 'price').conditional?.hide).toBe(
+      '=quantity = 0 or this.quantity > parent.limit'
+    );
+
+    rename(schema, 'limit', 'maxQuantity');
+    expect(find(schema.components, 'price').conditional?.hide).toBe(
+      '=quantity = 0 or this.quantity > parent.maxQuantity'
+    );
+  });
+
+  test('rewrites text templates, including loops over list items', () => {
+    const schema = schemaOf([
+      { type: 'textfield', id: 'sku', key: 'sku', label: 'Featured SKU' },
+      {
+        type: 'dynamiclist',
+        id: 'lines',
+        path: 'lines',
+        components: [{ type: 'textfield', id: 'lineSku', key: 'sku', label: 'SKU' }],
+      },
+      {
+        type: 'text',
+        id: 'overview',
+        text: '{{#if sku}}Featured: {{sku}}{{/if}}\n{{#loop lines}}- {{ sku }}{{/loop}} {{sku}}',
+      },
+    ]);
+
+    const result = rename(schema, 'lineSku', 'code');
+    expect(schema.components[2].text).toBe(
+      '{{#if sku}}Featured: {{sku}}{{/if}}\n{{#loop lines}}- {{ code }}{{/loop}} {{sku}}'
+    );
+    expect(result.oldPath).toBe('lines[].sku');
+    expect(result.newPath).toBe('lines[].code');
+  });
+
+  test('rewrites valuesKey and backticks keyword segments', () => {
+    const schema = schemaOf([
+      { type: 'textfield', id: 'opts', key: 'options', label: 'Options' },
+      { type: 'select', id: 'choice', key: 'choice', label: 'Choice', valuesKey: 'options' },
+      { type: 'text', id: 'note', text: '=if options = null then "none" else "some"' },
+    ]);
+
+    rename(schema, 'opts', 'for');
+    expect(schema.components[1].valuesKey).toBe('for');
+    expect(schema.components[2].text).toBe('=if `for` = null then "none" else "some"');
+  });
+
+  test('previews edits in dry-run mode without changing the schema', () => {
+    const schema = schemaOf([
+      { type: 'number', id: 'age', key: 'age', label: 'Age' },
+      { type: 'checkbox', id: 'consent', key: 'consent', conditional: { hide: '=age >= 18' } },
+    ]);
+    const before = JSON.stringify(schema);
+
+    const result = rename(schema, 'age', 'years', true);
+    expect(result.edits).toEqual([
+      { componentId: 'age', property: 'key', before: 'age', after: 'years' },
+      {
+        componentId: 'consent',
+        property: 'conditional.hide',
+        before: '=age >= 18',
+        after: '=years >= 18',
+      },
+    ]);
+    expect(JSON.stringify(schema)).toBe(before);
+  });
+
+  test('reports unparsable expressions that mention the old key', () => {
+    const schema = schemaOf([
+      { type: 'number', id: 'age', key: 'age', label: 'Age' },
+      { type: 'checkbox', id: 'a', key: 'a', conditional: { hide: '=age >= (' } },
+      { type: 'checkbox', id: 'b', key: 'b', conditional: { hide: '=other >= (' } },
+    ]);
+    const result = rename(schema, 'age', 'years');
+    expect(result.skipped).toEqual([
+      { componentId: 'a', property: 'conditional.hide', reason: expect.any(String) },
+    ]);
+    expect(schema.components[1].conditional?.hide).toBe('=age >= (');
+  });
+
+  test('renames a group path and the references to data below it', () => {
+    const schema = schemaOf([
+      {
+        type: 'group',
+        id: 'address',
+        path: 'address',
+        conditional: { hide: '=address.zip = null and zip = null' },
+        components: [
+          { type: 'textfield', id: 'zip', key: 'zip' },
+          { type: 'text', id: 'city', text: '{{zip}} {{address.zip}}' },
+        ],
+      },
+      { type: 'text', id: 'summary', text: 'Ships to {{address.zip}}' },
+    ]);
+
+    const result = renamePath(schema, schema.components[0], 'shipping');
+    expect(result).toMatchObject({ oldPath: 'address', newPath: 'shipping' });
+    expect(schema.components[0].path).toBe('shipping');
+    expect(schema.components[0].conditional?.hide).toBe('=shipping.zip = null and zip = null');
+    expect(schema.components[1].text).toBe('Ships to {{shipping.zip}}');
+    expect(() => renamePath(schema, schema.components[1], 'x')).toThrow('has no path');
+  });
+
+  test('rejects invalid, unchanged and clashing keys', () => {
+    const schema = schemaOf([
+      { type: 'textfield', id: 'first', key: 'first', label: 'First' },
+      { type: 'textfield', id: 'last', key: 'last', label: 'Last' },
+      { type: 'text', id: 'intro', text: 'Hello' },
+    ]);
+    expect(() => rename(schema, 'first', 'first name')).toThrow('Invalid key "first name"');
+    expect(() => rename(schema, 'first', 'first')).toThrow('already has key "first"');
+    expect(() => rename(schema, 'first', 'last')).toThrow('last is already bound by last');
+    expect(() => rename(schema, 'intro', 'x')).toThrow('Component "intro" has no key');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, test, expect } from 'vitest';
+import { migrateSchema, SCHEMA_MIGRATIONS, type SchemaMigration } from '../src/migrations';
+import { type FormSchema, type FormComponent } from '../src/types';
+import { DEFAULT_SCHEMA_VERSION } from '../src/constants';
+
+function schema(schemaVersion: number | undefined, components: FormComponent[]): FormSchema {
+  return { type: 'default', schemaVersion, components };
+}
+
+/** A migration that tags every textfield, to exercise the engine. */
+const tagTextfields = (version: number): SchemaMigration => ({
+  version,
+  name: `tag-${version}`,
+  description: 'Tag textfields',
+  up(comp, record) {
+    if (comp.type !== 'textfield') return;
+    comp.description = `v${version}`;
+    record(comp, `tagged ${comp.key}`);
+  },
+});
+
+describe('schema migrations', () => {
+  test('registry is ordered and within the current schema version', () => {
+    const versions = SCHEMA_MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions.every((v) => v <= DEFAULT_SCHEMA_VERSION)).toBe(true);
+  });
+
+  test('upgrades old schemas without changing their components', () => {
+    const components: FormComponent[] = [
+      { type: 'textfield', id: 'a', key: 'a', conditional: { hide: '=x' } },
+      { type: 'dynamiclist', id: 'list', path: 'items', isRepeating: true, components: [] },
+      { type: 'image', id: 'img', source: 'logo.png', alt: 'Logo' },
+    ];
+    const s = schema(4, structuredClone(components));
+    const report = migrateSchema(s);
+    expect(report).toEqual({
+      fromVersion: 4,
+      toVersion: DEFAULT_SCHEMA_VERSION,
+      applied: [],
+      changes: [],
+    });
+    expect(s.components).toEqual(components);
+    expect(s.schemaVersion).toBe(DEFAULT_SCHEMA_VERSION);
+  });
+
+  test('never lowers the schema version', () => {
+    const s = schema(19, [{ type: 'dynamiclist', id: 'list', path: 'items', components: [] }]);
+    const report = migrateSchema(s, 11);
+    expect(report).toMatchObject({ fromVersion: 19, toVersion: 19 });
+    expect(s.schemaVersion).toBe(19);
+    expect(s.components[0].type).toBe('dynamiclist');
+  });
+
+  test('treats schemas without a version as current', () => {
+    const s = schema(undefined, []);
+    expect(migrateSchema(s)).toMatchObject({ fromVersion: DEFAULT_SCHEMA_VERSION });
+  });
+
+  test('runs the migrations above the schema version up to the target', () => {
+    const s = schema(5, [
+      {
+        type: 'group',
+        id: 'g',
+        components: [{ type: 'textfield', id: 'name', key: 'name' }],
+      },
+    ]);
+    const migrations = [tagTextfields(5), tagTextfields(8), tagTextfields(11), tagTextfields(14)];
+    const report = migrateSchema(s, 11, migrations);
+    expect(report.applied).toEqual(['tag-8', 'tag-11']);
+    expect(report.changes).toEqual([
+      { migration: 'tag-8', componentId: 'name', message: 'tagged name' },
+      { migration: 'tag-11', componentId: 'name', message: 'tagged name' },
+    ]);
+    expect(s.components[0].components![0].description).toBe('v11');
+    expect(s.schemaVersion).toBe(11);
+  });
+
+  test('lists only migrations that changed something', () => {
+    const s = schema(4, [{ type: 'number', id: 'n', key: 'n' }]);
+    const report = migrateSchema(s, DEFAULT_SCHEMA_VERSION, [tagTextfields(8)]);
+    expect(report.applied).toEqual([]);
+    expect(report.changes).toEqual([]);
+  });
+});
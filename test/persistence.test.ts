@@ -3,7 +3,7 @@
  */
 
 import { describe, test, expect, beforeEach, afterEach } from 'vitest';
-import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync, rmSync } from 'node:fs';
 import { join } from 'node:path';
 import { tmpdir } from 'node:os';
 import { randomBytes } from 'node:crypto';
@@ -16,15 +16,23 @@ import {
   persistForm,
   deletePersistedForm,
   loadForms,
+  getRecoveryReport,
+  reloadFormFromDisk,
 } from '../src/persistence';
 import {
   clearForms as clearStore,
   storeForm,
   deleteForm,
   getForm,
+  renameForm,
+  addFormChangeListener,
   createEmptySchema,
   generateFormId,
+  notifyFormChanged,
+  type FormChangeEvent,
 } from '../src/form-manager';
+import { getHistoryInfo, undoChange } from '../src/history';
+import { bumpVersion } from '../src/handlers/helpers';
 
 /** Create a fresh temporary directory for each test. */
 function makeTmpDir(): string {
@@ -294,6 +302,27 @@ describe('persistence', () => {
       expect(loaded).toBe(1);
       expect(getForm(formId)).toBeDefined();
     });
+
+    test('renameForm updates the meta.json entry', () => {
+      enablePersistence(tmpDir);
+      storeForm('renamed', { schema: createEmptySchema(), name: 'Old', version: 0 });
+
+      renameForm('renamed', 'New');
+      const meta = JSON.parse(readFileSync(join(tmpDir, 'meta.json'), 'utf-8'));
+      expect(meta.forms.renamed.name).toBe('New');
+    });
+
+    test('coexists with other change listeners', () => {
+      enablePersistence(tmpDir);
+      const seen: string[] = [];
+      const unsubscribe = addFormChangeListener((event) => seen.push(event.type));
+
+      storeForm('shared', { schema: createEmptySchema(), version: 0 });
+      unsubscribe();
+
+      expect(seen).toEqual(['created']);
+      expect(existsSync(join(tmpDir, 'shared.form'))).toBe(true);
+    });
   });
 
   // ── Corruption handling ──────────────────────────────────────────────────
@@ -329,4 +358,212 @@ describe('persistence', () => {
       expect(loaded).toBe(1);
     });
   });
+
+  // ── Atomic writes, backups and recovery ────────────────────────────────────
+
+  describe('backups and recovery', () => {
+    const backupDir = (formId: string) => join(tmpDir, '.backups', formId);
+
+    function persistRevisions(formId: string, count: number): void {
+      for (let i = 1; i <= count; i++) {
+        const schema = { ...createEmptySchema(), id: `Rev ${i}` };
+        persistForm(formId, { schema, name: 'Revs', version: i });
+      }
+    }
+
+    test('leaves no temp files behind', () => {
+      enablePersistence(tmpDir);
+      persistRevisions('f1', 2);
+      expect(readdirSync(tmpDir).filter((f) => f.endsWith('.tmp'))).toEqual([]);
+    });
+
+    test('keeps the newest N revisions as backups', () => {
+      enablePersistence(tmpDir, { backupCount: 3 });
+      persistRevisions('f1', 5);
+      expect(readdirSync(backupDir('f1')).sort()).toEqual([
+        '000003.form',
+        '000004.form',
+        '000005.form',
+      ]);
+      const newest = JSON.parse(readFileSync(join(backupDir('f1'), '000005.form'), 'utf-8'));
+      expect(newest.id).toBe('Rev 5');
+    });
+
+    test('backupCount 0 disables backups', () => {
+      enablePersistence(tmpDir, { backupCount: 0 });
+      persistRevisions('f1', 1);
+      expect(existsSync(backupDir('f1'))).toBe(false);
+    });
+
+    test('deleting a form removes its backups', () => {
+      enablePersistence(tmpDir);
+      persistRevisions('f1', 2);
+      deletePersistedForm('f1');
+      expect(existsSync(backupDir('f1'))).toBe(false);
+    });
+
+    test('restores a truncated form from the newest valid backup', () => {
+      enablePersistence(tmpDir);
+      persistRevisions('f1', 2);
+      disablePersistence();
+      clearStore();
+
+      writeFileSync(join(tmpDir, 'f1.form'), '{"type": "default", "compo', 'utf-8');
+      writeFileSync(join(backupDir('f1'), '000002.form'), '', 'utf-8');
+
+      expect(enablePersistence(tmpDir)).toBe(1);
+      expect(getForm('f1')!.schema.id).toBe('Rev 1');
+      expect(getRecoveryReport()).toEqual([
+        {
+          file: 'f1.form',
+          formId: 'f1',
+          action: 'restored',
+          restoredFrom: join('.backups', 'f1', '000001.form'),
+          reason: 'Form file is truncated or invalid',
+        },
+      ]);
+    });
+
+    test('restores a missing form file listed in meta.json', () => {
+      enablePersistence(tmpDir);
+      persistRevisions('f1', 1);
+      disablePersistence();
+      clearStore();
+      rmSync(join(tmpDir, 'f1.form'));
+
+      expect(enablePersistence(tmpDir)).toBe(1);
+      expect(getRecoveryReport()[0]).toMatchObject({
+        action: 'restored',
+        reason: 'Form file is missing',
+      });
+    });
+
+    test('reports forms without a valid backup and removes stale temp files', () => {
+      writeFileSync(join(tmpDir, 'broken.form'), 'not json', 'utf-8');
+      writeFileSync(join(tmpDir, 'broken.form.123.tmp'), '{', 'utf-8');
+
+      expect(enablePersistence(tmpDir)).toBe(0);
+      expect(existsSync(join(tmpDir, 'broken.form.123.tmp'))).toBe(false);
+      expect(getRecoveryReport().map((r) => r.action)).toEqual(['removed-temp', 'unrecoverable']);
+    });
+
+    test('rebuilds an unreadable meta.json from the form files', () => {
+      writeFileSync(join(tmpDir, 'meta.json'), '{"forms": {', 'utf-8');
+      writeFileSync(
+        join(tmpDir, 'a.form'),
+        JSON.stringify({ ...createEmptySchema(), id: 'A' }),
+        'utf-8'
+      );
+
+      expect(enablePersistence(tmpDir)).toBe(1);
+      const meta = JSON.parse(readFileSync(join(tmpDir, 'meta.json'), 'utf-8'));
+      expect(meta.forms.a).toEqual({ name: 'A', file: 'a.form' });
+      expect(getRecoveryReport()).toContainEqual(
+        expect.objectContaining({ file: 'meta.json', action: 'rebuilt' })
+      );
+    });
+  });
+
+  // ── External edits ─────────────────────────────────────────────────────────
+
+  describe('external edits', () => {
+    function externalSchema(id: string): string {
+      return JSON.stringify({
+        ...createEmptySchema(),
+        id,
+        components: [{ type: 'text', id: 't' }],
+      });
+    }
+
+    function storePersisted(formId: string): void {
+      enablePersistence(tmpDir, { watch: false });
+      storeForm(formId, { schema: createEmptySchema(), name: 'Original', version: 0 });
+    }
+
+    test('reloads an edited file through storeForm', () => {
+      storePersisted('f1');
+      const events: FormChangeEvent[] = [];
+      addFormChangeListener((e) => events.push(e));
+
+      writeFileSync(join(tmpDir, 'f1.form'), externalSchema('Edited'), 'utf-8');
+      expect(reloadFormFromDisk('f1')).toBe('reloaded');
+
+      const form = getForm('f1')!;
+      expect(form.schema.id).toBe('Edited');
+      expect(form.name).toBe('Original');
+      expect(form.version).toBe(1);
+      expect(events).toEqual([
+        expect.objectContaining({ type: 'mutated', changedComponentIds: ['t'] }),
+      ]);
+      // The external file is not rewritten in our format
+      expect(readFileSync(join(tmpDir, 'f1.form'), 'utf-8')).toBe(externalSchema('Edited'));
+    });
+
+    test('ignores files the server wrote itself', () => {
+      storePersisted('f1');
+      expect(reloadFormFromDisk('f1')).toBe('unchanged');
+    });
+
+    test('loads new files and skips half-written ones', () => {
+      storePersisted('f1');
+      writeFileSync(join(tmpDir, 'f2.form'), externalSchema('New'), 'utf-8');
+      writeFileSync(join(tmpDir, 'f3.form'), '{"components": [', 'utf-8');
+
+      expect(reloadFormFromDisk('f2')).toBe('loaded');
+      expect(getForm('f2')!.name).toBe('New');
+      expect(reloadFormFromDisk('f3')).toBe('invalid');
+      expect(getForm('f3')).toBeUndefined();
+    });
+
+    test('keeps in-memory changes and preserves a conflicting external edit', () => {
+      storePersisted('f1');
+      const events: FormChangeEvent[] = [];
+      addFormChangeListener((e) => events.push(e));
+      writeFileSync(join(tmpDir, 'f1.form'), externalSchema('External'), 'utf-8');
+
+      // A mutation lands before the watcher reloads the file
+      const form = getForm('f1')!;
+      form.schema.components.push({ type: 'textfield', id: 'mine', key: 'mine' });
+      form.version = 1;
+      notifyFormChanged('f1', ['mine']);
+
+      const conflict = events.find((e) => e.type === 'conflict');
+      expect(conflict).toMatchObject({
+        formId: 'f1',
+        conflict: { version: 1, syncedVersion: 0 },
+      });
+      expect(form.externalConflict).toBeDefined();
+      const onDisk = JSON.parse(readFileSync(join(tmpDir, 'f1.form'), 'utf-8'));
+      expect(onDisk.components[0].id).toBe('mine');
+      const preserved = readFileSync(join(tmpDir, form.externalConflict!.preservedAs!), 'utf-8');
+      expect(preserved).toBe(externalSchema('External'));
+      expect(reloadFormFromDisk('f1')).toBe('unchanged');
+    });
+
+    test('records the reload as an undoable step', () => {
+      storePersisted('f1');
+      const form = getForm('f1')!;
+      form.schema.components.push({ type: 'textfield', id: 'mine', key: 'mine' });
+      bumpVersion(form, 'f1');
+
+      writeFileSync(join(tmpDir, 'f1.form'), externalSchema('Edited'), 'utf-8');
+      expect(reloadFormFromDisk('f1')).toBe('reloaded');
+      const reloaded = getForm('f1')!;
+      expect(getHistoryInfo(reloaded)).toEqual({ undoSteps: 2, redoSteps: 0 });
+
+      expect(undoChange(reloaded)).toBe(1);
+      expect(reloaded.schema.components.map((c) => c.id)).toEqual(['mine']);
+    });
+
+    test('watches the directory for changes', async () => {
+      enablePersistence(tmpDir);
+      storeForm('f1', { schema: createEmptySchema(), name: 'Watched', version: 0 });
+      writeFileSync(join(tmpDir, 'f1.form'), externalSchema('Watched edit'), 'utf-8');
+
+      for (let i = 0; i < 50 && getForm('f1')!.schema.id !== 'Watched edit'; i++) {
+        await new Promise((r) => setTimeout(r, 50));
+      }
+      expect(getForm('f1')!.schema.id).toBe('Watched edit');
+    });
+  });
 });
@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'vitest';
+import {
+  COMPATIBILITY_RULES,
+  PLATFORM_RELEASES,
+  compareVersions,
+  maxSchemaVersionFor,
+} from '../src/platform-compat';
+import { DEFAULT_SCHEMA_VERSION } from '../src/constants';
+
+describe('platform releases', () => {
+  test('maps platform releases to schema versions', () => {
+    expect(maxSchemaVersionFor('Camunda Cloud', '8.8.0')).toBe(19);
+    expect(maxSchemaVersionFor('Camunda Cloud', '8.3.2')).toBe(11);
+    expect(maxSchemaVersionFor('Camunda Platform', '7.22.0')).toBe(16);
+    expect(maxSchemaVersionFor('Camunda Platform', '7.23.0')).toBe(17);
+  });
+
+  test('handles unknown and out-of-range versions', () => {
+    expect(maxSchemaVersionFor('Camunda Cloud', '9.1.0')).toBe(DEFAULT_SCHEMA_VERSION);
+    expect(maxSchemaVersionFor('Camunda Cloud', '7.0.0')).toBe(4);
+    expect(maxSchemaVersionFor('Camunda Platform', '7.30.0')).toBe(DEFAULT_SCHEMA_VERSION);
+    expect(maxSchemaVersionFor('Other', '1.0')).toBeUndefined();
+    expect(maxSchemaVersionFor(undefined, undefined)).toBeUndefined();
+  });
+
+  test('compareVersions compares numerically', () => {
+    expect(compareVersions('8.10', '8.9')).toBeGreaterThan(0);
+    expect(compareVersions('8.3', '8.3.0')).toBe(0);
+  });
+
+  test('release table is ordered and ends at the current schema version', () => {
+    const versions = PLATFORM_RELEASES.map((r) => r.schemaVersion);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions.at(-1)).toBe(DEFAULT_SCHEMA_VERSION);
+  });
+
+  test('rules pair Camunda 8 and Camunda 7 releases like the release table', () => {
+    const schemaVersionOf = (camunda8: string) =>
+      PLATFORM_RELEASES.find((r) => r.camunda8 === camunda8)?.schemaVersion;
+    for (const rule of COMPATIBILITY_RULES) {
+      if (!rule.camunda8 || !rule.camunda7) continue;
+      const schemaVersion = schemaVersionOf(rule.camunda8);
+      expect(schemaVersion, `${rule.type ?? rule.property}`).toBeDefined();
+      const camunda7 = PLATFORM_RELEASES.find(
+        (r) => r.camunda7 && r.schemaVersion >= schemaVersion!
+      )?.camunda7;
+      expect(rule.camunda7, `${rule.type ?? rule.property}`).toBe(camunda7);
+    }
+  });
+});
@@ -50,6 +50,11 @@ describe('prompts', () => {
       expect(result.messages[1].content.text).toContain('decision');
     });
 
+    test('create-approval-form points to the approval template', () => {
+      const result = getPrompt('create-approval-form', { formName: 'Review' });
+      expect(result.messages[1].content.text).toContain('template: "approval"');
+    });
+
     test('add-conditional-section returns messages', () => {
       const result = getPrompt('add-conditional-section', {
         formId: 'form_123',
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import {
+  PROPERTY_REGISTRY,
+  checkComponentProperties,
+  supportsProperty,
+} from '../src/property-registry';
+import { SUPPORTED_FIELD_TYPES, CONTAINER_FIELD_TYPES } from '../src/constants';
+import { validateFormSchema } from '../src/validator';
+
+describe('property registry', () => {
+  test('has an entry for every supported field type', () => {
+    expect(Object.keys(PROPERTY_REGISTRY).sort()).toEqual([...SUPPORTED_FIELD_TYPES].sort());
+  });
+
+  test('lists exactly the types with child components as containers', () => {
+    const withChildren = SUPPORTED_FIELD_TYPES.filter((t) => supportsProperty(t, 'components'));
+    expect(withChildren.sort()).toEqual([...CONTAINER_FIELD_TYPES].sort());
+  });
+
+  test('knows type-specific properties', () => {
+    expect(supportsProperty('dynamiclist', 'defaultRepetitions')).toBe(true);
+    expect(supportsProperty('filepicker', 'accept')).toBe(true);
+    expect(supportsProperty('table', 'rowCount')).toBe(true);
+    expect(supportsProperty('group', 'isRepeating')).toBe(false);
+    expect(supportsProperty('text', 'key')).toBe(false);
+    expect(supportsProperty('fancywidget', 'label')).toBe(false);
+    expect(supportsProperty('documentPreview', 'dataSource')).toBe(true);
+    expect(supportsProperty('iframe', 'components')).toBe(false);
+  });
+
+  test('accepts FEEL expressions where the property allows them', () => {
+    const comp = { type: 'filepicker', id: 'f', key: 'file', multiple: '=allowMany' };
+    expect(checkComponentProperties(comp)).toEqual([]);
+    const validate = { required: '=mandatory', min: '=low', max: 9, minLength: '=n', maxLength: 5 };
+    expect(checkComponentProperties({ type: 'number', id: 'n', key: 'n', validate })).toEqual([]);
+    expect(
+      checkComponentProperties({ type: 'textfield', id: 't', key: 't', validate: { min: 'one' } })
+    ).toEqual([
+      expect.objectContaining({ message: expect.stringContaining('or a FEEL expression') }),
+    ]);
+  });
+
+  test('reports mistyped values as errors', () => {
+    const comp = { type: 'table', id: 't', rowCount: 2.5, columns: 'a,b' } as any;
+    expect(checkComponentProperties(comp)).toEqual([
+      expect.objectContaining({
+        severity: 'error',
+        property: 'rowCount',
+        message: 'Property "rowCount" of table must be an integer',
+      }),
+      expect.objectContaining({ severity: 'error', property: 'columns' }),
+    ]);
+  });
+
+  test('reports unknown properties as warnings with a suggestion', () => {
+    const comp = { type: 'number', id: 'n', key: 'n', decimalDigit: 2, validate: { minimum: 1 } };
+    const issues = checkComponentProperties(comp as any);
+    expect(issues.map((issue) => [issue.severity, issue.property, issue.suggestion])).toEqual([
+      ['warning', 'decimalDigit', 'Did you mean "decimalDigits"?'],
+      ['warning', 'validate.minimum', expect.stringContaining('Supported: required')],
+    ]);
+  });
+
+  test('checks only the given values', () => {
+    const comp = { type: 'spacer', id: 's', height: 'tall' } as any;
+    expect(checkComponentProperties(comp, { height: 40 })).toEqual([]);
+  });
+
+  test('drives the validator', () => {
+    const result = validateFormSchema({
+      type: 'default',
+      components: [
+        { type: 'group', id: 'g', showOutline: 'true', components: [] } as any,
+        { type: 'button', id: 'b', label: 'Go', action: 'submit' },
+      ],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      expect.objectContaining({ componentId: 'g', property: 'showOutline', severity: 'error' }),
+    ]);
+  });
+});
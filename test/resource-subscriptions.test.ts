@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../src/server';
+import { deleteForm } from '../src/form-manager';
+import { handleAddFormComponent } from '../src/handlers/components/add-form-component';
+import { clearForms, createForm } from './helpers';
+
+describe('resource subscriptions', () => {
+  let client: Client;
+  let updates: string[];
+
+  beforeEach(async () => {
+    clearForms();
+    updates = [];
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createServer().connect(serverTransport);
+    client = new Client({ name: 'test', version: '1.0.0' });
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+      updates.push(n.params.uri);
+    });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  /** Let in-memory notifications reach the client. */
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test('advertises the subscribe capability', () => {
+    expect(client.getServerCapabilities()?.resources?.subscribe).toBe(true);
+  });
+
+  test('notifies subscribers when the form changes', async () => {
+    const { formId } = createForm('Sub');
+    const { formId: otherId } = createForm('Other');
+    await client.subscribeResource({ uri: `form://forms/${formId}/schema` });
+
+    await handleAddFormComponent({ formId: otherId, type: 'textfield', label: 'Ignored' });
+    await handleAddFormComponent({ formId, type: 'textfield', label: 'Name' });
+    await flush();
+
+    expect(updates).toEqual([`form://forms/${formId}/schema`]);
+  });
+
+  test('notifies form list subscribers about every form', async () => {
+    await client.subscribeResource({ uri: 'form://forms' });
+    const { formId } = createForm('Listed');
+    deleteForm(formId);
+    await flush();
+
+    expect(updates).toEqual(['form://forms', 'form://forms']);
+  });
+
+  test('stops notifying after unsubscribe', async () => {
+    const { formId } = createForm('Unsub');
+    const uri = `form://forms/${formId}/summary`;
+    await client.subscribeResource({ uri });
+    await client.unsubscribeResource({ uri });
+
+    await handleAddFormComponent({ formId, type: 'textfield', label: 'Name' });
+    await flush();
+    expect(updates).toEqual([]);
+  });
+
+  test('rejects subscriptions to unknown resources', async () => {
+    await expect(client.subscribeResource({ uri: 'form://nope' })).rejects.toThrow(
+      'Cannot subscribe'
+    );
+  });
+});
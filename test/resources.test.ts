@@ -11,8 +11,15 @@ describe('resources', () => {
   // ── Template definitions ─────────────────────────────────────────────────
 
   describe('resource templates', () => {
-    test('has 2 templates', () => {
-      expect(RESOURCE_TEMPLATES.length).toBe(2);
+    test('has 7 templates', () => {
+      expect(RESOURCE_TEMPLATES.length).toBe(7);
+    });
+
+    test('includes per-form templates', () => {
+      const uris = RESOURCE_TEMPLATES.map((t) => t.uriTemplate);
+      for (const facet of ['schema', 'summary', 'validation', 'variables']) {
+        expect(uris).toContain(`form://forms/{formId}/${facet}`);
+      }
     });
 
     test('each template has uriTemplate, name, and description', () => {
@@ -51,6 +58,16 @@ describe('resources', () => {
   // ── readResource ─────────────────────────────────────────────────────────
 
   describe('readResource', () => {
+    test('reads form://templates', () => {
+      const content = readResource('form://templates');
+      const data = JSON.parse(content.text);
+      expect(data.templatesDir).toBeNull();
+      expect(data.templates.map((t: any) => t.name)).toContain('invoice');
+      expect(data.templates[0].parameters).toBeDefined();
+      expect(data.templates[0].components).toBeUndefined();
+      expect(data.fragments.map((f: any) => f.name)).toContain('bank-details');
+    });
+
     test('reads form://forms', () => {
       createForm('A');
       createForm('B');
@@ -73,7 +90,28 @@ describe('resources', () => {
       expect(() => readResource('form://unknown')).toThrow('Unknown resource');
     });
 
-    test('throws for removed per-form resource URIs', () => {
+    test('reads per-form resources', () => {
+      const { formId, form } = createForm('Test');
+      form.schema.components.push({ type: 'textfield', id: 'Name', key: 'name' });
+
+      const schema = JSON.parse(readResource(`form://forms/${formId}/schema`).text);
+      expect(schema.components).toHaveLength(1);
+
+      const summary = JSON.parse(readResource(`form://forms/${formId}/summary`).text);
+      expect(summary.totalComponents).toBe(1);
+
+      const validation = JSON.parse(readResource(`form://forms/${formId}/validation`).text);
+      expect(validation.valid).toBe(true);
+
+      const variables = JSON.parse(readResource(`form://forms/${formId}/variables`).text);
+      expect(variables.inputKeys).toEqual(['name']);
+    });
+
+    test('throws for per-form resources of unknown forms', () => {
+      expect(() => readResource('form://forms/missing/schema')).toThrow('Form not found');
+    });
+
+    test('throws for legacy per-form resource URIs', () => {
       const { formId } = createForm('Test');
       expect(() => readResource(`form://form/${formId}/schema`)).toThrow('Unknown resource');
       expect(() => readResource(`form://form/${formId}/summary`)).toThrow('Unknown resource');
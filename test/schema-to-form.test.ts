@@ -0,0 +1,132 @@
+import { describe, test, expect } from 'vitest';
+import { componentsFromJsonSchema, inferJsonSchema } from '../src/schema-to-form';
+import { buildDataSchema } from '../src/data-schema';
+
+describe('componentsFromJsonSchema', () => {
+  test('maps enums, booleans, numbers, dates and arrays to field types', () => {
+    const components = componentsFromJsonSchema({
+      type: 'object',
+      properties: {
+        priority: { enum: ['low', 'high'] },
+        country: { type: 'string', enum: ['DE', 'FR', 'IT', 'ES', 'NL'] },
+        accepted: { type: 'boolean' },
+        quantity: { type: 'integer', minimum: 1 },
+        dueDate: { type: 'string', format: 'date' },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+        comment: { type: 'string', maxLength: 1000 },
+      },
+    });
+    expect(components.map((c) => [c.type, c.key])).toEqual([
+      ['radio', 'priority'],
+      ['select', 'country'],
+      ['checkbox', 'accepted'],
+      ['number', 'quantity'],
+      ['datetime', 'dueDate'],
+      ['checklist', 'tags'],
+      ['textarea', 'comment'],
+    ]);
+    expect(components[0].values).toEqual([
+      { label: 'Low', value: 'low' },
+      { label: 'High', value: 'high' },
+    ]);
+    expect(components[3]).toMatchObject({ decimalDigits: 0, validate: { min: 1 } });
+    expect(components[4]).toMatchObject({ subtype: 'date', label: 'Due date' });
+  });
+
+  test('maps required and string constraints to validate rules', () => {
+    const [email, code] = componentsFromJsonSchema({
+      type: 'object',
+      required: ['email'],
+      properties: {
+        email: { type: 'string', format: 'email', title: 'E-mail', description: 'Work address' },
+        code: { type: 'string', minLength: 3, pattern: '^[A-Z]+$' },
+      },
+    });
+    expect(email).toMatchObject({
+      label: 'E-mail',
+      description: 'Work address',
+      validate: { required: true, validationType: 'email' },
+    });
+    expect(code.validate).toEqual({ minLength: 3, pattern: '^[A-Z]+$' });
+  });
+
+  test('builds groups for objects and dynamic lists for arrays of objects', () => {
+    const components = componentsFromJsonSchema({
+      type: 'object',
+      $defs: { line: { type: 'object', properties: { amount: { type: 'number' } } } },
+      properties: {
+        name: { type: 'string' },
+        customer: { type: 'object', properties: { name: { type: 'string' } } },
+        lines: { type: 'array', items: { $ref: '#/$defs/line' } },
+      },
+    });
+    expect(components[1]).toMatchObject({ type: 'group', path: 'customer', label: 'Customer' });
+    expect(components[1].components![0]).toMatchObject({ type: 'textfield', key: 'name' });
+    expect(components[2]).toMatchObject({ type: 'dynamiclist', path: 'lines', isRepeating: true });
+    expect(components[2].components![0]).toMatchObject({ type: 'number', key: 'amount' });
+    expect(new Set(components.map((c) => c.id)).size).toBe(3);
+  });
+
+  test('derives keys for property names that are not valid keys', () => {
+    const [field] = componentsFromJsonSchema({
+      type: 'object',
+      properties: { 'first name': { type: 'string' } },
+    });
+    expect(field.key).toBe('firstname');
+  });
+
+  test('round-trips through the data schema', () => {
+    const jsonSchema = {
+      type: 'object',
+      required: ['title'],
+      properties: {
+        title: { type: 'string', maxLength: 20 },
+        address: { type: 'object', properties: { city: { type: 'string' } } },
+      },
+    };
+    const data = buildDataSchema({
+      type: 'default',
+      components: componentsFromJsonSchema(jsonSchema),
+    });
+    expect(data.required).toEqual(['title']);
+    expect(data.properties!.title).toMatchObject({ type: 'string', maxLength: 20 });
+    expect(data.properties!.address.properties!.city).toMatchObject({ type: 'string' });
+  });
+});
+
+describe('inferJsonSchema', () => {
+  test('infers types and formats from sample values', () => {
+    expect(
+      inferJsonSchema({
+        count: 3,
+        ratio: 0.5,
+        active: true,
+        email: 'jane@example.com',
+        born: '1990-01-01',
+        at: '2024-05-01T10:00:00Z',
+        labels: ['x'],
+        lines: [{ a: 1 }, { b: 'y' }],
+        missing: null,
+      })
+    ).toEqual({
+      type: 'object',
+      properties: {
+        count: { type: 'integer' },
+        ratio: { type: 'number' },
+        active: { type: 'boolean' },
+        email: { type: 'string', format: 'email' },
+        born: { type: 'string', format: 'date' },
+        at: { type: 'string', format: 'date-time' },
+        labels: { type: 'array', items: { type: 'string' } },
+        lines: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: { a: { type: 'integer' }, b: { type: 'string' } },
+          },
+        },
+        missing: { type: 'string' },
+      },
+    });
+  });
+});
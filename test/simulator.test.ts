@@ -0,0 +1,216 @@
+import { describe, test, expect } from 'vitest';
+import { simulateForm } from '../src/simulator';
+import { type FormSchema, type FormComponent } from '../src/types';
+
+function schema(components: FormComponent[]): FormSchema {
+  return { type: 'default', id: 'Form_1', schemaVersion: 19, components };
+}
+
+describe('simulateForm', () => {
+  // ── Conditions ─────────────────────────────────────────────────────────
+
+  describe('conditional.hide', () => {
+    const form = schema([
+      { type: 'checkbox', id: 'hasCompany', key: 'hasCompany' },
+      {
+        type: 'group',
+        id: 'company',
+        conditional: { hide: '=not(hasCompany)' },
+        components: [
+          {
+            type: 'textfield',
+            id: 'companyName',
+            key: 'companyName',
+            validate: { required: true },
+          },
+        ],
+      },
+    ]);
+
+    test('hides containers together with their children', () => {
+      const result = simulateForm(form, { hasCompany: false });
+      expect(result.hidden).toEqual(['company', 'companyName']);
+    });
+
+    test('does not validate hidden fields', () => {
+      expect(simulateForm(form, { hasCompany: false }).valid).toBe(true);
+
+      const shown = simulateForm(form, { hasCompany: true });
+      expect(shown.hidden).toEqual([]);
+      expect(shown.errors).toEqual([
+        expect.objectContaining({ componentId: 'companyName', rule: 'required' }),
+      ]);
+    });
+  });
+
+  // ── Options ────────────────────────────────────────────────────────────
+
+  test('resolves static, input-data and expression options', () => {
+    const result = simulateForm(
+      schema([
+        { type: 'select', id: 'static', key: 'a', values: [{ label: 'One', value: '1' }] },
+        { type: 'radio', id: 'fromKey', key: 'b', valuesKey: 'choices' },
+        { type: 'checklist', id: 'fromExpr', key: 'c', valuesExpression: '=choices[value > 1]' },
+        { type: 'taglist', id: 'unresolved', key: 'd', valuesKey: 'missing' },
+      ]),
+      {
+        choices: [
+          { label: 'Low', value: 1 },
+          { label: 'High', value: 2 },
+        ],
+      }
+    );
+
+    expect(result.options.static).toEqual([{ label: 'One', value: '1' }]);
+    expect(result.options.fromKey).toHaveLength(2);
+    expect(result.options.fromExpr).toEqual([{ label: 'High', value: 2 }]);
+    expect(result.options.unresolved).toBeNull();
+  });
+
+  // ── Validation ─────────────────────────────────────────────────────────
+
+  test('reports form-js validation messages', () => {
+    const result = simulateForm(
+      schema([
+        { type: 'number', id: 'age', key: 'age', validate: { min: 18, max: 99 } },
+        {
+          type: 'textfield',
+          id: 'code',
+          key: 'code',
+          validate: { minLength: 3, pattern: '^[A-Z]+$' },
+        },
+        { type: 'textfield', id: 'email', key: 'email', validate: { validationType: 'email' } },
+        { type: 'textfield', id: 'phone', key: 'phone', validate: { validationType: 'phone' } },
+        { type: 'textfield', id: 'note', key: 'note', validate: { maxLength: 2 } },
+      ]),
+      { age: 12, code: 'ab', email: 'nope', phone: '+4930664040900', note: 'long' }
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => [e.componentId, e.rule, e.message])).toEqual([
+      ['age', 'min', 'Field must have minimum value of 18.'],
+      ['code', 'minLength', 'Field must have minimum length of 3.'],
+      ['code', 'pattern', 'Field must match pattern ^[A-Z]+$.'],
+      ['email', 'validationType', 'Field must be a valid email.'],
+      ['note', 'maxLength', 'Field must have maximum length of 2.'],
+    ]);
+  });
+
+  test('uses custom error messages', () => {
+    const result = simulateForm(
+      schema([
+        {
+          type: 'textfield',
+          id: 'zip',
+          key: 'zip',
+          validate: { pattern: '^\\d{5}$', patternErrorMessage: 'Five digits please' },
+        },
+      ]),
+      { zip: '12' }
+    );
+    expect(result.errors[0].message).toBe('Five digits please');
+  });
+
+  test('reports an invalid pattern as a warning instead of failing', () => {
+    const result = simulateForm(
+      schema([
+        { type: 'textfield', id: 'code', key: 'code', validate: { pattern: '([A-Z' } },
+        { type: 'textfield', id: 'name', key: 'name', validate: { minLength: 3 } },
+      ]),
+      { code: 'AB', name: 'x' }
+    );
+    expect(result.errors.map((e) => e.componentId)).toEqual(['name']);
+    expect(result.warnings).toEqual([
+      expect.stringMatching(/^validate\.pattern of code: Invalid regular expression/),
+    ]);
+  });
+
+  test('checks phone numbers like form-js', () => {
+    const field = {
+      type: 'textfield' as const,
+      key: 'phone',
+      validate: { validationType: 'phone' as const },
+    };
+    const failures = ['+4930664040900', '004930664040900', '4930664040900', '+99930664040900'].map(
+      (phone) => simulateForm(schema([{ ...field, id: 'phone' }]), { phone }).errors.length
+    );
+    expect(failures).toEqual([0, 0, 1, 1]);
+  });
+
+  // ── Expressions and scoping ────────────────────────────────────────────
+
+  test('computes expression fields, including forward references', () => {
+    const result = simulateForm(
+      schema([
+        { type: 'expression', id: 'total', key: 'total', expression: '=subtotal * 1.5' },
+        { type: 'expression', id: 'subtotal', key: 'subtotal', expression: '=price * qty' },
+        {
+          type: 'textfield',
+          id: 'flag',
+          key: 'flag',
+          conditional: { hide: '=total < 100' },
+        },
+      ]),
+      { price: 10, qty: 4 }
+    );
+
+    expect(result.computed).toEqual({ total: 60, subtotal: 40 });
+    expect(result.data).toMatchObject({ price: 10, qty: 4, total: 60, subtotal: 40 });
+    expect(result.hidden).toEqual(['flag']);
+  });
+
+  test('evaluates dynamic list children per item', () => {
+    const result = simulateForm(
+      schema([
+        {
+          type: 'dynamiclist',
+          id: 'items',
+          path: 'items',
+          components: [
+            { type: 'number', id: 'amount', key: 'amount', validate: { required: true } },
+            {
+              type: 'textfield',
+              id: 'reason',
+              key: 'reason',
+              conditional: { hide: '=amount < 100' },
+            },
+          ],
+        },
+      ]),
+      { items: [{ amount: 50 }, {}] }
+    );
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: 'items[1].amount', rule: 'required' }),
+    ]);
+    expect(result.hidden).toEqual(['reason']);
+  });
+
+  test('reads group fields from the group path', () => {
+    const result = simulateForm(
+      schema([
+        {
+          type: 'group',
+          id: 'address',
+          path: 'address',
+          components: [
+            { type: 'textfield', id: 'city', key: 'city', validate: { required: true } },
+          ],
+        },
+      ]),
+      { address: { city: '' } }
+    );
+    expect(result.errors[0].path).toBe('address.city');
+  });
+
+  test('reports expressions that cannot be evaluated as warnings', () => {
+    const input = { a: 1 };
+    const result = simulateForm(
+      schema([{ type: 'textfield', id: 'x', key: 'x', conditional: { hide: '=unknownFn(a)' } }]),
+      input
+    );
+    expect(result.hidden).toEqual([]);
+    expect(result.warnings[0]).toContain('conditional.hide of x');
+    expect(input).toEqual({ a: 1 });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, test, expect, afterEach } from 'vitest';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomBytes } from 'node:crypto';
+import {
+  BUILT_IN_FRAGMENTS,
+  BUILT_IN_TEMPLATES,
+  clearSessionFragments,
+  findFragment,
+  findTemplate,
+  listFragments,
+  saveFragment,
+  instantiateTemplate,
+  listTemplates,
+  setTemplatesDir,
+  type FormTemplate,
+} from '../src/templates';
+import { validateFormSchema } from '../src/validator';
+import { createEmptySchema } from '../src/form-manager';
+
+const greeting: FormTemplate = {
+  name: 'greeting',
+  description: 'Test template',
+  parameters: {
+    label: { description: 'Field label', default: 'Name' },
+    key: { description: 'Field key' },
+    choices: { description: 'Options', type: 'options', default: ['a', 'b'] },
+  },
+  components: [
+    { type: 'textfield', key: '${key}', label: '${label} (${key})' },
+    { type: 'select', key: '${key}Choice', label: 'Choice', values: '${choices}' },
+    { type: 'text', text: 'Hello {{name}}' },
+  ],
+};
+
+describe('instantiateTemplate', () => {
+  test('substitutes labels, keys and option lists', () => {
+    const [field, select, text] = instantiateTemplate(greeting, {
+      key: 'customer',
+      choices: ['x', { label: 'Why', value: 'y' }],
+    });
+    expect(field).toMatchObject({ key: 'customer', label: 'Name (customer)' });
+    expect(select.key).toBe('customerChoice');
+    expect(select.values).toEqual([
+      { label: 'x', value: 'x' },
+      { label: 'Why', value: 'y' },
+    ]);
+    // form-js templating is left alone
+    expect(text.text).toBe('Hello {{name}}');
+  });
+
+  test('assigns fresh component IDs', () => {
+    const first = instantiateTemplate(greeting, { key: 'a' });
+    const second = instantiateTemplate(greeting, { key: 'a' });
+    expect(first[0].id).toMatch(/^Textfield_/);
+    expect(first[0].id).not.toBe(second[0].id);
+    expect(greeting.components[0].id).toBeUndefined();
+  });
+
+  test('rejects unknown, missing and malformed parameters', () => {
+    expect(() => instantiateTemplate(greeting, { key: 'a', colour: 'red' })).toThrow(
+      'Unknown parameter "colour"'
+    );
+    expect(() => instantiateTemplate(greeting, {})).toThrow('requires parameter "key"');
+    expect(() => instantiateTemplate(greeting, { key: 'a', choices: [] })).toThrow(
+      'non-empty list of options'
+    );
+    expect(() => instantiateTemplate(greeting, { key: { nested: true } })).toThrow(
+      'must be a string'
+    );
+  });
+
+  test('leaves placeholders of undeclared parameters alone', () => {
+    const form: FormTemplate = { ...greeting, components: [{ type: 'text', text: '${other}' }] };
+    expect(instantiateTemplate(form, { key: 'a' })[0].text).toBe('${other}');
+  });
+
+  test('rejects option lists used inside a string', () => {
+    const broken: FormTemplate = {
+      ...greeting,
+      components: [{ type: 'text', text: 'Pick ${choices}' }],
+    };
+    expect(() => instantiateTemplate(broken, { key: 'a' })).toThrow('whole property value');
+  });
+
+  test('escapes parameters inside FEEL string literals', () => {
+    const components = instantiateTemplate(findTemplate('approval')!, {
+      rejectValue: 'say "no" \\ later',
+    });
+    expect(components[3].conditional).toEqual({
+      hide: '=approved != "say \\"no\\" \\\\ later"',
+    });
+  });
+
+  test('rejects parameters that are not valid keys or FEEL names', () => {
+    expect(() => instantiateTemplate(greeting, { key: 'first name' })).toThrow(
+      'invalid key "first name"'
+    );
+    expect(() =>
+      instantiateTemplate(findTemplate('approval')!, { approvalField: 'x or true' })
+    ).toThrow('invalid key "x or true"');
+    const feel: FormTemplate = {
+      ...greeting,
+      components: [{ type: 'text', text: 'Hi', conditional: { hide: '=${label} > 1' } }],
+    };
+    expect(() => instantiateTemplate(feel, { key: 'a', label: 'a) or (true' })).toThrow(
+      'must be a valid key or a number'
+    );
+    expect(instantiateTemplate(feel, { key: 'a', label: '10' })[0].conditional).toEqual({
+      hide: '=10 > 1',
+    });
+  });
+
+  test.each(BUILT_IN_TEMPLATES.map((t) => t.name))(
+    'built-in template %s instantiates to a valid form',
+    (name) => {
+      const schema = createEmptySchema();
+      schema.components = instantiateTemplate(findTemplate(name)!);
+      const { issues } = validateFormSchema(schema);
+      expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+      expect(JSON.stringify(schema)).not.toContain('${');
+    }
+  );
+});
+
+describe('template library', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    setTemplatesDir(undefined);
+    clearSessionFragments();
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  function templatesDir(files: Record<string, unknown>): string {
+    dir = join(tmpdir(), `form-js-mcp-templates-${randomBytes(6).toString('hex')}`);
+    mkdirSync(dir, { recursive: true });
+    for (const [file, content] of Object.entries(files)) {
+      writeFileSync(
+        join(dir, file),
+        typeof content === 'string' ? content : JSON.stringify(content)
+      );
+    }
+    setTemplatesDir(dir);
+    return dir;
+  }
+
+  test('lists the built-in templates', () => {
+    const names = listTemplates().templates.map((t) => t.name);
+    expect(names).toEqual(['approval', 'contact-details', 'address', 'invoice']);
+    expect(listTemplates().templates.every((t) => t.source === 'built-in')).toBe(true);
+  });
+
+  test('loads user templates and plain forms from the templates directory', () => {
+    templatesDir({
+      'greeting.json': { ...greeting, name: undefined },
+      'intake.form': { type: 'default', components: [{ type: 'textfield', key: 'topic' }] },
+      'notes.txt': 'ignored',
+    });
+    const { templates, invalid } = listTemplates();
+    expect(invalid).toEqual([]);
+    expect(findTemplate('greeting')).toMatchObject({ source: 'user', file: 'greeting.json' });
+    expect(findTemplate('intake')?.parameters).toEqual({});
+    expect(templates).toHaveLength(6);
+  });
+
+  test('user templates replace built-in templates of the same name', () => {
+    templatesDir({ 'mine.json': { ...greeting, name: 'invoice' } });
+    expect(findTemplate('invoice')).toMatchObject({ source: 'user', description: 'Test template' });
+    expect(listTemplates().templates).toHaveLength(4);
+  });
+
+  test('reports invalid template files', () => {
+    templatesDir({
+      'broken.json': '{ not json',
+      'empty.json': { name: 'empty' },
+      'typo.json': { components: [{ type: 'text', text: '${title}' }] },
+    });
+    const { invalid } = listTemplates();
+    expect(invalid.map((i) => i.file)).toEqual(['broken.json', 'empty.json', 'typo.json']);
+    expect(invalid[1].reason).toContain('"components" array');
+    expect(invalid[2].reason).toContain('Undeclared parameter(s): title');
+  });
+
+  test('saves fragments to the fragments folder of the templates directory', () => {
+    const root = templatesDir({});
+    const fragment = { ...greeting, name: 'my-block', parameters: {}, components: [] };
+    expect(saveFragment(fragment)).toMatchObject({
+      source: 'user',
+      file: 'fragments/my-block.json',
+    });
+    expect(existsSync(join(root, 'fragments', 'my-block.json'))).toBe(true);
+    expect(findFragment('my-block')).toMatchObject({ source: 'user' });
+    expect(() => saveFragment(fragment)).toThrow('already exists');
+    expect(() => saveFragment({ ...fragment, name: '../escape' })).toThrow('Invalid fragment name');
+  });
+
+  test('keeps fragments for the session without a templates directory', () => {
+    saveFragment({ ...greeting, name: 'scratch' });
+    expect(findFragment('scratch')?.source).toBe('session');
+    expect(listFragments().templates).toHaveLength(BUILT_IN_FRAGMENTS.length + 1);
+  });
+});
+
+describe('built-in fragments', () => {
+  test.each(BUILT_IN_FRAGMENTS.map((f) => f.name))('fragment %s instantiates cleanly', (name) => {
+    const schema = createEmptySchema();
+    schema.components = instantiateTemplate(findFragment(name)!);
+    const { issues } = validateFormSchema(schema);
+    expect(issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+  });
+});
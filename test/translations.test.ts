@@ -0,0 +1,223 @@
+import { describe, test, expect } from 'vitest';
+import {
+  type TranslationCatalog,
+  applyCatalog,
+  buildCatalog,
+  compareCatalog,
+  detectCatalogFormat,
+  formatCatalog,
+  parseCatalog,
+  unaddressableStrings,
+} from '../src/translations';
+import { type FormSchema } from '../src/types';
+
+function sampleSchema(): FormSchema {
+  return {
+    type: 'default',
+    id: 'Form_1',
+    components: [
+      { type: 'text', id: 'intro', text: '# Request' },
+      {
+        type: 'textfield',
+        id: 'name',
+        key: 'name',
+        label: 'Name',
+        description: 'As in your passport',
+        validate: { required: true, validationError: 'Enter your name' },
+      },
+      {
+        type: 'select',
+        id: 'status',
+        key: 'status',
+        label: '=labelExpression',
+        values: [
+          { label: 'Approved', value: 'approved' },
+          { label: 'Rejected', value: 'rejected' },
+        ],
+      },
+      {
+        type: 'group',
+        id: 'details',
+        label: 'Details',
+        components: [{ type: 'button', id: 'submit', label: 'Submit', action: 'submit' }],
+      },
+    ],
+  };
+}
+
+const german: Record<string, string> = {
+  'intro.text': '# Antrag',
+  'name.label': 'Name',
+  'name.description': 'Wie im Reisepass',
+  'name.validate.validationError': 'Geben Sie Ihren Namen ein',
+  'status.values.approved.label': 'Genehmigt',
+  'status.values.rejected.label': 'Abgelehnt',
+  'details.label': 'Details',
+  'submit.label': 'Absenden',
+};
+
+function translated(schema: FormSchema): TranslationCatalog {
+  const catalog = buildCatalog(schema, { sourceLocale: 'en', targetLocale: 'de' });
+  for (const message of catalog.messages) message.translation = german[message.id];
+  return catalog;
+}
+
+describe('translations', () => {
+  test('extracts translatable strings with stable IDs, skipping FEEL expressions', () => {
+    const catalog = buildCatalog(sampleSchema(), { sourceLocale: 'en', targetLocale: 'de' });
+    expect(catalog).toMatchObject({ sourceLocale: 'en', targetLocale: 'de', form: 'Form_1' });
+    expect(catalog.messages).toEqual([
+      { id: 'intro.text', source: '# Request' },
+      { id: 'name.label', source: 'Name' },
+      { id: 'name.description', source: 'As in your passport' },
+      { id: 'name.validate.validationError', source: 'Enter your name' },
+      { id: 'status.values.approved.label', source: 'Approved' },
+      { id: 'status.values.rejected.label', source: 'Rejected' },
+      { id: 'details.label', source: 'Details' },
+      { id: 'submit.label', source: 'Submit' },
+    ]);
+  });
+
+  test('gives repeated option values unique IDs', () => {
+    const schema = sampleSchema();
+    schema.components[2].values!.push({ label: 'Approved (again)', value: 'approved' });
+    const { schema: localized } = applyCatalog(schema, {
+      sourceLocale: 'en',
+      messages: [
+        { id: 'status.values.approved.label', source: 'Approved', translation: 'Genehmigt' },
+        {
+          id: 'status.values.approved[1].label',
+          source: 'Approved (again)',
+          translation: 'Nochmals genehmigt',
+        },
+      ],
+    });
+    expect(localized.components[2].values!.map((v) => v.label)).toEqual([
+      'Genehmigt',
+      'Rejected',
+      'Nochmals genehmigt',
+    ]);
+  });
+
+  test('reports strings of components without an ID', () => {
+    const schema = sampleSchema();
+    schema.components.push({ type: 'text', text: 'Thank you' });
+    schema.components[3].components!.push({ type: 'button', label: 'Reset', action: 'reset' });
+    expect(unaddressableStrings(schema)).toEqual([
+      'components[3].components[1].label',
+      'components[4].text',
+    ]);
+    expect(compareCatalog(schema, translated(schema)).unaddressable).toHaveLength(2);
+  });
+
+  test('applies a catalog to a copy of the schema', () => {
+    const schema = sampleSchema();
+    const { schema: localized, report } = applyCatalog(schema, translated(schema));
+
+    expect(report).toEqual({
+      translated: 8,
+      missing: [],
+      stale: [],
+      obsolete: [],
+      unaddressable: [],
+    });
+    expect(localized.components[1]).toMatchObject({
+      id: 'name',
+      key: 'name',
+      description: 'Wie im Reisepass',
+      validate: { required: true, validationError: 'Geben Sie Ihren Namen ein' },
+    });
+    expect(localized.components[2].label).toBe('=labelExpression');
+    expect(localized.components[2].values?.map((v) => v.label)).toEqual(['Genehmigt', 'Abgelehnt']);
+    expect(localized.components[3].components?.[0].label).toBe('Absenden');
+    expect(schema.components[3].components?.[0].label).toBe('Submit');
+  });
+
+  test('reports missing, stale and obsolete translations after the form changed', () => {
+    const schema = sampleSchema();
+    const catalog = translated(schema);
+    schema.components[1].label = 'Full name';
+    schema.components[3].components!.push({ type: 'button', id: 'reset', label: 'Reset' });
+    schema.components.shift();
+
+    const { schema: localized, report } = applyCatalog(schema, catalog);
+    expect(report.missing).toEqual(['reset.label']);
+    expect(report.stale).toEqual([
+      { id: 'name.label', source: 'Full name', catalogSource: 'Name' },
+    ]);
+    expect(report.obsolete).toEqual(['intro.text']);
+    expect(report.translated).toBe(6);
+    // Untranslated strings keep the source text
+    expect(localized.components[0].label).toBe('Full name');
+    expect(localized.components[2].components?.[1].label).toBe('Reset');
+  });
+
+  test('re-extracting keeps translations and flags those whose source changed', () => {
+    const schema = sampleSchema();
+    const previous = translated(schema);
+    schema.components[1].description = 'As in your ID card';
+
+    const catalog = buildCatalog(schema, { sourceLocale: 'en', targetLocale: 'de' }, previous);
+    expect(catalog.messages.find((m) => m.id === 'name.description')).toEqual({
+      id: 'name.description',
+      source: 'As in your ID card',
+      translation: 'Wie im Reisepass',
+      stale: true,
+    });
+    expect(catalog.messages.find((m) => m.id === 'name.label')).not.toHaveProperty('stale');
+    expect(compareCatalog(schema, catalog).stale.map((s) => s.id)).toEqual(['name.description']);
+  });
+
+  describe('formats', () => {
+    const catalog: TranslationCatalog = {
+      sourceLocale: 'en',
+      targetLocale: 'de',
+      form: 'Form_1',
+      messages: [
+        { id: 'intro.text', source: 'Say "hi" & <wave>\nthen\tgo \\ home' },
+        { id: 'name.label', source: 'Name', translation: 'Name' },
+        { id: 'name.description', source: 'New text', translation: 'Alter Text', stale: true },
+      ],
+    };
+
+    test.each(['json', 'po', 'xliff'] as const)('round-trips a %s catalog', (format) => {
+      const text = formatCatalog(catalog, format);
+      expect(detectCatalogFormat(text)).toBe(format);
+      expect(parseCatalog(text)).toEqual(catalog);
+    });
+
+    test('writes PO entries with the message ID as msgctxt and stale ones as fuzzy', () => {
+      const po = formatCatalog(catalog, 'po');
+      expect(po).toContain('"Language: de\\n"');
+      expect(po).toContain(
+        '#, fuzzy\nmsgctxt "name.description"\nmsgid "New text"\nmsgstr "Alter Text"'
+      );
+      expect(po).toContain('msgid "Say \\"hi\\" & <wave>\\nthen\\tgo \\\\ home"');
+    });
+
+    test('reads PO strings split over several lines', () => {
+      const po = 'msgctxt "a.label"\nmsgid ""\n"Long "\n"label"\nmsgstr "Langes "\n"Label"\n';
+      expect(parseCatalog(po).messages).toEqual([
+        { id: 'a.label', source: 'Long label', translation: 'Langes Label' },
+      ]);
+    });
+
+    test('writes XLIFF 1.2 trans-units with escaped text and review states', () => {
+      const xliff = formatCatalog(catalog, 'xliff');
+      expect(xliff).toContain('source-language="en" target-language="de"');
+      expect(xliff).toContain('<source>Say &quot;hi&quot; &amp; &lt;wave&gt;');
+      expect(xliff).toContain('<target state="needs-review-translation">Alter Text</target>');
+    });
+
+    test('accepts JSON catalogs as objects and rejects malformed input', () => {
+      expect(parseCatalog({ messages: { 'a.label': { source: 'A' } } })).toEqual({
+        sourceLocale: 'en',
+        messages: [{ id: 'a.label', source: 'A' }],
+      });
+      expect(() => parseCatalog('{ nope')).toThrow('Invalid JSON translation catalog');
+      expect(() => parseCatalog({ messages: { a: {} } })).toThrow('has no "source" text');
+      expect(() => parseCatalog('msgid "x"\nmsgstr "y"')).toThrow('has no msgctxt');
+      expect(() => parseCatalog('<xliff/>')).toThrow('no <file> element');
+    });
+  });
+});